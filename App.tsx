@@ -1,15 +1,25 @@
 import React, { useState, useEffect, useCallback } from 'react';
+import { liveQuery } from 'dexie';
 import { UserRole } from './constants';
 // Fix: Import SearchResult from types.ts where it is now defined.
 import type { AppState, Course, Lesson, User, Student, Teacher, SearchResult } from './types';
 import Header from './components/Header';
 import StudentDashboard from './components/StudentDashboard';
 import TeacherDashboard from './components/TeacherDashboard';
+import AdminDashboard from './components/AdminDashboard';
 import LessonView from './components/LessonView';
 import AuthScreen from './components/AuthScreen';
+import ChangePasswordScreen from './components/ChangePasswordScreen';
+import PendingApprovalScreen from './components/PendingApprovalScreen';
 import { getCurrentUser, logout } from './services/authService';
 // Fix: Removed incorrect SearchResult import from here. The type is now correctly imported from './types'.
-import { syncDown, processSyncQueue } from './services/syncService';
+import { syncNow } from './services/syncService';
+import { resumeVideoDownloads } from './services/resumableDownloadService';
+import { checkVideoIntegrity } from './services/integrityService';
+import { reconcileSession } from './services/offlineAuthService';
+import { switchAway } from './services/deviceRosterService';
+import { startRealtimeSync } from './services/realtimeService';
+import { getCourse } from './services/offlineContentService';
 
 
 const App: React.FC = () => {
@@ -21,21 +31,40 @@ const App: React.FC = () => {
   });
   const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  // Set when an offline sign-in couldn't be handed over to the server.
+  const [isOfflineSessionEnded, setIsOfflineSessionEnded] = useState(false);
+
+  // An offline sign-in has to become a server session before anything can sync.
+  const reconcileOfflineSignIn = useCallback(async (): Promise<boolean> => {
+    const result = await reconcileSession().catch(error => {
+      console.error('Failed to reconcile the offline sign-in:', error);
+      return 'offline' as const;
+    });
+    if (result !== 'sign_in_again') return true;
+    setIsOfflineSessionEnded(true);
+    setAppState({ currentUser: null, currentView: 'AUTH', selectedCourse: null, selectedLesson: null });
+    return false;
+  }, []);
 
   const handleLogin = useCallback(async (user: User) => {
     setIsLoading(true);
-    // Fix: Process the sync queue before syncing down to prevent data loss.
-    // This pushes any local changes (like a new course) to the server first.
-    await processSyncQueue();
-    // On login, fetch all latest data from Supabase
-    await syncDown();
+    setIsOfflineSessionEnded(false);
+    if (!(await reconcileOfflineSignIn())) {
+      setIsLoading(false);
+      return;
+    }
+    // Push any local changes (like a new course) before fetching the latest data from Supabase.
+    await syncNow();
+    resumeVideoDownloads();
+    // Hashes the videos on this device in the background, fetching broken ones again.
+    checkVideoIntegrity().catch(error => console.error('Video integrity check failed:', error));
     setAppState({
       ...appState,
       currentUser: user,
       currentView: 'DASHBOARD',
     });
     setIsLoading(false);
-  }, [appState]);
+  }, [appState, reconcileOfflineSignIn]);
 
   // Check session on initial load
   useEffect(() => {
@@ -52,12 +81,11 @@ const App: React.FC = () => {
     // Setup online/offline listeners
     const handleOnline = async () => {
         setIsOnline(true);
-        console.log("Back online, processing sync queue...");
-        await processSyncQueue();
-        // Optionally, trigger a sync down as well to get changes made on other devices
-        if(appState.currentUser) {
-            await syncDown();
-        }
+        console.log("Back online, syncing...");
+        if (!(await reconcileOfflineSignIn())) return;
+        // Pushes the offline queue, then pulls changes made on other devices.
+        await syncNow();
+        await resumeVideoDownloads();
     };
     const handleOffline = () => setIsOnline(false);
 
@@ -70,6 +98,34 @@ const App: React.FC = () => {
     };
   }, []); // Run only once
 
+  // Course and lesson changes stream in while someone is signed in.
+  const currentUserId = appState.currentUser?.id;
+  useEffect(() => {
+    if (!currentUserId) return;
+    return startRealtimeSync();
+  }, [currentUserId]);
+
+  // Keeps the open course current when it changes underneath the lesson view, e.g. the
+  // teacher adds a lesson while a student has the course open.
+  const selectedCourseId = appState.selectedCourse?.id;
+  useEffect(() => {
+    if (!selectedCourseId) return;
+    const subscription = liveQuery(() => getCourse(selectedCourseId)).subscribe({
+      next: course => setAppState(prev => {
+        if (prev.selectedCourse?.id !== selectedCourseId) return prev;
+        const lesson = course?.lessons.find(l => l.id === prev.selectedLesson?.id) || course?.lessons[0];
+        if (!course || !lesson) {
+          return { ...prev, currentView: 'DASHBOARD', selectedCourse: null, selectedLesson: null };
+        }
+        // An unchanged lesson keeps its identity, so its video doesn't reload.
+        const isLessonUnchanged = JSON.stringify(lesson) === JSON.stringify(prev.selectedLesson);
+        return { ...prev, selectedCourse: course, selectedLesson: isLessonUnchanged ? prev.selectedLesson : lesson };
+      }),
+      error: error => console.error('Failed to observe the open course:', error),
+    });
+    return () => subscription.unsubscribe();
+  }, [selectedCourseId]);
+
   const handleLogout = useCallback(async () => {
     await logout();
     setAppState({
@@ -80,6 +136,32 @@ const App: React.FC = () => {
     });
   }, []);
 
+  // Hands a shared device to the next student without signing this one out.
+  const handleSwitchUser = useCallback(async () => {
+    await switchAway();
+    setAppState({
+        currentUser: null,
+        currentView: 'AUTH',
+        selectedCourse: null,
+        selectedLesson: null,
+    });
+  }, []);
+
+  const handlePasswordChanged = useCallback((user: User) => {
+    setAppState(prev => ({ ...prev, currentUser: user }));
+  }, []);
+
+  // Pulls the teacher's profile again; once approved, the device syncs their class.
+  const handleCheckApproval = useCallback(async () => {
+    await syncNow({ manual: true });
+    const user = await getCurrentUser();
+    if (!user) {
+      setAppState({ currentUser: null, currentView: 'AUTH', selectedCourse: null, selectedLesson: null });
+    } else if (user.status !== 'pending') {
+      await handleLogin(user);
+    }
+  }, [handleLogin]);
+
   const handleSelectCourse = useCallback((course: Course) => {
       if (course.lessons.length > 0) {
         setAppState(prev => ({
@@ -125,19 +207,32 @@ const App: React.FC = () => {
     }
     
     if (!appState.currentUser) {
-        return <AuthScreen onLogin={handleLogin} />;
+        return <AuthScreen onLogin={handleLogin} isOfflineSessionEnded={isOfflineSessionEnded} />;
+    }
+
+    // A teacher reset the password: nothing else until the user has chosen a new one.
+    if (appState.currentUser.mustChangePassword) {
+        return <ChangePasswordScreen user={appState.currentUser} onChanged={handlePasswordChanged} />;
+    }
+
+    // A teacher who registered waits for the administrator before seeing any class.
+    if (appState.currentUser.status === 'pending') {
+        return <PendingApprovalScreen user={appState.currentUser} onCheckAgain={handleCheckApproval} onLogout={handleLogout} />;
     }
 
     switch (appState.currentView) {
       case 'DASHBOARD':
         if (appState.currentUser.role === UserRole.STUDENT) {
           const studentUser = { ...appState.currentUser, name: appState.currentUser.username } as Student;
-          return <StudentDashboard user={studentUser} onSelectCourse={handleSelectCourse} />;
+          return <StudentDashboard user={studentUser} onSelectCourse={handleSelectCourse} isOnline={isOnline} />;
         }
         if (appState.currentUser.role === UserRole.TEACHER) {
           const teacherUser = { ...appState.currentUser, name: appState.currentUser.username } as Teacher;
           return <TeacherDashboard user={teacherUser} />;
         }
+        if (appState.currentUser.role === UserRole.ADMIN) {
+          return <AdminDashboard user={appState.currentUser} />;
+        }
         return null;
       case 'LESSON':
         if (appState.selectedCourse && appState.selectedLesson && appState.currentUser) {
@@ -156,7 +251,7 @@ const App: React.FC = () => {
         handleBackToDashboard();
         return null;
       default:
-         return <AuthScreen onLogin={handleLogin} />;
+         return <AuthScreen onLogin={handleLogin} isOfflineSessionEnded={isOfflineSessionEnded} />;
     }
   };
 
@@ -167,6 +262,7 @@ const App: React.FC = () => {
           user={{...appState.currentUser, name: appState.currentUser.username}}
           isOnline={isOnline}
           onLogout={handleLogout}
+          onSwitchUser={appState.currentUser.role === UserRole.STUDENT ? handleSwitchUser : undefined}
           onSearchSelect={handleSearchSelect}
         />
       )}
@@ -0,0 +1,292 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { User } from '../types';
+import { UserRole } from '../constants';
+import {
+    getSchoolAccounts, getSchoolAnalytics, approveTeacher, deactivateAccount, reactivateAccount, assignTeacherClass,
+    type SchoolAccount, type ClassSummary,
+} from '../services/adminService';
+import { isNetworkError } from '../services/syncService';
+import { useTranslation } from '../hooks/useTranslation';
+import ConfirmationModal from './ConfirmationModal';
+
+interface AdminDashboardProps {
+  user: User;
+}
+
+type AdminTab = 'accounts' | 'analytics';
+
+const statusKeys = {
+    pending: 'account_status_pending',
+    active: 'account_status_active',
+    deactivated: 'account_status_deactivated',
+} as const;
+
+const statusClassNames: Record<SchoolAccount['status'], string> = {
+    pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300',
+    active: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+    deactivated: 'bg-slate-200 text-slate-600 dark:bg-slate-700 dark:text-slate-300',
+};
+
+const CLASSES = Array.from({ length: 12 }, (_, i) => i + 1);
+
+// For the school's administrator: approving teachers, their classes, who can sign in, and
+// how every class is doing.
+const AdminDashboard: React.FC<AdminDashboardProps> = ({ user }) => {
+    const [accounts, setAccounts] = useState<SchoolAccount[]>([]);
+    const [analytics, setAnalytics] = useState<ClassSummary[]>([]);
+    const [activeTab, setActiveTab] = useState<AdminTab>('accounts');
+    const [studentClassFilter, setStudentClassFilter] = useState<number | ''>('');
+    const [busyAccountId, setBusyAccountId] = useState<string | null>(null);
+    const [toDeactivate, setToDeactivate] = useState<SchoolAccount | null>(null);
+    const [error, setError] = useState('');
+    const { t } = useTranslation();
+
+    const fetchData = useCallback(async () => {
+        setAccounts(await getSchoolAccounts());
+        setAnalytics(await getSchoolAnalytics());
+    }, []);
+
+    useEffect(() => {
+        fetchData();
+    }, [fetchData]);
+
+    // Every change goes to the server first, so it needs the network.
+    const changeAccount = async (account: SchoolAccount, change: () => Promise<void>) => {
+        setError('');
+        setBusyAccountId(account.id);
+        try {
+            await change();
+            await fetchData();
+        } catch (err: any) {
+            console.error('Failed to change the account:', err);
+            setError(isNetworkError(err) ? t('account_change_needs_internet') : err.message);
+        } finally {
+            setBusyAccountId(null);
+        }
+    };
+
+    const handleConfirmDeactivate = () => {
+        if (!toDeactivate) return;
+        const account = toDeactivate;
+        setToDeactivate(null);
+        changeAccount(account, () => deactivateAccount(account.id));
+    };
+
+    const otherAccounts = accounts.filter(account => account.id !== user.id);
+    const pendingTeachers = otherAccounts.filter(a => a.role === UserRole.TEACHER && a.status === 'pending');
+    const teachers = otherAccounts.filter(a => a.role === UserRole.TEACHER && a.status !== 'pending');
+    const students = otherAccounts.filter(a => a.role === UserRole.STUDENT && (studentClassFilter === '' || a.class === studentClassFilter));
+
+    const chartData = analytics.map(summary => ({
+        name: t('class_number', { class: summary.class }),
+        [t('avg_score_percent')]: Math.round(summary.averageScore),
+        [t('completion_rate_percent')]: Math.round(summary.completionRate),
+    }));
+
+    const buttonClass = 'px-3 py-1 text-sm rounded-md transition disabled:opacity-50 disabled:cursor-not-allowed';
+    const cardClass = 'bg-white dark:bg-slate-800 p-6 rounded-lg shadow-md';
+    const tabClass = (tab: AdminTab) =>
+        `whitespace-nowrap py-3 px-1 border-b-2 font-medium text-sm ${activeTab === tab ? 'border-brand-500 text-brand-600' : 'border-transparent text-slate-500 hover:text-slate-700 hover:border-slate-300'}`;
+
+    const renderStatus = (account: SchoolAccount) => (
+        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${statusClassNames[account.status]}`}>
+            {t(statusKeys[account.status])}
+        </span>
+    );
+
+    const renderActivation = (account: SchoolAccount) => account.status === 'deactivated' ? (
+        <button
+            onClick={() => changeAccount(account, () => reactivateAccount(account.id))}
+            disabled={busyAccountId === account.id}
+            className={`${buttonClass} bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600`}
+        >
+            {t('reactivate')}
+        </button>
+    ) : (
+        <button
+            onClick={() => setToDeactivate(account)}
+            disabled={busyAccountId === account.id}
+            className={`${buttonClass} bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300 hover:bg-red-100 dark:hover:bg-red-900/50`}
+        >
+            {t('deactivate')}
+        </button>
+    );
+
+    const renderName = (account: SchoolAccount) => (
+        <div className="flex-grow min-w-0">
+            <p className="font-semibold truncate">{account.name}</p>
+            {account.name !== account.username && <p className="text-xs text-slate-400">{account.username}</p>}
+        </div>
+    );
+
+    return (
+        <div>
+            <h2 className="text-3xl font-bold text-slate-800 dark:text-slate-100 mb-6">{t('admin_dashboard')}</h2>
+
+            <div className="border-b border-slate-200 dark:border-slate-700 mb-6">
+                <nav className="-mb-px flex space-x-6" aria-label="Tabs">
+                    <button onClick={() => setActiveTab('accounts')} className={tabClass('accounts')}>{t('school_accounts')}</button>
+                    <button onClick={() => setActiveTab('analytics')} className={tabClass('analytics')}>{t('school_analytics')}</button>
+                </nav>
+            </div>
+
+            {error && <p className="mb-6 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+            {activeTab === 'accounts' && (
+              <div className="space-y-8">
+                <div className={cardClass}>
+                    <h3 className="font-bold text-lg mb-4 text-slate-700 dark:text-slate-200">{t('teachers_awaiting_approval')}</h3>
+                    {pendingTeachers.length === 0 ? (
+                        <p className="text-sm text-slate-500">{t('no_teachers_awaiting_approval')}</p>
+                    ) : (
+                        <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+                            {pendingTeachers.map(teacher => (
+                                <li key={teacher.id} className="py-2 flex flex-wrap items-center gap-3 text-sm text-slate-600 dark:text-slate-300">
+                                    {renderName(teacher)}
+                                    <span>{t('class_number', { class: teacher.class })}</span>
+                                    <button
+                                        onClick={() => changeAccount(teacher, () => approveTeacher(teacher.id))}
+                                        disabled={busyAccountId === teacher.id}
+                                        className={`${buttonClass} bg-brand-600 text-white hover:bg-brand-700`}
+                                    >
+                                        {t('approve')}
+                                    </button>
+                                    <button
+                                        onClick={() => setToDeactivate(teacher)}
+                                        disabled={busyAccountId === teacher.id}
+                                        className={`${buttonClass} bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600`}
+                                    >
+                                        {t('reject')}
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                <div className={cardClass}>
+                    <h3 className="font-bold text-lg mb-4 text-slate-700 dark:text-slate-200">{t('teachers')}</h3>
+                    {teachers.length === 0 ? (
+                        <p className="text-sm text-slate-500">{t('no_teachers')}</p>
+                    ) : (
+                        <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+                            {teachers.map(teacher => (
+                                <li key={teacher.id} className="py-2 flex flex-wrap items-center gap-3 text-sm text-slate-600 dark:text-slate-300">
+                                    {renderName(teacher)}
+                                    {renderStatus(teacher)}
+                                    <label className="flex items-center gap-2">
+                                        <span>{t('teaching_class')}</span>
+                                        <select
+                                            value={teacher.class}
+                                            onChange={e => changeAccount(teacher, () => assignTeacherClass(teacher.id, Number(e.target.value)))}
+                                            disabled={busyAccountId === teacher.id}
+                                            className="p-1 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 rounded-md"
+                                        >
+                                            {CLASSES.map(c => <option key={c} value={c}>{c}</option>)}
+                                        </select>
+                                    </label>
+                                    {renderActivation(teacher)}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                <div className={cardClass}>
+                    <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+                        <h3 className="font-bold text-lg text-slate-700 dark:text-slate-200">{t('students')}</h3>
+                        <select
+                            value={studentClassFilter}
+                            onChange={e => setStudentClassFilter(e.target.value === '' ? '' : Number(e.target.value))}
+                            className="p-2 text-sm border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 rounded-md"
+                        >
+                            <option value="">{t('all_classes')}</option>
+                            {CLASSES.map(c => <option key={c} value={c}>{t('class_number', { class: c })}</option>)}
+                        </select>
+                    </div>
+                    {students.length === 0 ? (
+                        <p className="text-sm text-slate-500">{t('no_students_found')}</p>
+                    ) : (
+                        <ul className="divide-y divide-slate-100 dark:divide-slate-700 max-h-96 overflow-y-auto">
+                            {students.map(student => (
+                                <li key={student.id} className="py-2 flex flex-wrap items-center gap-3 text-sm text-slate-600 dark:text-slate-300">
+                                    {renderName(student)}
+                                    <span>{t('class_number', { class: student.class })}</span>
+                                    {renderStatus(student)}
+                                    {renderActivation(student)}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+              </div>
+            )}
+
+            {activeTab === 'analytics' && (
+              <div className="space-y-8">
+                <div className={cardClass}>
+                    <h3 className="font-bold text-lg mb-4 text-slate-700 dark:text-slate-200">{t('performance_by_class')}</h3>
+                    <ResponsiveContainer width="100%" height={300}>
+                        <BarChart data={chartData}>
+                            <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.2}/>
+                            <XAxis dataKey="name" tick={{ fill: 'currentColor', opacity: 0.6 }}/>
+                            <YAxis unit="%" domain={[0, 100]} tick={{ fill: 'currentColor', opacity: 0.6 }}/>
+                            <RechartsTooltip contentStyle={{ backgroundColor: 'rgba(30, 41, 59, 0.9)', border: 'none' }}/>
+                            <Legend />
+                            <Bar dataKey={t('avg_score_percent')} fill="#8884d8" />
+                            <Bar dataKey={t('completion_rate_percent')} fill="#00C49F" />
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
+
+                <div className={`${cardClass} overflow-x-auto`}>
+                    <h3 className="font-bold text-lg mb-4 text-slate-700 dark:text-slate-200">{t('classes_overview')}</h3>
+                    {analytics.length === 0 ? (
+                        <p className="text-sm text-slate-500">{t('no_classes_yet')}</p>
+                    ) : (
+                        <table className="w-full text-sm text-left text-slate-600 dark:text-slate-300">
+                            <thead className="text-xs uppercase text-slate-400">
+                                <tr>
+                                    <th className="py-2 pr-4">{t('class')}</th>
+                                    <th className="py-2 pr-4">{t('teachers')}</th>
+                                    <th className="py-2 pr-4">{t('students')}</th>
+                                    <th className="py-2 pr-4">{t('active_learners')}</th>
+                                    <th className="py-2 pr-4">{t('courses')}</th>
+                                    <th className="py-2 pr-4">{t('avg_score_percent')}</th>
+                                    <th className="py-2">{t('completion_rate_percent')}</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                                {analytics.map(summary => (
+                                    <tr key={summary.class}>
+                                        <td className="py-2 pr-4 font-semibold">{summary.class}</td>
+                                        <td className="py-2 pr-4">{summary.teachers.join(', ') || '—'}</td>
+                                        <td className="py-2 pr-4">{summary.students}</td>
+                                        <td className="py-2 pr-4">{summary.studentsWithProgress}</td>
+                                        <td className="py-2 pr-4">{summary.courses}</td>
+                                        <td className="py-2 pr-4">{Math.round(summary.averageScore)}</td>
+                                        <td className="py-2">{Math.round(summary.completionRate)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+              </div>
+            )}
+
+            <ConfirmationModal
+                isOpen={!!toDeactivate}
+                onClose={() => setToDeactivate(null)}
+                onConfirm={handleConfirmDeactivate}
+                title={t('deactivate')}
+                message={toDeactivate && t('deactivate_confirmation', { name: toDeactivate.name })}
+                confirmButtonText={t('deactivate')}
+            />
+        </div>
+    );
+};
+
+export default AdminDashboard;
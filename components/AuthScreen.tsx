@@ -1,21 +1,34 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { UserRole } from '../constants';
 import type { User } from '../types';
-import { login, register } from '../services/authService';
+import { login, register, ACCOUNT_DEACTIVATED } from '../services/authService';
+import { OFFLINE_LOGIN_UNAVAILABLE, OFFLINE_LOGIN_INVALID } from '../services/offlineAuthService';
+import { getRoster, getRosterEntry, hasPin } from '../services/deviceRosterService';
+import type { RosterEntry } from '../services/db';
 import { useTranslation } from '../hooks/useTranslation';
 import { BookOpenIcon } from './icons/BookOpenIcon';
 import { UsersIcon } from './icons/UsersIcon';
+import ProfileSwitcher from './ProfileSwitcher';
+import PinSetup from './PinSetup';
 
 interface AuthScreenProps {
   onLogin: (user: User) => void;
+  // An offline sign-in ended because the server couldn't confirm it.
+  isOfflineSessionEnded?: boolean;
 }
 
+const loginErrorKeys = {
+  [ACCOUNT_DEACTIVATED]: 'account_deactivated',
+  [OFFLINE_LOGIN_UNAVAILABLE]: 'offline_login_unavailable',
+  [OFFLINE_LOGIN_INVALID]: 'offline_login_invalid',
+} as const;
+
 const images = [
     'https://storage.googleapis.com/aistudio-hosting/generative-ai/e4a11c3a-2a1c-4393-94c6-2c93d9e4e6b5/image.jpeg',
     'https://images.yourstory.com/cs/wordpress/2016/06/yourstory-education-in-rural-india.jpg',
 ];
 
-const AuthScreen: React.FC<AuthScreenProps> = ({ onLogin }) => {
+const AuthScreen: React.FC<AuthScreenProps> = ({ onLogin, isOfflineSessionEnded }) => {
   const [isRegistering, setIsRegistering] = useState(false);
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
@@ -23,8 +36,26 @@ const AuthScreen: React.FC<AuthScreenProps> = ({ onLogin }) => {
   const [classNumber, setClassNumber] = useState<number | undefined>(undefined);
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // Students who used this device before pick themselves from its roster instead.
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [isPickingFromRoster, setIsPickingFromRoster] = useState(false);
+  const [pinSetupFor, setPinSetupFor] = useState<{ user: User; avatar: string } | null>(null);
   const { t } = useTranslation();
 
+  useEffect(() => {
+    getRoster().then(entries => {
+      setRoster(entries);
+      setIsPickingFromRoster(entries.length > 0 && !isOfflineSessionEnded);
+    }).catch(error => console.error('Failed to load the students on this device:', error));
+  }, [isOfflineSessionEnded]);
+
+  const handleUsePassword = (rosterUsername?: string) => {
+    setUsername(rosterUsername ?? '');
+    setPassword('');
+    setIsRegistering(false);
+    setIsPickingFromRoster(false);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -43,9 +74,16 @@ const AuthScreen: React.FC<AuthScreenProps> = ({ onLogin }) => {
       } else {
         user = await login(username, password);
       }
-      onLogin(user);
+      // A student new to this device, or without a PIN on it, is offered one.
+      const entry = user.role === UserRole.STUDENT ? await getRosterEntry(user.id) : undefined;
+      if (entry && !hasPin(entry)) {
+        setPinSetupFor({ user, avatar: entry.avatar });
+      } else {
+        onLogin(user);
+      }
     } catch (err: any) {
-      setError(err.message);
+      const errorKey = loginErrorKeys[err?.code as keyof typeof loginErrorKeys];
+      setError(errorKey ? t(errorKey) : err.message);
     } finally {
         setIsLoading(false);
     }
@@ -69,9 +107,20 @@ const AuthScreen: React.FC<AuthScreenProps> = ({ onLogin }) => {
           </div>
           <div className="bg-white/95 dark:bg-slate-800/90 backdrop-blur-lg p-8 rounded-xl shadow-lg w-full max-w-sm border dark:border-slate-700">
             <h2 className="text-2xl font-semibold text-center text-slate-800 dark:text-slate-100 mb-6">
-              {isRegistering ? t('create_an_account') : t('login_to_your_account')}
+              {pinSetupFor ? t('set_up_quick_switching')
+                : isPickingFromRoster ? t('who_is_using_this_device')
+                : isRegistering ? t('create_an_account') : t('login_to_your_account')}
             </h2>
-            
+
+            {pinSetupFor ? (
+              <PinSetup user={pinSetupFor.user} initialAvatar={pinSetupFor.avatar} onDone={() => onLogin(pinSetupFor.user)} />
+            ) : isPickingFromRoster ? (
+              <ProfileSwitcher roster={roster} onSwitched={onLogin} onUsePassword={handleUsePassword} />
+            ) : (
+            <>
+            {isOfflineSessionEnded && !isRegistering && (
+              <p className="mb-4 p-3 text-sm rounded-md bg-yellow-50 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300">{t('offline_session_sign_in_again')}</p>
+            )}
             <form onSubmit={handleSubmit} className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1" htmlFor="username">{t('username')}</label>
@@ -129,6 +178,9 @@ const AuthScreen: React.FC<AuthScreenProps> = ({ onLogin }) => {
                             ))}
                         </select>
                     </div>
+                    {role === UserRole.TEACHER && (
+                        <p className="text-sm text-slate-500 dark:text-slate-400">{t('teacher_needs_approval_note')}</p>
+                    )}
                 </>
               )}
 
@@ -149,6 +201,15 @@ const AuthScreen: React.FC<AuthScreenProps> = ({ onLogin }) => {
                 {isRegistering ? t('login_now') : t('register_now')}
               </button>
             </p>
+            {roster.length > 0 && (
+              <p className="text-center text-sm mt-3">
+                <button onClick={() => { setIsPickingFromRoster(true); setError(''); }} className="font-semibold text-brand-700 dark:text-brand-400 hover:underline">
+                  {t('back_to_device_students')}
+                </button>
+              </p>
+            )}
+            </>
+            )}
           </div>
         </div>
     </div>
@@ -0,0 +1,91 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Student, VideoIntegrityReport } from '../types';
+import { db } from '../services/db';
+import { getVideoIntegrityReports } from '../services/integrityService';
+import { useTranslation } from '../hooks/useTranslation';
+import { ChevronDownIcon } from './icons/ChevronDownIcon';
+
+interface BrokenVideoReportsProps {
+  students: Student[];
+}
+
+// Broken reports first, then the newest.
+const byUrgency = (a: VideoIntegrityReport, b: VideoIntegrityReport) =>
+  (a.status === 'broken' ? 0 : 1) - (b.status === 'broken' ? 0 : 1) || b.reportedAt - a.reportedAt;
+
+// Which students' devices found a broken copy of a lesson video, and whether it has been fetched again.
+const BrokenVideoReports: React.FC<BrokenVideoReportsProps> = ({ students }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [reports, setReports] = useState<VideoIntegrityReport[]>([]);
+  const [lessonTitles, setLessonTitles] = useState<Map<string, string>>(new Map());
+  const [error, setError] = useState(false);
+  const { t } = useTranslation();
+
+  const fetchReports = useCallback(async () => {
+    try {
+      const fetched = (await getVideoIntegrityReports()).sort(byUrgency);
+      const lessons = await db.lessons.bulkGet(fetched.map(r => r.lessonId));
+      setLessonTitles(new Map(lessons.flatMap(l => (l ? [[l.id, l.title] as [string, string]] : []))));
+      setReports(fetched);
+      setError(false);
+    } catch (e) {
+      console.error('Failed to fetch video integrity reports:', e);
+      setError(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) fetchReports();
+  }, [isOpen, fetchReports]);
+
+  const studentName = (id: string) => students.find(s => s.id === id)?.name ?? id;
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-slate-200 dark:border-slate-700">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex justify-between items-center w-full">
+        <h4 className="font-bold text-slate-800 dark:text-slate-100">{t('broken_videos')}</h4>
+        <ChevronDownIcon className={`h-5 w-5 text-slate-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-3">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+            <p className="text-sm text-slate-500 dark:text-slate-400">{t('broken_videos_description')}</p>
+            <button
+              onClick={fetchReports}
+              className="px-3 py-1 text-sm bg-slate-100 dark:bg-slate-700 rounded-md hover:bg-slate-200 dark:hover:bg-slate-600 transition"
+            >
+              {t('refresh')}
+            </button>
+          </div>
+
+          {error ? (
+            <p className="text-sm text-red-600 dark:text-red-400">{t('broken_videos_unavailable')}</p>
+          ) : reports.length === 0 ? (
+            <p className="text-sm text-slate-500">{t('broken_videos_empty')}</p>
+          ) : (
+            <ul className="divide-y divide-slate-100 dark:divide-slate-700 max-h-96 overflow-y-auto">
+              {reports.map(report => (
+                <li
+                  key={`${report.studentId}:${report.lessonId}`}
+                  className={`py-2 text-sm ${report.status === 'repaired' ? 'text-slate-400 dark:text-slate-500' : 'text-slate-600 dark:text-slate-300'}`}
+                >
+                  <div className="flex justify-between gap-2">
+                    <span className="font-semibold">{studentName(report.studentId)}</span>
+                    <span className="whitespace-nowrap">{new Date(report.reportedAt).toLocaleString()}</span>
+                  </div>
+                  <p>{lessonTitles.get(report.lessonId) ?? report.lessonId}</p>
+                  <p className={report.status === 'broken' ? 'text-red-600 dark:text-red-400' : ''}>
+                    {report.status === 'broken' ? t('broken_video_status_broken', { detail: report.detail ?? '' }) : t('broken_video_status_repaired')}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BrokenVideoReports;
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import type { User } from '../types';
+import { changePassword } from '../services/authService';
+import { isNetworkError } from '../services/syncService';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface ChangePasswordScreenProps {
+  user: User;
+  onChanged: (user: User) => void;
+}
+
+// Shown instead of the dashboard after a teacher reset the user's password, until they
+// replace the temporary one with their own.
+const ChangePasswordScreen: React.FC<ChangePasswordScreenProps> = ({ user, onChanged }) => {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { t } = useTranslation();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      setError(t('password_mismatch'));
+      return;
+    }
+    setError('');
+    setIsSaving(true);
+    try {
+      onChanged(await changePassword(user, password));
+    } catch (err: any) {
+      setError(isNetworkError(err) ? t('change_password_needs_internet') : err.message);
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName = "w-full p-3 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 rounded-md focus:ring-2 focus:ring-brand-400 focus:outline-none";
+
+  return (
+    <div className="flex justify-center">
+      <div className="bg-white dark:bg-slate-800 p-8 rounded-xl shadow-lg w-full max-w-sm border dark:border-slate-700">
+        <h2 className="text-2xl font-semibold text-center text-slate-800 dark:text-slate-100 mb-2">{t('choose_new_password')}</h2>
+        <p className="text-sm text-slate-600 dark:text-slate-300 text-center mb-6">{t('choose_new_password_description')}</p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1" htmlFor="new-password">{t('new_password')}</label>
+            <input id="new-password" type="password" autoComplete="new-password" value={password} onChange={e => setPassword(e.target.value)} required minLength={6} className={inputClassName} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1" htmlFor="confirm-password">{t('confirm_new_password')}</label>
+            <input id="confirm-password" type="password" autoComplete="new-password" value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} required className={inputClassName} />
+          </div>
+
+          {error && <p className="text-red-500 dark:text-red-400 text-sm text-center bg-red-100/50 dark:bg-red-900/50 p-2 rounded-md">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="w-full p-3 bg-brand-600 text-white rounded-lg font-semibold hover:bg-brand-700 focus:outline-none focus:ring-4 focus:ring-brand-300 transition disabled:bg-slate-400"
+          >
+            {isSaving ? '...' : t('save_new_password')}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ChangePasswordScreen;
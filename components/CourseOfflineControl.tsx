@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { downloadCoursePackage, removeCoursePackage, type CoursePackageProgress } from '../services/coursePackageService';
+import { STORAGE_FULL } from '../services/storageService';
+import { useTranslation } from '../hooks/useTranslation';
+import { DownloadIcon } from './icons/DownloadIcon';
+import { TrashIcon } from './icons/TrashIcon';
+
+interface CourseOfflineControlProps {
+  courseId: string;
+  userId: string;
+  progress: CoursePackageProgress;
+  isOnline: boolean;
+}
+
+// Keeps a whole course on the device, with its overall progress.
+const CourseOfflineControl: React.FC<CourseOfflineControlProps> = ({ courseId, userId, progress, isOnline }) => {
+  const [isBusy, setIsBusy] = useState(false);
+  const { t } = useTranslation();
+
+  const handleDownload = async () => {
+    setIsBusy(true);
+    try {
+      await downloadCoursePackage(courseId, userId);
+    } catch (error) {
+      console.error('Course download failed:', error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      await removeCoursePackage(courseId, userId);
+    } catch (error) {
+      console.error('Failed to remove the offline course:', error);
+    }
+  };
+
+  if (progress.status === null) {
+    return (
+      <button
+        onClick={handleDownload}
+        disabled={!isOnline || isBusy}
+        title={isOnline ? undefined : t('download_disabled_offline')}
+        className="flex items-center gap-1 text-sm font-semibold text-brand-700 dark:text-brand-400 hover:underline disabled:opacity-40 disabled:cursor-not-allowed disabled:no-underline"
+      >
+        <DownloadIcon className="h-4 w-4" />
+        {t('course_download_offline')}
+      </button>
+    );
+  }
+
+  const percent = Math.floor(progress.fraction * 100);
+  return (
+    <div className="text-xs text-slate-500 dark:text-slate-400 space-y-1">
+      {!progress.isAvailableOffline && (
+        <div
+          className="h-1.5 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden"
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={percent}
+        >
+          <div className="h-full bg-brand-500 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      )}
+      <div className="flex items-center justify-between gap-2">
+        <span>
+          {progress.isAvailableOffline
+            ? t('course_offline_ready', { count: progress.videos })
+            : t('course_offline_progress', { percent, ready: progress.videosReady, total: progress.videos })}
+          {progress.onlineOnly > 0 && ` · ${t('course_online_only', { count: progress.onlineOnly })}`}
+        </span>
+        <span className="flex items-center gap-1 whitespace-nowrap">
+          {!progress.isAvailableOffline && progress.status !== 'downloading' && (
+            <button
+              onClick={handleDownload}
+              disabled={!isOnline || isBusy}
+              className="font-semibold text-brand-700 dark:text-brand-400 hover:underline disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {t('course_download_continue')}
+            </button>
+          )}
+          <button
+            onClick={handleRemove}
+            title={t('course_remove_offline')}
+            aria-label={t('course_remove_offline')}
+            className="p-1 text-red-500 hover:text-red-700 transition"
+          >
+            <TrashIcon className="h-4 w-4" />
+          </button>
+        </span>
+      </div>
+      {progress.error && !progress.isAvailableOffline && progress.status !== 'downloading' && (
+        <p className="text-red-500">{progress.error === STORAGE_FULL ? t('download_no_space') : t('download_failed')}</p>
+      )}
+    </div>
+  );
+};
+
+export default CourseOfflineControl;
@@ -6,6 +6,8 @@ interface DashboardCardProps {
   icon: React.ReactElement<any>;
   colorIndex: number;
   onClick: () => void;
+  badge?: React.ReactNode; // Shown above the title, e.g. that the course is available offline
+  footer?: React.ReactNode; // Controls below the card, outside its button
 }
 
 const colors = [
@@ -24,26 +26,34 @@ const focusColors = [
     'focus:ring-rose-400',
 ];
 
-const DashboardCard: React.FC<DashboardCardProps> = ({ title, description, icon, colorIndex, onClick }) => {
+const DashboardCard: React.FC<DashboardCardProps> = ({ title, description, icon, colorIndex, onClick, badge, footer }) => {
   const colorClass = colors[colorIndex % colors.length];
   const focusClass = focusColors[colorIndex % colors.length];
 
   return (
-    <button
-      onClick={onClick}
-      className={`relative group p-6 w-full text-left rounded-xl shadow-lg overflow-hidden bg-gradient-to-br ${colorClass} text-white transition-all duration-300 transform hover:scale-105 hover:shadow-2xl focus:outline-none focus:ring-4 focus:ring-offset-2 dark:focus:ring-offset-slate-900 ${focusClass}`}
-    >
-        <div className="relative z-10">
-            <div className="mb-4">
-                {icon}
-            </div>
-            <h3 className="text-2xl font-bold mb-1">{title}</h3>
-            <p className="text-sm opacity-90">{description}</p>
-        </div>
-         <div className="absolute -bottom-8 -right-8 text-white/10 group-hover:scale-125 transition-transform duration-500">
-            {React.cloneElement(icon, { className: "h-32 w-32" })}
-        </div>
-    </button>
+    <div>
+      <button
+        onClick={onClick}
+        className={`relative group p-6 w-full text-left rounded-xl shadow-lg overflow-hidden bg-gradient-to-br ${colorClass} text-white transition-all duration-300 transform hover:scale-105 hover:shadow-2xl focus:outline-none focus:ring-4 focus:ring-offset-2 dark:focus:ring-offset-slate-900 ${focusClass}`}
+      >
+          <div className="relative z-10">
+              <div className="mb-4 flex items-start justify-between gap-2">
+                  {icon}
+                  {badge && (
+                      <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-white/25 backdrop-blur-sm">
+                          {badge}
+                      </span>
+                  )}
+              </div>
+              <h3 className="text-2xl font-bold mb-1">{title}</h3>
+              <p className="text-sm opacity-90">{description}</p>
+          </div>
+           <div className="absolute -bottom-8 -right-8 text-white/10 group-hover:scale-125 transition-transform duration-500">
+              {React.cloneElement(icon, { className: "h-32 w-32" })}
+          </div>
+      </button>
+      {footer && <div className="mt-2">{footer}</div>}
+    </div>
   );
 };
 
@@ -0,0 +1,97 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { RosterEntry } from '../services/db';
+import { getRoster, hasPin, countUnsyncedActions, removeFromDevice } from '../services/deviceRosterService';
+import { useTranslation } from '../hooks/useTranslation';
+import ConfirmationModal from './ConfirmationModal';
+import { ChevronDownIcon } from './icons/ChevronDownIcon';
+import { TrashIcon } from './icons/TrashIcon';
+
+// For teachers: the students who switch between each other on this device, and taking one off it.
+const DeviceRosterManager: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [toRemove, setToRemove] = useState<{ entry: RosterEntry; unsynced: number } | null>(null);
+  const { t } = useTranslation();
+
+  const fetchRoster = useCallback(async () => {
+    setRoster(await getRoster());
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) fetchRoster();
+  }, [isOpen, fetchRoster]);
+
+  const handleRemoveClick = async (entry: RosterEntry) => {
+    setToRemove({ entry, unsynced: await countUnsyncedActions(entry.userId) });
+  };
+
+  const handleConfirmRemove = async () => {
+    if (!toRemove) return;
+    try {
+      await removeFromDevice(toRemove.entry.userId);
+    } catch (error) {
+      console.error('Failed to remove the student from this device:', error);
+      alert(t('remove_student_failed'));
+    }
+    setToRemove(null);
+    fetchRoster();
+  };
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-slate-200 dark:border-slate-700">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex justify-between items-center w-full">
+        <h4 className="font-bold text-slate-800 dark:text-slate-100">{t('device_students')}</h4>
+        <ChevronDownIcon className={`h-5 w-5 text-slate-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-3">
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-3">{t('device_students_description')}</p>
+          {roster.length === 0 ? (
+            <p className="text-sm text-slate-500">{t('device_students_empty')}</p>
+          ) : (
+            <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+              {roster.map(entry => (
+                <li key={entry.userId} className="py-2 flex items-center gap-3 text-sm text-slate-600 dark:text-slate-300">
+                  <span className="text-2xl" aria-hidden="true">{entry.avatar}</span>
+                  <div className="flex-grow min-w-0">
+                    <p className="font-semibold truncate">{entry.username}</p>
+                    <p className="text-xs text-slate-400">
+                      {t('class')} {entry.class} · {hasPin(entry) ? t('pin_set') : t('pin_not_set')} · {t('last_used', { date: new Date(entry.lastUsedAt).toLocaleDateString() })}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRemoveClick(entry)}
+                    title={t('remove_from_device')}
+                    aria-label={t('remove_from_device')}
+                    className="p-2 text-red-500 hover:text-red-700 transition"
+                  >
+                    <TrashIcon className="h-5 w-5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <ConfirmationModal
+        isOpen={!!toRemove}
+        onClose={() => setToRemove(null)}
+        onConfirm={handleConfirmRemove}
+        title={t('remove_from_device')}
+        message={toRemove && (
+          <>
+            {t('remove_from_device_confirmation', { name: toRemove.entry.username })}
+            {toRemove.unsynced > 0 && (
+              <strong className="block mt-2 text-red-600 dark:text-red-400">{t('remove_from_device_unsynced', { count: toRemove.unsynced })}</strong>
+            )}
+          </>
+        )}
+        confirmButtonText={t('remove')}
+      />
+    </div>
+  );
+};
+
+export default DeviceRosterManager;
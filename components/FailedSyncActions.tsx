@@ -0,0 +1,117 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { DeadLetterItem, SyncQueueItem } from '../services/db';
+import { getDeadLetters, retryDeadLetter, discardDeadLetter, syncNow } from '../services/syncService';
+import { useTranslation } from '../hooks/useTranslation';
+import { ExclamationTriangleIcon } from './icons/ExclamationTriangleIcon';
+import { ChevronDownIcon } from './icons/ChevronDownIcon';
+
+interface FailedSyncActionsProps {
+  onChanged: () => void;
+}
+
+export const actionLabelKeys = {
+  UPDATE_PROGRESS: 'sync_action_update_progress',
+  SAVE_COURSE: 'sync_action_save_course',
+  DELETE_COURSE: 'sync_action_delete_course',
+  SAVE_LESSON: 'sync_action_save_lesson',
+  DELETE_LESSON: 'sync_action_delete_lesson',
+  UPLOAD_VIDEO: 'sync_action_upload_video',
+  REPORT_VIDEO_INTEGRITY: 'sync_action_report_video_integrity',
+} as const satisfies Record<SyncQueueItem['type'], string>;
+
+// A short human-readable name for what the action touched.
+const describePayload = (item: DeadLetterItem): string => {
+  const { payload } = item;
+  return payload.title || payload.studentName || payload.id || payload.studentId || payload.lessonId || '';
+};
+
+const FailedSyncActions: React.FC<FailedSyncActionsProps> = ({ onChanged }) => {
+  const [deadLetters, setDeadLetters] = useState<DeadLetterItem[]>([]);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const { t } = useTranslation();
+
+  const fetchDeadLetters = useCallback(async () => {
+    setDeadLetters(await getDeadLetters());
+  }, []);
+
+  useEffect(() => {
+    fetchDeadLetters();
+  }, [fetchDeadLetters]);
+
+  const handleRetry = async (item: DeadLetterItem) => {
+    await retryDeadLetter(item.id!);
+    await fetchDeadLetters();
+    if (navigator.onLine) {
+      await syncNow({ manual: true });
+      await fetchDeadLetters();
+    }
+    onChanged();
+  };
+
+  const handleDiscard = async (item: DeadLetterItem) => {
+    if (window.confirm(t('discard_sync_action_confirmation'))) {
+      await discardDeadLetter(item.id!);
+      await fetchDeadLetters();
+      onChanged();
+    }
+  };
+
+  if (deadLetters.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-red-300 dark:border-red-700 bg-red-50 dark:bg-red-900/20">
+      <div className="flex items-center gap-2 mb-2">
+        <ExclamationTriangleIcon className="h-5 w-5 text-red-600 dark:text-red-400" />
+        <h4 className="font-bold text-red-800 dark:text-red-200">{t('failed_sync_actions')}</h4>
+      </div>
+      <p className="text-sm text-red-700 dark:text-red-300 mb-4">{t('failed_sync_actions_description')}</p>
+      <ul className="space-y-3">
+        {deadLetters.map(item => (
+          <li key={item.id} className="p-3 bg-white dark:bg-slate-800 rounded-md shadow-sm">
+            <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3">
+              <div className="text-sm min-w-0">
+                <p className="font-semibold text-slate-800 dark:text-slate-100">
+                  {t(actionLabelKeys[item.type])}: {describePayload(item)}
+                </p>
+                <p className="text-red-600 dark:text-red-400 break-words">{item.lastError}</p>
+                <p className="text-xs text-slate-400">
+                  {t('attempts')}: {item.attempts} &middot; {new Date(item.failedAt).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <button
+                  onClick={() => setExpandedId(expandedId === item.id ? null : item.id!)}
+                  className="flex items-center px-3 py-1 text-sm text-slate-600 dark:text-slate-300 hover:underline"
+                >
+                  {t('details')}
+                  <ChevronDownIcon className={`h-4 w-4 ml-1 transition-transform ${expandedId === item.id ? 'rotate-180' : ''}`} />
+                </button>
+                <button
+                  onClick={() => handleRetry(item)}
+                  className="px-3 py-1 text-sm bg-brand-600 text-white rounded-md hover:bg-brand-700 transition"
+                >
+                  {t('retry')}
+                </button>
+                <button
+                  onClick={() => handleDiscard(item)}
+                  className="px-3 py-1 text-sm bg-slate-100 dark:bg-slate-700 rounded-md hover:bg-slate-200 dark:hover:bg-slate-600 transition"
+                >
+                  {t('discard')}
+                </button>
+              </div>
+            </div>
+            {expandedId === item.id && (
+              <pre className="mt-3 p-2 text-xs bg-slate-100 dark:bg-slate-900 rounded overflow-x-auto max-h-64">
+                {JSON.stringify(item.payload, null, 2)}
+              </pre>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default FailedSyncActions;
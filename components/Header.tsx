@@ -12,15 +12,17 @@ import { BookOpenIcon } from './icons/BookOpenIcon';
 import { SparklesIcon } from './icons/SparklesIcon';
 import { InformationCircleIcon } from './icons/InformationCircleIcon';
 import AboutModal from './AboutModal';
+import SyncStatusIndicator from './SyncStatusIndicator';
 
 interface HeaderProps {
   user: User & { name: string };
   isOnline: boolean;
   onLogout: () => void;
+  onSwitchUser?: () => void; // For students on a shared device
   onSearchSelect: (result: SearchResult) => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ user, isOnline, onLogout, onSearchSelect }) => {
+const Header: React.FC<HeaderProps> = ({ user, isOnline, onLogout, onSwitchUser, onSearchSelect }) => {
   const { theme, toggleTheme } = useTheme();
   const { language, setLanguage, t } = useTranslation();
   const [searchQuery, setSearchQuery] = useState('');
@@ -117,6 +119,7 @@ const Header: React.FC<HeaderProps> = ({ user, isOnline, onLogout, onSearchSelec
                   ></span>
                   <span className="text-sm font-medium text-slate-600 dark:text-slate-300 hidden sm:block">{isOnline ? t('online') : t('offline_mode')}</span>
               </div>
+              <SyncStatusIndicator isOnline={isOnline} />
                <div className="relative">
                   <LanguageIcon className="h-5 w-5 absolute left-2 top-1/2 -translate-y-1/2 text-slate-500"/>
                   <select
@@ -138,6 +141,14 @@ const Header: React.FC<HeaderProps> = ({ user, isOnline, onLogout, onSearchSelec
               <span className="hidden sm:inline-block px-3 py-1 text-sm font-semibold text-brand-800 bg-brand-100 dark:bg-brand-900/50 dark:text-brand-300 rounded-full">
                 {user.role}
               </span>
+              {onSwitchUser && (
+                <button
+                  onClick={onSwitchUser}
+                  className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 bg-slate-100 dark:bg-slate-700 rounded-md hover:bg-slate-200 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-500 transition"
+                >
+                  {t('switch_student')}
+                </button>
+              )}
               <button
                 onClick={onLogout}
                 className="px-4 py-2 text-sm font-medium text-white bg-slate-600 rounded-md hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-500 transition"
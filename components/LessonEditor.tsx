@@ -47,7 +47,7 @@ const LessonEditor: React.FC<LessonEditorProps> = ({ lesson, courseId, onSave, o
       setQuiz(lesson.quiz ? JSON.parse(JSON.stringify(lesson.quiz)) : []);
       // Video state
       setVideoUrl(lesson.videoUrl || '');
-      setHasExistingOfflineVideo(!!lesson.hasOfflineVideo);
+      setHasExistingOfflineVideo(!!lesson.hasOfflineVideo || !!lesson.videoPath);
     } else {
         setTitle('');
         setContent('');
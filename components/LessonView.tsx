@@ -1,4 +1,5 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { liveQuery } from 'dexie';
 import type { Course, Lesson, Student, Teacher } from '../types';
 import Quiz from './Quiz';
 import TranscriptViewer from './TranscriptViewer';
@@ -7,18 +8,28 @@ import {
   updateQuizProgress, 
   getDownloadedLessons, 
   downloadLesson, 
+  planLessonDownload,
   removeDownloadedLesson,
   getVideo,
   getStudentProgress,
+  getYouTubeEmbedUrl,
 } from '../services/offlineContentService';
 import { useSpeechSynthesis } from '../hooks/useSpeechSynthesis';
 import { SpeakerWaveIcon } from './icons/SpeakerWaveIcon';
 import { StopCircleIcon } from './icons/StopCircleIcon';
 import { DownloadIcon } from './icons/DownloadIcon';
 import { TrashIcon } from './icons/TrashIcon';
+import { PauseIcon } from './icons/PauseIcon';
+import { PlayIcon } from './icons/PlayIcon';
+import { XMarkIcon } from './icons/XMarkIcon';
 import { UserRole } from '../constants';
 import { InformationCircleIcon } from './icons/InformationCircleIcon';
 import AITutor from './AITutor';
+import ConfirmationModal from './ConfirmationModal';
+import { markVideoPlayed, formatBytes, STORAGE_FULL, type DownloadPlan } from '../services/storageService';
+import { getPartialDownloads, pauseVideoDownload, cancelVideoDownload } from '../services/resumableDownloadService';
+import { verifyVideo, verifyVideoIfDue } from '../services/integrityService';
+import type { PartialDownload } from '../services/db';
 
 interface LessonViewProps {
   course: Course;
@@ -29,17 +40,6 @@ interface LessonViewProps {
   isOnline: boolean;
 }
 
-// Helper to convert YouTube URL to an embeddable URL
-const getYouTubeEmbedUrl = (url: string): string | null => {
-    if (!url) return null;
-    const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|\&v=)([^#\&\?]*).*/;
-    const match = url.match(regExp);
-    if (match && match[2].length === 11) {
-        return `https://www.youtube.com/embed/${match[2]}`;
-    }
-    return null;
-};
-
 
 const LessonView: React.FC<LessonViewProps> = ({ course, lesson, user, onSelectLesson, onBack, isOnline }) => {
   const { t } = useTranslation();
@@ -66,13 +66,31 @@ const LessonView: React.FC<LessonViewProps> = ({ course, lesson, user, onSelectL
 
   const [downloadedLessons, setDownloadedLessons] = useState<Set<string>>(new Set());
   const [downloadingLessons, setDownloadingLessons] = useState<Set<string>>(new Set());
+  // Downloads started but not finished, including paused ones, by lesson id.
+  const [partialDownloads, setPartialDownloads] = useState<Map<string, PartialDownload>>(new Map());
   const [videoSrc, setVideoSrc] = useState<string | undefined>(undefined);
+  const [isVideoBroken, setIsVideoBroken] = useState(false);
   const [youtubeEmbedUrl, setYoutubeEmbedUrl] = useState<string | null>(null);
   const [lessonPerformance, setLessonPerformance] = useState<{ attempts: number; bestScore: number; } | null>(null);
+  // A download that needs room, waiting for the student to agree.
+  const [pendingDownload, setPendingDownload] = useState<{ lesson: Lesson; plan: DownloadPlan } | null>(null);
+
+  // Live, so videos fetched by a sync or evicted to make room show up straight away.
+  useEffect(() => {
+    const subscription = liveQuery(() => getDownloadedLessons(course.lessons.map(l => l.id))).subscribe({
+      next: ids => setDownloadedLessons(new Set(ids)),
+      error: error => console.error('Failed to load downloads:', error),
+    });
+    return () => subscription.unsubscribe();
+  }, [course.lessons]);
 
   useEffect(() => {
-    setDownloadedLessons(new Set(getDownloadedLessons()));
-  }, []);
+    const subscription = liveQuery(() => getPartialDownloads(course.lessons.map(l => l.id))).subscribe({
+      next: partials => setPartialDownloads(new Map(partials.map(p => [p.lessonId, p]))),
+      error: error => console.error('Failed to load download progress:', error),
+    });
+    return () => subscription.unsubscribe();
+  }, [course.lessons]);
 
   useEffect(() => {
     let objectUrl: string | undefined;
@@ -80,6 +98,7 @@ const LessonView: React.FC<LessonViewProps> = ({ course, lesson, user, onSelectL
     const setupVideo = async () => {
       setVideoSrc(undefined);
       setYoutubeEmbedUrl(null);
+      setIsVideoBroken(false);
 
       // Prioritize teacher-uploaded offline video
       if (lesson.hasOfflineVideo) {
@@ -191,14 +210,18 @@ const LessonView: React.FC<LessonViewProps> = ({ course, lesson, user, onSelectL
     }
   };
 
-  const handleDownload = async (lessonToDownload: Lesson) => {
+  const handleDownload = async (lessonToDownload: Lesson, isConfirmed = false) => {
     if (!isOnline) return;
     setDownloadingLessons(prev => new Set(prev).add(lessonToDownload.id));
     try {
-        await downloadLesson(lessonToDownload);
-        setDownloadedLessons(prev => new Set(prev).add(lessonToDownload.id));
-    } catch (error) {
-        alert(t('download_failed'));
+        const plan = isConfirmed ? null : await planLessonDownload(lessonToDownload);
+        if (plan && (!plan.fits || plan.evict.length > 0)) {
+            setPendingDownload({ lesson: lessonToDownload, plan });
+            return;
+        }
+        await downloadLesson(lessonToDownload, user.role === UserRole.STUDENT ? user.id : undefined);
+    } catch (error: any) {
+        alert(t(error?.code === STORAGE_FULL ? 'download_no_space' : 'download_failed'));
         console.error("Download failed in component:", error);
     } finally {
         setDownloadingLessons(prev => {
@@ -209,14 +232,42 @@ const LessonView: React.FC<LessonViewProps> = ({ course, lesson, user, onSelectL
     }
   };
 
+  const handleConfirmDownload = () => {
+    if (pendingDownload?.plan.fits) handleDownload(pendingDownload.lesson, true);
+    setPendingDownload(null);
+  };
+
+  // Copies kept on this device are checked when played, and at once if they won't play.
+  const isVideoFromDevice = () => !!videoSrc?.startsWith('blob:');
+
+  const handleVideoPlay = async () => {
+      markVideoPlayed(lesson.id);
+      if (isVideoFromDevice()) setIsVideoBroken(await verifyVideoIfDue(lesson.id) === 'broken');
+  };
+
+  const handleVideoError = async () => {
+      if (isVideoFromDevice()) setIsVideoBroken(await verifyVideo(lesson.id) === 'broken');
+  };
+
+  const handlePause = async (lessonId: string) => {
+      try {
+          await pauseVideoDownload(lessonId);
+      } catch (error) {
+          console.error("Pause failed in component:", error);
+      }
+  };
+
+  const handleCancel = async (lessonId: string) => {
+      try {
+          await cancelVideoDownload(lessonId);
+      } catch (error) {
+          console.error("Cancel failed in component:", error);
+      }
+  };
+
   const handleDelete = async (lessonId: string) => {
       try {
-          await removeDownloadedLesson(lessonId);
-          setDownloadedLessons(prev => {
-              const newSet = new Set(prev);
-              newSet.delete(lessonId);
-              return newSet;
-          });
+          await removeDownloadedLesson(lessonId, user.id);
       } catch (error) {
           console.error("Delete failed in component:", error);
       }
@@ -237,51 +288,113 @@ const LessonView: React.FC<LessonViewProps> = ({ course, lesson, user, onSelectL
               const isYouTube = l.videoUrl ? getYouTubeEmbedUrl(l.videoUrl) !== null : false;
               const isDownloading = downloadingLessons.has(l.id);
               const isDownloaded = downloadedLessons.has(l.id);
+              const partial = partialDownloads.get(l.id);
+              const percent = partial?.total ? Math.floor((partial.received / partial.total) * 100) : null;
               return (
-              <li key={l.id} className="flex items-center group">
-                <button
-                  onClick={() => onSelectLesson(l)}
-                  className={`w-full text-left px-4 py-3 rounded-md transition ${
-                    l.id === lesson.id
-                      ? 'bg-brand-100 dark:bg-brand-900/50 text-brand-800 dark:text-brand-300 font-semibold'
-                      : 'hover:bg-slate-100 dark:hover:bg-slate-700/50'
-                  }`}
-                >
-                  <div className="flex justify-between items-center">
-                    <span>{l.title}</span>
-                    {l.difficulty && (
-                        <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${difficultyStyles[l.difficulty]}`}>
-                            {getDifficultyTranslation(l.difficulty)}
-                        </span>
-                    )}
-                  </div>
-                </button>
-                {user.role === UserRole.STUDENT && l.videoUrl && !isYouTube && (
-                  <div className="flex-shrink-0 ml-2">
-                    {isDownloaded ? (
-                        <button
-                            onClick={() => handleDelete(l.id)}
-                            title={t('delete_download')}
-                            aria-label={t('delete_download')}
-                            className="p-2 rounded-full text-red-500 hover:bg-red-100 dark:hover:bg-red-900/40 opacity-50 group-hover:opacity-100 transition-opacity"
-                        >
-                            <TrashIcon className="h-5 w-5" />
-                        </button>
-                    ) : (
-                        <button
-                            onClick={() => handleDownload(l)}
-                            disabled={!isOnline || isDownloading}
-                            title={isDownloading ? t('downloading') : (isOnline ? t('download_lesson') : t('download_disabled_offline'))}
-                            aria-label={isDownloading ? t('downloading') : (isOnline ? t('download_lesson') : t('download_disabled_offline'))}
-                            className="w-9 h-9 flex items-center justify-center rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
-                        >
-                            {isDownloading ? (
-                                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-slate-500" />
-                            ) : (
-                                <DownloadIcon className="h-5 w-5" />
-                            )}
-                        </button>
-                    )}
+              <li key={l.id} className="group">
+                <div className="flex items-center">
+                  <button
+                    onClick={() => onSelectLesson(l)}
+                    className={`w-full text-left px-4 py-3 rounded-md transition ${
+                      l.id === lesson.id
+                        ? 'bg-brand-100 dark:bg-brand-900/50 text-brand-800 dark:text-brand-300 font-semibold'
+                        : 'hover:bg-slate-100 dark:hover:bg-slate-700/50'
+                    }`}
+                  >
+                    <div className="flex justify-between items-center">
+                      <span>{l.title}</span>
+                      {l.difficulty && (
+                          <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${difficultyStyles[l.difficulty]}`}>
+                              {getDifficultyTranslation(l.difficulty)}
+                          </span>
+                      )}
+                    </div>
+                  </button>
+                  {user.role === UserRole.STUDENT && (l.videoPath || (l.videoUrl && !isYouTube)) && (
+                    <div className="flex-shrink-0 ml-2">
+                      {isDownloaded ? (
+                          <button
+                              onClick={() => handleDelete(l.id)}
+                              title={t('delete_download')}
+                              aria-label={t('delete_download')}
+                              className="p-2 rounded-full text-red-500 hover:bg-red-100 dark:hover:bg-red-900/40 opacity-50 group-hover:opacity-100 transition-opacity"
+                          >
+                              <TrashIcon className="h-5 w-5" />
+                          </button>
+                      ) : partial ? (
+                          <div className="flex items-center">
+                              {partial.status === 'downloading' ? (
+                                  <button
+                                      onClick={() => handlePause(l.id)}
+                                      title={t('download_pause')}
+                                      aria-label={t('download_pause')}
+                                      className="w-9 h-9 flex items-center justify-center rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700"
+                                  >
+                                      <PauseIcon className="h-5 w-5" />
+                                  </button>
+                              ) : (
+                                  <button
+                                      onClick={() => handleDownload(l)}
+                                      disabled={!isOnline || isDownloading}
+                                      title={isOnline ? t('download_resume') : t('download_disabled_offline')}
+                                      aria-label={isOnline ? t('download_resume') : t('download_disabled_offline')}
+                                      className="w-9 h-9 flex items-center justify-center rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                                  >
+                                      <PlayIcon className="h-5 w-5" />
+                                  </button>
+                              )}
+                              <button
+                                  onClick={() => handleCancel(l.id)}
+                                  title={t('download_cancel')}
+                                  aria-label={t('download_cancel')}
+                                  className="w-9 h-9 flex items-center justify-center rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700"
+                              >
+                                  <XMarkIcon className="h-5 w-5" />
+                              </button>
+                          </div>
+                      ) : (
+                          <button
+                              onClick={() => handleDownload(l)}
+                              disabled={!isOnline || isDownloading}
+                              title={isDownloading ? t('downloading') : (isOnline ? t('download_lesson') : t('download_disabled_offline'))}
+                              aria-label={isDownloading ? t('downloading') : (isOnline ? t('download_lesson') : t('download_disabled_offline'))}
+                              className="w-9 h-9 flex items-center justify-center rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                          >
+                              {isDownloading ? (
+                                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-slate-500" />
+                              ) : (
+                                  <DownloadIcon className="h-5 w-5" />
+                              )}
+                          </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+                {partial && (
+                  <div className="px-4 pb-2">
+                    <div
+                      className="h-1.5 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden"
+                      role="progressbar"
+                      aria-valuemin={0}
+                      aria-valuemax={100}
+                      aria-valuenow={percent ?? undefined}
+                    >
+                      <div
+                        className={`h-full transition-all ${partial.status === 'failed' ? 'bg-red-500' : partial.status === 'paused' ? 'bg-slate-400' : 'bg-brand-500'}`}
+                        style={{ width: `${percent ?? 0}%` }}
+                      />
+                    </div>
+                    <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                      {percent !== null
+                        ? t('download_progress', { percent, received: formatBytes(partial.received), total: formatBytes(partial.total!) })
+                        : formatBytes(partial.received)}
+                      {' · '}
+                      {partial.status === 'failed'
+                        ? t('download_stopped')
+                        : partial.status === 'paused'
+                          ? t('download_paused')
+                          : isOnline ? t('downloading') : t('download_waiting_online')}
+                    </p>
                   </div>
                 )}
               </li>
@@ -338,9 +451,14 @@ const LessonView: React.FC<LessonViewProps> = ({ course, lesson, user, onSelectL
                 )}
             </div>
             
-            {(lesson.videoUrl || lesson.hasOfflineVideo) ? (
+            {(lesson.videoUrl || lesson.hasOfflineVideo || lesson.videoPath) ? (
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <div>
+                        {isVideoBroken && (
+                          <p className="mb-2 p-2 text-sm rounded-md bg-yellow-50 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300">
+                            {t('video_broken_refetching')}
+                          </p>
+                        )}
                         <div className="aspect-video bg-black rounded-lg overflow-hidden mb-4 flex items-center justify-center">
                           {youtubeEmbedUrl ? (
                             <iframe
@@ -358,11 +476,13 @@ const LessonView: React.FC<LessonViewProps> = ({ course, lesson, user, onSelectL
                                 controls
                                 className="w-full h-full"
                                 onTimeUpdate={handleTimeUpdate}
+                                onPlay={handleVideoPlay}
+                                onError={handleVideoError}
                                 src={videoSrc}
                             />
                            ) : (
                             <div className="text-center text-slate-400 p-4">
-                                <p>{t('video_offline_placeholder')}</p>
+                                <p>{t(lesson.videoPath && !lesson.hasOfflineVideo ? 'video_not_downloaded_yet' : 'video_offline_placeholder')}</p>
                             </div>
                            )}
                         </div>
@@ -395,6 +515,24 @@ const LessonView: React.FC<LessonViewProps> = ({ course, lesson, user, onSelectL
           </div>
         </main>
       </div>
+
+      {pendingDownload && (
+        <ConfirmationModal
+          isOpen={true}
+          onClose={() => setPendingDownload(null)}
+          onConfirm={handleConfirmDownload}
+          title={t('storage_warning_title')}
+          message={pendingDownload.plan.fits ? (
+            <>
+              <p>{t('storage_warning_evict', { count: pendingDownload.plan.evict.length, size: formatBytes(pendingDownload.plan.evictBytes) })}</p>
+              <ul className="mt-2 list-disc list-inside">
+                {pendingDownload.plan.evict.map(u => <li key={u.lessonId}>{u.title} ({formatBytes(u.bytes)})</li>)}
+              </ul>
+            </>
+          ) : t('storage_warning_full', { size: formatBytes(pendingDownload.plan.shortBy) })}
+          confirmButtonText={pendingDownload.plan.fits ? t('download_anyway') : t('ok')}
+        />
+      )}
     </div>
   );
 };
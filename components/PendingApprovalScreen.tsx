@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import type { User } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface PendingApprovalScreenProps {
+  user: User;
+  onCheckAgain: () => Promise<void>;
+  onLogout: () => void;
+}
+
+// Shown instead of the dashboard to a teacher who registered, until the school's
+// administrator approves the account.
+const PendingApprovalScreen: React.FC<PendingApprovalScreenProps> = ({ user, onCheckAgain, onLogout }) => {
+  const [isChecking, setIsChecking] = useState(false);
+  const [hasChecked, setHasChecked] = useState(false);
+  const { t } = useTranslation();
+
+  const handleCheckAgain = async () => {
+    setIsChecking(true);
+    try {
+      await onCheckAgain();
+      setHasChecked(true);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="flex justify-center">
+      <div className="bg-white dark:bg-slate-800 p-8 rounded-xl shadow-lg w-full max-w-sm border dark:border-slate-700 text-center">
+        <h2 className="text-2xl font-semibold text-slate-800 dark:text-slate-100 mb-2">{t('awaiting_approval')}</h2>
+        <p className="text-sm text-slate-600 dark:text-slate-300 mb-6">{t('awaiting_approval_description', { class: user.class })}</p>
+
+        {hasChecked && !isChecking && <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">{t('still_awaiting_approval')}</p>}
+
+        <button
+          onClick={handleCheckAgain}
+          disabled={isChecking}
+          className="w-full p-3 bg-brand-600 text-white rounded-lg font-semibold hover:bg-brand-700 focus:outline-none focus:ring-4 focus:ring-brand-300 transition disabled:bg-slate-400"
+        >
+          {isChecking ? '...' : t('check_again')}
+        </button>
+        <button onClick={onLogout} className="w-full mt-3 p-3 text-sm text-slate-600 dark:text-slate-300 hover:underline">
+          {t('logout')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PendingApprovalScreen;
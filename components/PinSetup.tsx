@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import type { User } from '../types';
+import { setPin, AVATARS, PIN_LENGTH } from '../services/deviceRosterService';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface PinSetupProps {
+  user: User;
+  initialAvatar: string;
+  onDone: () => void;
+}
+
+// Offered to a student after signing in with their password on a device where they have
+// no PIN yet, so the next time they can just tap their picture.
+const PinSetup: React.FC<PinSetupProps> = ({ user, initialAvatar, onDone }) => {
+  const [avatar, setAvatar] = useState(initialAvatar);
+  const [pin, setPinValue] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { t } = useTranslation();
+
+  const digitsOnly = (value: string) => value.replace(/\D/g, '').slice(0, PIN_LENGTH);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (pin.length !== PIN_LENGTH) {
+      setError(t('pin_length_error', { count: PIN_LENGTH }));
+      return;
+    }
+    if (pin !== confirmPin) {
+      setError(t('pin_mismatch'));
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await setPin(user.id, pin, avatar);
+      onDone();
+    } catch (err: any) {
+      setError(err.message);
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName = "w-full p-3 text-center text-xl tracking-[0.5em] border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 rounded-md focus:ring-2 focus:ring-brand-400 focus:outline-none";
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-slate-600 dark:text-slate-300 text-center">{t('pin_setup_description')}</p>
+      <div>
+        <p className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">{t('choose_your_picture')}</p>
+        <div className="grid grid-cols-6 gap-2">
+          {AVATARS.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setAvatar(option)}
+              aria-pressed={avatar === option}
+              className={`text-2xl p-1 rounded-lg border-2 transition ${avatar === option ? 'border-brand-500 bg-brand-100 dark:bg-brand-900/60' : 'border-transparent'}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1" htmlFor="new-pin">{t('choose_a_pin', { count: PIN_LENGTH })}</label>
+        <input id="new-pin" type="password" inputMode="numeric" autoComplete="off" value={pin} onChange={e => setPinValue(digitsOnly(e.target.value))} className={inputClassName} />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1" htmlFor="confirm-pin">{t('confirm_pin')}</label>
+        <input id="confirm-pin" type="password" inputMode="numeric" autoComplete="off" value={confirmPin} onChange={e => setConfirmPin(digitsOnly(e.target.value))} className={inputClassName} />
+      </div>
+
+      {error && <p className="text-red-500 dark:text-red-400 text-sm text-center bg-red-100/50 dark:bg-red-900/50 p-2 rounded-md">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="w-full p-3 bg-brand-600 text-white rounded-lg font-semibold hover:bg-brand-700 focus:outline-none focus:ring-4 focus:ring-brand-300 transition disabled:bg-slate-400"
+      >
+        {isSaving ? '...' : t('save_pin')}
+      </button>
+      <button type="button" onClick={onDone} className="w-full text-sm font-semibold text-slate-600 dark:text-slate-300 hover:underline">
+        {t('skip_for_now')}
+      </button>
+    </form>
+  );
+};
+
+export default PinSetup;
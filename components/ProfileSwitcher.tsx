@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import type { User } from '../types';
+import type { RosterEntry } from '../services/db';
+import { switchToStudent, hasPin, PIN_LENGTH, PIN_INVALID, PIN_LOCKED } from '../services/deviceRosterService';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface ProfileSwitcherProps {
+  roster: RosterEntry[];
+  onSwitched: (user: User) => void;
+  onUsePassword: (username?: string) => void;
+}
+
+const pinErrorKeys = {
+  [PIN_INVALID]: 'pin_wrong',
+  [PIN_LOCKED]: 'pin_locked',
+} as const;
+
+// The students who use this device, to pick from and confirm with a PIN.
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ roster, onSwitched, onUsePassword }) => {
+  const [selected, setSelected] = useState<RosterEntry | null>(null);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const { t } = useTranslation();
+
+  const handleSelect = (entry: RosterEntry) => {
+    // Without a PIN, the student signs in with their password (and can set one then).
+    if (!hasPin(entry)) {
+      onUsePassword(entry.username);
+      return;
+    }
+    setSelected(entry);
+    setPin('');
+    setError('');
+  };
+
+  const handlePinChange = async (value: string) => {
+    const digits = value.replace(/\D/g, '').slice(0, PIN_LENGTH);
+    setPin(digits);
+    setError('');
+    if (!selected || digits.length < PIN_LENGTH) return;
+
+    setIsChecking(true);
+    try {
+      onSwitched(await switchToStudent(selected.userId, digits));
+    } catch (err: any) {
+      const errorKey = pinErrorKeys[err?.code as keyof typeof pinErrorKeys];
+      setError(errorKey ? t(errorKey) : err.message);
+      setPin('');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  if (selected) {
+    return (
+      <div className="text-center">
+        <div className="text-5xl mb-2" aria-hidden="true">{selected.avatar}</div>
+        <p className="font-semibold text-lg text-slate-800 dark:text-slate-100 mb-4">{selected.username}</p>
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2" htmlFor="pin">{t('enter_your_pin')}</label>
+        <input
+          id="pin"
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          autoFocus
+          value={pin}
+          disabled={isChecking}
+          onChange={e => handlePinChange(e.target.value)}
+          maxLength={PIN_LENGTH}
+          className="w-40 p-3 text-center text-2xl tracking-[0.5em] border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 rounded-md focus:ring-2 focus:ring-brand-400 focus:outline-none"
+        />
+        {error && <p className="mt-3 text-red-500 dark:text-red-400 text-sm bg-red-100/50 dark:bg-red-900/50 p-2 rounded-md">{error}</p>}
+        <div className="mt-6 flex justify-between text-sm">
+          <button onClick={() => setSelected(null)} className="font-semibold text-slate-600 dark:text-slate-300 hover:underline">
+            {t('back')}
+          </button>
+          <button onClick={() => onUsePassword(selected.username)} className="font-semibold text-brand-700 dark:text-brand-400 hover:underline">
+            {t('use_password_instead')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="grid grid-cols-3 gap-3">
+        {roster.map(entry => (
+          <button
+            key={entry.userId}
+            onClick={() => handleSelect(entry)}
+            className="flex flex-col items-center p-3 rounded-lg border-2 border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-700 hover:border-brand-500 transition"
+          >
+            <span className="text-4xl" aria-hidden="true">{entry.avatar}</span>
+            <span className="mt-1 text-sm font-semibold text-slate-700 dark:text-slate-200 truncate max-w-full">{entry.username}</span>
+          </button>
+        ))}
+      </div>
+      <p className="text-center text-sm text-slate-600 dark:text-slate-300 mt-6">
+        {t('not_on_this_list')}{' '}
+        <button onClick={() => onUsePassword()} className="font-semibold text-brand-700 dark:text-brand-400 hover:underline">
+          {t('sign_in_with_password')}
+        </button>
+      </p>
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
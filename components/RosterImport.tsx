@@ -0,0 +1,188 @@
+import React, { useState, useRef } from 'react';
+import type { Teacher } from '../types';
+import {
+  parseRosterCsv, importRoster, ROSTER_EMPTY, ROSTER_MISSING_COLUMNS,
+  type RosterRow, type RosterRowResult,
+} from '../services/rosterImportService';
+import { useTranslation } from '../hooks/useTranslation';
+import { ChevronDownIcon } from './icons/ChevronDownIcon';
+import { printLoginCards } from './loginCards';
+
+interface RosterImportProps {
+  user: Teacher;
+  onCreated?: () => void;
+}
+
+const parseErrorKeys = {
+  [ROSTER_EMPTY]: 'roster_empty',
+  [ROSTER_MISSING_COLUMNS]: 'roster_missing_columns',
+} as const;
+
+const problemKeys = {
+  missing_name: 'roster_problem_missing_name',
+  invalid_class: 'roster_problem_invalid_class',
+  other_class: 'roster_problem_other_class',
+  duplicate_in_file: 'roster_problem_duplicate_in_file',
+  already_exists: 'roster_problem_already_exists',
+  offline: 'roster_problem_offline',
+  failed: 'roster_problem_failed',
+} as const;
+
+const statusClassNames: Record<RosterRowResult['status'], string> = {
+  created: 'text-green-600 dark:text-green-400',
+  skipped: 'text-slate-500 dark:text-slate-400',
+  failed: 'text-red-600 dark:text-red-400',
+};
+
+// For teachers: accounts for the students on a class list, and login cards to hand out.
+const RosterImport: React.FC<RosterImportProps> = ({ user, onCreated }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [rows, setRows] = useState<RosterRow[] | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState('');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [results, setResults] = useState<RosterRowResult[] | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { t } = useTranslation();
+
+  const reset = () => {
+    setRows(null);
+    setFileName('');
+    setError('');
+    setResults(null);
+  };
+
+  const handleFileChosen = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Lets the same file be picked again after fixing it.
+    if (!file) return;
+    reset();
+    try {
+      setRows(parseRosterCsv(await file.text()));
+      setFileName(file.name);
+    } catch (err: any) {
+      const errorKey = parseErrorKeys[err?.code as keyof typeof parseErrorKeys];
+      setError(errorKey ? t(errorKey) : err.message);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!rows) return;
+    setError('');
+    setProgress({ done: 0, total: rows.length });
+    try {
+      const imported = await importRoster(rows, user, (done, total) => setProgress({ done, total }));
+      setResults(imported);
+      setRows(null);
+      if (imported.some(result => result.status === 'created')) onCreated?.();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const createdAccounts = results?.flatMap(result => (result.account ? [result.account] : [])) ?? [];
+
+  const handlePrint = () => printLoginCards(createdAccounts, {
+    title: t('welcome_to_vidyalehar'),
+    class: t('class'),
+    rollNumber: t('roll_number'),
+    username: t('username'),
+    password: t('password'),
+    keepSafe: t('login_card_keep_safe'),
+  });
+
+  const describeResult = (result: RosterRowResult) => {
+    if (result.status === 'created') return t('roster_account_created', { username: result.account!.username });
+    const problemKey = problemKeys[result.problem!];
+    return t(problemKey, { row: result.duplicateOf ?? '', message: result.detail ?? '' });
+  };
+
+  const buttonClass = 'px-4 py-2 text-sm rounded-md transition disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-slate-200 dark:border-slate-700">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex justify-between items-center w-full">
+        <h4 className="font-bold text-slate-800 dark:text-slate-100">{t('add_students_from_list')}</h4>
+        <ChevronDownIcon className={`h-5 w-5 text-slate-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-3">
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-3">{t('add_students_from_list_description', { class: user.class })}</p>
+
+          {!rows && !results && (
+            <>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className={`${buttonClass} bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600`}
+              >
+                {t('choose_class_list')}
+              </button>
+              <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleFileChosen} className="hidden" />
+            </>
+          )}
+
+          {rows && (
+            <div className="flex flex-wrap items-center gap-2">
+              <p className="text-sm text-slate-600 dark:text-slate-300 flex-grow">{t('class_list_found', { count: rows.length, file: fileName })}</p>
+              <button
+                onClick={handleCreate}
+                disabled={!!progress}
+                className={`${buttonClass} bg-brand-600 text-white hover:bg-brand-700`}
+              >
+                {progress ? t('creating_accounts', { done: progress.done, total: progress.total }) : t('create_accounts')}
+              </button>
+              <button
+                onClick={reset}
+                disabled={!!progress}
+                className={`${buttonClass} bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600`}
+              >
+                {t('cancel')}
+              </button>
+            </div>
+          )}
+
+          {error && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          {results && (
+            <div>
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                <p className="text-sm text-slate-600 dark:text-slate-300 flex-grow">
+                  {t('roster_import_summary', {
+                    created: createdAccounts.length,
+                    skipped: results.filter(result => result.status === 'skipped').length,
+                    failed: results.filter(result => result.status === 'failed').length,
+                  })}
+                </p>
+                {createdAccounts.length > 0 && (
+                  <button onClick={handlePrint} className={`${buttonClass} bg-brand-600 text-white hover:bg-brand-700`}>
+                    {t('print_login_cards')}
+                  </button>
+                )}
+                <button onClick={reset} className={`${buttonClass} bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600`}>
+                  {t('upload_another_list')}
+                </button>
+              </div>
+              {createdAccounts.length > 0 && (
+                <p className="mb-3 text-sm font-semibold text-yellow-700 dark:text-yellow-400">{t('login_cards_print_now')}</p>
+              )}
+              <ul className="divide-y divide-slate-100 dark:divide-slate-700 max-h-80 overflow-y-auto">
+                {results.map(result => (
+                  <li key={result.row.rowNumber} className="py-2 flex gap-3 text-sm text-slate-600 dark:text-slate-300">
+                    <span className="w-16 flex-shrink-0 text-slate-400">{t('row_number', { row: result.row.rowNumber })}</span>
+                    <span className="flex-grow min-w-0 truncate">{result.row.name || '—'}</span>
+                    <span className={`text-right ${statusClassNames[result.status]}`}>{describeResult(result)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RosterImport;
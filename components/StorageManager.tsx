@@ -0,0 +1,163 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  getStorageEstimate, getStorageBreakdown, getStorageSettings, saveStorageSettings, requestPersistentStorage,
+  evictVideos, formatBytes,
+  type StorageEstimate, type CourseStorageUsage,
+} from '../services/storageService';
+import { useTranslation } from '../hooks/useTranslation';
+import { ChevronDownIcon } from './icons/ChevronDownIcon';
+import { TrashIcon } from './icons/TrashIcon';
+
+const MB = 1024 * 1024;
+
+// Where this device's space goes, and the limits for offline videos.
+const StorageManager: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const [breakdown, setBreakdown] = useState<CourseStorageUsage[]>([]);
+  const [maxVideoMb, setMaxVideoMb] = useState('');
+  const [reserveMb, setReserveMb] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const { t } = useTranslation();
+
+  const fetchUsage = useCallback(async () => {
+    setEstimate(await getStorageEstimate());
+    setBreakdown(await getStorageBreakdown());
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const settings = getStorageSettings();
+    setMaxVideoMb(String(Math.round(settings.maxVideoBytes / MB)));
+    setReserveMb(String(Math.round(settings.reserveBytes / MB)));
+    setMessage(null);
+    fetchUsage();
+  }, [isOpen, fetchUsage]);
+
+  const handleSaveSettings = (e: React.FormEvent) => {
+    e.preventDefault();
+    const maxVideo = Number(maxVideoMb);
+    const reserve = Number(reserveMb);
+    if (!(maxVideo > 0) || !(reserve >= 0)) {
+      setMessage(t('storage_settings_invalid'));
+      return;
+    }
+    saveStorageSettings({ maxVideoBytes: maxVideo * MB, reserveBytes: reserve * MB });
+    setMessage(t('storage_settings_saved'));
+  };
+
+  const handleProtect = async () => {
+    const persisted = await requestPersistentStorage();
+    setMessage(persisted ? null : t('storage_persist_denied'));
+    await fetchUsage();
+  };
+
+  const handleRemove = async (lessonId: string) => {
+    await evictVideos([lessonId]);
+    await fetchUsage();
+  };
+
+  const videoBytes = breakdown.reduce((sum, course) => sum + course.bytes, 0);
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-slate-200 dark:border-slate-700">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex justify-between items-center w-full">
+        <h4 className="font-bold text-slate-800 dark:text-slate-100">{t('storage')}</h4>
+        <ChevronDownIcon className={`h-5 w-5 text-slate-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-4 text-sm">
+          <div className="text-slate-600 dark:text-slate-300 space-y-1">
+            {estimate?.usage != null && estimate.quota != null && (
+              <p>{t('storage_used_of', { used: formatBytes(estimate.usage), quota: formatBytes(estimate.quota) })}</p>
+            )}
+            <p>{t('storage_videos_of', { used: formatBytes(videoBytes), limit: formatBytes(getStorageSettings().maxVideoBytes) })}</p>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className={estimate?.persisted ? 'text-green-600 dark:text-green-400' : 'text-yellow-600 dark:text-yellow-400'}>
+                {t(estimate?.persisted ? 'storage_persisted' : 'storage_not_persisted')}
+              </span>
+              {estimate && !estimate.persisted && (
+                <button
+                  onClick={handleProtect}
+                  className="px-3 py-1 bg-slate-100 dark:bg-slate-700 rounded-md hover:bg-slate-200 dark:hover:bg-slate-600 transition"
+                >
+                  {t('storage_protect')}
+                </button>
+              )}
+            </div>
+          </div>
+
+          <form onSubmit={handleSaveSettings} className="flex flex-wrap items-end gap-3">
+            <label className="flex flex-col text-slate-600 dark:text-slate-300">
+              {t('storage_video_limit_mb')}
+              <input
+                type="number"
+                min="1"
+                value={maxVideoMb}
+                onChange={e => setMaxVideoMb(e.target.value)}
+                className="mt-1 w-32 px-2 py-1 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700"
+              />
+            </label>
+            <label className="flex flex-col text-slate-600 dark:text-slate-300">
+              {t('storage_reserve_mb')}
+              <input
+                type="number"
+                min="0"
+                value={reserveMb}
+                onChange={e => setReserveMb(e.target.value)}
+                className="mt-1 w-32 px-2 py-1 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700"
+              />
+            </label>
+            <button type="submit" className="px-3 py-1 bg-brand-600 text-white rounded-md hover:bg-brand-700 transition">
+              {t('save')}
+            </button>
+          </form>
+          {message && <p className="text-slate-500 dark:text-slate-400">{message}</p>}
+
+          {breakdown.length === 0 ? (
+            <p className="text-slate-500">{t('storage_no_videos')}</p>
+          ) : (
+            <ul className="space-y-3">
+              {breakdown.map(course => (
+                <li key={course.courseId ?? 'other'}>
+                  <div className="flex justify-between font-semibold text-slate-700 dark:text-slate-200">
+                    <span>{course.courseId ? course.title : t('storage_other_videos')}</span>
+                    <span>{formatBytes(course.bytes)}</span>
+                  </div>
+                  <ul className="mt-1 pl-3 border-l-2 border-slate-200 dark:border-slate-600 space-y-1">
+                    {course.lessons.map(lesson => (
+                      <li key={lesson.lessonId} className="flex items-center justify-between gap-2 text-slate-600 dark:text-slate-300">
+                        <span className="break-all">{lesson.title}</span>
+                        <span className="flex items-center gap-2 whitespace-nowrap">
+                          <span className="text-xs text-slate-400">
+                            {lesson.lastUsedAt ? new Date(lesson.lastUsedAt).toLocaleDateString() : ''}
+                          </span>
+                          {formatBytes(lesson.bytes)}
+                          {lesson.evictable ? (
+                            <button
+                              onClick={() => handleRemove(lesson.lessonId)}
+                              title={t('delete_download')}
+                              aria-label={t('delete_download')}
+                              className="p-1 text-red-500 hover:text-red-700 transition"
+                            >
+                              <TrashIcon className="h-4 w-4" />
+                            </button>
+                          ) : (
+                            <span className="text-xs text-yellow-600 dark:text-yellow-400">{t('storage_waiting_upload')}</span>
+                          )}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StorageManager;
@@ -1,9 +1,14 @@
 import React, { useState, useEffect } from 'react';
+import { liveQuery } from 'dexie';
 import type { Course, Student } from '../types';
 import { getCoursesForClass } from '../services/offlineContentService';
 import DashboardCard from './DashboardCard';
 import StudentProgressTracker from './StudentProgressTracker';
 import QuizHistory from './QuizHistory';
+import SyncBundleTransfer from './SyncBundleTransfer';
+import StorageManager from './StorageManager';
+import CourseOfflineControl from './CourseOfflineControl';
+import { getCoursePackageProgress, type CoursePackageProgress } from '../services/coursePackageService';
 import { BookOpenIcon } from './icons/BookOpenIcon';
 import { ChartBarIcon } from './icons/ChartBarIcon';
 import { SparklesIcon } from './icons/SparklesIcon';
@@ -13,6 +18,7 @@ import { useTranslation } from '../hooks/useTranslation';
 interface StudentDashboardProps {
   user: Student;
   onSelectCourse: (course: Course) => void;
+  isOnline: boolean;
 }
 
 const iconMap = {
@@ -23,20 +29,33 @@ const iconMap = {
 
 type PerformanceTab = 'progress' | 'quiz';
 
-const StudentDashboard: React.FC<StudentDashboardProps> = ({ user, onSelectCourse }) => {
+const StudentDashboard: React.FC<StudentDashboardProps> = ({ user, onSelectCourse, isOnline }) => {
   const [courses, setCourses] = useState<Course[]>([]);
+  const [packages, setPackages] = useState<Record<string, CoursePackageProgress>>({});
   const [isDetailsVisible, setIsDetailsVisible] = useState(false);
   const [activeTab, setActiveTab] = useState<PerformanceTab>('progress');
   const { t } = useTranslation();
 
+  // Live, so courses arriving from a sync, a bundle or the realtime feed show up straight away.
   useEffect(() => {
-    const fetchCourses = async () => {
-        const coursesData = await getCoursesForClass(user.class);
-        setCourses(coursesData);
-    };
-    fetchCourses();
+    const subscription = liveQuery(() => getCoursesForClass(user.class)).subscribe({
+      next: setCourses,
+      error: error => console.error('Failed to load courses:', error),
+    });
+    return () => subscription.unsubscribe();
   }, [user.class]);
 
+  useEffect(() => {
+    const subscription = liveQuery(async () => {
+      const progress = await Promise.all(courses.map(course => getCoursePackageProgress(course.id, user.id)));
+      return Object.fromEntries(courses.map((course, i) => [course.id, progress[i]]));
+    }).subscribe({
+      next: setPackages,
+      error: error => console.error('Failed to load offline courses:', error),
+    });
+    return () => subscription.unsubscribe();
+  }, [courses, user.id]);
+
   return (
     <div className="space-y-10">
       <div>
@@ -101,11 +120,18 @@ const StudentDashboard: React.FC<StudentDashboardProps> = ({ user, onSelectCours
                 icon={iconMap[course.icon]}
                 colorIndex={index}
                 onClick={() => onSelectCourse(course)}
+                badge={packages[course.id]?.isAvailableOffline ? t('course_available_offline') : undefined}
+                footer={packages[course.id] && (
+                  <CourseOfflineControl courseId={course.id} userId={user.id} progress={packages[course.id]} isOnline={isOnline} />
+                )}
               />
             ))}
           </div>
         )}
       </div>
+
+      <SyncBundleTransfer user={user} />
+      <StorageManager />
     </div>
   );
 };
@@ -0,0 +1,150 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Student, PasswordReset } from '../types';
+import { db } from '../services/db';
+import { resetStudentPassword, getPasswordResets } from '../services/passwordResetService';
+import { isNetworkError } from '../services/syncService';
+import { useTranslation } from '../hooks/useTranslation';
+import ConfirmationModal from './ConfirmationModal';
+import { ChevronDownIcon } from './icons/ChevronDownIcon';
+import { printLoginCards } from './loginCards';
+
+interface StudentPasswordResetProps {
+  students: Student[];
+}
+
+// Shown in the panel; resets made before are listed below it.
+const RECENT_RESETS_SHOWN = 10;
+
+// For teachers: a new password for a student who forgot theirs, and who reset whose when.
+const StudentPasswordReset: React.FC<StudentPasswordResetProps> = ({ students }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [toReset, setToReset] = useState<Student | null>(null);
+  const [newPassword, setNewPassword] = useState<{ student: Student; password: string } | null>(null);
+  const [error, setError] = useState('');
+  const [resets, setResets] = useState<PasswordReset[]>([]);
+  const [names, setNames] = useState<Map<string, string>>(new Map());
+  const [isLogUnavailable, setIsLogUnavailable] = useState(false);
+  const { t } = useTranslation();
+
+  const fetchResets = useCallback(async () => {
+    try {
+      const fetched = (await getPasswordResets()).slice(0, RECENT_RESETS_SHOWN);
+      const profiles = await db.profiles.bulkGet([...new Set(fetched.flatMap(r => [r.studentId, r.resetBy ?? '']))]);
+      setNames(new Map(profiles.flatMap(p => (p ? [[p.id, p.full_name || p.username] as [string, string]] : []))));
+      setResets(fetched);
+      setIsLogUnavailable(false);
+    } catch (e) {
+      console.error('Failed to fetch password resets:', e);
+      setIsLogUnavailable(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) fetchResets();
+  }, [isOpen, fetchResets]);
+
+  const handleConfirmReset = async () => {
+    if (!toReset) return;
+    const student = toReset;
+    setToReset(null);
+    setError('');
+    setNewPassword(null);
+    try {
+      setNewPassword({ student, password: await resetStudentPassword(student.id) });
+      fetchResets();
+    } catch (err: any) {
+      console.error('Failed to reset the password:', err);
+      setError(isNetworkError(err) ? t('reset_password_needs_internet') : err.message);
+    }
+  };
+
+  const handlePrint = () => {
+    if (!newPassword) return;
+    const { student, password } = newPassword;
+    printLoginCards([{ fullName: student.name, class: student.class, rollNumber: null, username: student.username, password }], {
+      title: t('welcome_to_vidyalehar'),
+      class: t('class'),
+      rollNumber: t('roll_number'),
+      username: t('username'),
+      password: t('password'),
+      keepSafe: t('login_card_change_password'),
+    });
+  };
+
+  const nameOf = (id: string | null) => (id && names.get(id)) || t('unknown_user');
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-slate-200 dark:border-slate-700">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex justify-between items-center w-full">
+        <h4 className="font-bold text-slate-800 dark:text-slate-100">{t('student_passwords')}</h4>
+        <ChevronDownIcon className={`h-5 w-5 text-slate-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-3">
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-3">{t('student_passwords_description')}</p>
+
+          {newPassword && (
+            <div className="mb-3 p-3 rounded-md bg-green-50 dark:bg-green-900/30 text-sm text-green-800 dark:text-green-300 flex flex-wrap items-center gap-2">
+              <p className="flex-grow">
+                {t('password_reset_done', { name: newPassword.student.name, username: newPassword.student.username })}{' '}
+                <span className="font-mono font-bold text-base">{newPassword.password}</span>
+              </p>
+              <button onClick={handlePrint} className="px-3 py-1 text-sm bg-white dark:bg-slate-700 rounded-md hover:bg-slate-100 dark:hover:bg-slate-600 transition">
+                {t('print_login_card')}
+              </button>
+            </div>
+          )}
+          {error && <p className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          {students.length === 0 ? (
+            <p className="text-sm text-slate-500">{t('no_students_in_class')}</p>
+          ) : (
+            <ul className="divide-y divide-slate-100 dark:divide-slate-700 max-h-64 overflow-y-auto">
+              {students.map(student => (
+                <li key={student.id} className="py-2 flex items-center gap-3 text-sm text-slate-600 dark:text-slate-300">
+                  <div className="flex-grow min-w-0">
+                    <p className="font-semibold truncate">{student.name}</p>
+                    {student.name !== student.username && <p className="text-xs text-slate-400">{student.username}</p>}
+                  </div>
+                  <button
+                    onClick={() => setToReset(student)}
+                    className="px-3 py-1 text-sm bg-slate-100 dark:bg-slate-700 rounded-md hover:bg-slate-200 dark:hover:bg-slate-600 transition"
+                  >
+                    {t('reset_password')}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <p className="mt-4 text-xs font-semibold uppercase text-slate-400 mb-2">{t('recent_password_resets')}</p>
+          {isLogUnavailable ? (
+            <p className="text-sm text-slate-500">{t('password_resets_unavailable')}</p>
+          ) : resets.length === 0 ? (
+            <p className="text-sm text-slate-500">{t('password_resets_empty')}</p>
+          ) : (
+            <ul className="space-y-1 text-sm text-slate-600 dark:text-slate-300">
+              {resets.map(reset => (
+                <li key={reset.id}>
+                  {t('password_reset_entry', { student: nameOf(reset.studentId), teacher: nameOf(reset.resetBy), date: new Date(reset.resetAt).toLocaleString() })}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <ConfirmationModal
+        isOpen={!!toReset}
+        onClose={() => setToReset(null)}
+        onConfirm={handleConfirmReset}
+        title={t('reset_password')}
+        message={toReset && t('reset_password_confirmation', { name: toReset.name })}
+        confirmButtonText={t('reset_password')}
+      />
+    </div>
+  );
+};
+
+export default StudentPasswordReset;
@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import type { User } from '../types';
+import type { SyncBundleRecord } from '../services/db';
+import { UserRole } from '../constants';
+import {
+  exportChangesBundle, exportContentBundle, getExportedBundles, readSyncBundle, importSyncBundle,
+  BUNDLE_FILE_TYPE, type SyncBundleKind,
+} from '../services/syncBundleService';
+import { syncNow } from '../services/syncService';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { useTranslation } from '../hooks/useTranslation';
+import { DownloadIcon } from './icons/DownloadIcon';
+
+interface SyncBundleTransferProps {
+  user: User;
+  onImported?: () => void; // For screens that don't observe IndexedDB themselves
+}
+
+// Shown in the list of earlier exports, which can be saved again if a copy got lost.
+const RECENT_EXPORTS_SHOWN = 5;
+
+const saveBundleFile = (file: Blob, kind: SyncBundleKind, createdAt: number) => {
+  const stamp = new Date(createdAt).toISOString().slice(0, 16).replace(/[:T]/g, '-');
+  const url = URL.createObjectURL(file);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `vidyalehar-${kind}-${stamp}.vlbundle`;
+  link.click();
+  // Revoked once the click has been handled; some browsers start the download after it.
+  setTimeout(() => URL.revokeObjectURL(url));
+};
+
+const SyncBundleTransfer: React.FC<SyncBundleTransferProps> = ({ user, onImported }) => {
+  const [exportedBundles, setExportedBundles] = useState<SyncBundleRecord[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { pendingCount } = useSyncStatus();
+  const { t } = useTranslation();
+  const isTeacher = user.role === UserRole.TEACHER;
+
+  const fetchExportedBundles = useCallback(async () => {
+    setExportedBundles((await getExportedBundles()).slice(0, RECENT_EXPORTS_SHOWN));
+  }, []);
+
+  useEffect(() => {
+    fetchExportedBundles();
+  }, [fetchExportedBundles]);
+
+  const runExport = async (kind: SyncBundleKind) => {
+    setIsWorking(true);
+    setMessage(null);
+    try {
+      const file = kind === 'changes'
+        ? await exportChangesBundle(user)
+        : await exportContentBundle(user, [user.class]);
+      if (!file) {
+        setMessage({ type: 'error', text: t('no_changes_to_export') });
+        return;
+      }
+      saveBundleFile(file, kind, Date.now());
+      setMessage({ type: 'success', text: t(kind === 'changes' ? 'changes_bundle_exported' : 'content_bundle_exported') });
+      await fetchExportedBundles();
+    } catch (error: any) {
+      setMessage({ type: 'error', text: error.message });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Lets the same file be picked again after an error.
+    if (!file) return;
+
+    setIsWorking(true);
+    setMessage(null);
+    try {
+      const result = await readSyncBundle(file);
+      if (result.alreadyImported) {
+        setMessage({ type: 'error', text: t('bundle_already_imported') });
+        return;
+      }
+      const signer = { name: result.bundle.signer.username, fingerprint: result.fingerprint };
+      if (!result.isTrusted && !window.confirm(t('trust_bundle_signer_confirmation', signer))) {
+        return;
+      }
+
+      const summary = await importSyncBundle(result);
+      setMessage({ type: 'success', text: t('bundle_imported', { ...summary }) });
+      onImported?.();
+      if (navigator.onLine && summary.actions > 0) {
+        await syncNow({ manual: true });
+        onImported?.();
+      }
+    } catch (error: any) {
+      setMessage({ type: 'error', text: error.message });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const buttonClass = 'flex items-center justify-center gap-2 px-4 py-2 text-sm rounded-md transition disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-slate-200 dark:border-slate-700">
+      <h4 className="font-bold text-slate-800 dark:text-slate-100 mb-1">{t('offline_transfer')}</h4>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">{t('offline_transfer_description')}</p>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        {/* Only students' own progress and video reports can travel in a bundle. */}
+        {!isTeacher && (
+          <button
+            onClick={() => runExport('changes')}
+            disabled={isWorking || pendingCount === 0}
+            className={`${buttonClass} bg-brand-600 text-white hover:bg-brand-700`}
+            title={pendingCount === 0 ? t('no_changes_to_export') : undefined}
+          >
+            <DownloadIcon className="h-5 w-5" />
+            {t('export_changes', { count: pendingCount })}
+          </button>
+        )}
+        {isTeacher && (
+          <button
+            onClick={() => runExport('content')}
+            disabled={isWorking}
+            className={`${buttonClass} bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600`}
+          >
+            <DownloadIcon className="h-5 w-5" />
+            {t('export_content_for_students')}
+          </button>
+        )}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isWorking}
+          className={`${buttonClass} bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600`}
+        >
+          {t('import_bundle')}
+        </button>
+        <input ref={fileInputRef} type="file" accept={`.vlbundle,${BUNDLE_FILE_TYPE}`} onChange={handleImport} className="hidden" />
+      </div>
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.type === 'success' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+          {message.text}
+        </p>
+      )}
+
+      {exportedBundles.length > 0 && (
+        <div className="mt-4">
+          <p className="text-xs font-semibold uppercase text-slate-400 mb-2">{t('recent_exports')}</p>
+          <ul className="space-y-1 text-sm">
+            {exportedBundles.map(record => (
+              <li key={record.id} className="flex justify-between items-center">
+                <span className="text-slate-600 dark:text-slate-300">
+                  {t(record.kind === 'changes' ? 'changes_bundle' : 'content_bundle')} &middot; {new Date(record.createdAt).toLocaleString()}
+                </span>
+                <button
+                  onClick={() => saveBundleFile(record.file!, record.kind, record.createdAt)}
+                  className="text-brand-600 dark:text-brand-400 hover:underline"
+                >
+                  {t('save_again')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncBundleTransfer;
@@ -0,0 +1,77 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { SyncConflict } from '../services/db';
+import { getSyncConflicts, resolveConflict } from '../services/conflictService';
+import { useTranslation } from '../hooks/useTranslation';
+import { ExclamationTriangleIcon } from './icons/ExclamationTriangleIcon';
+
+interface SyncConflictsProps {
+  onResolved: () => void;
+}
+
+const SyncConflicts: React.FC<SyncConflictsProps> = ({ onResolved }) => {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const { t } = useTranslation();
+
+  const fetchConflicts = useCallback(async () => {
+    setConflicts(await getSyncConflicts());
+  }, []);
+
+  useEffect(() => {
+    fetchConflicts();
+  }, [fetchConflicts]);
+
+  const handleResolve = async (conflict: SyncConflict, resolution: 'keep_local' | 'keep_server') => {
+    await resolveConflict(conflict.id!, resolution);
+    await fetchConflicts();
+    onResolved();
+  };
+
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-yellow-300 dark:border-yellow-700 bg-yellow-50 dark:bg-yellow-900/20">
+      <div className="flex items-center gap-2 mb-2">
+        <ExclamationTriangleIcon className="h-5 w-5 text-yellow-600 dark:text-yellow-400" />
+        <h4 className="font-bold text-yellow-800 dark:text-yellow-200">{t('sync_conflicts')}</h4>
+      </div>
+      <p className="text-sm text-yellow-700 dark:text-yellow-300 mb-4">{t('sync_conflicts_description')}</p>
+      <ul className="space-y-3">
+        {conflicts.map(conflict => (
+          <li key={conflict.id} className="p-3 bg-white dark:bg-slate-800 rounded-md shadow-sm">
+            <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3">
+              <div className="text-sm">
+                <p className="font-semibold text-slate-800 dark:text-slate-100">
+                  {conflict.entityType === 'course' ? t('course') : t('lesson')}: {conflict.localData.title}
+                </p>
+                <p className="text-slate-500 dark:text-slate-400">
+                  {conflict.serverData
+                    ? `${t('server_version')}: ${conflict.serverData.title}`
+                    : t('conflict_deleted_on_server')}
+                </p>
+                <p className="text-xs text-slate-400">{new Date(conflict.detectedAt).toLocaleString()}</p>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <button
+                  onClick={() => handleResolve(conflict, 'keep_local')}
+                  className="px-3 py-1 text-sm bg-brand-600 text-white rounded-md hover:bg-brand-700 transition"
+                >
+                  {t('keep_my_version')}
+                </button>
+                <button
+                  onClick={() => handleResolve(conflict, 'keep_server')}
+                  className="px-3 py-1 text-sm bg-slate-100 dark:bg-slate-700 rounded-md hover:bg-slate-200 dark:hover:bg-slate-600 transition"
+                >
+                  {t('keep_server_version')}
+                </button>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SyncConflicts;
@@ -0,0 +1,124 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { SyncJournalEntry } from '../services/db';
+import { getSyncJournal, exportSyncJournal } from '../services/syncJournal';
+import { formatBytes } from '../services/storageService';
+import { actionLabelKeys } from './FailedSyncActions';
+import { useTranslation } from '../hooks/useTranslation';
+import { ChevronDownIcon } from './icons/ChevronDownIcon';
+import { DownloadIcon } from './icons/DownloadIcon';
+
+const entryLabelKeys = {
+  ...actionLabelKeys,
+  SYNC_DOWN: 'sync_action_sync_down',
+  DOWNLOAD_VIDEO: 'sync_action_download_video',
+} as const satisfies Record<SyncJournalEntry['type'], string>;
+
+const resultStyles: Record<SyncJournalEntry['result'], string> = {
+  ok: 'text-green-600 dark:text-green-400',
+  merged: 'text-green-600 dark:text-green-400',
+  skipped: 'text-slate-500 dark:text-slate-400',
+  conflict: 'text-yellow-600 dark:text-yellow-400',
+  failed: 'text-red-600 dark:text-red-400',
+  gave_up: 'text-red-600 dark:text-red-400',
+};
+
+const isProblem = (entry: SyncJournalEntry) =>
+  entry.result === 'conflict' || entry.result === 'failed' || entry.result === 'gave_up';
+
+// This device's record of recent syncs, for working out what happened to a change.
+const SyncJournal: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [entries, setEntries] = useState<SyncJournalEntry[]>([]);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const { t } = useTranslation();
+
+  const fetchEntries = useCallback(async () => {
+    setEntries(await getSyncJournal());
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) fetchEntries();
+  }, [isOpen, fetchEntries]);
+
+  const handleExport = async () => {
+    const url = URL.createObjectURL(new Blob([await exportSyncJournal()], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `vidyalehar-sync-journal-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url));
+  };
+
+  const shownEntries = problemsOnly ? entries.filter(isProblem) : entries;
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-slate-200 dark:border-slate-700">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex justify-between items-center w-full">
+        <h4 className="font-bold text-slate-800 dark:text-slate-100">{t('sync_journal')}</h4>
+        <ChevronDownIcon className={`h-5 w-5 text-slate-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-3">
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-3">{t('sync_journal_description')}</p>
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+              <input type="checkbox" checked={problemsOnly} onChange={e => setProblemsOnly(e.target.checked)} />
+              {t('only_problems')}
+            </label>
+            <div className="flex gap-2">
+              <button
+                onClick={fetchEntries}
+                className="px-3 py-1 text-sm bg-slate-100 dark:bg-slate-700 rounded-md hover:bg-slate-200 dark:hover:bg-slate-600 transition"
+              >
+                {t('refresh')}
+              </button>
+              <button
+                onClick={handleExport}
+                className="flex items-center gap-1 px-3 py-1 text-sm bg-brand-600 text-white rounded-md hover:bg-brand-700 transition"
+              >
+                <DownloadIcon className="h-4 w-4" />
+                {t('export_journal')}
+              </button>
+            </div>
+          </div>
+
+          {shownEntries.length === 0 ? (
+            <p className="text-sm text-slate-500">{t('sync_journal_empty')}</p>
+          ) : (
+            <div className="overflow-x-auto max-h-96">
+              <table className="w-full text-sm text-left">
+                <thead className="text-xs uppercase text-slate-400">
+                  <tr>
+                    <th className="py-2 pr-3">{t('journal_time')}</th>
+                    <th className="py-2 pr-3">{t('journal_action')}</th>
+                    <th className="py-2 pr-3">{t('journal_record')}</th>
+                    <th className="py-2 pr-3">{t('journal_result')}</th>
+                    <th className="py-2 pr-3 text-right">{t('journal_size')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                  {shownEntries.map(entry => (
+                    <tr key={entry.id} className="align-top text-slate-600 dark:text-slate-300">
+                      <td className="py-2 pr-3 whitespace-nowrap">{new Date(entry.at).toLocaleString()}</td>
+                      <td className="py-2 pr-3 whitespace-nowrap">{t(entryLabelKeys[entry.type])}</td>
+                      <td className="py-2 pr-3 break-all">{entry.entityId}</td>
+                      <td className="py-2 pr-3">
+                        <span className={`font-semibold ${resultStyles[entry.result]}`}>{t(`sync_result_${entry.result}`)}</span>
+                        {entry.detail && <p className="text-xs text-slate-400">{entry.detail}</p>}
+                        {entry.error && <p className="text-xs text-red-600 dark:text-red-400 break-words">{entry.error}</p>}
+                      </td>
+                      <td className="py-2 pr-3 text-right whitespace-nowrap">{formatBytes(entry.bytes)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncJournal;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { useTranslation } from '../hooks/useTranslation';
+import { syncNow } from '../services/syncService';
+import { ArrowPathIcon } from './icons/ArrowPathIcon';
+
+interface SyncStatusIndicatorProps {
+  isOnline: boolean;
+}
+
+const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({ isOnline }) => {
+  const { pendingCount, failedCount, isSyncing, lastSyncedAt, lastError } = useSyncStatus();
+  const { t } = useTranslation();
+
+  let label: string;
+  let colorClass = 'text-slate-600 dark:text-slate-300';
+  if (isSyncing) {
+    label = t('syncing');
+  } else if (lastError || failedCount > 0) {
+    label = failedCount > 0 ? t('sync_failed_count', { count: failedCount }) : t('sync_problem');
+    colorClass = 'text-red-600 dark:text-red-400';
+  } else if (pendingCount > 0) {
+    label = t('sync_pending_count', { count: pendingCount });
+    colorClass = 'text-yellow-700 dark:text-yellow-400';
+  } else {
+    label = t('all_changes_synced');
+  }
+
+  const details = [
+    lastSyncedAt ? t('last_synced_at', { time: new Date(lastSyncedAt).toLocaleString() }) : t('never_synced'),
+    lastError ? `${t('last_error')}: ${lastError}` : null,
+  ].filter(Boolean).join('\n');
+
+  return (
+    <div className="flex items-center space-x-1" title={details}>
+      <span className={`text-sm font-medium hidden lg:block ${colorClass}`}>{label}</span>
+      <button
+        onClick={() => syncNow({ manual: true })}
+        disabled={!isOnline || isSyncing}
+        className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 disabled:opacity-40 disabled:cursor-not-allowed"
+        aria-label={t('sync_now')}
+        title={isOnline ? t('sync_now') : t('sync_disabled_offline')}
+      >
+        <ArrowPathIcon className={`h-5 w-5 ${isSyncing ? 'animate-spin' : ''} ${pendingCount > 0 && !isSyncing ? 'text-yellow-600 dark:text-yellow-400' : ''}`} />
+      </button>
+    </div>
+  );
+};
+
+export default SyncStatusIndicator;
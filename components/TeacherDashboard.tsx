@@ -4,7 +4,7 @@ import {
     PieChart, Pie, Cell, LineChart, Line 
 } from 'recharts';
 import type { Student, StudentProgress, LessonStatus, Teacher, Course, Lesson } from '../types';
-import { getStudentProgress, getCoursesForClass, getCoursesByAuthor, deleteCourse, deleteLesson } from '../services/offlineContentService';
+import { getStudentProgress, getCoursesForClass, getCoursesByAuthor, deleteCourse, deleteLesson, reorderLessons } from '../services/offlineContentService';
 import { getStudentsByClass } from '../services/authService';
 import { useTranslation } from '../hooks/useTranslation';
 import { SearchIcon } from './icons/SearchIcon';
@@ -12,10 +12,20 @@ import { PencilIcon } from './icons/PencilIcon';
 import { TrashIcon } from './icons/TrashIcon';
 import { PlusCircleIcon } from './icons/PlusCircleIcon';
 import { QuestionMarkCircleIcon } from './icons/QuestionMarkCircleIcon';
+import { ChevronDownIcon } from './icons/ChevronDownIcon';
 import CourseEditor from './CourseEditor';
 import LessonEditor from './LessonEditor';
 import Tooltip from './Tooltip';
 import ConfirmationModal from './ConfirmationModal';
+import SyncConflicts from './SyncConflicts';
+import FailedSyncActions from './FailedSyncActions';
+import SyncBundleTransfer from './SyncBundleTransfer';
+import SyncJournal from './SyncJournal';
+import StorageManager from './StorageManager';
+import BrokenVideoReports from './BrokenVideoReports';
+import DeviceRosterManager from './DeviceRosterManager';
+import RosterImport from './RosterImport';
+import StudentPasswordReset from './StudentPasswordReset';
 
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042'];
@@ -164,6 +174,13 @@ const TeacherDashboard: React.FC<TeacherDashboardProps> = ({ user }) => {
         }
     };
 
+    const handleMoveLesson = async (course: Course, index: number, offset: -1 | 1) => {
+        const lessonIds = course.lessons.map(l => l.id);
+        [lessonIds[index], lessonIds[index + offset]] = [lessonIds[index + offset], lessonIds[index]];
+        await reorderLessons(course.id, lessonIds);
+        await fetchData();
+    };
+
     const handleCloseEditors = () => {
         setIsCourseEditorOpen(false);
         setIsLessonEditorOpen(false);
@@ -304,6 +321,15 @@ const TeacherDashboard: React.FC<TeacherDashboardProps> = ({ user }) => {
             
             {activeTab === 'content' && (
                 <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-md">
+                    <SyncConflicts onResolved={fetchData} />
+                    <FailedSyncActions onChanged={fetchData} />
+                    <SyncBundleTransfer user={user} onImported={fetchData} />
+                    <SyncJournal />
+                    <StorageManager />
+                    <BrokenVideoReports students={students} />
+                    <DeviceRosterManager />
+                    <RosterImport user={user} onCreated={fetchData} />
+                    <StudentPasswordReset students={students} />
                     <div className="flex justify-between items-center mb-6">
                         <h3 className="font-bold text-xl text-slate-700 dark:text-slate-200">My Courses</h3>
                         <div className="flex items-center gap-2">
@@ -343,10 +369,12 @@ const TeacherDashboard: React.FC<TeacherDashboardProps> = ({ user }) => {
                                         </div>
                                     </div>
                                     <ul className="space-y-2">
-                                        {course.lessons.map(lesson => (
+                                        {course.lessons.map((lesson, index) => (
                                             <li key={lesson.id} className="flex justify-between items-center p-2 bg-slate-50 dark:bg-slate-800/50 rounded-md">
                                                 <span>{lesson.title}</span>
                                                 <div className="flex items-center gap-2">
+                                                    <button onClick={() => handleMoveLesson(course, index, -1)} disabled={index === 0} aria-label={t('move_lesson_up')} className="p-1 text-slate-500 hover:text-slate-800 dark:hover:text-slate-200 transition disabled:opacity-30"><ChevronDownIcon className="h-4 w-4 rotate-180"/></button>
+                                                    <button onClick={() => handleMoveLesson(course, index, 1)} disabled={index === course.lessons.length - 1} aria-label={t('move_lesson_down')} className="p-1 text-slate-500 hover:text-slate-800 dark:hover:text-slate-200 transition disabled:opacity-30"><ChevronDownIcon className="h-4 w-4"/></button>
                                                     <button onClick={() => handleEditLesson(course, lesson)} className="p-1 text-slate-500 hover:text-slate-800 dark:hover:text-slate-200 transition"><PencilIcon className="h-4 w-4"/></button>
                                                     <button onClick={() => handleDeleteLesson(course.id, lesson.id)} className="p-1 text-red-500 hover:text-red-700 transition"><TrashIcon className="h-4 w-4"/></button>
                                                 </div>
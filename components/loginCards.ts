@@ -0,0 +1,59 @@
+// Login cards for students to take home: their name, username and password, several to a
+// printed page with lines to cut along.
+
+export interface LoginCard {
+  fullName: string;
+  class: number;
+  rollNumber: string | null;
+  username: string;
+  password: string;
+}
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+export interface LoginCardLabels {
+  title: string;
+  class: string;
+  rollNumber: string;
+  username: string;
+  password: string;
+  keepSafe: string;
+}
+
+// Prints from a hidden frame, so the cards are all that's on the page.
+export const printLoginCards = (accounts: LoginCard[], labels: LoginCardLabels) => {
+  const cards = accounts.map(account => `
+    <div class="card">
+      <div class="title">${escapeHtml(labels.title)}</div>
+      <div class="name">${escapeHtml(account.fullName)}</div>
+      <div class="meta">${escapeHtml(labels.class)} ${account.class}${account.rollNumber ? ` · ${escapeHtml(labels.rollNumber)} ${escapeHtml(account.rollNumber)}` : ''}</div>
+      <div class="field">${escapeHtml(labels.username)}: <b>${escapeHtml(account.username)}</b></div>
+      <div class="field">${escapeHtml(labels.password)}: <b>${escapeHtml(account.password)}</b></div>
+      <div class="note">${escapeHtml(labels.keepSafe)}</div>
+    </div>`).join('');
+  const html = `<!doctype html><html><head><meta charset="utf-8"><style>
+    body { font-family: sans-serif; margin: 0; }
+    .cards { display: grid; grid-template-columns: 1fr 1fr; gap: 8mm; padding: 8mm; }
+    .card { border: 1px dashed #64748b; border-radius: 4mm; padding: 5mm; break-inside: avoid; }
+    .title { font-size: 10pt; color: #475569; }
+    .name { font-size: 14pt; font-weight: bold; margin: 2mm 0 1mm; }
+    .meta { font-size: 10pt; color: #475569; margin-bottom: 3mm; }
+    .field { font-size: 12pt; margin: 1mm 0; }
+    .field b { font-family: monospace; font-size: 14pt; }
+    .note { font-size: 9pt; color: #64748b; margin-top: 3mm; }
+  </style></head><body><div class="cards">${cards}</div></body></html>`;
+
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+  const frameWindow = frame.contentWindow!;
+  frameWindow.document.open();
+  frameWindow.document.write(html);
+  frameWindow.document.close();
+  frameWindow.onafterprint = () => frame.remove();
+  frameWindow.focus();
+  frameWindow.print();
+};
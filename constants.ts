@@ -2,4 +2,5 @@
 export enum UserRole {
   STUDENT = 'Student',
   TEACHER = 'Teacher',
+  ADMIN = 'Admin', // The headmaster; made one on the server, never by signing up
 }
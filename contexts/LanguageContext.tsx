@@ -113,7 +113,224 @@ const translations = {
     "ask_a_question_placeholder": "Ask a question about the lesson...",
     "thinking": "Thinking...",
     "ask": "Ask",
-    "ai_tutor_thinking_message": "Your AI Tutor is thinking..."
+    "ai_tutor_thinking_message": "Your AI Tutor is thinking...",
+    "sync_conflicts": "Sync Conflicts",
+    "sync_conflicts_description": "These changes were made on this device while someone else edited the same item on another device. Choose which version to keep.",
+    "server_version": "Server version",
+    "conflict_deleted_on_server": "Deleted on another device",
+    "keep_my_version": "Keep my version",
+    "keep_server_version": "Keep server version",
+    "failed_sync_actions": "Failed Sync Actions",
+    "failed_sync_actions_description": "These changes could not be sent to the server after several tries. Retry them once the problem is fixed, or discard them.",
+    "sync_action_update_progress": "Student progress",
+    "sync_action_save_course": "Save course",
+    "sync_action_delete_course": "Delete course",
+    "sync_action_save_lesson": "Save lesson",
+    "sync_action_delete_lesson": "Delete lesson",
+    "details": "Details",
+    "retry": "Retry",
+    "discard": "Discard",
+    "discard_sync_action_confirmation": "Discard this change? It will never be sent to the server.",
+    "syncing": "Syncing...",
+    "sync_now": "Sync now",
+    "sync_disabled_offline": "Connect to internet to sync",
+    "sync_pending_count": "{count} unsynced",
+    "sync_failed_count": "{count} failed to sync",
+    "sync_problem": "Sync problem",
+    "all_changes_synced": "All synced",
+    "last_synced_at": "Last synced: {time}",
+    "never_synced": "Not synced yet on this device",
+    "last_error": "Last error",
+    "offline_transfer": "Offline transfer (USB / Bluetooth)",
+    "offline_transfer_description": "No internet for a while? Students can save their progress to a file and import it on a device that can sync. Teachers can send their class content to student devices this way.",
+    "export_changes": "Export my changes ({count})",
+    "no_changes_to_export": "There are no changes waiting to sync.",
+    "export_content_for_students": "Export content for students",
+    "import_bundle": "Import a file",
+    "changes_bundle_exported": "Your changes were saved to a file. Import it on a connected device to sync them.",
+    "content_bundle_exported": "Class content was saved to a file. Import it on student devices.",
+    "bundle_already_imported": "This file has already been imported on this device.",
+    "trust_bundle_signer_confirmation": "This file was made by {name} on a device not seen here before (key {fingerprint}). Only import it if you know where it came from. Continue?",
+    "bundle_imported": "Imported {actions} changes, {courses} courses, {progress} progress records and {videos} videos.",
+    "recent_exports": "Recent exports",
+    "changes_bundle": "Changes",
+    "content_bundle": "Class content",
+    "save_again": "Save again",
+    "video_not_downloaded_yet": "This video is still on its way to this device. It is downloaded the next time the app syncs online.",
+    "sync_action_upload_video": "Upload lesson video",
+    "sync_journal": "Sync activity log",
+    "sync_journal_description": "What this device sent and received in recent syncs. Export it when asking for help with missing changes or scores.",
+    "only_problems": "Only show problems",
+    "refresh": "Refresh",
+    "export_journal": "Export log",
+    "sync_journal_empty": "Nothing recorded yet.",
+    "journal_time": "Time",
+    "journal_action": "Action",
+    "journal_record": "Record",
+    "journal_result": "Result",
+    "journal_size": "Size",
+    "sync_action_sync_down": "Download changes",
+    "sync_action_download_video": "Download lesson video",
+    "sync_result_ok": "Done",
+    "sync_result_merged": "Merged",
+    "sync_result_skipped": "Skipped",
+    "sync_result_conflict": "Conflict",
+    "sync_result_failed": "Failed, will retry",
+    "sync_result_gave_up": "Gave up",
+    "move_lesson_up": "Move lesson up",
+    "move_lesson_down": "Move lesson down",
+    "save": "Save",
+    "ok": "OK",
+    "storage": "Storage",
+    "storage_used_of": "This app uses {used} of {quota} available on this device.",
+    "storage_videos_of": "Offline videos: {used} of the {limit} limit.",
+    "storage_persisted": "Protected: the browser won't clear this app's data when space runs low.",
+    "storage_not_persisted": "Not protected: the browser may clear offline lessons when space runs low.",
+    "storage_protect": "Protect storage",
+    "storage_persist_denied": "The browser didn't allow it yet. Installing the app or using it often usually helps.",
+    "storage_video_limit_mb": "Limit for offline videos (MB)",
+    "storage_reserve_mb": "Keep free on the device (MB)",
+    "storage_settings_saved": "Storage limits saved.",
+    "storage_settings_invalid": "Please enter a limit above 0 and a free amount of 0 or more.",
+    "storage_no_videos": "No videos are stored on this device.",
+    "storage_other_videos": "Lessons no longer on this device",
+    "storage_waiting_upload": "Waiting to upload",
+    "storage_warning_title": "Make room for this video?",
+    "storage_warning_evict": "To fit this video, {count} least recently watched video(s) ({size}) will be removed from this device:",
+    "storage_warning_full": "There isn't enough space for this video: {size} more is needed. Remove some downloads or raise the limit under Storage.",
+    "download_anyway": "Download anyway",
+    "download_no_space": "There isn't enough space for this video. Remove some downloads or raise the limit under Storage.",
+    "download_pause": "Pause download",
+    "download_resume": "Resume download",
+    "download_cancel": "Cancel download",
+    "download_progress": "{percent}% ({received} of {total})",
+    "download_paused": "Paused",
+    "download_stopped": "Stopped. Press play to try again.",
+    "download_waiting_online": "Continues when you are back online",
+    "course_download_offline": "Download course for offline",
+    "course_available_offline": "Available offline",
+    "course_offline_ready": "All {count} videos are on this device",
+    "course_offline_progress": "{percent}% ({ready} of {total} videos)",
+    "course_online_only": "{count} YouTube video(s) need the internet",
+    "course_download_continue": "Continue",
+    "course_remove_offline": "Remove offline copy",
+    "sync_action_report_video_integrity": "Report a broken video",
+    "video_broken_refetching": "The copy of this video on your device is damaged. It will be downloaded again.",
+    "broken_videos": "Broken Videos on Student Devices",
+    "broken_videos_description": "Videos that a student's device found damaged and downloaded again.",
+    "broken_videos_empty": "No broken videos have been reported.",
+    "broken_videos_unavailable": "Reports can't be loaded right now. Check your connection and refresh.",
+    "broken_video_status_broken": "Broken: {detail}",
+    "broken_video_status_repaired": "Downloaded again and working",
+    "offline_login_unavailable": "You're offline, and this account hasn't signed in on this device recently. Connect to the internet to sign in.",
+    "offline_login_invalid": "Incorrect username or password.",
+    "offline_session_sign_in_again": "You signed in while offline. Please sign in again so your work can sync.",
+    "back": "Back",
+    "who_is_using_this_device": "Who is learning now?",
+    "enter_your_pin": "Enter your PIN",
+    "use_password_instead": "Use my password",
+    "not_on_this_list": "Not on this list?",
+    "sign_in_with_password": "Sign in with a password",
+    "back_to_device_students": "Back to the students on this device",
+    "pin_wrong": "That PIN is not right. Try again.",
+    "pin_locked": "Too many wrong PINs. Wait a few minutes, or sign in with your password.",
+    "set_up_quick_switching": "Quick sign-in on this device",
+    "pin_setup_description": "Pick a picture and a PIN. Next time, tap your picture and enter your PIN instead of your password.",
+    "choose_your_picture": "Your picture",
+    "choose_a_pin": "Choose a {count}-digit PIN",
+    "confirm_pin": "Enter the PIN again",
+    "pin_length_error": "The PIN must be {count} digits.",
+    "pin_mismatch": "The two PINs are not the same.",
+    "save_pin": "Save PIN",
+    "skip_for_now": "Skip for now",
+    "switch_student": "Switch Student",
+    "device_students": "Students on This Device",
+    "device_students_description": "Students who sign in on this device can switch between each other with a PIN. Removing a student deletes their data and videos from this device only.",
+    "device_students_empty": "No students have signed in on this device yet.",
+    "pin_set": "PIN set",
+    "pin_not_set": "No PIN",
+    "last_used": "Last used {date}",
+    "remove_from_device": "Remove from This Device",
+    "remove_from_device_confirmation": "Remove {name} from this device? They can still sign in again with their password.",
+    "remove_from_device_unsynced": "{count} change(s) by this student have not been synced yet and will be lost.",
+    "remove": "Remove",
+    "remove_student_failed": "The student could not be removed from this device.",
+    "add_students_from_list": "Add Students from a Class List",
+    "add_students_from_list_description": "Upload your class list as a CSV file (save it from your spreadsheet). The first row must name the columns: Name, Class and, if you have them, Roll Number. Every student of Class {class} on it gets an account with a username and password; students who already have one are left out.",
+    "choose_class_list": "Choose CSV File",
+    "class_list_found": "{count} students found in {file}.",
+    "create_accounts": "Create Accounts",
+    "creating_accounts": "Creating {done} of {total}...",
+    "roster_empty": "The file has no students in it.",
+    "roster_missing_columns": "The first row must name the columns, with at least \"Name\" and \"Class\".",
+    "roster_import_summary": "{created} accounts created, {skipped} skipped, {failed} failed.",
+    "roster_account_created": "Created: {username}",
+    "roster_problem_missing_name": "No name",
+    "roster_problem_invalid_class": "Class not understood",
+    "roster_problem_other_class": "Not your class",
+    "roster_problem_duplicate_in_file": "Same student as row {row}",
+    "roster_problem_already_exists": "Already has an account",
+    "roster_problem_offline": "No internet; upload the list again later",
+    "roster_problem_failed": "Failed: {message}",
+    "row_number": "Row {row}",
+    "roll_number": "Roll No.",
+    "print_login_cards": "Print Login Cards",
+    "upload_another_list": "Upload Another List",
+    "login_cards_print_now": "Passwords are shown only now. Print the login cards before leaving this page.",
+    "login_card_keep_safe": "Keep this card safe and don't share your password.",
+    "password_mismatch": "The passwords don't match.",
+    "choose_new_password": "Choose a New Password",
+    "choose_new_password_description": "Your teacher gave you a temporary password. Choose your own now, one that only you know.",
+    "new_password": "New Password",
+    "confirm_new_password": "Type It Again",
+    "save_new_password": "Save Password",
+    "change_password_needs_internet": "Changing your password needs the internet. Try again once you're online.",
+    "student_passwords": "Student Passwords",
+    "student_passwords_description": "For a student who forgot their password: give them a temporary one. They choose their own the next time they sign in, and any device they are signed in on signs them out.",
+    "reset_password": "Reset Password",
+    "reset_password_confirmation": "Give {name} a new temporary password? Their current password stops working.",
+    "reset_password_needs_internet": "Resetting a password needs the internet.",
+    "password_reset_done": "New password for {name} ({username}):",
+    "print_login_card": "Print Login Card",
+    "login_card_change_password": "You'll choose your own password when you next sign in.",
+    "no_students_in_class": "There are no students in your class yet.",
+    "recent_password_resets": "Recent resets",
+    "password_resets_empty": "No passwords have been reset.",
+    "password_resets_unavailable": "The list of resets needs the internet.",
+    "password_reset_entry": "{student}, by {teacher} · {date}",
+    "unknown_user": "Unknown",
+    "account_deactivated": "This account has been deactivated. Please speak to your headmaster.",
+    "teacher_needs_approval_note": "Teacher accounts can be used once the headmaster approves them.",
+    "awaiting_approval": "Waiting for approval",
+    "awaiting_approval_description": "Your teacher account for Class {class} has been created. You can use it once the headmaster approves it.",
+    "still_awaiting_approval": "Not approved yet. Please check again later.",
+    "check_again": "Check Again",
+    "admin_dashboard": "Headmaster Dashboard",
+    "school_accounts": "Accounts",
+    "school_analytics": "School Analytics",
+    "account_change_needs_internet": "Changing an account needs an internet connection.",
+    "account_status_pending": "Awaiting approval",
+    "account_status_active": "Active",
+    "account_status_deactivated": "Deactivated",
+    "reactivate": "Reactivate",
+    "deactivate": "Deactivate",
+    "deactivate_confirmation": "{name} will no longer be able to sign in, and will be signed out on every device. You can reactivate the account later.",
+    "teachers_awaiting_approval": "Teachers Awaiting Approval",
+    "no_teachers_awaiting_approval": "No teachers are waiting for approval.",
+    "approve": "Approve",
+    "reject": "Reject",
+    "teachers": "Teachers",
+    "no_teachers": "No teachers yet.",
+    "students": "Students",
+    "all_classes": "All classes",
+    "class_number": "Class {class}",
+    "no_students_found": "No students found.",
+    "completion_rate_percent": "Completion (%)",
+    "performance_by_class": "Performance by Class",
+    "classes_overview": "Classes Overview",
+    "no_classes_yet": "No classes have teachers, students or courses yet.",
+    "active_learners": "Active Learners",
+    "courses": "Courses"
   },
   pa: {
     "welcome_to_vidyalehar": "ਵਿਦਿਆ ਲਹਿਰ ਵਿੱਚ ਤੁਹਾਡਾ ਸੁਆਗਤ ਹੈ",
@@ -224,7 +441,224 @@ const translations = {
     "ask_a_question_placeholder": "ਪਾਠ ਬਾਰੇ ਕੋਈ ਸਵਾਲ ਪੁੱਛੋ...",
     "thinking": "ਸੋਚ ਰਿਹਾ ਹੈ...",
     "ask": "ਪੁੱਛੋ",
-    "ai_tutor_thinking_message": "ਤੁਹਾਡਾ AI ਟਿਊਟਰ ਸੋਚ ਰਿਹਾ ਹੈ..."
+    "ai_tutor_thinking_message": "ਤੁਹਾਡਾ AI ਟਿਊਟਰ ਸੋਚ ਰਿਹਾ ਹੈ...",
+    "sync_conflicts": "ਸਿੰਕ ਟਕਰਾਅ",
+    "sync_conflicts_description": "ਇਹ ਤਬਦੀਲੀਆਂ ਇਸ ਡਿਵਾਈਸ 'ਤੇ ਕੀਤੀਆਂ ਗਈਆਂ ਸਨ ਜਦੋਂ ਕਿਸੇ ਹੋਰ ਨੇ ਦੂਜੀ ਡਿਵਾਈਸ 'ਤੇ ਉਸੇ ਚੀਜ਼ ਨੂੰ ਸੰਪਾਦਿਤ ਕੀਤਾ। ਚੁਣੋ ਕਿ ਕਿਹੜਾ ਸੰਸਕਰਣ ਰੱਖਣਾ ਹੈ।",
+    "server_version": "ਸਰਵਰ ਸੰਸਕਰਣ",
+    "conflict_deleted_on_server": "ਕਿਸੇ ਹੋਰ ਡਿਵਾਈਸ 'ਤੇ ਮਿਟਾਇਆ ਗਿਆ",
+    "keep_my_version": "ਮੇਰਾ ਸੰਸਕਰਣ ਰੱਖੋ",
+    "keep_server_version": "ਸਰਵਰ ਸੰਸਕਰਣ ਰੱਖੋ",
+    "failed_sync_actions": "ਅਸਫਲ ਸਿੰਕ ਕਾਰਵਾਈਆਂ",
+    "failed_sync_actions_description": "ਇਹ ਤਬਦੀਲੀਆਂ ਕਈ ਕੋਸ਼ਿਸ਼ਾਂ ਤੋਂ ਬਾਅਦ ਵੀ ਸਰਵਰ ਨੂੰ ਨਹੀਂ ਭੇਜੀਆਂ ਜਾ ਸਕੀਆਂ। ਸਮੱਸਿਆ ਹੱਲ ਹੋਣ 'ਤੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ, ਜਾਂ ਇਹਨਾਂ ਨੂੰ ਰੱਦ ਕਰੋ।",
+    "sync_action_update_progress": "ਵਿਦਿਆਰਥੀ ਦੀ ਤਰੱਕੀ",
+    "sync_action_save_course": "ਕੋਰਸ ਸੁਰੱਖਿਅਤ ਕਰੋ",
+    "sync_action_delete_course": "ਕੋਰਸ ਮਿਟਾਓ",
+    "sync_action_save_lesson": "ਪਾਠ ਸੁਰੱਖਿਅਤ ਕਰੋ",
+    "sync_action_delete_lesson": "ਪਾਠ ਮਿਟਾਓ",
+    "details": "ਵੇਰਵੇ",
+    "retry": "ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ",
+    "discard": "ਰੱਦ ਕਰੋ",
+    "discard_sync_action_confirmation": "ਕੀ ਇਸ ਤਬਦੀਲੀ ਨੂੰ ਰੱਦ ਕਰਨਾ ਹੈ? ਇਹ ਕਦੇ ਵੀ ਸਰਵਰ ਨੂੰ ਨਹੀਂ ਭੇਜੀ ਜਾਵੇਗੀ।",
+    "syncing": "ਸਿੰਕ ਹੋ ਰਿਹਾ ਹੈ...",
+    "sync_now": "ਹੁਣੇ ਸਿੰਕ ਕਰੋ",
+    "sync_disabled_offline": "ਸਿੰਕ ਕਰਨ ਲਈ ਇੰਟਰਨੈਟ ਨਾਲ ਜੁੜੋ",
+    "sync_pending_count": "{count} ਸਿੰਕ ਨਹੀਂ ਹੋਏ",
+    "sync_failed_count": "{count} ਸਿੰਕ ਕਰਨ ਵਿੱਚ ਅਸਫਲ",
+    "sync_problem": "ਸਿੰਕ ਸਮੱਸਿਆ",
+    "all_changes_synced": "ਸਭ ਸਿੰਕ ਹੋ ਗਿਆ",
+    "last_synced_at": "ਆਖਰੀ ਸਿੰਕ: {time}",
+    "never_synced": "ਇਸ ਡਿਵਾਈਸ 'ਤੇ ਅਜੇ ਸਿੰਕ ਨਹੀਂ ਹੋਇਆ",
+    "last_error": "ਆਖਰੀ ਗਲਤੀ",
+    "offline_transfer": "ਔਫਲਾਈਨ ਟ੍ਰਾਂਸਫਰ (USB / ਬਲੂਟੁੱਥ)",
+    "offline_transfer_description": "ਕੁਝ ਸਮੇਂ ਲਈ ਇੰਟਰਨੈੱਟ ਨਹੀਂ? ਵਿਦਿਆਰਥੀ ਆਪਣੀ ਪ੍ਰਗਤੀ ਇੱਕ ਫਾਈਲ ਵਿੱਚ ਸੰਭਾਲ ਕੇ ਉਸਨੂੰ ਅਜਿਹੇ ਡਿਵਾਈਸ 'ਤੇ ਇੰਪੋਰਟ ਕਰ ਸਕਦੇ ਹਨ ਜੋ ਸਿੰਕ ਕਰ ਸਕਦਾ ਹੈ। ਅਧਿਆਪਕ ਇਸ ਤਰੀਕੇ ਨਾਲ ਆਪਣੀ ਕਲਾਸ ਦੀ ਸਮੱਗਰੀ ਵਿਦਿਆਰਥੀਆਂ ਦੇ ਡਿਵਾਈਸਾਂ 'ਤੇ ਭੇਜ ਸਕਦੇ ਹਨ।",
+    "export_changes": "ਮੇਰੀਆਂ ਤਬਦੀਲੀਆਂ ਐਕਸਪੋਰਟ ਕਰੋ ({count})",
+    "no_changes_to_export": "ਸਿੰਕ ਲਈ ਕੋਈ ਤਬਦੀਲੀ ਬਾਕੀ ਨਹੀਂ ਹੈ।",
+    "export_content_for_students": "ਵਿਦਿਆਰਥੀਆਂ ਲਈ ਸਮੱਗਰੀ ਐਕਸਪੋਰਟ ਕਰੋ",
+    "import_bundle": "ਫਾਈਲ ਇੰਪੋਰਟ ਕਰੋ",
+    "changes_bundle_exported": "ਤੁਹਾਡੀਆਂ ਤਬਦੀਲੀਆਂ ਫਾਈਲ ਵਿੱਚ ਸੰਭਾਲੀਆਂ ਗਈਆਂ। ਸਿੰਕ ਕਰਨ ਲਈ ਇਸਨੂੰ ਕਨੈਕਟਡ ਡਿਵਾਈਸ 'ਤੇ ਇੰਪੋਰਟ ਕਰੋ।",
+    "content_bundle_exported": "ਕਲਾਸ ਦੀ ਸਮੱਗਰੀ ਫਾਈਲ ਵਿੱਚ ਸੰਭਾਲੀ ਗਈ। ਇਸਨੂੰ ਵਿਦਿਆਰਥੀਆਂ ਦੇ ਡਿਵਾਈਸਾਂ 'ਤੇ ਇੰਪੋਰਟ ਕਰੋ।",
+    "bundle_already_imported": "ਇਹ ਫਾਈਲ ਇਸ ਡਿਵਾਈਸ 'ਤੇ ਪਹਿਲਾਂ ਹੀ ਇੰਪੋਰਟ ਹੋ ਚੁੱਕੀ ਹੈ।",
+    "trust_bundle_signer_confirmation": "ਇਹ ਫਾਈਲ {name} ਨੇ ਇੱਕ ਅਜਿਹੇ ਡਿਵਾਈਸ 'ਤੇ ਬਣਾਈ ਹੈ ਜੋ ਇੱਥੇ ਪਹਿਲਾਂ ਨਹੀਂ ਦੇਖਿਆ ਗਿਆ (ਕੁੰਜੀ {fingerprint})। ਇਸਨੂੰ ਤਾਂ ਹੀ ਇੰਪੋਰਟ ਕਰੋ ਜੇ ਤੁਹਾਨੂੰ ਪਤਾ ਹੈ ਕਿ ਇਹ ਕਿੱਥੋਂ ਆਈ ਹੈ। ਜਾਰੀ ਰੱਖਣਾ ਹੈ?",
+    "bundle_imported": "{actions} ਤਬਦੀਲੀਆਂ, {courses} ਕੋਰਸ, {progress} ਪ੍ਰਗਤੀ ਰਿਕਾਰਡ ਅਤੇ {videos} ਵੀਡੀਓ ਇੰਪੋਰਟ ਕੀਤੇ ਗਏ।",
+    "recent_exports": "ਹਾਲੀਆ ਐਕਸਪੋਰਟ",
+    "changes_bundle": "ਤਬਦੀਲੀਆਂ",
+    "content_bundle": "ਕਲਾਸ ਦੀ ਸਮੱਗਰੀ",
+    "save_again": "ਦੁਬਾਰਾ ਸੰਭਾਲੋ",
+    "video_not_downloaded_yet": "ਇਹ ਵੀਡੀਓ ਹਾਲੇ ਇਸ ਡਿਵਾਈਸ ਤੱਕ ਪਹੁੰਚ ਰਹੀ ਹੈ। ਐਪ ਦੇ ਅਗਲੀ ਵਾਰ ਔਨਲਾਈਨ ਸਿੰਕ ਹੋਣ 'ਤੇ ਇਹ ਡਾਊਨਲੋਡ ਹੋ ਜਾਵੇਗੀ।",
+    "sync_action_upload_video": "ਪਾਠ ਦੀ ਵੀਡੀਓ ਅੱਪਲੋਡ ਕਰੋ",
+    "sync_journal": "ਸਿੰਕ ਗਤੀਵਿਧੀ ਲੌਗ",
+    "sync_journal_description": "ਹਾਲੀਆ ਸਿੰਕਾਂ ਵਿੱਚ ਇਸ ਡਿਵਾਈਸ ਨੇ ਕੀ ਭੇਜਿਆ ਅਤੇ ਪ੍ਰਾਪਤ ਕੀਤਾ। ਗੁੰਮ ਹੋਈਆਂ ਤਬਦੀਲੀਆਂ ਜਾਂ ਅੰਕਾਂ ਬਾਰੇ ਮਦਦ ਮੰਗਣ ਵੇਲੇ ਇਸਨੂੰ ਐਕਸਪੋਰਟ ਕਰੋ।",
+    "only_problems": "ਸਿਰਫ਼ ਸਮੱਸਿਆਵਾਂ ਦਿਖਾਓ",
+    "refresh": "ਤਾਜ਼ਾ ਕਰੋ",
+    "export_journal": "ਲੌਗ ਐਕਸਪੋਰਟ ਕਰੋ",
+    "sync_journal_empty": "ਹਾਲੇ ਕੁਝ ਵੀ ਦਰਜ ਨਹੀਂ ਹੈ।",
+    "journal_time": "ਸਮਾਂ",
+    "journal_action": "ਕਾਰਵਾਈ",
+    "journal_record": "ਰਿਕਾਰਡ",
+    "journal_result": "ਨਤੀਜਾ",
+    "journal_size": "ਆਕਾਰ",
+    "sync_action_sync_down": "ਤਬਦੀਲੀਆਂ ਡਾਊਨਲੋਡ ਕਰੋ",
+    "sync_action_download_video": "ਪਾਠ ਦੀ ਵੀਡੀਓ ਡਾਊਨਲੋਡ ਕਰੋ",
+    "sync_result_ok": "ਪੂਰਾ ਹੋਇਆ",
+    "sync_result_merged": "ਮਿਲਾਇਆ ਗਿਆ",
+    "sync_result_skipped": "ਛੱਡਿਆ ਗਿਆ",
+    "sync_result_conflict": "ਟਕਰਾਅ",
+    "sync_result_failed": "ਅਸਫਲ, ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕੀਤੀ ਜਾਵੇਗੀ",
+    "sync_result_gave_up": "ਛੱਡ ਦਿੱਤਾ",
+    "move_lesson_up": "ਪਾਠ ਉੱਪਰ ਲਿਜਾਓ",
+    "move_lesson_down": "ਪਾਠ ਹੇਠਾਂ ਲਿਜਾਓ",
+    "save": "ਸੇਵ ਕਰੋ",
+    "ok": "ਠੀਕ ਹੈ",
+    "storage": "ਸਟੋਰੇਜ",
+    "storage_used_of": "ਇਹ ਐਪ ਇਸ ਡਿਵਾਈਸ 'ਤੇ ਉਪਲਬਧ {quota} ਵਿੱਚੋਂ {used} ਵਰਤਦੀ ਹੈ।",
+    "storage_videos_of": "ਔਫਲਾਈਨ ਵੀਡੀਓ: {limit} ਦੀ ਸੀਮਾ ਵਿੱਚੋਂ {used}।",
+    "storage_persisted": "ਸੁਰੱਖਿਅਤ: ਜਗ੍ਹਾ ਘੱਟ ਹੋਣ 'ਤੇ ਬ੍ਰਾਊਜ਼ਰ ਇਸ ਐਪ ਦਾ ਡਾਟਾ ਨਹੀਂ ਮਿਟਾਏਗਾ।",
+    "storage_not_persisted": "ਸੁਰੱਖਿਅਤ ਨਹੀਂ: ਜਗ੍ਹਾ ਘੱਟ ਹੋਣ 'ਤੇ ਬ੍ਰਾਊਜ਼ਰ ਔਫਲਾਈਨ ਪਾਠ ਮਿਟਾ ਸਕਦਾ ਹੈ।",
+    "storage_protect": "ਸਟੋਰੇਜ ਸੁਰੱਖਿਅਤ ਕਰੋ",
+    "storage_persist_denied": "ਬ੍ਰਾਊਜ਼ਰ ਨੇ ਅਜੇ ਇਜਾਜ਼ਤ ਨਹੀਂ ਦਿੱਤੀ। ਐਪ ਇੰਸਟਾਲ ਕਰਨ ਜਾਂ ਅਕਸਰ ਵਰਤਣ ਨਾਲ ਆਮ ਤੌਰ 'ਤੇ ਮਦਦ ਮਿਲਦੀ ਹੈ।",
+    "storage_video_limit_mb": "ਔਫਲਾਈਨ ਵੀਡੀਓ ਦੀ ਸੀਮਾ (MB)",
+    "storage_reserve_mb": "ਡਿਵਾਈਸ 'ਤੇ ਖਾਲੀ ਰੱਖੋ (MB)",
+    "storage_settings_saved": "ਸਟੋਰੇਜ ਸੀਮਾਵਾਂ ਸੇਵ ਹੋ ਗਈਆਂ।",
+    "storage_settings_invalid": "ਕਿਰਪਾ ਕਰਕੇ 0 ਤੋਂ ਵੱਧ ਸੀਮਾ ਅਤੇ 0 ਜਾਂ ਵੱਧ ਖਾਲੀ ਜਗ੍ਹਾ ਦਾਖਲ ਕਰੋ।",
+    "storage_no_videos": "ਇਸ ਡਿਵਾਈਸ 'ਤੇ ਕੋਈ ਵੀਡੀਓ ਸਟੋਰ ਨਹੀਂ ਹੈ।",
+    "storage_other_videos": "ਪਾਠ ਜੋ ਹੁਣ ਇਸ ਡਿਵਾਈਸ 'ਤੇ ਨਹੀਂ ਹਨ",
+    "storage_waiting_upload": "ਅੱਪਲੋਡ ਦੀ ਉਡੀਕ ਵਿੱਚ",
+    "storage_warning_title": "ਕੀ ਇਸ ਵੀਡੀਓ ਲਈ ਜਗ੍ਹਾ ਬਣਾਈਏ?",
+    "storage_warning_evict": "ਇਸ ਵੀਡੀਓ ਲਈ, ਸਭ ਤੋਂ ਪਹਿਲਾਂ ਦੇਖੇ ਗਏ {count} ਵੀਡੀਓ ({size}) ਇਸ ਡਿਵਾਈਸ ਤੋਂ ਹਟਾ ਦਿੱਤੇ ਜਾਣਗੇ:",
+    "storage_warning_full": "ਇਸ ਵੀਡੀਓ ਲਈ ਕਾਫ਼ੀ ਜਗ੍ਹਾ ਨਹੀਂ ਹੈ: {size} ਹੋਰ ਚਾਹੀਦੀ ਹੈ। ਕੁਝ ਡਾਊਨਲੋਡ ਹਟਾਓ ਜਾਂ ਸਟੋਰੇਜ ਵਿੱਚ ਸੀਮਾ ਵਧਾਓ।",
+    "download_anyway": "ਫਿਰ ਵੀ ਡਾਊਨਲੋਡ ਕਰੋ",
+    "download_no_space": "ਇਸ ਵੀਡੀਓ ਲਈ ਕਾਫ਼ੀ ਜਗ੍ਹਾ ਨਹੀਂ ਹੈ। ਕੁਝ ਡਾਊਨਲੋਡ ਹਟਾਓ ਜਾਂ ਸਟੋਰੇਜ ਵਿੱਚ ਸੀਮਾ ਵਧਾਓ।",
+    "download_pause": "ਡਾਊਨਲੋਡ ਰੋਕੋ",
+    "download_resume": "ਡਾਊਨਲੋਡ ਜਾਰੀ ਰੱਖੋ",
+    "download_cancel": "ਡਾਊਨਲੋਡ ਰੱਦ ਕਰੋ",
+    "download_progress": "{percent}% ({total} ਵਿੱਚੋਂ {received})",
+    "download_paused": "ਰੁਕਿਆ ਹੋਇਆ",
+    "download_stopped": "ਰੁਕ ਗਿਆ। ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰਨ ਲਈ ਚਲਾਓ ਦਬਾਓ।",
+    "download_waiting_online": "ਔਨਲਾਈਨ ਹੋਣ 'ਤੇ ਜਾਰੀ ਰਹੇਗਾ",
+    "course_download_offline": "ਕੋਰਸ ਔਫਲਾਈਨ ਲਈ ਡਾਊਨਲੋਡ ਕਰੋ",
+    "course_available_offline": "ਔਫਲਾਈਨ ਉਪਲਬਧ",
+    "course_offline_ready": "ਸਾਰੀਆਂ {count} ਵੀਡੀਓਜ਼ ਇਸ ਡਿਵਾਈਸ 'ਤੇ ਹਨ",
+    "course_offline_progress": "{percent}% ({total} ਵਿੱਚੋਂ {ready} ਵੀਡੀਓਜ਼)",
+    "course_online_only": "{count} YouTube ਵੀਡੀਓ ਲਈ ਇੰਟਰਨੈੱਟ ਚਾਹੀਦਾ ਹੈ",
+    "course_download_continue": "ਜਾਰੀ ਰੱਖੋ",
+    "course_remove_offline": "ਔਫਲਾਈਨ ਕਾਪੀ ਹਟਾਓ",
+    "sync_action_report_video_integrity": "ਖ਼ਰਾਬ ਵੀਡੀਓ ਦੀ ਰਿਪੋਰਟ ਕਰੋ",
+    "video_broken_refetching": "ਤੁਹਾਡੇ ਡਿਵਾਈਸ 'ਤੇ ਇਸ ਵੀਡੀਓ ਦੀ ਕਾਪੀ ਖ਼ਰਾਬ ਹੈ। ਇਹ ਦੁਬਾਰਾ ਡਾਊਨਲੋਡ ਕੀਤੀ ਜਾਵੇਗੀ।",
+    "broken_videos": "ਵਿਦਿਆਰਥੀਆਂ ਦੇ ਡਿਵਾਈਸਾਂ 'ਤੇ ਖ਼ਰਾਬ ਵੀਡੀਓ",
+    "broken_videos_description": "ਉਹ ਵੀਡੀਓ ਜੋ ਕਿਸੇ ਵਿਦਿਆਰਥੀ ਦੇ ਡਿਵਾਈਸ ਨੇ ਖ਼ਰਾਬ ਪਾਏ ਅਤੇ ਦੁਬਾਰਾ ਡਾਊਨਲੋਡ ਕੀਤੇ।",
+    "broken_videos_empty": "ਕਿਸੇ ਖ਼ਰਾਬ ਵੀਡੀਓ ਦੀ ਰਿਪੋਰਟ ਨਹੀਂ ਆਈ।",
+    "broken_videos_unavailable": "ਰਿਪੋਰਟਾਂ ਹੁਣ ਲੋਡ ਨਹੀਂ ਹੋ ਸਕਦੀਆਂ। ਆਪਣਾ ਕਨੈਕਸ਼ਨ ਜਾਂਚੋ ਅਤੇ ਰਿਫ੍ਰੈਸ਼ ਕਰੋ।",
+    "broken_video_status_broken": "ਖ਼ਰਾਬ: {detail}",
+    "broken_video_status_repaired": "ਦੁਬਾਰਾ ਡਾਊਨਲੋਡ ਹੋਈ ਅਤੇ ਠੀਕ ਚੱਲ ਰਹੀ ਹੈ",
+    "offline_login_unavailable": "ਤੁਸੀਂ ਆਫ਼ਲਾਈਨ ਹੋ, ਅਤੇ ਇਸ ਖਾਤੇ ਨੇ ਹਾਲ ਹੀ ਵਿੱਚ ਇਸ ਡਿਵਾਈਸ 'ਤੇ ਸਾਈਨ ਇਨ ਨਹੀਂ ਕੀਤਾ। ਸਾਈਨ ਇਨ ਕਰਨ ਲਈ ਇੰਟਰਨੈੱਟ ਨਾਲ ਜੁੜੋ।",
+    "offline_login_invalid": "ਗਲਤ ਯੂਜ਼ਰਨੇਮ ਜਾਂ ਪਾਸਵਰਡ।",
+    "offline_session_sign_in_again": "ਤੁਸੀਂ ਆਫ਼ਲਾਈਨ ਹੁੰਦਿਆਂ ਸਾਈਨ ਇਨ ਕੀਤਾ ਸੀ। ਕਿਰਪਾ ਕਰਕੇ ਦੁਬਾਰਾ ਸਾਈਨ ਇਨ ਕਰੋ ਤਾਂ ਜੋ ਤੁਹਾਡਾ ਕੰਮ ਸਿੰਕ ਹੋ ਸਕੇ।",
+    "back": "ਪਿੱਛੇ",
+    "who_is_using_this_device": "ਹੁਣ ਕੌਣ ਪੜ੍ਹ ਰਿਹਾ ਹੈ?",
+    "enter_your_pin": "ਆਪਣਾ ਪਿੰਨ ਦਰਜ ਕਰੋ",
+    "use_password_instead": "ਮੇਰਾ ਪਾਸਵਰਡ ਵਰਤੋ",
+    "not_on_this_list": "ਇਸ ਸੂਚੀ ਵਿੱਚ ਨਹੀਂ ਹੋ?",
+    "sign_in_with_password": "ਪਾਸਵਰਡ ਨਾਲ ਸਾਈਨ ਇਨ ਕਰੋ",
+    "back_to_device_students": "ਇਸ ਡਿਵਾਈਸ ਦੇ ਵਿਦਿਆਰਥੀਆਂ 'ਤੇ ਵਾਪਸ ਜਾਓ",
+    "pin_wrong": "ਇਹ ਪਿੰਨ ਸਹੀ ਨਹੀਂ ਹੈ। ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।",
+    "pin_locked": "ਬਹੁਤ ਵਾਰ ਗਲਤ ਪਿੰਨ। ਕੁਝ ਮਿੰਟ ਉਡੀਕ ਕਰੋ, ਜਾਂ ਆਪਣੇ ਪਾਸਵਰਡ ਨਾਲ ਸਾਈਨ ਇਨ ਕਰੋ।",
+    "set_up_quick_switching": "ਇਸ ਡਿਵਾਈਸ 'ਤੇ ਜਲਦੀ ਸਾਈਨ ਇਨ",
+    "pin_setup_description": "ਇੱਕ ਤਸਵੀਰ ਅਤੇ ਇੱਕ ਪਿੰਨ ਚੁਣੋ। ਅਗਲੀ ਵਾਰ, ਪਾਸਵਰਡ ਦੀ ਥਾਂ ਆਪਣੀ ਤਸਵੀਰ 'ਤੇ ਟੈਪ ਕਰੋ ਅਤੇ ਪਿੰਨ ਦਰਜ ਕਰੋ।",
+    "choose_your_picture": "ਤੁਹਾਡੀ ਤਸਵੀਰ",
+    "choose_a_pin": "{count}-ਅੰਕਾਂ ਦਾ ਪਿੰਨ ਚੁਣੋ",
+    "confirm_pin": "ਪਿੰਨ ਦੁਬਾਰਾ ਦਰਜ ਕਰੋ",
+    "pin_length_error": "ਪਿੰਨ {count} ਅੰਕਾਂ ਦਾ ਹੋਣਾ ਚਾਹੀਦਾ ਹੈ।",
+    "pin_mismatch": "ਦੋਵੇਂ ਪਿੰਨ ਇੱਕੋ ਜਿਹੇ ਨਹੀਂ ਹਨ।",
+    "save_pin": "ਪਿੰਨ ਸੁਰੱਖਿਅਤ ਕਰੋ",
+    "skip_for_now": "ਹੁਣ ਲਈ ਛੱਡੋ",
+    "switch_student": "ਵਿਦਿਆਰਥੀ ਬਦਲੋ",
+    "device_students": "ਇਸ ਡਿਵਾਈਸ ਦੇ ਵਿਦਿਆਰਥੀ",
+    "device_students_description": "ਜੋ ਵਿਦਿਆਰਥੀ ਇਸ ਡਿਵਾਈਸ 'ਤੇ ਸਾਈਨ ਇਨ ਕਰਦੇ ਹਨ, ਉਹ ਪਿੰਨ ਨਾਲ ਇੱਕ ਦੂਜੇ ਨਾਲ ਬਦਲ ਸਕਦੇ ਹਨ। ਕਿਸੇ ਵਿਦਿਆਰਥੀ ਨੂੰ ਹਟਾਉਣ ਨਾਲ ਉਸਦਾ ਡਾਟਾ ਅਤੇ ਵੀਡੀਓ ਸਿਰਫ਼ ਇਸ ਡਿਵਾਈਸ ਤੋਂ ਮਿਟਦੇ ਹਨ।",
+    "device_students_empty": "ਅਜੇ ਤੱਕ ਕਿਸੇ ਵਿਦਿਆਰਥੀ ਨੇ ਇਸ ਡਿਵਾਈਸ 'ਤੇ ਸਾਈਨ ਇਨ ਨਹੀਂ ਕੀਤਾ।",
+    "pin_set": "ਪਿੰਨ ਸੈੱਟ ਹੈ",
+    "pin_not_set": "ਕੋਈ ਪਿੰਨ ਨਹੀਂ",
+    "last_used": "ਆਖਰੀ ਵਾਰ ਵਰਤਿਆ {date}",
+    "remove_from_device": "ਇਸ ਡਿਵਾਈਸ ਤੋਂ ਹਟਾਓ",
+    "remove_from_device_confirmation": "ਕੀ {name} ਨੂੰ ਇਸ ਡਿਵਾਈਸ ਤੋਂ ਹਟਾਉਣਾ ਹੈ? ਉਹ ਆਪਣੇ ਪਾਸਵਰਡ ਨਾਲ ਦੁਬਾਰਾ ਸਾਈਨ ਇਨ ਕਰ ਸਕਦੇ ਹਨ।",
+    "remove_from_device_unsynced": "ਇਸ ਵਿਦਿਆਰਥੀ ਦੀਆਂ {count} ਤਬਦੀਲੀਆਂ ਅਜੇ ਸਿੰਕ ਨਹੀਂ ਹੋਈਆਂ ਅਤੇ ਗੁੰਮ ਹੋ ਜਾਣਗੀਆਂ।",
+    "remove": "ਹਟਾਓ",
+    "remove_student_failed": "ਵਿਦਿਆਰਥੀ ਨੂੰ ਇਸ ਡਿਵਾਈਸ ਤੋਂ ਹਟਾਇਆ ਨਹੀਂ ਜਾ ਸਕਿਆ।",
+    "add_students_from_list": "ਜਮਾਤ ਦੀ ਸੂਚੀ ਤੋਂ ਵਿਦਿਆਰਥੀ ਸ਼ਾਮਲ ਕਰੋ",
+    "add_students_from_list_description": "ਆਪਣੀ ਜਮਾਤ ਦੀ ਸੂਚੀ CSV ਫ਼ਾਈਲ ਵਜੋਂ ਅੱਪਲੋਡ ਕਰੋ (ਇਸਨੂੰ ਆਪਣੀ ਸਪ੍ਰੈਡਸ਼ੀਟ ਤੋਂ ਸੇਵ ਕਰੋ)। ਪਹਿਲੀ ਕਤਾਰ ਵਿੱਚ ਕਾਲਮਾਂ ਦੇ ਨਾਮ ਹੋਣੇ ਚਾਹੀਦੇ ਹਨ: ਨਾਮ, ਜਮਾਤ ਅਤੇ, ਜੇ ਹੋਣ ਤਾਂ, ਰੋਲ ਨੰਬਰ। ਇਸ ਵਿੱਚ ਜਮਾਤ {class} ਦੇ ਹਰ ਵਿਦਿਆਰਥੀ ਨੂੰ ਯੂਜ਼ਰਨੇਮ ਅਤੇ ਪਾਸਵਰਡ ਵਾਲਾ ਖਾਤਾ ਮਿਲਦਾ ਹੈ; ਜਿਨ੍ਹਾਂ ਦਾ ਪਹਿਲਾਂ ਹੀ ਖਾਤਾ ਹੈ, ਉਹ ਛੱਡ ਦਿੱਤੇ ਜਾਂਦੇ ਹਨ।",
+    "choose_class_list": "CSV ਫ਼ਾਈਲ ਚੁਣੋ",
+    "class_list_found": "{file} ਵਿੱਚ {count} ਵਿਦਿਆਰਥੀ ਮਿਲੇ।",
+    "create_accounts": "ਖਾਤੇ ਬਣਾਓ",
+    "creating_accounts": "{total} ਵਿੱਚੋਂ {done} ਬਣਾਏ ਜਾ ਰਹੇ ਹਨ...",
+    "roster_empty": "ਫ਼ਾਈਲ ਵਿੱਚ ਕੋਈ ਵਿਦਿਆਰਥੀ ਨਹੀਂ ਹੈ।",
+    "roster_missing_columns": "ਪਹਿਲੀ ਕਤਾਰ ਵਿੱਚ ਕਾਲਮਾਂ ਦੇ ਨਾਮ ਹੋਣੇ ਚਾਹੀਦੇ ਹਨ, ਘੱਟੋ-ਘੱਟ \"ਨਾਮ\" ਅਤੇ \"ਜਮਾਤ\"।",
+    "roster_import_summary": "{created} ਖਾਤੇ ਬਣੇ, {skipped} ਛੱਡੇ ਗਏ, {failed} ਅਸਫਲ।",
+    "roster_account_created": "ਬਣਿਆ: {username}",
+    "roster_problem_missing_name": "ਨਾਮ ਨਹੀਂ ਹੈ",
+    "roster_problem_invalid_class": "ਜਮਾਤ ਸਮਝ ਨਹੀਂ ਆਈ",
+    "roster_problem_other_class": "ਤੁਹਾਡੀ ਜਮਾਤ ਨਹੀਂ",
+    "roster_problem_duplicate_in_file": "ਕਤਾਰ {row} ਵਾਲਾ ਹੀ ਵਿਦਿਆਰਥੀ",
+    "roster_problem_already_exists": "ਪਹਿਲਾਂ ਹੀ ਖਾਤਾ ਹੈ",
+    "roster_problem_offline": "ਇੰਟਰਨੈੱਟ ਨਹੀਂ; ਸੂਚੀ ਬਾਅਦ ਵਿੱਚ ਦੁਬਾਰਾ ਅੱਪਲੋਡ ਕਰੋ",
+    "roster_problem_failed": "ਅਸਫਲ: {message}",
+    "row_number": "ਕਤਾਰ {row}",
+    "roll_number": "ਰੋਲ ਨੰ.",
+    "print_login_cards": "ਲੌਗਇਨ ਕਾਰਡ ਪ੍ਰਿੰਟ ਕਰੋ",
+    "upload_another_list": "ਹੋਰ ਸੂਚੀ ਅੱਪਲੋਡ ਕਰੋ",
+    "login_cards_print_now": "ਪਾਸਵਰਡ ਸਿਰਫ਼ ਹੁਣ ਦਿਖਾਏ ਜਾਂਦੇ ਹਨ। ਇਹ ਪੰਨਾ ਛੱਡਣ ਤੋਂ ਪਹਿਲਾਂ ਲੌਗਇਨ ਕਾਰਡ ਪ੍ਰਿੰਟ ਕਰੋ।",
+    "login_card_keep_safe": "ਇਹ ਕਾਰਡ ਸੰਭਾਲ ਕੇ ਰੱਖੋ ਅਤੇ ਆਪਣਾ ਪਾਸਵਰਡ ਕਿਸੇ ਨਾਲ ਸਾਂਝਾ ਨਾ ਕਰੋ।",
+    "password_mismatch": "ਪਾਸਵਰਡ ਮੇਲ ਨਹੀਂ ਖਾਂਦੇ।",
+    "choose_new_password": "ਨਵਾਂ ਪਾਸਵਰਡ ਚੁਣੋ",
+    "choose_new_password_description": "ਤੁਹਾਡੇ ਅਧਿਆਪਕ ਨੇ ਤੁਹਾਨੂੰ ਇੱਕ ਅਸਥਾਈ ਪਾਸਵਰਡ ਦਿੱਤਾ ਹੈ। ਹੁਣ ਆਪਣਾ ਪਾਸਵਰਡ ਚੁਣੋ, ਜੋ ਸਿਰਫ਼ ਤੁਹਾਨੂੰ ਪਤਾ ਹੋਵੇ।",
+    "new_password": "ਨਵਾਂ ਪਾਸਵਰਡ",
+    "confirm_new_password": "ਦੁਬਾਰਾ ਲਿਖੋ",
+    "save_new_password": "ਪਾਸਵਰਡ ਸੇਵ ਕਰੋ",
+    "change_password_needs_internet": "ਪਾਸਵਰਡ ਬਦਲਣ ਲਈ ਇੰਟਰਨੈੱਟ ਚਾਹੀਦਾ ਹੈ। ਔਨਲਾਈਨ ਹੋਣ 'ਤੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।",
+    "student_passwords": "ਵਿਦਿਆਰਥੀਆਂ ਦੇ ਪਾਸਵਰਡ",
+    "student_passwords_description": "ਜਿਹੜਾ ਵਿਦਿਆਰਥੀ ਆਪਣਾ ਪਾਸਵਰਡ ਭੁੱਲ ਗਿਆ ਹੈ, ਉਸਨੂੰ ਇੱਕ ਅਸਥਾਈ ਪਾਸਵਰਡ ਦਿਓ। ਅਗਲੀ ਵਾਰ ਸਾਈਨ ਇਨ ਕਰਨ 'ਤੇ ਉਹ ਆਪਣਾ ਪਾਸਵਰਡ ਚੁਣਦਾ ਹੈ, ਅਤੇ ਜਿਸ ਵੀ ਡਿਵਾਈਸ 'ਤੇ ਉਹ ਸਾਈਨ ਇਨ ਹੈ, ਉੱਥੋਂ ਸਾਈਨ ਆਊਟ ਹੋ ਜਾਂਦਾ ਹੈ।",
+    "reset_password": "ਪਾਸਵਰਡ ਰੀਸੈਟ ਕਰੋ",
+    "reset_password_confirmation": "ਕੀ {name} ਨੂੰ ਨਵਾਂ ਅਸਥਾਈ ਪਾਸਵਰਡ ਦੇਣਾ ਹੈ? ਉਸਦਾ ਮੌਜੂਦਾ ਪਾਸਵਰਡ ਕੰਮ ਕਰਨਾ ਬੰਦ ਕਰ ਦੇਵੇਗਾ।",
+    "reset_password_needs_internet": "ਪਾਸਵਰਡ ਰੀਸੈਟ ਕਰਨ ਲਈ ਇੰਟਰਨੈੱਟ ਚਾਹੀਦਾ ਹੈ।",
+    "password_reset_done": "{name} ({username}) ਲਈ ਨਵਾਂ ਪਾਸਵਰਡ:",
+    "print_login_card": "ਲੌਗਇਨ ਕਾਰਡ ਪ੍ਰਿੰਟ ਕਰੋ",
+    "login_card_change_password": "ਅਗਲੀ ਵਾਰ ਸਾਈਨ ਇਨ ਕਰਨ 'ਤੇ ਤੁਸੀਂ ਆਪਣਾ ਪਾਸਵਰਡ ਚੁਣੋਗੇ।",
+    "no_students_in_class": "ਤੁਹਾਡੀ ਜਮਾਤ ਵਿੱਚ ਅਜੇ ਕੋਈ ਵਿਦਿਆਰਥੀ ਨਹੀਂ ਹੈ।",
+    "recent_password_resets": "ਹਾਲੀਆ ਰੀਸੈਟ",
+    "password_resets_empty": "ਕੋਈ ਪਾਸਵਰਡ ਰੀਸੈਟ ਨਹੀਂ ਹੋਇਆ।",
+    "password_resets_unavailable": "ਰੀਸੈਟਾਂ ਦੀ ਸੂਚੀ ਲਈ ਇੰਟਰਨੈੱਟ ਚਾਹੀਦਾ ਹੈ।",
+    "password_reset_entry": "{student}, {teacher} ਵੱਲੋਂ · {date}",
+    "unknown_user": "ਅਣਪਛਾਤਾ",
+    "account_deactivated": "ਇਹ ਖਾਤਾ ਬੰਦ ਕਰ ਦਿੱਤਾ ਗਿਆ ਹੈ। ਕਿਰਪਾ ਕਰਕੇ ਆਪਣੇ ਮੁੱਖ ਅਧਿਆਪਕ ਨਾਲ ਗੱਲ ਕਰੋ।",
+    "teacher_needs_approval_note": "ਅਧਿਆਪਕ ਖਾਤੇ ਮੁੱਖ ਅਧਿਆਪਕ ਦੀ ਮਨਜ਼ੂਰੀ ਤੋਂ ਬਾਅਦ ਵਰਤੇ ਜਾ ਸਕਦੇ ਹਨ।",
+    "awaiting_approval": "ਮਨਜ਼ੂਰੀ ਦੀ ਉਡੀਕ",
+    "awaiting_approval_description": "ਜਮਾਤ {class} ਲਈ ਤੁਹਾਡਾ ਅਧਿਆਪਕ ਖਾਤਾ ਬਣ ਗਿਆ ਹੈ। ਮੁੱਖ ਅਧਿਆਪਕ ਦੀ ਮਨਜ਼ੂਰੀ ਤੋਂ ਬਾਅਦ ਤੁਸੀਂ ਇਸਨੂੰ ਵਰਤ ਸਕਦੇ ਹੋ।",
+    "still_awaiting_approval": "ਅਜੇ ਮਨਜ਼ੂਰੀ ਨਹੀਂ ਮਿਲੀ। ਕਿਰਪਾ ਕਰਕੇ ਬਾਅਦ ਵਿੱਚ ਦੁਬਾਰਾ ਦੇਖੋ।",
+    "check_again": "ਦੁਬਾਰਾ ਦੇਖੋ",
+    "admin_dashboard": "ਮੁੱਖ ਅਧਿਆਪਕ ਡੈਸ਼ਬੋਰਡ",
+    "school_accounts": "ਖਾਤੇ",
+    "school_analytics": "ਸਕੂਲ ਵਿਸ਼ਲੇਸ਼ਣ",
+    "account_change_needs_internet": "ਖਾਤਾ ਬਦਲਣ ਲਈ ਇੰਟਰਨੈੱਟ ਕਨੈਕਸ਼ਨ ਚਾਹੀਦਾ ਹੈ।",
+    "account_status_pending": "ਮਨਜ਼ੂਰੀ ਦੀ ਉਡੀਕ",
+    "account_status_active": "ਚਾਲੂ",
+    "account_status_deactivated": "ਬੰਦ",
+    "reactivate": "ਦੁਬਾਰਾ ਚਾਲੂ ਕਰੋ",
+    "deactivate": "ਬੰਦ ਕਰੋ",
+    "deactivate_confirmation": "{name} ਹੁਣ ਸਾਈਨ ਇਨ ਨਹੀਂ ਕਰ ਸਕੇਗਾ, ਅਤੇ ਹਰ ਡਿਵਾਈਸ ਤੋਂ ਸਾਈਨ ਆਊਟ ਹੋ ਜਾਵੇਗਾ। ਤੁਸੀਂ ਬਾਅਦ ਵਿੱਚ ਖਾਤਾ ਦੁਬਾਰਾ ਚਾਲੂ ਕਰ ਸਕਦੇ ਹੋ।",
+    "teachers_awaiting_approval": "ਮਨਜ਼ੂਰੀ ਦੀ ਉਡੀਕ ਕਰ ਰਹੇ ਅਧਿਆਪਕ",
+    "no_teachers_awaiting_approval": "ਕੋਈ ਅਧਿਆਪਕ ਮਨਜ਼ੂਰੀ ਦੀ ਉਡੀਕ ਨਹੀਂ ਕਰ ਰਿਹਾ।",
+    "approve": "ਮਨਜ਼ੂਰ ਕਰੋ",
+    "reject": "ਰੱਦ ਕਰੋ",
+    "teachers": "ਅਧਿਆਪਕ",
+    "no_teachers": "ਅਜੇ ਕੋਈ ਅਧਿਆਪਕ ਨਹੀਂ।",
+    "students": "ਵਿਦਿਆਰਥੀ",
+    "all_classes": "ਸਾਰੀਆਂ ਜਮਾਤਾਂ",
+    "class_number": "ਜਮਾਤ {class}",
+    "no_students_found": "ਕੋਈ ਵਿਦਿਆਰਥੀ ਨਹੀਂ ਮਿਲਿਆ।",
+    "completion_rate_percent": "ਪੂਰਾ ਹੋਇਆ (%)",
+    "performance_by_class": "ਜਮਾਤ ਅਨੁਸਾਰ ਪ੍ਰਦਰਸ਼ਨ",
+    "classes_overview": "ਜਮਾਤਾਂ ਦਾ ਸਾਰ",
+    "no_classes_yet": "ਅਜੇ ਕਿਸੇ ਜਮਾਤ ਵਿੱਚ ਅਧਿਆਪਕ, ਵਿਦਿਆਰਥੀ ਜਾਂ ਕੋਰਸ ਨਹੀਂ ਹਨ।",
+    "active_learners": "ਸਰਗਰਮ ਸਿਖਿਆਰਥੀ",
+    "courses": "ਕੋਰਸ"
   }
 };
 
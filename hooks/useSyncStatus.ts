@@ -0,0 +1,10 @@
+import { useState, useEffect } from 'react';
+import { getSyncStatus, subscribeToSyncStatus, type SyncStatus } from '../services/syncService';
+
+export const useSyncStatus = (): SyncStatus => {
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus);
+
+  useEffect(() => subscribeToSyncStatus(setStatus), []);
+
+  return status;
+};
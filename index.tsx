@@ -3,6 +3,9 @@ import ReactDOM from 'react-dom/client';
 import App from './App';
 import { ThemeProvider } from './contexts/ThemeContext';
 import { LanguageProvider } from './contexts/LanguageContext';
+import { registerBackgroundSync } from './services/backgroundSync';
+import { openLocalDatabase } from './services/db';
+import { requestPersistentStorage } from './services/storageService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -12,21 +15,33 @@ if (!rootElement) {
 // Register Service Worker
 if ('serviceWorker' in navigator) {
   window.addEventListener('load', () => {
-    navigator.serviceWorker.register('/service-worker.js').then(registration => {
+    // The worker imports the sync code to flush the queue in the background. The dev server
+    // serves it as a module; builds bundle it into a classic script (see vite.config.ts).
+    const type = process.env.SERVICE_WORKER_TYPE as WorkerType;
+    navigator.serviceWorker.register('/service-worker.js', { type }).then(registration => {
       console.log('ServiceWorker registration successful with scope: ', registration.scope);
+      registerBackgroundSync(registration);
     }, err => {
       console.log('ServiceWorker registration failed: ', err);
     });
   });
 }
 
-const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <ThemeProvider>
-      <LanguageProvider>
-        <App />
-      </LanguageProvider>
-    </ThemeProvider>
-  </React.StrictMode>
-);
+// Keeps the browser from clearing offline lessons and unsynced work when space runs low.
+requestPersistentStorage().catch(error => console.warn('Persistent storage request failed:', error));
+
+// Pending local database migrations run before anything reads from it.
+openLocalDatabase()
+  .catch(error => console.error('Failed to open the local database:', error))
+  .finally(() => {
+    const root = ReactDOM.createRoot(rootElement);
+    root.render(
+      <React.StrictMode>
+        <ThemeProvider>
+          <LanguageProvider>
+            <App />
+          </LanguageProvider>
+        </ThemeProvider>
+      </React.StrictMode>
+    );
+  });
@@ -1,3 +1,7 @@
+// Shares the app's sync code. The dev server serves it as a module worker; the build bundles
+// it into one classic script, still named /service-worker.js (see vite.config.ts).
+import { SYNC_TAG, handleBackgroundSync } from './services/backgroundSync.ts';
+
 const CACHE_NAME = 'vidyalehar-cache-v1';
 // This list should be expanded with any other static assets.
 const URLS_TO_CACHE = [
@@ -78,3 +82,18 @@ self.addEventListener('activate', event => {
     })
   );
 });
+
+// Flushes the offline sync queue once the device is back online, even if the app was closed
+// while offline. Fired only in browsers that support Background Sync.
+self.addEventListener('sync', event => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(handleBackgroundSync(self.clients));
+  }
+});
+
+// Installed apps may also be woken up periodically to push and pull changes.
+self.addEventListener('periodicsync', event => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(handleBackgroundSync(self.clients));
+  }
+});
@@ -0,0 +1,81 @@
+import { db } from './db';
+import { getSyncBackend } from './backend';
+import type { ProfileRow } from './syncBackend';
+import type { User, AccountStatus } from '../types';
+import { UserRole } from '../constants';
+
+// For the school's administrator (the headmaster). Their device syncs every class (see
+// services/syncScope.ts), so the accounts and analytics here are read from the local copy;
+// changing an account needs the network (012_school_admin.sql).
+
+export interface SchoolAccount extends User {
+    name: string; // The full name from a class list, else the username
+    status: AccountStatus;
+}
+
+export interface ClassSummary {
+    class: number;
+    teachers: string[];
+    students: number;
+    studentsWithProgress: number;
+    courses: number;
+    averageScore: number; // Of every course a student of the class has a score in, 0-100
+    completionRate: number; // Completed lessons among those started courses have, 0-100
+}
+
+export const getSchoolAccounts = async (): Promise<SchoolAccount[]> =>
+    (await db.profiles.toArray())
+        .map(profile => ({
+            id: profile.id,
+            username: profile.username,
+            name: profile.full_name || profile.username,
+            role: profile.role as UserRole,
+            class: profile.class,
+            status: profile.status ?? 'active',
+        }))
+        .sort((a, b) => a.class - b.class || a.name.localeCompare(b.name));
+
+const saveProfile = async (updated: Promise<ProfileRow>): Promise<void> => {
+    await db.profiles.put(await updated);
+};
+
+// A pending teacher can then see their class and teach it.
+export const approveTeacher = (userId: string) =>
+    saveProfile(getSyncBackend().accounts.setAccountStatus(userId, 'active'));
+
+// The account can no longer sign in, and is signed out wherever it is signed in.
+export const deactivateAccount = (userId: string) =>
+    saveProfile(getSyncBackend().accounts.setAccountStatus(userId, 'deactivated'));
+
+export const reactivateAccount = (userId: string) =>
+    saveProfile(getSyncBackend().accounts.setAccountStatus(userId, 'active'));
+
+export const assignTeacherClass = (userId: string, classNumber: number) =>
+    saveProfile(getSyncBackend().accounts.assignTeacherClass(userId, classNumber));
+
+// Every class with a teacher, a student or a course, in order. Deactivated accounts aren't
+// counted, nor are administrators, whose class means nothing.
+export const getSchoolAnalytics = async (): Promise<ClassSummary[]> => {
+    const accounts = (await getSchoolAccounts()).filter(account => account.status !== 'deactivated' && account.role !== UserRole.ADMIN);
+    const courses = await db.courses.toArray();
+    const progressByStudent = new Map((await db.studentProgress.toArray()).map(p => [p.studentId, p]));
+    const classes = [...new Set([...accounts.map(a => a.class), ...courses.map(c => c.forClass)])].sort((a, b) => a - b);
+
+    return classes.map(classNumber => {
+        const students = accounts.filter(a => a.role === UserRole.STUDENT && a.class === classNumber);
+        const progress = students.flatMap(s => progressByStudent.get(s.id) ?? []);
+        const courseProgress = progress.flatMap(p => p.courseProgress);
+        const scored = courseProgress.filter(cp => cp.completedLessons > 0);
+        const completed = courseProgress.reduce((sum, cp) => sum + cp.completedLessons, 0);
+        const total = courseProgress.reduce((sum, cp) => sum + cp.totalLessons, 0);
+        return {
+            class: classNumber,
+            teachers: accounts.filter(a => a.role === UserRole.TEACHER && a.status === 'active' && a.class === classNumber).map(a => a.name),
+            students: students.length,
+            studentsWithProgress: progress.filter(p => p.courseProgress.length > 0).length,
+            courses: courses.filter(c => c.forClass === classNumber).length,
+            averageScore: scored.length > 0 ? scored.reduce((sum, cp) => sum + cp.score, 0) / scored.length : 0,
+            completionRate: total > 0 ? (completed / total) * 100 : 0,
+        };
+    });
+};
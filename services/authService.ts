@@ -1,12 +1,17 @@
 import { UserRole } from "../constants";
 import type { User, Student, Teacher } from "../types";
 // Fix: Removed direct import of `Profile` type and instead import `Database` to derive it.
-import { supabase } from './supabaseClient';
 import type { Database } from './supabaseClient';
+import { getSyncBackend } from './backend';
+import { ACCOUNT_DEACTIVATED } from './syncBackend';
 import { db } from './db';
+import { isNetworkError } from './syncService';
+import { rememberCredential, signInOffline, endLocalSession, getSignedInUserId } from './offlineAuthService';
+import { addToRoster } from './deviceRosterService';
 
 // Fix: Define Profile type locally from the central Database definition for consistency.
 type Profile = Database['public']['Tables']['profiles']['Row'];
+type ProfileInsert = Database['public']['Tables']['profiles']['Insert'];
 
 const constructAppUser = (profile: Profile): User => {
     return {
@@ -14,9 +19,16 @@ const constructAppUser = (profile: Profile): User => {
         username: profile.username,
         role: profile.role,
         class: profile.class,
+        mustChangePassword: profile.must_change_password || undefined,
+        status: profile.status,
     };
 };
 
+// Sign-ins of a deactivated account fail with this code.
+export { ACCOUNT_DEACTIVATED };
+
+const deactivatedError = () => Object.assign(new Error('This account has been deactivated.'), { code: ACCOUNT_DEACTIVATED });
+
 export const register = async (username: string, password: string, role: UserRole, classNumber?: number): Promise<User> => {
     if (!classNumber) {
         throw new Error('Class number is required for registration.');
@@ -24,108 +36,124 @@ export const register = async (username: string, password: string, role: UserRol
     if (password.length < 6) {
         throw new Error('Password must be at least 6 characters long.');
     }
+    if (role === UserRole.ADMIN) {
+        throw new Error('Administrator accounts cannot be registered.');
+    }
 
     // Supabase requires email for sign up, we'll use a dummy email since we are username-based.
     const email = `${username.toLowerCase()}@vidyalehar.local`;
+    const { auth } = getSyncBackend();
 
-    const { data: authData, error: authError } = await supabase.auth.signUp({
-        email,
-        password,
-        options: {
-            data: {
-                username: username,
-            }
-        }
-    });
-
-    if (authError) {
-        throw new Error(authError.message);
-    }
-    if (!authData.user) {
-        throw new Error("Registration failed: no user returned.");
-    }
+    const userId = await auth.signUp(email, password, username);
     
     // Now create a profile for the user in our public profiles table
-    const newProfile: Profile = {
-        id: authData.user.id,
+    const newProfile: ProfileInsert = {
+        id: userId,
         username: username,
         role: role,
         class: classNumber,
+        // Teachers wait for an administrator's approval.
+        status: role === UserRole.TEACHER ? 'pending' : 'active',
     };
 
-    // Fix: The insert method expects a single object or an array. Passing a single object is cleaner here.
-    // The root cause of the original 'never' type error was in the Database type definition.
-    const { error: profileError } = await supabase.from('profiles').insert(newProfile);
-
-    if (profileError) {
+    let createdProfile: Profile;
+    try {
+        createdProfile = await auth.createProfile(newProfile);
+    } catch (profileError: any) {
         // If profile creation fails, we should ideally delete the auth user to avoid orphaned users.
         // This is an advanced topic (e.g. use a Supabase function), for now, we'll just throw.
-        throw new Error(`Could not create user profile: ${profileError.message}`);
+        throw new Error(`Could not create user profile: ${profileError?.message}`);
     }
 
     // Also save profile to local DB
-    await db.profiles.put(newProfile);
+    await db.profiles.put(createdProfile);
+    await rememberCredential(userId, username, password);
 
-    return constructAppUser(newProfile);
+    const user = constructAppUser(createdProfile);
+    await addToRoster(user);
+    return user;
 };
 
 
 export const login = async (username: string, password: string): Promise<User> => {
     // We still use dummy email for login
     const email = `${username.toLowerCase()}@vidyalehar.local`;
-    const { data: authData, error: authError } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-    });
-
-    if (authError) {
-        throw new Error(authError.message);
-    }
-    if (!authData.user) {
-        throw new Error("Login failed: no user returned.");
+    const { auth } = getSyncBackend();
+    let userId: string;
+    try {
+        userId = await auth.signIn(email, password);
+    } catch (error) {
+        // Without the network, a user who signed in on this device before can still get in.
+        if (!isNetworkError(error)) throw error;
+        const offlineUserId = await signInOffline(username, password);
+        const cachedProfile = await db.profiles.get(offlineUserId);
+        if (!cachedProfile || cachedProfile.status === 'deactivated') {
+            await endLocalSession();
+            if (cachedProfile) throw deactivatedError();
+            throw new Error("Login failed: could not retrieve user profile.");
+        }
+        const offlineUser = constructAppUser(cachedProfile);
+        await addToRoster(offlineUser);
+        return offlineUser;
     }
 
     // Fetch the user's profile
-    const { data: profile, error: profileError } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', authData.user.id)
-        .single();
+    const profile = await auth.getProfile(userId).catch(() => null);
     
-    if (profileError || !profile) {
+    if (!profile) {
         throw new Error("Login failed: could not retrieve user profile.");
     }
+    if (profile.status === 'deactivated') {
+        await auth.signOut();
+        throw deactivatedError();
+    }
 
     // Also save profile to local DB
     await db.profiles.put(profile);
+    await endLocalSession();
+    await rememberCredential(userId, username, password);
 
-    return constructAppUser(profile);
+    const user = constructAppUser(profile);
+    await addToRoster(user);
+    return user;
 };
 
 
+// For a user whose password a teacher reset: needs the network, like any sign-in that
+// reaches the server.
+export const changePassword = async (user: User, newPassword: string): Promise<User> => {
+    if (newPassword.length < 6) {
+        throw new Error('Password must be at least 6 characters long.');
+    }
+    const profile = await getSyncBackend().auth.changePassword(newPassword);
+    await db.profiles.put(profile);
+    await rememberCredential(user.id, user.username, newPassword);
+    return constructAppUser(profile);
+};
+
 export const logout = async () => {
-    await supabase.auth.signOut();
+    await endLocalSession();
+    await getSyncBackend().auth.signOut();
 };
 
 export const getCurrentUser = async (): Promise<User | null> => {
-    const { data: { session } } = await supabase.auth.getSession();
-    if (!session?.user) {
+    const { auth } = getSyncBackend();
+    const userId = await getSignedInUserId();
+    if (!userId) {
         return null;
     }
 
     // Check local DB first for faster startup
-    let profile = await db.profiles.get(session.user.id);
+    let profile = await db.profiles.get(userId);
 
     if (!profile) {
         // If not in local DB, fetch from remote
-        const { data, error } = await supabase
-            .from('profiles')
-            .select('*')
-            .eq('id', session.user.id)
-            .single();
-
-        if (error || !data) {
+        const data = await auth.getProfile(userId).catch(error => {
             console.error("Could not fetch profile for active session:", error);
+            return null;
+        });
+
+        if (!data) {
             // This might mean the session is stale, signing out.
             await logout();
             return null;
@@ -133,6 +161,11 @@ export const getCurrentUser = async (): Promise<User | null> => {
         profile = data;
         await db.profiles.put(profile); // Cache for next time
     }
+    // Deactivated since the last sign-in, as the latest sync found.
+    if (profile.status === 'deactivated') {
+        await logout();
+        return null;
+    }
 
     return constructAppUser(profile);
 };
@@ -142,7 +175,7 @@ export const getAllStudents = async (): Promise<Student[]> => {
     const studentProfiles = profiles.filter(p => p.role === UserRole.STUDENT);
     return studentProfiles.map(p => ({
         ...constructAppUser(p),
-        name: p.username,
+        name: p.full_name || p.username,
         role: UserRole.STUDENT,
     }));
 };
@@ -151,7 +184,7 @@ export const getStudentsByClass = async (classNumber: number): Promise<Student[]
     const studentProfiles = await db.profiles.where({ class: classNumber, role: UserRole.STUDENT }).toArray();
     return studentProfiles.map(p => ({
         ...constructAppUser(p),
-        name: p.username,
+        name: p.full_name || p.username,
         role: UserRole.STUDENT,
     }));
 };
@@ -0,0 +1,13 @@
+import type { SyncBackend } from './syncBackend';
+import { supabaseBackend } from './supabaseBackend';
+import { createLocalBackend } from './localBackend';
+
+// Supabase unless Vite was started with SYNC_BACKEND=local (see vite.config.ts).
+let activeBackend: SyncBackend = process.env.SYNC_BACKEND === 'local' ? createLocalBackend() : supabaseBackend;
+
+export const getSyncBackend = (): SyncBackend => activeBackend;
+
+// For tests and demos that swap in another backend before anything syncs.
+export const setSyncBackend = (backend: SyncBackend): void => {
+    activeBackend = backend;
+};
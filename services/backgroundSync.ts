@@ -0,0 +1,91 @@
+import { db } from './db';
+import { syncNow, getSyncStatus } from './syncService';
+
+// Lets the browser flush the offline queue when connectivity returns, even after the
+// app's tab has been closed. Chromium browsers wake the service worker with a one-off
+// `sync` event once the device is back online, and installed apps can also get
+// `periodicsync` events that keep downloaded content fresh. Elsewhere the queue is
+// flushed by the app itself, on start-up and on the window `online` event.
+
+export const SYNC_TAG = 'vidyalehar-sync-queue';
+const PERIODIC_SYNC_INTERVAL_MS = 12 * 60 * 60 * 1000;
+
+// Message from the service worker asking an open window to run the sync itself.
+export const SYNC_REQUESTED_MESSAGE = 'VIDYALEHAR_SYNC_REQUESTED';
+
+// Background Sync and Periodic Background Sync aren't in TypeScript's DOM types yet.
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+    sync?: { register: (tag: string) => Promise<void> };
+    periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> };
+}
+
+// The part of the service worker's `self.clients` used here (the WebWorker lib isn't loaded).
+interface WindowClients {
+    matchAll: (options: { type: 'window' }) => Promise<{ postMessage: (message: unknown) => void }[]>;
+}
+
+// --- Page side ---
+
+const requestSync = async (registration: SyncCapableRegistration) => {
+    try {
+        await registration.sync?.register(SYNC_TAG);
+    } catch (error) {
+        // Registration is refused e.g. when the user has turned background sync off.
+        console.warn('Background sync unavailable:', error);
+    }
+};
+
+const registerPeriodicSync = async (registration: SyncCapableRegistration) => {
+    if (!registration.periodicSync) return;
+    try {
+        // Only granted to installed apps; the browser picks the actual interval.
+        const status = await navigator.permissions.query({ name: 'periodic-background-sync' as PermissionName });
+        if (status.state === 'granted') {
+            await registration.periodicSync.register(SYNC_TAG, { minInterval: PERIODIC_SYNC_INTERVAL_MS });
+        }
+    } catch (error) {
+        console.warn('Periodic background sync unavailable:', error);
+    }
+};
+
+// Called once the service worker is registered.
+export const registerBackgroundSync = async (registration: ServiceWorkerRegistration) => {
+    const syncRegistration = registration as SyncCapableRegistration;
+
+    navigator.serviceWorker.addEventListener('message', event => {
+        if (event.data?.type === SYNC_REQUESTED_MESSAGE) {
+            syncNow();
+        }
+    });
+
+    if (!syncRegistration.sync) return; // Fallback: the app syncs when it's open and online.
+
+    // Every queued action asks for a sync. Requests for the same tag are merged by the
+    // browser, so a burst of quiz answers still results in a single sync.
+    db.syncQueue.hook('creating', () => {
+        requestSync(syncRegistration);
+    });
+    if (await db.syncQueue.count() > 0) {
+        await requestSync(syncRegistration);
+    }
+    await registerPeriodicSync(syncRegistration);
+};
+
+// --- Service worker side ---
+
+// Handles `sync` and `periodicsync` events. While a window is open the sync is left to
+// it, so the page and the worker never refresh the auth session at the same time.
+// Rejecting makes the browser retry a one-off sync later with its own backoff.
+export const handleBackgroundSync = async (clients: WindowClients): Promise<void> => {
+    const windows = await clients.matchAll({ type: 'window' });
+    if (windows.length > 0) {
+        windows[0].postMessage({ type: SYNC_REQUESTED_MESSAGE });
+        return;
+    }
+
+    await syncNow();
+    const { lastError } = getSyncStatus();
+    if (lastError && await db.syncQueue.count() > 0) {
+        throw new Error(`Background sync incomplete: ${lastError}`);
+    }
+};
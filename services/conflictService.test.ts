@@ -0,0 +1,91 @@
+import 'fake-indexeddb/auto';
+import Dexie from 'dexie';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getSyncConflicts, mergeStudentProgress, recordConflict, resolveConflict } from './conflictService';
+import { DB_NAME, db, type StoredCourse } from './db';
+import type { StudentProgress } from '../types';
+
+// The Supabase client needs a WebSocket, which Node 20 doesn't have; these tests don't use it.
+vi.mock('./supabaseBackend', () => ({ supabaseBackend: {} }));
+
+const progress = (lessons: Record<string, [attempts: number, finalScore: number]>, changes: Partial<StudentProgress> = {}): StudentProgress => ({
+    studentId: 'asha',
+    studentName: 'Asha',
+    courseProgress: [{
+        courseId: 'course-1',
+        completedLessons: 0,
+        totalLessons: 3,
+        score: 0,
+        lessonStatus: Object.entries(lessons).map(([lessonId, [attempts, finalScore]]) => ({ lessonId, attempts, finalScore })),
+    }],
+    scoreHistory: [],
+    ...changes,
+});
+
+describe('mergeStudentProgress', () => {
+    it('keeps the best score and adds only the attempts the server has not seen', () => {
+        const server = progress({ 'lesson-1': [3, 60], 'lesson-2': [1, 90] }, { version: 4 });
+        // Two attempts at lesson-1 here; the first was pushed before, the second wasn't.
+        const local = progress({ 'lesson-1': [2, 80], 'lesson-3': [1, 40] }, { version: 3, pendingAttempts: { 'lesson-1': 1, 'lesson-3': 1 } });
+
+        const merged = mergeStudentProgress(server, local);
+
+        expect(merged.courseProgress[0].lessonStatus).toEqual([
+            { lessonId: 'lesson-1', attempts: 4, finalScore: 80 },
+            { lessonId: 'lesson-2', attempts: 1, finalScore: 90 },
+            { lessonId: 'lesson-3', attempts: 1, finalScore: 40 },
+        ]);
+        expect(merged.courseProgress[0]).toMatchObject({ completedLessons: 3, score: 70 });
+        expect(merged.version).toBe(4);
+        expect(merged.pendingAttempts).toEqual(local.pendingAttempts);
+    });
+
+    it('keeps the best score of each day from either copy', () => {
+        const server = progress({}, { scoreHistory: [{ date: '2026-10-02', score: 50 }, { date: '2026-10-01', score: 70 }] });
+        const local = progress({}, { scoreHistory: [{ date: '2026-10-02', score: 65 }, { date: '2026-10-03', score: 20 }] });
+
+        expect(mergeStudentProgress(server, local).scoreHistory).toEqual([
+            { date: '2026-10-01', score: 70 },
+            { date: '2026-10-02', score: 65 },
+            { date: '2026-10-03', score: 20 },
+        ]);
+    });
+});
+
+describe('resolveConflict', () => {
+    const localCourse: StoredCourse = { id: 'course-1', title: 'Maths', description: 'Mine', icon: 'Calculator', forClass: 6, authorId: 'teacher-1', version: 1 };
+    const serverCourse: StoredCourse = { ...localCourse, description: 'Theirs', version: 2 };
+
+    beforeEach(async () => {
+        await db.open();
+        await db.courses.put(localCourse);
+        await recordConflict({ entityType: 'course', entityId: 'course-1', localData: localCourse, serverData: serverCourse });
+    });
+
+    afterEach(async () => {
+        db.close();
+        await Dexie.delete(DB_NAME);
+    });
+
+    it('queues the local copy on top of the server version', async () => {
+        const [conflict] = await getSyncConflicts();
+        await resolveConflict(conflict.id!, 'keep_local');
+
+        expect(await db.syncQueue.toArray()).toMatchObject([{ type: 'SAVE_COURSE', payload: { description: 'Mine', version: 2 }, isNew: false }]);
+        expect(await getSyncConflicts()).toEqual([]);
+    });
+
+    it('takes the server copy', async () => {
+        const [conflict] = await getSyncConflicts();
+        await resolveConflict(conflict.id!, 'keep_server');
+
+        expect(await db.courses.get('course-1')).toEqual(serverCourse);
+        expect(await db.syncQueue.count()).toBe(0);
+    });
+
+    it('keeps only the newest conflict of a record', async () => {
+        await recordConflict({ entityType: 'course', entityId: 'course-1', localData: { ...localCourse, description: 'Mine again' }, serverData: serverCourse });
+
+        expect(await getSyncConflicts()).toMatchObject([{ localData: { description: 'Mine again' } }]);
+    });
+});
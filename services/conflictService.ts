@@ -0,0 +1,127 @@
+import { db, type SyncConflict, type StoredCourse } from './db';
+import { deleteLessonsOfCourses, toStoredLesson } from './lessonStore';
+import type { CourseProgress, Lesson, LessonStatus, ScoreHistory, StudentProgress } from '../types';
+
+// --- Progress merging ---
+
+const withRecalculatedScores = (cp: CourseProgress): CourseProgress => {
+    const completedLessonsWithScore = cp.lessonStatus.filter(ls => ls.finalScore > 0);
+    const totalScore = completedLessonsWithScore.reduce((sum, ls) => sum + ls.finalScore, 0);
+    return {
+        ...cp,
+        completedLessons: completedLessonsWithScore.length,
+        score: completedLessonsWithScore.length > 0 ? totalScore / completedLessonsWithScore.length : 0,
+    };
+};
+
+const mergeLessonStatus = (server: LessonStatus[], local: LessonStatus[], pending: Record<string, number>): LessonStatus[] => {
+    const lessonIds = new Set([...server, ...local].map(ls => ls.lessonId));
+    return [...lessonIds].map(lessonId => {
+        const serverStatus = server.find(ls => ls.lessonId === lessonId);
+        const localStatus = local.find(ls => ls.lessonId === lessonId);
+        if (!serverStatus) return localStatus!;
+        if (!localStatus) return serverStatus;
+        return {
+            lessonId,
+            // The server count already includes every attempt this device pushed before,
+            // so only the attempts it hasn't seen yet are added on top.
+            attempts: serverStatus.attempts + (pending[lessonId] || 0),
+            finalScore: Math.max(serverStatus.finalScore, localStatus.finalScore),
+        };
+    });
+};
+
+const mergeScoreHistory = (server: ScoreHistory[], local: ScoreHistory[]): ScoreHistory[] => {
+    const byDate = new Map<string, number>();
+    [...server, ...local].forEach(h => byDate.set(h.date, Math.max(byDate.get(h.date) ?? 0, h.score)));
+    return [...byDate.entries()]
+        .map(([date, score]) => ({ date, score }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Combines a student's progress from two devices: the best score per lesson wins and
+// attempts made on each device are added together. The result is based on the server's
+// version, so it can be pushed back without being rejected as stale again.
+export const mergeStudentProgress = (server: StudentProgress, local: StudentProgress): StudentProgress => {
+    const pending = local.pendingAttempts || {};
+    const courseIds = new Set([...server.courseProgress, ...local.courseProgress].map(cp => cp.courseId));
+
+    const courseProgress = [...courseIds].map(courseId => {
+        const serverCourse = server.courseProgress.find(cp => cp.courseId === courseId);
+        const localCourse = local.courseProgress.find(cp => cp.courseId === courseId);
+        if (!serverCourse) return localCourse!;
+        if (!localCourse) return serverCourse;
+        return withRecalculatedScores({
+            courseId,
+            completedLessons: 0,
+            totalLessons: Math.max(serverCourse.totalLessons, localCourse.totalLessons),
+            score: 0,
+            lessonStatus: mergeLessonStatus(serverCourse.lessonStatus, localCourse.lessonStatus, pending),
+        });
+    });
+
+    return {
+        studentId: local.studentId,
+        studentName: local.studentName,
+        courseProgress,
+        scoreHistory: mergeScoreHistory(server.scoreHistory, local.scoreHistory),
+        version: server.version,
+        pendingAttempts: local.pendingAttempts,
+    };
+};
+
+// --- Unmergeable conflicts (courses & lessons) ---
+
+export const recordConflict = async (conflict: Omit<SyncConflict, 'id' | 'detectedAt'>): Promise<void> => {
+    // A newer rejected edit of the same record replaces the older one.
+    await db.syncConflicts.where({ entityId: conflict.entityId }).delete();
+    await db.syncConflicts.add({ ...conflict, detectedAt: Date.now() });
+};
+
+export const getSyncConflicts = (): Promise<SyncConflict[]> => {
+    return db.syncConflicts.orderBy('detectedAt').toArray();
+};
+
+const applyServerCopy = async (conflict: SyncConflict): Promise<void> => {
+    if (conflict.entityType === 'course') {
+        const serverCourse = conflict.serverData as StoredCourse | null;
+        if (!serverCourse) {
+            await db.transaction('rw', db.courses, db.lessons, async () => {
+                await db.courses.delete(conflict.entityId);
+                await deleteLessonsOfCourses([conflict.entityId]);
+            });
+            return;
+        }
+        await db.courses.put(serverCourse);
+        return;
+    }
+
+    const courseId: string = conflict.localData.course_id;
+    if (!await db.courses.get(courseId)) return;
+    const serverLesson = conflict.serverData as Lesson | null;
+    if (serverLesson) {
+        await db.lessons.put(toStoredLesson(serverLesson, courseId, serverLesson.order ?? 0));
+    } else {
+        await db.lessons.delete(conflict.entityId);
+    }
+};
+
+// 'keep_local' re-queues this device's copy on top of the server's current version,
+// overwriting the other edit. 'keep_server' throws the local edit away.
+export const resolveConflict = async (conflictId: number, resolution: 'keep_local' | 'keep_server'): Promise<void> => {
+    const conflict = await db.syncConflicts.get(conflictId);
+    if (!conflict) return;
+
+    if (resolution === 'keep_local') {
+        await db.syncQueue.add({
+            type: conflict.entityType === 'course' ? 'SAVE_COURSE' : 'SAVE_LESSON',
+            payload: { ...conflict.localData, version: conflict.serverData?.version },
+            timestamp: Date.now(),
+            // Deleted on the server meanwhile: keeping this copy creates it again.
+            isNew: !conflict.serverData,
+        });
+    } else {
+        await applyServerCopy(conflict);
+    }
+    await db.syncConflicts.delete(conflictId);
+};
@@ -0,0 +1,71 @@
+import 'fake-indexeddb/auto';
+import Dexie from 'dexie';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { removeCoursePackage } from './coursePackageService';
+import { removeDownloadedLesson } from './offlineContentService';
+import { DB_NAME, db } from './db';
+
+// The Supabase client needs a WebSocket, which Node 20 doesn't have; these tests don't use it.
+vi.mock('./supabaseBackend', () => ({ supabaseBackend: {} }));
+
+const keepVideo = async (lessonId: string, ...owners: string[]) => {
+    await db.videos.put({ id: lessonId, blob: new Blob([new Uint8Array(100)], { type: 'video/mp4' }), path: `course-1/${lessonId}/1` });
+    await db.downloads.put({ lessonId, url: `course-1/${lessonId}/1`, size: 100, downloadedAt: 1_700_000_000_000 });
+    await db.downloadOwners.bulkPut(owners.map(userId => ({ userId, lessonId })));
+};
+
+const keptVideos = () => db.videos.toCollection().primaryKeys();
+
+beforeEach(async () => {
+    await db.open();
+});
+
+afterEach(async () => {
+    db.close();
+    await Dexie.delete(DB_NAME);
+});
+
+describe('removeDownloadedLesson', () => {
+    it('keeps a video another student asked for', async () => {
+        await keepVideo('lesson-1', 'asha', 'ravi');
+
+        await removeDownloadedLesson('lesson-1', 'asha');
+        expect(await keptVideos()).toEqual(['lesson-1']);
+        expect(await db.downloadOwners.toArray()).toEqual([{ userId: 'ravi', lessonId: 'lesson-1' }]);
+
+        await removeDownloadedLesson('lesson-1', 'ravi');
+        expect(await keptVideos()).toEqual([]);
+    });
+
+    it('keeps a video a course package keeps', async () => {
+        await keepVideo('lesson-1', 'asha');
+        await db.coursePackages.put({
+            courseId: 'course-1', requestedAt: 1_700_000_000_000, updatedAt: 1_700_000_000_000, status: 'ready', requestedBy: ['ravi'],
+            manifest: [{ lessonId: 'lesson-1', video: 'upload', source: 'course-1/lesson-1/1' }],
+        });
+
+        await removeDownloadedLesson('lesson-1', 'asha');
+
+        expect(await keptVideos()).toEqual(['lesson-1']);
+    });
+});
+
+describe('removeCoursePackage', () => {
+    it('keeps the videos students asked for one by one', async () => {
+        await keepVideo('lesson-1', 'ravi');
+        await keepVideo('lesson-2');
+        await db.coursePackages.put({
+            courseId: 'course-1', requestedAt: 1_700_000_000_000, updatedAt: 1_700_000_000_000, status: 'ready', requestedBy: ['asha'],
+            manifest: [
+                { lessonId: 'lesson-1', video: 'upload', source: 'course-1/lesson-1/1' },
+                { lessonId: 'lesson-2', video: 'upload', source: 'course-1/lesson-2/1' },
+            ],
+        });
+
+        await removeCoursePackage('course-1', 'asha');
+
+        expect(await keptVideos()).toEqual(['lesson-1']);
+        expect(await db.downloadOwners.toArray()).toEqual([{ userId: 'ravi', lessonId: 'lesson-1' }]);
+        expect(await db.coursePackages.count()).toBe(0);
+    });
+});
@@ -0,0 +1,162 @@
+import { db, type PackageItem, type CoursePackage } from './db';
+import { getLessonsOfCourse } from './lessonStore';
+import { downloadLesson, getYouTubeEmbedUrl } from './offlineContentService';
+import { evictVideos, STORAGE_FULL } from './storageService';
+import { cancelVideoDownload } from './resumableDownloadService';
+
+// A course package keeps a whole course usable offline. Lesson text (content, summary,
+// transcript and quiz) arrives with every sync of the student's class; the package adds the
+// media. Its manifest lists what each lesson needs, and is rebuilt after every sync and
+// realtime change, so a package follows the teacher's edits: new and replaced videos are
+// downloaded, and videos of lessons that left the course are removed.
+
+// What keeping the course offline takes, lesson by lesson, from the lessons on this device.
+export const buildCourseManifest = async (courseId: string): Promise<PackageItem[]> => {
+    const lessons = await getLessonsOfCourse(courseId);
+    return lessons.map((lesson): PackageItem => {
+        if (lesson.videoPath) return { lessonId: lesson.id, video: 'upload', source: lesson.videoPath };
+        if (!lesson.videoUrl) return { lessonId: lesson.id, video: 'none' };
+        if (getYouTubeEmbedUrl(lesson.videoUrl)) return { lessonId: lesson.id, video: 'online_only' };
+        return { lessonId: lesson.id, video: 'link', source: lesson.videoUrl };
+    });
+};
+
+const hasVideo = (item: PackageItem) => item.video === 'upload' || item.video === 'link';
+
+// Lessons whose videos the package keeps on the device.
+export const packageVideoLessonIds = (pkg: CoursePackage): string[] =>
+    pkg.manifest.filter(hasVideo).map(item => item.lessonId);
+
+// Removes the videos of the given lessons that nobody on the device wants any more: no
+// student has asked for the video itself, and no course package keeps it.
+export const evictUnwantedVideos = async (lessonIds: string[]): Promise<void> => {
+    const keptByPackages = new Set((await db.coursePackages.toArray()).flatMap(packageVideoLessonIds));
+    const owned = new Set((await db.downloadOwners.where('lessonId').anyOf(lessonIds).toArray()).map(row => row.lessonId));
+    const unwanted = lessonIds.filter(id => !keptByPackages.has(id) && !owned.has(id));
+    for (const lessonId of unwanted) await cancelVideoDownload(lessonId);
+    await evictVideos(unwanted);
+};
+
+// Packages kept before the device roster belong to every student.
+const isRequestedBy = (pkg: CoursePackage, userId?: string) =>
+    pkg.requestedBy.length === 0 || (!!userId && pkg.requestedBy.includes(userId));
+
+// Whether this device holds the copy of the item's video that the lesson uses now.
+const isItemReady = async (item: PackageItem): Promise<boolean> =>
+    !hasVideo(item) || (await db.downloads.get(item.lessonId))?.url === item.source;
+
+// Package updates running in this page, by course.
+const inFlightUpdates = new Map<string, Promise<void>>();
+
+// Downloads whatever the course's package is missing. Runs once at a time per course; a
+// download cut off by the connection carries on by itself (see resumableDownloadService).
+export const updateCoursePackage = (courseId: string): Promise<void> => {
+    const existing = inFlightUpdates.get(courseId);
+    if (existing) return existing;
+
+    const update = (async () => {
+        const previous = await db.coursePackages.get(courseId);
+        if (!previous) return;
+        if (!(await db.courses.get(courseId))) {
+            await removeCoursePackage(courseId);
+            return;
+        }
+
+        const manifest = await buildCourseManifest(courseId);
+        const current = new Set(manifest.map(item => item.lessonId));
+        const removed = previous.manifest.filter(item => hasVideo(item) && !current.has(item.lessonId));
+        if (removed.length > 0) await evictVideos(removed.map(item => item.lessonId));
+        await db.coursePackages.update(courseId, { manifest, status: 'downloading', error: undefined, updatedAt: Date.now() });
+
+        let error: string | undefined;
+        for (const item of manifest) {
+            if (await isItemReady(item)) continue;
+            // The package or the lesson may have gone while earlier items downloaded.
+            if (!(await db.coursePackages.get(courseId))) return;
+            const lesson = await db.lessons.get(item.lessonId);
+            if (!lesson) continue;
+            try {
+                const outcome = await downloadLesson(lesson);
+                if (outcome !== 'done') break; // Paused, or waiting to be back online.
+            } catch (e: any) {
+                error = e?.code === STORAGE_FULL ? STORAGE_FULL : e?.message || String(e);
+                if (e?.code === STORAGE_FULL) break;
+            }
+        }
+
+        const isReady = (await Promise.all(manifest.map(isItemReady))).every(Boolean);
+        await db.coursePackages.update(courseId, { status: isReady ? 'ready' : 'incomplete', error, updatedAt: Date.now() });
+    })().finally(() => inFlightUpdates.delete(courseId));
+    inFlightUpdates.set(courseId, update);
+    return update;
+};
+
+// Brings every package on this device up to date with its course, e.g. after a sync.
+export const updateCoursePackages = async (courseIds?: string[]): Promise<void> => {
+    const ids = courseIds ?? (await db.coursePackages.toCollection().primaryKeys());
+    for (const courseId of ids) {
+        await updateCoursePackage(courseId).catch(error => console.error(`Failed to update the offline copy of course ${courseId}:`, error));
+    }
+};
+
+// `userId` is the student asking for it; one package serves every student who does.
+export const downloadCoursePackage = async (courseId: string, userId: string): Promise<void> => {
+    const pkg = await db.coursePackages.get(courseId);
+    if (!pkg) {
+        const now = Date.now();
+        await db.coursePackages.put({ courseId, requestedAt: now, manifest: [], status: 'downloading', updatedAt: now, requestedBy: [userId] });
+    } else if (!isRequestedBy(pkg, userId)) {
+        await db.coursePackages.update(courseId, { requestedBy: [...pkg.requestedBy, userId] });
+    }
+    await updateCoursePackage(courseId);
+};
+
+// Stops keeping the course offline and frees the space its videos took, apart from videos
+// students asked for one by one or another package keeps. Given a student, only drops their
+// request while other students still want the course.
+export const removeCoursePackage = async (courseId: string, userId?: string): Promise<void> => {
+    const pkg = await db.coursePackages.get(courseId);
+    if (!pkg) return;
+    const others = pkg.requestedBy.filter(id => id !== userId);
+    if (userId && pkg.requestedBy.includes(userId) && others.length > 0) {
+        await db.coursePackages.update(courseId, { requestedBy: others });
+        return;
+    }
+    await db.coursePackages.delete(courseId);
+    await evictUnwantedVideos(packageVideoLessonIds(pkg));
+};
+
+export interface CoursePackageProgress {
+    status: CoursePackage['status'] | null; // null when the course isn't kept offline
+    error?: string;
+    videos: number; // Videos the package downloads
+    videosReady: number;
+    fraction: number; // 0 to 1, counting partly downloaded videos by bytes
+    onlineOnly: number; // Videos that can only be watched online
+    isAvailableOffline: boolean; // Everything that can be downloaded is on this device
+}
+
+// The package's progress against the course as it is now, as `userId` sees it: a package
+// only other students asked for doesn't count as theirs. Reads only the local database, so
+// it can run in a live query.
+export const getCoursePackageProgress = async (courseId: string, userId?: string): Promise<CoursePackageProgress> => {
+    const stored = await db.coursePackages.get(courseId);
+    const pkg = stored && isRequestedBy(stored, userId) ? stored : undefined;
+    const manifest = await buildCourseManifest(courseId);
+    const videoItems = manifest.filter(hasVideo);
+    const ready = await Promise.all(videoItems.map(isItemReady));
+    const partials = await db.partialDownloads.bulkGet(videoItems.map(item => item.lessonId));
+
+    const videosReady = ready.filter(Boolean).length;
+    const partlyDone = partials.reduce((sum, partial, i) =>
+        sum + (!ready[i] && partial?.total ? partial.received / partial.total : 0), 0);
+    return {
+        status: pkg?.status ?? null,
+        error: pkg?.error,
+        videos: videoItems.length,
+        videosReady,
+        fraction: videoItems.length === 0 ? 1 : (videosReady + partlyDone) / videoItems.length,
+        onlineOnly: manifest.filter(item => item.video === 'online_only').length,
+        isAvailableOffline: !!pkg && videosReady === videoItems.length,
+    };
+};
@@ -0,0 +1,195 @@
+import 'fake-indexeddb/auto';
+import Dexie from 'dexie';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DB_NAME, db, createAppDatabase, migrateFixture, openLocalDatabase } from './db';
+import { LATEST_DB_VERSION } from './dbMigrations';
+
+// Snapshots of what devices on older versions hold, as they would have written it.
+
+const video = (size: number) => new Blob([new Uint8Array(size)], { type: 'video/mp4' });
+
+const queuedSave = {
+    type: 'SAVE_LESSON',
+    payload: { id: 'lesson-2', course_id: 'course-1', title: 'Fractions', order: 1 },
+    timestamp: 1_700_000_000_000,
+};
+
+const v9Snapshot = () => ({
+    courses: [{ id: 'course-1', title: 'Maths', authorId: 'teacher-1', forClass: 6 }],
+    lessons: [
+        { id: 'lesson-1', courseId: 'course-1', order: 0, title: 'Numbers', videoUrl: 'https://example.com/numbers.mp4' },
+        { id: 'lesson-2', courseId: 'course-1', order: 1, title: 'Fractions' },
+    ],
+    videos: [{ id: 'lesson-1', blob: video(1_000), savedAt: 1_700_000_000_000, lastPlayedAt: 1_700_000_500_000 }],
+    syncQueue: [queuedSave],
+});
+
+const v10Snapshot = () => ({
+    courses: [{ id: 'course-1', title: 'Maths', authorId: 'teacher-1', forClass: 6 }],
+    lessons: [{ id: 'lesson-1', courseId: 'course-1', order: 0, title: 'Numbers', videoPath: 'course-1/lesson-1/1700000000000' }],
+    videos: [{ id: 'lesson-1', blob: video(2_000), path: 'course-1/lesson-1/1700000000000' }],
+    downloads: [{ lessonId: 'lesson-1', url: 'course-1/lesson-1/1700000000000', size: 2_000, downloadedAt: 1_700_000_000_000 }],
+    syncQueue: [queuedSave],
+});
+
+const v15Snapshot = () => ({
+    ...v10Snapshot(),
+    coursePackages: [{
+        courseId: 'course-1', requestedAt: 1_700_000_000_000, manifest: [], status: 'ready',
+        updatedAt: 1_700_000_000_000, requestedBy: ['student-1'],
+    }],
+    offlineCredentials: [{
+        userId: 'student-1', username: 'asha', salt: '00ff', iterations: 210_000, verifier: 'ab12',
+        verifiedOnlineAt: 1_700_000_000_000,
+    }],
+    deviceRoster: [{
+        userId: 'student-1', username: 'asha', class: 6, avatar: '🦁', failedPinAttempts: 0,
+        addedAt: 1_700_000_000_000, lastUsedAt: 1_700_000_000_000,
+    }],
+    downloadOwners: [{ userId: 'student-1', lessonId: 'lesson-1' }],
+});
+
+const opened: Dexie[] = [];
+const track = <T extends Dexie>(database: T) => {
+    opened.push(database);
+    return database;
+};
+
+afterEach(async () => {
+    for (const database of opened.splice(0)) {
+        database.close();
+        await Dexie.delete(database.name);
+    }
+    vi.restoreAllMocks();
+});
+
+describe('migrateFixture', () => {
+    it('upgrades a v9 device', async () => {
+        const migrated = track(await migrateFixture('fixture-v9', 9, v9Snapshot()));
+
+        expect(migrated.verno).toBe(LATEST_DB_VERSION);
+        expect(await migrated.downloads.toArray()).toEqual([{
+            lessonId: 'lesson-1',
+            url: 'https://example.com/numbers.mp4',
+            size: 1_000,
+            downloadedAt: 1_700_000_000_000,
+            lastPlayedAt: 1_700_000_500_000,
+        }]);
+        const [copy] = await migrated.videos.toArray();
+        expect(copy).not.toHaveProperty('savedAt');
+        expect(copy).not.toHaveProperty('lastPlayedAt');
+        expect(copy.blob.size).toBe(1_000);
+        expect(await migrated.lessons.where('[courseId+order]').equals(['course-1', 1]).first()).toMatchObject({ id: 'lesson-2' });
+        expect(await migrated.syncQueue.toArray()).toMatchObject([queuedSave]);
+    });
+
+    it('upgrades a v10 device', async () => {
+        const migrated = track(await migrateFixture('fixture-v10', 10, v10Snapshot()));
+
+        expect(migrated.verno).toBe(LATEST_DB_VERSION);
+        expect(await migrated.downloads.toArray()).toEqual(v10Snapshot().downloads);
+        expect(await migrated.videos.get('lesson-1')).toMatchObject({ path: 'course-1/lesson-1/1700000000000' });
+        expect(await migrated.deviceRoster.count()).toBe(0);
+        expect(await migrated.syncQueue.toArray()).toMatchObject([queuedSave]);
+    });
+
+    it('opens a v15 device as it is', async () => {
+        const migrated = track(await migrateFixture('fixture-v15', 15, v15Snapshot()));
+
+        expect(migrated.verno).toBe(LATEST_DB_VERSION);
+        expect(await migrated.coursePackages.toArray()).toEqual(v15Snapshot().coursePackages);
+        expect(await migrated.offlineCredentials.toArray()).toEqual(v15Snapshot().offlineCredentials);
+        expect(await migrated.deviceRoster.toArray()).toEqual(v15Snapshot().deviceRoster);
+        expect(await migrated.downloadOwners.where('lessonId').equals('lesson-1').count()).toBe(1);
+    });
+
+    it('rejects with the error of a step that throws, leaving the old version', async () => {
+        // A v9 video copy without its blob makes the v10 step read `size` of undefined.
+        const broken = { ...v9Snapshot(), videos: [{ id: 'lesson-1' }] };
+
+        await expect(migrateFixture('fixture-broken', 9, broken)).rejects.toThrow(TypeError);
+
+        const old = track(new Dexie('fixture-broken'));
+        await old.open();
+        expect(old.verno).toBe(9);
+        expect(await old.table('syncQueue').count()).toBe(1);
+    });
+});
+
+describe('openLocalDatabase', () => {
+    afterEach(async () => {
+        db.close();
+        await Dexie.delete(DB_NAME);
+    });
+
+    it('rebuilds a database whose upgrade throws, keeping the unsynced work', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const old = createAppDatabase(DB_NAME, 9);
+        await old.open();
+        await old.syncQueue.add(queuedSave as any);
+        // An unsynced teacher upload, and a copy the v10 step can't read.
+        await old.table('videos').bulkAdd([{ id: 'lesson-2', blob: video(3_000), path: 'course-1/lesson-2/1' }, { id: 'lesson-1' }]);
+        await old.courses.add(v9Snapshot().courses[0] as any);
+        old.close();
+
+        await openLocalDatabase();
+
+        expect(db.verno).toBe(LATEST_DB_VERSION);
+        expect([...db.backendDB().objectStoreNames]).toEqual([...db.tables.map(t => t.name)].sort());
+        expect(await db.syncQueue.toArray()).toMatchObject([queuedSave]);
+        expect((await db.videos.get('lesson-2'))?.blob.size).toBe(3_000);
+        expect(await db.videos.get('lesson-1')).toBeUndefined();
+        expect(await db.downloads.toArray()).toMatchObject([{ lessonId: 'lesson-2', url: 'course-1/lesson-2/1', size: 3_000 }]);
+        // Downloaded again by the next sync.
+        expect(await db.courses.count()).toBe(0);
+    });
+
+    it('keeps the download records of the kept videos', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.spyOn(db, 'open').mockRejectedValueOnce(new Error('Upgrade step failed'));
+        const old = createAppDatabase(DB_NAME, 14);
+        await old.open();
+        const { videos, downloads, lessons } = v10Snapshot();
+        await old.videos.bulkAdd(videos as any);
+        await old.downloads.bulkAdd(downloads);
+        await old.lessons.bulkAdd(lessons as any);
+        old.close();
+
+        await openLocalDatabase();
+
+        expect(await db.downloads.toArray()).toEqual(downloads);
+        expect(await db.videos.get('lesson-1')).toMatchObject({ path: 'course-1/lesson-1/1700000000000' });
+        expect(await db.lessons.count()).toBe(0);
+    });
+
+    it('removes the download list of old versions only once the database has opened', async () => {
+        const storage = new Map([['vidyalehar_downloaded_lessons', '["lesson-1"]']]);
+        vi.stubGlobal('localStorage', { removeItem: (key: string) => storage.delete(key) });
+        const failure = new Error('Quota exceeded');
+        vi.spyOn(db, 'open').mockRejectedValueOnce(failure);
+        const current = createAppDatabase(DB_NAME);
+        await current.open();
+        current.close();
+
+        await expect(openLocalDatabase()).rejects.toBe(failure);
+        expect(storage.has('vidyalehar_downloaded_lessons')).toBe(true);
+
+        await openLocalDatabase();
+        expect(storage.has('vidyalehar_downloaded_lessons')).toBe(false);
+        vi.unstubAllGlobals();
+    });
+
+    it('rethrows failures of a database that is already up to date', async () => {
+        const failure = new Error('Quota exceeded');
+        vi.spyOn(db, 'open').mockRejectedValueOnce(failure);
+        const current = createAppDatabase(DB_NAME);
+        await current.open();
+        await current.courses.add(v9Snapshot().courses[0] as any);
+        current.close();
+
+        await expect(openLocalDatabase()).rejects.toBe(failure);
+
+        await db.open();
+        expect(await db.courses.count()).toBe(1);
+    });
+});
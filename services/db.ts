@@ -2,6 +2,7 @@ import Dexie, { type Table } from 'dexie';
 import type { Course, Lesson, StudentProgress } from '../types';
 // Fix: Removed direct import of `Profile` and instead import `Database` to derive it.
 import type { Database } from './supabaseClient';
+import { applyMigrations, downloadRecordsOfV9Videos, LATEST_DB_VERSION } from './dbMigrations';
 
 // Fix: Define Profile type locally from the central Database definition for consistency.
 type Profile = Database['public']['Tables']['profiles']['Row'];
@@ -9,30 +10,338 @@ type Profile = Database['public']['Tables']['profiles']['Row'];
 // Define a type for offline mutations
 export interface SyncQueueItem {
     id?: number;
-    type: 'UPDATE_PROGRESS' | 'SAVE_COURSE' | 'DELETE_COURSE' | 'SAVE_LESSON' | 'DELETE_LESSON';
+    type: 'UPDATE_PROGRESS' | 'SAVE_COURSE' | 'DELETE_COURSE' | 'SAVE_LESSON' | 'DELETE_LESSON' | 'UPLOAD_VIDEO' | 'REPORT_VIDEO_INTEGRITY';
     payload: any;
     timestamp: number;
+    // Set on the save that creates a course or lesson. Whether a record exists on the server
+    // can't be told from its version: saves queued before versions existed have none either.
+    isNew?: boolean;
+    attempts?: number; // Failed push attempts so far
+    nextAttemptAt?: number; // Backoff: not retried before this time
+    lastError?: string;
+}
+
+// A queued action that kept failing and was taken out of the queue so it stops
+// retrying. Teachers can inspect it and put it back or throw it away.
+export interface DeadLetterItem extends Omit<SyncQueueItem, 'id' | 'nextAttemptAt'> {
+    id?: number;
+    attempts: number;
+    lastError: string;
+    failedAt: number;
+}
+
+// One step of a sync as it happened on this device, kept for troubleshooting
+// (see services/syncJournal.ts).
+export interface SyncJournalEntry {
+    id?: number;
+    at: number; // When the step started
+    type: SyncQueueItem['type'] | 'SYNC_DOWN' | 'DOWNLOAD_VIDEO';
+    entityId: string; // e.g. `progress:<student id>`, or `full`/`delta` for a sync down
+    result: 'ok' | 'merged' | 'conflict' | 'skipped' | 'failed' | 'gave_up';
+    error?: string;
+    bytes: number; // Sent for pushes, received for downloads
+    detail?: string;
+}
+
+// A pushed course or lesson edit that was based on an outdated server version and
+// can't be merged automatically. Kept until a teacher picks which copy wins.
+export interface SyncConflict {
+    id?: number;
+    entityType: 'course' | 'lesson';
+    entityId: string;
+    localData: any; // The queued payload that was rejected
+    serverData: StoredCourse | Lesson | null; // null when another device deleted the record
+    detectedAt: number;
+}
+
+
+// Courses are stored without their lessons, which live flat in db.lessons. Reads that need
+// both put them together with the helpers in services/lessonStore.ts.
+export type StoredCourse = Omit<Course, 'lessons'>;
+export type StoredLesson = Lesson & { courseId: string; order: number };
+
+// A lesson's video kept on this device: a teacher's upload, or a download of the lesson's link.
+export interface OfflineVideo {
+    id: string; // Lesson id
+    blob: Blob;
+    path?: string; // The copy's object in shared storage, if it has one
+}
+
+// What is known about each copy in db.videos. Written and removed together with the copy
+// (see services/storageService.ts), so the two can't disagree.
+export interface DownloadRecord {
+    lessonId: string;
+    url: string; // Where the copy came from: the lesson's video URL, or its path in shared storage
+    size: number; // Bytes
+    hash?: string; // SHA-256 of the file, hex; missing for copies saved before hashes were kept
+    downloadedAt: number;
+    lastPlayedAt?: number; // Least recently watched copies are evicted first
+    verifiedAt?: number; // Last time the copy was found intact (see services/integrityService.ts)
+}
+
+// A lesson whose video copy on this device was found broken. Kept until an intact copy is
+// back, so the student's teacher can be told when it is.
+export interface BrokenVideo {
+    lessonId: string;
+    detectedAt: number;
+    detail: string;
+    // Whether a new copy is being fetched. Teachers' uploads that never reached shared
+    // storage can't be fetched again.
+    isRefetching: boolean;
+}
+
+// A video download that hasn't finished (see services/resumableDownloadService.ts). What
+// has arrived so far is in db.downloadChunks, from offset 0 up to `received`.
+export interface PartialDownload {
+    lessonId: string;
+    url: string;
+    // For a teacher's upload, `url` is its path in shared storage, read through signed URLs.
+    fromStorage?: boolean;
+    received: number; // Bytes
+    total: number | null; // Bytes, once the server has said
+    // 'downloading' also covers downloads cut off by the connection or a closed page, which
+    // continue by themselves; paused and failed ones wait to be resumed.
+    status: 'downloading' | 'paused' | 'failed';
+    error?: string;
+    startedAt: number;
+    updatedAt: number;
+}
+
+export interface DownloadChunk {
+    lessonId: string;
+    offset: number;
+    blob: Blob;
+}
+
+// One lesson of a course package: what keeping it offline takes.
+export interface PackageItem {
+    lessonId: string;
+    // 'upload' and 'link' videos are downloaded from `source` (a path in shared storage or the
+    // lesson's URL). 'online_only' videos (YouTube) can't be; 'none' means text only.
+    video: 'none' | 'upload' | 'link' | 'online_only';
+    source?: string;
+}
+
+// A course a student asked to keep offline as a whole (see services/coursePackageService.ts).
+export interface CoursePackage {
+    courseId: string;
+    requestedAt: number;
+    manifest: PackageItem[]; // As of the last update
+    status: 'downloading' | 'ready' | 'incomplete';
+    error?: string; // Why the last update didn't finish
+    updatedAt: number;
+    // Students who asked for it. Empty for packages kept before the device roster, which
+    // count as everyone's.
+    requestedBy: string[];
+}
+
+// A lesson video a student asked to keep. The copy itself is shared by everyone on the
+// device; this says whose it is when students are removed (see services/deviceRosterService.ts).
+export interface DownloadOwner {
+    userId: string;
+    lessonId: string;
+}
+
+// The last point up to which a table has been pulled from the server.
+export interface SyncCheckpoint {
+    table: string;
+    lastChangeAt?: string; // Server timestamp of the newest change applied locally
+    syncedAt: number; // When this device last pulled the table, by the local clock
+    scopeKey?: string; // Whose data was pulled (see services/syncScope.ts)
+}
+
+
+// A sync bundle this device exported or imported (see services/syncBundleService.ts).
+// Exported bundles keep their file contents so a lost USB copy can be written again.
+export interface SyncBundleRecord {
+    id: string;
+    direction: 'exported' | 'imported';
+    kind: 'changes' | 'content';
+    signerName: string;
+    createdAt: number;
+    handledAt: number;
+    file?: Blob; // Exports, to save the file again
+}
+
+// A signing key accepted for imports, identified by its fingerprint.
+export interface BundleSigner {
+    fingerprint: string;
+    userId: string;
+    username: string;
+    trustedAt: number;
+}
+
+
+// What lets a user who signed in on this device before sign in again without the network
+// (see services/offlineAuthService.ts). Holds a PBKDF2 hash of the password, not the password.
+export interface OfflineCredential {
+    userId: string;
+    username: string; // Lowercase
+    salt: string; // Hex
+    iterations: number;
+    verifier: string; // PBKDF2-SHA-256 of the password, hex
+    verifiedOnlineAt: number; // Last sign-in the server accepted
+    // The profile's password_reset_at then; a later reset means the password is an old one.
+    passwordResetAt?: string | null;
+}
+
+// A session this device issued for an offline sign-in, until the server's takes over.
+export interface LocalSession {
+    key: 'current';
+    userId: string;
+    issuedAt: number;
+}
+
+// A student who has used this device, for switching between students with a PIN
+// (see services/deviceRosterService.ts).
+export interface RosterEntry {
+    userId: string;
+    username: string;
+    class: number;
+    avatar: string; // An emoji the student picked
+    // PBKDF2 of the PIN, like OfflineCredential; missing until the student sets one.
+    pinSalt?: string;
+    pinIterations?: number;
+    pinVerifier?: string;
+    failedPinAttempts: number;
+    lockedUntil?: number; // Too many wrong PINs lock the entry until then
+    // The student's server session while someone else uses the device, as the backend
+    // handed it over. It isn't revoked, so switching back needs no network.
+    savedSession?: string;
+    addedAt: number;
+    lastUsedAt: number;
 }
 
 
 // Fix: Refactor to not use a Dexie subclass, which can cause TypeScript inheritance issues.
 // This new structure ensures 'version' and 'transaction' methods are correctly typed.
-export const db = new Dexie('vidyaleharLocalDB') as Dexie & {
-    courses: Table<Course>;
-    lessons: Table<Lesson & { courseId: string }>; // Store lessons flat with a courseId
+export type AppDatabase = Dexie & {
+    courses: Table<StoredCourse, string>;
+    lessons: Table<StoredLesson, string>;
     studentProgress: Table<StudentProgress, string>; // studentId is the primary key
     profiles: Table<Profile, string>; // id is primary key
     syncQueue: Table<SyncQueueItem>;
-    // For teacher-uploaded videos
-    videos: Table<{ id: string; blob: Blob }, string>; // Storing an object with id and blob
+    // Offline video copies, keyed by lesson id (see services/storageService.ts).
+    videos: Table<OfflineVideo, string>;
+    downloads: Table<DownloadRecord, string>;
+    partialDownloads: Table<PartialDownload, string>;
+    downloadChunks: Table<DownloadChunk, [string, number]>;
+    coursePackages: Table<CoursePackage, string>;
+    brokenVideos: Table<BrokenVideo, string>;
+    syncConflicts: Table<SyncConflict, number>;
+    syncCheckpoints: Table<SyncCheckpoint, string>;
+    deadLetters: Table<DeadLetterItem, number>;
+    // Supabase auth session, readable from the service worker (which has no localStorage)
+    authStorage: Table<{ key: string; value: string }, string>;
+    offlineCredentials: Table<OfflineCredential, string>;
+    localSession: Table<LocalSession, string>;
+    deviceRoster: Table<RosterEntry, string>;
+    downloadOwners: Table<DownloadOwner, [string, string]>;
+    // This device's key for signing sync bundles. The private key can't be extracted.
+    deviceKeys: Table<{ id: string; keyPair: CryptoKeyPair }, string>;
+    bundleSigners: Table<BundleSigner, string>;
+    syncBundles: Table<SyncBundleRecord, string>;
+    syncJournal: Table<SyncJournalEntry, number>;
 };
 
-db.version(2).stores({
-    courses: 'id, authorId, forClass',
-    lessons: 'id, courseId',
-    studentProgress: 'studentId', // primary key
-    profiles: 'id, class', // primary key
-    // Fix: Add 'type' to the index to allow querying by action type.
-    syncQueue: '++id, type, timestamp', // auto-incrementing id, index on type and timestamp
-    videos: 'id', // primary key is the 'id' property of the stored object
-});
+export const DB_NAME = 'vidyaleharLocalDB';
+
+// The schema comes from the migration registry. `upToVersion` opens an older schema, which
+// is only useful for writing fixtures (see migrateFixture).
+export const createAppDatabase = (name = DB_NAME, upToVersion?: number): AppDatabase => {
+    const database = new Dexie(name) as AppDatabase;
+    applyMigrations(database, upToVersion);
+    return database;
+};
+
+export const db = createAppDatabase();
+
+// For checking a migration: stores `fixture` (rows per table) the way a device still on
+// `fromVersion` would hold them, then opens the database at the latest version, which runs
+// every upgrade in between. The caller inspects and closes the returned database.
+export const migrateFixture = async (
+    name: string,
+    fromVersion: number,
+    fixture: Record<string, unknown[]>
+): Promise<AppDatabase> => {
+    const old = createAppDatabase(name, fromVersion);
+    await old.open();
+    await old.transaction('rw', Object.keys(fixture), async () => {
+        for (const [table, rows] of Object.entries(fixture)) {
+            await old.table(table).bulkAdd(rows);
+        }
+    });
+    old.close();
+
+    const migrated = createAppDatabase(name);
+    await migrated.open();
+    return migrated;
+};
+
+// Work that exists only on this device. Everything else is downloaded again by a full sync.
+// Videos include teacher uploads that haven't reached the server yet, and keep their
+// download records; the credentials and roster are what lets the device's students sign
+// in without a connection.
+const IRREPLACEABLE_TABLES = [
+    'syncQueue', 'deadLetters', 'authStorage', 'deviceKeys', 'bundleSigners',
+    'videos', 'downloads', 'offlineCredentials', 'deviceRoster',
+];
+
+// Where offline downloads were listed before version 10 replaced the list with records.
+const LEGACY_DOWNLOADS_KEY = 'vidyalehar_downloaded_lessons';
+
+// Opens the local database, running any pending migrations. If an upgrade step fails,
+// Dexie rolls back to the old version and rejects with whatever the step threw, so the
+// database can't be opened at all. Rather than leave the app unusable, the unsynced work
+// is taken out of the old database as it is, the database is recreated at the latest
+// version and that work is put back; the next sync then downloads everything else (and
+// marks the lessons whose video copies were kept, see applyLessonRows in syncService).
+export const openLocalDatabase = async (): Promise<void> => {
+    try {
+        await db.open();
+    } catch (error) {
+        await rebuildLocalDatabase(error);
+    }
+    // Only now that the upgrade that replaced it is sure to have been kept.
+    globalThis.localStorage?.removeItem(LEGACY_DOWNLOADS_KEY);
+};
+
+const rebuildLocalDatabase = async (openError: unknown) => {
+    // Without declared versions Dexie opens whatever schema is there.
+    const old = new Dexie(DB_NAME);
+    await old.open();
+    // Failures that have nothing to do with an upgrade aren't fixed by rebuilding.
+    if (old.verno >= LATEST_DB_VERSION) {
+        old.close();
+        throw openError;
+    }
+    console.error('Local database upgrade failed; rebuilding it and keeping unsynced work.', openError);
+    const salvaged: Record<string, unknown[]> = {};
+    for (const table of old.tables.filter(t => IRREPLACEABLE_TABLES.includes(t.name))) {
+        salvaged[table.name] = await table.toArray();
+    }
+    if (salvaged.videos) {
+        // A copy that lost its file is of no use to anyone.
+        salvaged.videos = salvaged.videos.filter((video: any) => !!video.blob);
+        // Copies from before download records get theirs, as the version 10 upgrade does.
+        if (!salvaged.downloads) {
+            const lessons = await old.table('lessons').bulkGet(salvaged.videos.map((video: any) => video.id));
+            salvaged.downloads = downloadRecordsOfV9Videos(salvaged.videos, lessons);
+            salvaged.videos = salvaged.videos.map(({ savedAt, lastPlayedAt, ...video }: any) => video);
+        }
+    }
+    old.close();
+
+    db.close();
+    // Dexie keeps the schema of the version whose upgrade failed; declaring the latest version
+    // again (with nothing new) restores the full one, so the new database gets every table.
+    db.version(LATEST_DB_VERSION).stores({});
+    await Dexie.delete(DB_NAME);
+    await db.open();
+    if (Object.keys(salvaged).length === 0) return;
+    await db.transaction('rw', Object.keys(salvaged), async () => {
+        for (const [table, rows] of Object.entries(salvaged)) {
+            await db.table(table).bulkPut(rows);
+        }
+    });
+};
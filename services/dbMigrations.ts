@@ -0,0 +1,161 @@
+import type Dexie from 'dexie';
+import type { Transaction } from 'dexie';
+
+// Every schema version of the local database, oldest first. Dexie needs the whole history
+// declared: a device that was last opened several versions ago is taken through each step
+// in turn, within one transaction, when the app opens the database.
+//
+// To change the shape of stored records, append a migration with the next version number
+// and an `upgrade` that rewrites the records in place. Never edit or remove a migration
+// that has shipped; devices that already ran it won't run it again. Migrations are
+// checked against fixture data with migrateFixture in services/db.ts; add a snapshot of
+// the version before yours to services/db.test.ts.
+
+export interface DbMigration {
+    version: number;
+    description: string;
+    // Tables added or changed in this version, in Dexie's schema syntax; null drops a table.
+    stores: { [table: string]: string | null };
+    // Runs in the upgrade transaction after the new stores exist. It may only use that
+    // transaction's tables (tx.table(...)); throwing rolls the whole upgrade back.
+    upgrade?: (tx: Transaction) => Promise<void>;
+}
+
+// Download records for video copies saved before version 10, which kept their dates on the
+// copy itself. Also used when a database that old is rebuilt (see openLocalDatabase).
+export const downloadRecordsOfV9Videos = (videos: any[], lessons: ({ videoUrl?: string } | undefined)[]) =>
+    videos.map((video, i) => ({
+        lessonId: video.id,
+        url: video.path ?? lessons[i]?.videoUrl ?? '',
+        size: video.blob.size,
+        downloadedAt: video.savedAt ?? Date.now(),
+        lastPlayedAt: video.lastPlayedAt,
+    }));
+
+export const MIGRATIONS: DbMigration[] = [
+    {
+        version: 2,
+        description: 'Courses with embedded lessons, progress, profiles, the sync queue and offline videos',
+        stores: {
+            courses: 'id, authorId, forClass',
+            lessons: 'id, courseId',
+            studentProgress: 'studentId',
+            profiles: 'id, class',
+            syncQueue: '++id, type, timestamp',
+            videos: 'id',
+        },
+    },
+    {
+        version: 3,
+        description: 'Sync conflicts awaiting a teacher',
+        stores: { syncConflicts: '++id, entityId, detectedAt' },
+    },
+    {
+        version: 4,
+        description: 'Delta sync checkpoints',
+        stores: { syncCheckpoints: 'table' },
+    },
+    {
+        version: 5,
+        description: 'Dead-lettered sync actions',
+        stores: { deadLetters: '++id, type, failedAt' },
+    },
+    {
+        version: 6,
+        description: 'Auth session storage shared with the service worker',
+        stores: { authStorage: 'key' },
+    },
+    {
+        version: 7,
+        description: 'Signed sync bundles',
+        stores: {
+            deviceKeys: 'id',
+            bundleSigners: 'fingerprint',
+            syncBundles: 'id, direction, handledAt',
+        },
+    },
+    {
+        version: 8,
+        description: 'Sync journal',
+        stores: { syncJournal: '++id, at' },
+    },
+    {
+        version: 9,
+        description: 'Lessons move out of their course into db.lessons, with an explicit order',
+        stores: { lessons: 'id, courseId, [courseId+order]' },
+        upgrade: async tx => {
+            const courses = await tx.table('courses').toArray();
+            const lessons = courses.flatMap(course =>
+                (course.lessons || []).map((lesson: any, order: number) => ({ ...lesson, courseId: course.id, order })));
+            await tx.table('lessons').bulkPut(lessons);
+            await tx.table('courses').toCollection().modify(course => { delete course.lessons; });
+            const orderById = new Map(lessons.map(lesson => [lesson.id, lesson.order]));
+            // Queued lesson saves carry the order to the server.
+            await tx.table('syncQueue').where('type').equals('SAVE_LESSON').modify(action => {
+                const order = orderById.get(action.payload.id);
+                if (order !== undefined) action.payload = { ...action.payload, order };
+            });
+        },
+    },
+    {
+        version: 10,
+        description: 'A download record for every offline video, replacing the list kept in localStorage',
+        stores: { downloads: 'lessonId, downloadedAt' },
+        // Hashes need crypto.subtle, which can't be awaited inside an upgrade transaction;
+        // these copies go without one.
+        // The list in localStorage is removed once this upgrade has committed (see openLocalDatabase).
+        upgrade: async tx => {
+            const videos = await tx.table('videos').toArray();
+            const lessons = await tx.table('lessons').bulkGet(videos.map(video => video.id));
+            await tx.table('downloads').bulkPut(downloadRecordsOfV9Videos(videos, lessons));
+            await tx.table('videos').toCollection().modify(video => {
+                delete video.savedAt;
+                delete video.lastPlayedAt;
+            });
+        },
+    },
+    {
+        version: 11,
+        description: 'Video downloads in progress, kept chunk by chunk so they can be resumed',
+        stores: { partialDownloads: 'lessonId, status', downloadChunks: '[lessonId+offset]' },
+    },
+    {
+        version: 12,
+        description: 'Courses kept offline as a whole',
+        stores: { coursePackages: 'courseId' },
+    },
+    {
+        version: 13,
+        description: 'Video copies found broken by integrity checks',
+        stores: { brokenVideos: 'lessonId' },
+    },
+    {
+        version: 14,
+        description: 'Password verifiers and a local session for signing in offline',
+        stores: { offlineCredentials: 'userId, username', localSession: 'key' },
+    },
+    {
+        version: 15,
+        description: 'Students who use the device, and which of them asked for each download',
+        stores: { deviceRoster: 'userId', downloadOwners: '[userId+lessonId], lessonId' },
+        upgrade: async tx => {
+            await tx.table('coursePackages').toCollection().modify(pkg => {
+                pkg.requestedBy = [];
+            });
+        },
+    },
+];
+
+export const LATEST_DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Declares the migrations up to `upToVersion` on a database that hasn't been opened yet.
+export const applyMigrations = (database: Dexie, upToVersion = LATEST_DB_VERSION) => {
+    MIGRATIONS.forEach((migration, index) => {
+        if (index > 0 && migration.version <= MIGRATIONS[index - 1].version) {
+            throw new Error(`Database migration ${migration.version} is out of order.`);
+        }
+        if (migration.version > upToVersion) return;
+        const version = database.version(migration.version).stores(migration.stores);
+        if (migration.upgrade) version.upgrade(migration.upgrade);
+    });
+};
@@ -0,0 +1,175 @@
+import Dexie from 'dexie';
+import { db, type RosterEntry } from './db';
+import { getSyncBackend } from './backend';
+import { isNetworkError, queuedActionOwner } from './syncService';
+import { createVerifier, matchesVerifier, startLocalSession, endLocalSession, getSignedInUserId, forgetCredential } from './offlineAuthService';
+import { packageVideoLessonIds, evictUnwantedVideos } from './coursePackageService';
+import type { User } from '../types';
+import { UserRole } from '../constants';
+
+// In many classrooms one tablet is passed between several students. Every student who signs
+// in on the device joins its roster, and after choosing a short PIN can come back to it by
+// tapping their picture instead of typing a password.
+// - Switching away keeps the student's server session on the device without revoking it
+//   (AuthBackend.suspendSession), so switching back works offline too. Without the network
+//   the PIN opens a local session (see offlineAuthService), handed over to the saved server
+//   session once the device is back online.
+// - Each student's own records stay theirs: their queued progress is pushed only while they
+//   are signed in (see processSyncQueue), and syncs by other students leave their progress
+//   on the device.
+// - A teacher can remove a student from the device, which also frees the videos only that
+//   student asked for.
+// A four-digit PIN only keeps classmates out of each other's accounts; it is no protection
+// against someone who can read the device's storage.
+
+export const PIN_LENGTH = 4;
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCK_MS = 5 * 60 * 1000;
+
+// Error codes, for messages in the switcher.
+export const PIN_INVALID = 'PIN_INVALID';
+export const PIN_LOCKED = 'PIN_LOCKED';
+export const PIN_NOT_SET = 'PIN_NOT_SET';
+
+const rosterError = (code: string, message: string) => Object.assign(new Error(message), { code });
+
+export const AVATARS = ['🦁', '🐯', '🐘', '🦜', '🐢', '🦋', '🐬', '🐼', '🌻', '⭐', '🚀', '⚽'];
+
+const defaultAvatar = (userId: string) =>
+    AVATARS[Array.from(userId).reduce((sum, char) => sum + char.charCodeAt(0), 0) % AVATARS.length];
+
+export const hasPin = (entry: RosterEntry) => !!entry.pinVerifier;
+
+export const getRoster = async (): Promise<RosterEntry[]> =>
+    (await db.deviceRoster.toArray()).sort((a, b) => a.username.localeCompare(b.username));
+
+export const getRosterEntry = (userId: string) => db.deviceRoster.get(userId);
+
+// Called on every student sign-in.
+export const addToRoster = async (user: User): Promise<void> => {
+    if (user.role !== UserRole.STUDENT) return;
+    const now = Date.now();
+    const existing = await db.deviceRoster.get(user.id);
+    if (existing) {
+        await db.deviceRoster.update(user.id, { username: user.username, class: user.class, lastUsedAt: now });
+    } else {
+        await db.deviceRoster.add({
+            userId: user.id,
+            username: user.username,
+            class: user.class,
+            avatar: defaultAvatar(user.id),
+            failedPinAttempts: 0,
+            addedAt: now,
+            lastUsedAt: now,
+        });
+    }
+};
+
+export const setPin = async (userId: string, pin: string, avatar?: string): Promise<void> => {
+    if (!new RegExp(`^\\d{${PIN_LENGTH}}$`).test(pin)) throw new Error(`A PIN is ${PIN_LENGTH} digits.`);
+    const { salt, iterations, verifier } = await createVerifier(pin);
+    await db.deviceRoster.update(userId, {
+        pinSalt: salt,
+        pinIterations: iterations,
+        pinVerifier: verifier,
+        failedPinAttempts: 0,
+        lockedUntil: undefined,
+        ...(avatar ? { avatar } : {}),
+    });
+};
+
+// Hands the device to the next student. A student on the roster stays signed in to the
+// server in the background; anyone else is signed out.
+export const switchAway = async (): Promise<void> => {
+    const { auth } = getSyncBackend();
+    const userId = await getSignedInUserId();
+    const entry = userId ? await db.deviceRoster.get(userId) : undefined;
+    if (entry) {
+        // Signed in offline, the student has no server session now; an earlier saved one stays.
+        const saved = await auth.suspendSession();
+        if (saved) await db.deviceRoster.update(entry.userId, { savedSession: saved, lastUsedAt: Date.now() });
+    } else {
+        await auth.signOut();
+    }
+    await endLocalSession();
+};
+
+// Checks the student's PIN and signs them in, with their saved server session when it can
+// be resumed, else with a local one. Throws PIN_NOT_SET, PIN_LOCKED or PIN_INVALID.
+export const switchToStudent = async (userId: string, pin: string): Promise<User> => {
+    const entry = await db.deviceRoster.get(userId);
+    if (!entry || !hasPin(entry)) throw rosterError(PIN_NOT_SET, 'This student has no PIN on this device.');
+    if (entry.lockedUntil && entry.lockedUntil > Date.now()) {
+        throw rosterError(PIN_LOCKED, 'Too many wrong PINs. Try again later.');
+    }
+    const stored = { salt: entry.pinSalt!, iterations: entry.pinIterations!, verifier: entry.pinVerifier! };
+    if (!(await matchesVerifier(pin, stored))) {
+        const attempts = entry.failedPinAttempts + 1;
+        const isLocked = attempts >= MAX_PIN_ATTEMPTS;
+        await db.deviceRoster.update(userId, {
+            failedPinAttempts: isLocked ? 0 : attempts,
+            lockedUntil: isLocked ? Date.now() + PIN_LOCK_MS : undefined,
+        });
+        throw isLocked
+            ? rosterError(PIN_LOCKED, 'Too many wrong PINs. Try again later.')
+            : rosterError(PIN_INVALID, 'Wrong PIN');
+    }
+
+    await switchAway();
+    let savedSession = entry.savedSession;
+    let isResumed = false;
+    if (savedSession) {
+        try {
+            isResumed = await getSyncBackend().auth.resumeSession(savedSession) === userId;
+            savedSession = undefined; // Now in use; saved again when the student switches away.
+        } catch (error) {
+            // Offline, the saved session waits for reconcileSession. Otherwise it is no good.
+            if (!isNetworkError(error)) {
+                console.warn(`The saved session of ${entry.username} was turned down:`, error);
+                savedSession = undefined;
+            }
+        }
+    }
+    if (!isResumed) await startLocalSession(userId);
+    await db.deviceRoster.update(userId, { savedSession, failedPinAttempts: 0, lockedUntil: undefined, lastUsedAt: Date.now() });
+    const mustChangePassword = (await db.profiles.get(userId))?.must_change_password || undefined;
+    return { id: entry.userId, username: entry.username, role: UserRole.STUDENT, class: entry.class, mustChangePassword };
+};
+
+// Queued changes of the student that haven't reached the server, which removing them loses.
+export const countUnsyncedActions = async (userId: string): Promise<number> =>
+    (await db.syncQueue.toArray()).filter(action => queuedActionOwner(action) === userId).length;
+
+// Drops the student's claim on the videos they asked for, and removes the ones nobody else
+// on the device wants.
+const releaseDownloads = async (userId: string): Promise<void> => {
+    const owned = db.downloadOwners.where('[userId+lessonId]').between([userId, Dexie.minKey], [userId, Dexie.maxKey]);
+    const candidates = new Set(await owned.toArray().then(rows => rows.map(row => row.lessonId)));
+    await owned.delete();
+
+    for (const pkg of await db.coursePackages.toArray()) {
+        if (!pkg.requestedBy.includes(userId)) continue;
+        if (pkg.requestedBy.length > 1) {
+            await db.coursePackages.update(pkg.courseId, { requestedBy: pkg.requestedBy.filter(id => id !== userId) });
+        } else {
+            await db.coursePackages.delete(pkg.courseId);
+            packageVideoLessonIds(pkg).forEach(id => candidates.add(id));
+        }
+    }
+    await evictUnwantedVideos([...candidates]);
+};
+
+// For teachers: takes the student off this device, with everything of theirs kept here.
+// Their synced work stays on the server, and they can sign in again with their password.
+export const removeFromDevice = async (userId: string): Promise<void> => {
+    const signedInId = await getSignedInUserId();
+    const signedIn = signedInId ? await db.profiles.get(signedInId) : undefined;
+    if (signedIn?.role !== UserRole.TEACHER) throw new Error('Only a teacher can remove students from this device.');
+
+    const queued = (await db.syncQueue.toArray()).filter(action => queuedActionOwner(action) === userId);
+    await db.syncQueue.bulkDelete(queued.map(action => action.id!));
+    await db.studentProgress.delete(userId);
+    await forgetCredential(userId);
+    await releaseDownloads(userId);
+    await db.deviceRoster.delete(userId);
+};
@@ -0,0 +1,117 @@
+import { db, type DownloadRecord, type StoredLesson } from './db';
+import { getSyncBackend } from './backend';
+import { getSignedInUserId } from './offlineAuthService';
+import { hashBlob, deleteVideoCopy, getUnuploadedLessonIds } from './storageService';
+import { downloadVideo } from './resumableDownloadService';
+import { downloadLessonVideo } from './videoSyncService';
+import { integrityReportFromRow } from './rowMappers';
+import type { VideoIntegrityReport } from '../types';
+import { UserRole } from '../constants';
+
+// Checks that the videos kept on this device are still the files they were saved as. Each
+// copy's download record holds its SHA-256; a teacher's upload is also checked against the
+// hash on its lesson, which catches a copy that was already wrong when it arrived. Copies
+// are checked when played (if not checked lately, or at once if the player can't read
+// them) and by a background pass after sign-in. A broken copy is deleted and fetched again,
+// and a student's device tells their teacher about it through the sync queue.
+
+// A copy checked more recently than this isn't hashed again when played.
+const RECHECK_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type VerifyResult = 'ok' | 'broken' | 'unchecked';
+
+// The hash a copy should have: its lesson's, when the copy is of the lesson's current upload.
+const expectedHash = (record: DownloadRecord, lesson?: StoredLesson) =>
+    lesson?.videoHash && lesson.videoPath === record.url ? lesson.videoHash : record.hash;
+
+// Students report on their copies; nobody needs to hear about a teacher's own.
+const queueReport = async (lessonId: string, status: VideoIntegrityReport['status'], detail?: string): Promise<void> => {
+    const userId = await getSignedInUserId();
+    const profile = userId ? await db.profiles.get(userId) : undefined;
+    if (!profile || profile.role !== UserRole.STUDENT) return;
+    const report: VideoIntegrityReport = { studentId: profile.id, lessonId, status, detail, reportedAt: Date.now() };
+    await db.syncQueue.add({ type: 'REPORT_VIDEO_INTEGRITY', payload: report, timestamp: report.reportedAt });
+};
+
+// Records the broken copy and fetches it again. A teacher's upload that hasn't reached
+// shared storage is the only copy there is, so it is kept as it is.
+const handleBrokenVideo = async (record: DownloadRecord, detail: string): Promise<void> => {
+    const { lessonId } = record;
+    const lesson = await db.lessons.get(lessonId);
+    const canRefetch = !!lesson && !(await getUnuploadedLessonIds()).has(lessonId);
+    console.warn(`The offline video of lesson ${lessonId} is broken (${detail}).${canRefetch ? ' Downloading it again.' : ''}`);
+    await db.brokenVideos.put({ lessonId, detectedAt: Date.now(), detail, isRefetching: canRefetch });
+    await queueReport(lessonId, 'broken', detail);
+    if (!canRefetch) return;
+
+    await deleteVideoCopy(lessonId);
+    if (lesson.videoPath) {
+        await db.lessons.update(lessonId, { hasOfflineVideo: false, videoEvicted: false });
+        downloadLessonVideo(lessonId, lesson.videoPath).catch(error => console.error(`Failed to download lesson ${lessonId} again:`, error));
+    } else if (lesson.videoUrl) {
+        downloadVideo(lessonId, lesson.videoUrl).catch(error => console.error(`Failed to download lesson ${lessonId} again:`, error));
+    }
+};
+
+// Hashes the lesson's copy and compares. A copy saved before hashes were kept can't be
+// checked; it is given its current hash, so later changes to it are caught.
+export const verifyVideo = async (lessonId: string): Promise<VerifyResult> => {
+    const video = await db.videos.get(lessonId);
+    const record = await db.downloads.get(lessonId);
+    if (!video || !record) return 'unchecked';
+
+    let actual: string | null = null;
+    let expected: string | undefined;
+    let problem: string | null = null;
+    if (video.blob.size !== record.size) {
+        problem = `${video.blob.size} bytes instead of ${record.size}`;
+    } else {
+        // Reading fails when the browser lost the file behind the stored blob.
+        actual = await hashBlob(video.blob).catch(() => null);
+        expected = expectedHash(record, await db.lessons.get(lessonId));
+        if (actual === null) problem = 'the file can no longer be read';
+        else if (expected && actual !== expected) problem = 'its content has changed';
+    }
+    if (problem) {
+        await handleBrokenVideo(record, problem);
+        return 'broken';
+    }
+
+    await db.downloads.update(lessonId, { hash: record.hash ?? actual!, verifiedAt: Date.now() });
+    if (await db.brokenVideos.get(lessonId)) {
+        await db.brokenVideos.delete(lessonId);
+        await queueReport(lessonId, 'repaired');
+    }
+    return expected ? 'ok' : 'unchecked';
+};
+
+const isDue = (record?: DownloadRecord) => !!record && (!record.verifiedAt || record.verifiedAt < Date.now() - RECHECK_AFTER_MS);
+
+// For playback: checks the copy unless it was checked lately.
+export const verifyVideoIfDue = async (lessonId: string): Promise<VerifyResult> =>
+    isDue(await db.downloads.get(lessonId)) ? verifyVideo(lessonId) : 'ok';
+
+let inFlightCheck: Promise<void> | null = null;
+
+// Checks every copy that is due, one at a time. Copies fetched again after being found
+// broken have never been checked, so they are among them.
+export const checkVideoIntegrity = (): Promise<void> => {
+    if (!inFlightCheck) {
+        inFlightCheck = (async () => {
+            const due = (await db.downloads.toArray()).filter(isDue);
+            for (const record of due) {
+                await verifyVideo(record.lessonId).catch(error => console.error(`Failed to check the video of lesson ${record.lessonId}:`, error));
+            }
+        })().finally(() => {
+            inFlightCheck = null;
+        });
+    }
+    return inFlightCheck;
+};
+
+// Lessons whose copy on this device is broken and not yet replaced.
+export const getBrokenVideos = () => db.brokenVideos.toArray();
+
+// For teachers: the reports of their class's students, newest first. Needs the network.
+export const getVideoIntegrityReports = async (): Promise<VideoIntegrityReport[]> =>
+    (await getSyncBackend().integrity.fetchVideoIntegrityReports()).map(integrityReportFromRow);
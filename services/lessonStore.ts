@@ -0,0 +1,38 @@
+import Dexie from 'dexie';
+import { db, type StoredCourse, type StoredLesson } from './db';
+import type { Course, Lesson } from '../types';
+
+// Lessons are stored flat in db.lessons, keyed by their course and placed by `order`.
+// These helpers read them back in order and put courses together for the app.
+
+export const getLessonsOfCourse = (courseId: string): Promise<StoredLesson[]> => {
+    return db.lessons.where('[courseId+order]').between([courseId, Dexie.minKey], [courseId, Dexie.maxKey]).toArray();
+};
+
+export const getLesson = (lessonId: string): Promise<StoredLesson | undefined> => {
+    return db.lessons.get(lessonId);
+};
+
+// Where a lesson added to the course now goes: after all the others.
+export const nextLessonOrder = async (courseId: string): Promise<number> => {
+    const last = await db.lessons.where('[courseId+order]').between([courseId, Dexie.minKey], [courseId, Dexie.maxKey]).last();
+    return last ? last.order + 1 : 0;
+};
+
+export const toStoredLesson = (lesson: Lesson, courseId: string, order: number): StoredLesson => ({ ...lesson, courseId, order });
+
+export const withLessons = async (courses: StoredCourse[]): Promise<Course[]> => {
+    const lessons = await db.lessons.where('courseId').anyOf(courses.map(c => c.id)).sortBy('order');
+    const lessonsByCourse = new Map<string, Lesson[]>(courses.map(c => [c.id, []]));
+    lessons.forEach(lesson => lessonsByCourse.get(lesson.courseId)?.push(lesson));
+    return courses.map(course => ({ ...course, lessons: lessonsByCourse.get(course.id)! }));
+};
+
+export const withLessonsOf = async (course: StoredCourse | undefined): Promise<Course | undefined> => {
+    return course && { ...course, lessons: await getLessonsOfCourse(course.id) };
+};
+
+// Removes the lessons of the given courses, e.g. when the courses themselves go.
+export const deleteLessonsOfCourses = async (courseIds: string[]): Promise<void> => {
+    await db.lessons.where('courseId').anyOf(courseIds).delete();
+};
@@ -0,0 +1,532 @@
+import Dexie, { type Table } from 'dexie';
+import {
+    KEY_COLUMNS, UNIQUE_VIOLATION, ACCOUNT_DEACTIVATED, fetchRange, httpError,
+    type BackendError, type SyncBackend, type SyncTable, type VersionedTable, type PushResult,
+    type ProfileRow, type TombstoneRow, type ContentChange, type IntegrityReportRow, type PasswordResetRow,
+} from './syncBackend';
+import type { Database } from './supabaseClient';
+import { scopeFromProfile, isCourseInScope, isProfileInScope, isProgressInScope } from './syncScope';
+
+// A stand-in server that keeps everything in its own IndexedDB database, separate from the
+// app's local cache in services/db.ts. It mimics what the Supabase schema does on the
+// server (versions, change stamps, tombstones, key clashes), so sync behaves the same way
+// without a network. Reads are limited to the user's scope like the server's row-level
+// security (services/syncScope.ts); writes only require a signed-in user. Course and lesson
+// changes are announced on a BroadcastChannel, standing in for the realtime feed, so other
+// tabs (and the service worker) see them as they happen.
+
+type Tables = Database['public']['Tables'];
+
+interface LocalUser {
+    id: string;
+    email: string;
+    username: string;
+    salt: string;
+    passwordHash: string;
+}
+
+// A resumable upload in progress. Finished uploads are kept, so their offset can still be read.
+interface LocalUpload {
+    id: string;
+    path: string;
+    size: number;
+    contentType: string;
+    chunks: Blob[];
+    offset: number;
+}
+
+type LocalServerDb = Dexie & {
+    users: Table<LocalUser, string>;
+    session: Table<{ key: 'current'; userId: string }, string>;
+    profiles: Table<ProfileRow, string>;
+    courses: Table<Tables['courses']['Row'], string>;
+    lessons: Table<Tables['lessons']['Row'], string>;
+    student_progress: Table<Tables['student_progress']['Row'], string>;
+    sync_tombstones: Table<TombstoneRow, number>;
+    files: Table<{ url: string; blob: Blob }, string>;
+    uploads: Table<LocalUpload, string>;
+    videos: Table<{ path: string; blob: Blob }, string>;
+    video_integrity_reports: Table<IntegrityReportRow, [string, string]>;
+    password_resets: Table<PasswordResetRow, number>;
+};
+
+const backendError = (message: string, code?: string): BackendError =>
+    Object.assign(new Error(message), { code });
+
+const toHex = (buffer: ArrayBuffer) =>
+    [...new Uint8Array(buffer)].map(b => b.toString(16).padStart(2, '0')).join('');
+
+const hashPassword = async (password: string, salt: string) =>
+    toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${password}`)));
+
+// Same as remove_lesson_from_course_progress on the server. Entries without a status for
+// the lesson are left as they are.
+const removeLessonFromCourseProgress = (entry: any, lessonId: string) => {
+    const lessonStatus = (entry.lessonStatus || []).filter((status: any) => status.lessonId !== lessonId);
+    if (lessonStatus.length === (entry.lessonStatus || []).length) return entry;
+    const scored = lessonStatus.filter((status: any) => status.finalScore > 0);
+    return {
+        ...entry,
+        lessonStatus,
+        completedLessons: scored.length,
+        score: scored.length > 0 ? scored.reduce((sum: number, status: any) => sum + status.finalScore, 0) / scored.length : 0,
+        totalLessons: Math.max(0, (entry.totalLessons || 0) - 1),
+    };
+};
+
+// Database name can be overridden so tests get a fresh server each.
+export const createLocalBackend = (name = 'vidyaleharLocalServer'): SyncBackend => {
+    const server = new Dexie(name) as LocalServerDb;
+    server.version(1).stores({
+        users: 'id, &email',
+        session: 'key',
+        profiles: 'id, updated_at',
+        courses: 'id, updated_at',
+        lessons: 'id, course_id, updated_at',
+        student_progress: 'student_id, updated_at',
+        sync_tombstones: '++id, deleted_at',
+        files: 'url',
+    });
+    server.version(2).stores({
+        uploads: 'id',
+        videos: 'path',
+    });
+    server.version(3).stores({
+        video_integrity_reports: '[student_id+lesson_id]',
+    });
+    server.version(4).stores({
+        password_resets: '++id, student_id',
+    });
+
+    // Change stamps must be strictly increasing, or a delta sync could skip rows written
+    // in the same millisecond as its checkpoint.
+    let lastStamp = 0;
+    const nextStamp = () => {
+        lastStamp = Math.max(Date.now(), lastStamp + 1);
+        return new Date(lastStamp).toISOString();
+    };
+
+    // Stands in for a signed URL to a stored video; it doesn't expire.
+    const VIDEO_URL_PREFIX = 'local-video:';
+    const storedFile = async (url: string): Promise<{ blob: Blob } | undefined> => {
+        if (!url.startsWith(VIDEO_URL_PREFIX)) return server.files.get(url);
+        const video = await server.videos.get(url.slice(VIDEO_URL_PREFIX.length));
+        if (!video) throw backendError('Object not found.', '404');
+        return video;
+    };
+
+    const changeFeedName = `${name}-content-changes`;
+    const changeFeed = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(changeFeedName);
+
+    // Announced in order, once the transaction that made the changes has committed.
+    const unannounced = new WeakMap<object, ContentChange[]>();
+    const announce = (change: ContentChange) => {
+        const transaction = Dexie.currentTransaction!;
+        const changes = unannounced.get(transaction);
+        if (changes) {
+            changes.push(change);
+            return;
+        }
+        unannounced.set(transaction, [change]);
+        transaction.on('complete', () => unannounced.get(transaction)!.forEach(c => changeFeed?.postMessage(c)));
+    };
+    const isContentTable = (table: string): table is 'courses' | 'lessons' => table === 'courses' || table === 'lessons';
+
+    const pushVersionedRow = (table: VersionedTable, row: Record<string, any>, baseVersion?: number): Promise<PushResult<any>> => {
+        const rows = server.table(table);
+        return server.transaction('rw', rows, server.sync_tombstones, async () => {
+            const existing = await rows.get(row[KEY_COLUMNS[table]]);
+            const canWrite = baseVersion === undefined ? !existing : existing?.version === baseVersion;
+            if (!canWrite) return { status: 'conflict', serverRow: existing ?? null };
+
+            // Like the scope-change trigger: devices that can no longer see the course drop it.
+            // Stamped before the row, so devices that still see it get the row back after it.
+            if (table === 'courses' && existing && existing.for_class !== row.for_class) {
+                await server.sync_tombstones.add({ table_name: table, record_id: existing.id, deleted_at: nextStamp() } as TombstoneRow);
+                announce({ type: 'delete', table, id: existing.id });
+            }
+            const version = existing ? existing.version + 1 : 1;
+            const written = { ...existing, ...row, version, updated_at: nextStamp() };
+            await rows.put(written);
+            if (isContentTable(table)) announce({ type: 'upsert', table, row: written } as ContentChange);
+            return { status: 'ok', version };
+        });
+    };
+
+    const deleteRows = async (table: VersionedTable, keys: string[]) => {
+        await server.table(table).bulkDelete(keys);
+        await server.sync_tombstones.bulkAdd(keys.map(key => ({ table_name: table, record_id: key, deleted_at: nextStamp() }) as TombstoneRow));
+        if (isContentTable(table)) keys.forEach(id => announce({ type: 'delete', table, id }));
+    };
+
+    // Like delete_course and delete_lesson in 005_delete_cascades.sql: rewrites course_progress
+    // wherever `edit` changes it, bumping the row's version.
+    const rewriteCourseProgress = async (edit: (entries: any[]) => any[]) => {
+        for (const row of await server.student_progress.toArray()) {
+            const entries = (row.course_progress as any[] | null) || [];
+            const edited = edit(entries);
+            if (JSON.stringify(edited) === JSON.stringify(entries)) continue;
+            await server.student_progress.put({ ...row, course_progress: edited, version: row.version + 1, updated_at: nextStamp() });
+        }
+    };
+
+    const requireSession = async () => {
+        const session = await server.session.get('current');
+        if (!session) throw backendError('Not signed in.', '42501');
+        return session.userId;
+    };
+
+    // The signed-in user's profile while it is active, like current_profile_role() on the
+    // server: a teacher waiting for approval has no teacher's rights yet.
+    const activeProfile = async () => {
+        const profile = await server.profiles.get(await requireSession());
+        return profile && scopeFromProfile(profile).role ? profile : undefined;
+    };
+
+    // Supabase Auth turns down banned users before checking anything else.
+    const requireNotDeactivated = async (userId: string) => {
+        if ((await server.profiles.get(userId))?.status === 'deactivated') {
+            throw backendError('User is banned', ACCOUNT_DEACTIVATED);
+        }
+    };
+
+    // Drops the rows the signed-in user isn't allowed to read.
+    const visibleRows = async (table: SyncTable, rows: any[]): Promise<any[]> => {
+        const profile = await server.profiles.get(await requireSession());
+        if (table === 'sync_tombstones') return rows;
+        if (!profile) return [];
+        const scope = scopeFromProfile(profile);
+
+        switch (table) {
+            case 'profiles':
+                return rows.filter(row => isProfileInScope(scope, row));
+            case 'courses':
+                return rows.filter(row => isCourseInScope(scope, { forClass: row.for_class, authorId: row.author_id }));
+            case 'lessons': {
+                const courses = await server.courses.bulkGet(rows.map(row => row.course_id));
+                return rows.filter((_, i) => {
+                    const course = courses[i];
+                    return !!course && isCourseInScope(scope, { forClass: course.for_class, authorId: course.author_id });
+                });
+            }
+            case 'student_progress': {
+                const students = await server.profiles.bulkGet(rows.map(row => row.student_id));
+                return rows.filter((row, i) => isProgressInScope(scope, row.student_id, students[i]?.class));
+            }
+        }
+    };
+
+    return {
+        name: 'local',
+
+        auth: {
+            signUp: async (email, password, username) => {
+                if (await server.users.where({ email }).count() > 0) throw new Error('User already registered');
+                const salt = crypto.randomUUID();
+                const user: LocalUser = { id: crypto.randomUUID(), email, username, salt, passwordHash: await hashPassword(password, salt) };
+                await server.users.add(user);
+                await server.session.put({ key: 'current', userId: user.id });
+                return user.id;
+            },
+            signIn: async (email, password) => {
+                const user = await server.users.get({ email });
+                if (!user || user.passwordHash !== await hashPassword(password, user.salt)) {
+                    throw new Error('Invalid login credentials');
+                }
+                await requireNotDeactivated(user.id);
+                await server.session.put({ key: 'current', userId: user.id });
+                return user.id;
+            },
+            signOut: async () => {
+                await server.session.delete('current');
+            },
+            getSessionUserId: async () => (await server.session.get('current'))?.userId ?? null,
+            suspendSession: async () => {
+                const session = await server.session.get('current');
+                if (!session) return null;
+                await server.session.delete('current');
+                return JSON.stringify({ userId: session.userId });
+            },
+            resumeSession: async (saved) => {
+                const { userId } = JSON.parse(saved);
+                if (!(await server.users.get(userId))) throw new Error('Invalid session');
+                await requireNotDeactivated(userId);
+                await server.session.put({ key: 'current', userId });
+                return userId;
+            },
+            getProfile: async (userId) => (await server.profiles.get(userId)) ?? null,
+            createProfile: async (profile) => {
+                // Like the insert policy in 012_school_admin.sql.
+                const userId = await requireSession();
+                const row: ProfileRow = { full_name: null, roll_number: null, must_change_password: false, password_reset_at: null, status: 'active', ...profile, updated_at: nextStamp() };
+                const isAllowed = row.id === userId
+                    && ((row.role === 'Student' && row.status === 'active') || (row.role === 'Teacher' && row.status === 'pending'));
+                if (!isAllowed) throw backendError('new row violates row-level security policy for table "profiles"', '42501');
+                try {
+                    await server.profiles.add(row);
+                } catch (error: any) {
+                    if (error?.name === 'ConstraintError') throw backendError('duplicate key value violates unique constraint', UNIQUE_VIOLATION);
+                    throw error;
+                }
+                return row;
+            },
+            changePassword: async (newPassword) => {
+                const userId = await requireSession();
+                const salt = crypto.randomUUID();
+                await server.users.update(userId, { salt, passwordHash: await hashPassword(newPassword, salt) });
+                await server.profiles.update(userId, { must_change_password: false, updated_at: nextStamp() });
+                return (await server.profiles.get(userId))!;
+            },
+        },
+
+        content: {
+            pushCourse: async (row, baseVersion) => {
+                await requireSession();
+                return pushVersionedRow('courses', row, baseVersion);
+            },
+            pushLesson: async (row, baseVersion) => {
+                await requireSession();
+                return pushVersionedRow('lessons', row, baseVersion);
+            },
+            deleteCourse: async (courseId) => {
+                await requireSession();
+                await server.transaction('rw', [server.courses, server.lessons, server.student_progress, server.sync_tombstones], async () => {
+                    if (!await server.courses.get(courseId)) return;
+                    await deleteRows('lessons', await server.lessons.where({ course_id: courseId }).primaryKeys());
+                    await deleteRows('courses', [courseId]);
+                    await rewriteCourseProgress(entries => entries.filter(entry => entry.courseId !== courseId));
+                });
+            },
+            deleteLesson: async (lessonId) => {
+                await requireSession();
+                await server.transaction('rw', [server.lessons, server.student_progress, server.sync_tombstones], async () => {
+                    const lesson = await server.lessons.get(lessonId);
+                    if (!lesson) return;
+                    await deleteRows('lessons', [lessonId]);
+                    await rewriteCourseProgress(entries => entries.map(entry =>
+                        entry.courseId === lesson.course_id ? removeLessonFromCourseProgress(entry, lessonId) : entry
+                    ));
+                });
+            },
+        },
+
+        progress: {
+            pushProgress: async (row, baseVersion) => {
+                await requireSession();
+                return pushVersionedRow('student_progress', row, baseVersion);
+            },
+        },
+
+        changes: {
+            fetchChangedRows: async <T extends SyncTable>(table: T, since?: string) => {
+                await requireSession();
+                const stampColumn = table === 'sync_tombstones' ? 'deleted_at' : 'updated_at';
+                const keyColumn = table === 'sync_tombstones' ? 'id' : KEY_COLUMNS[table as Exclude<SyncTable, 'sync_tombstones'>];
+                const collection = since
+                    ? server.table(table).where(stampColumn).above(since)
+                    : server.table(table).toCollection();
+                const rows = await visibleRows(table, await collection.toArray());
+                // Same order as the Supabase adapter: by change stamp, then by key.
+                const compareKeys = (a: string | number, b: string | number) =>
+                    typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b));
+                return rows.sort((a, b) =>
+                    a[stampColumn].localeCompare(b[stampColumn]) || compareKeys(a[keyColumn], b[keyColumn])
+                ) as Tables[T]['Row'][];
+            },
+            fetchLatestTombstone: async () => {
+                await requireSession();
+                return (await server.sync_tombstones.orderBy('deleted_at').last()) ?? null;
+            },
+            fetchLessonsOfCourses: async (courseIds) =>
+                visibleRows('lessons', await server.lessons.where('course_id').anyOf(courseIds).toArray()),
+            fetchProgressOfStudents: async (studentIds) =>
+                visibleRows('student_progress', await server.student_progress.bulkGet(studentIds).then(rows => rows.filter(Boolean))),
+            fetchContentRow: async (table, id) => {
+                const row = await server.table(table).get(id);
+                return row ? (await visibleRows(table, [row]))[0] ?? null : null;
+            },
+        },
+
+        realtime: {
+            subscribeToContent: (onChange) => {
+                if (typeof BroadcastChannel === 'undefined') return () => {};
+                const feed = new BroadcastChannel(changeFeedName);
+                // Serialised so the visibility checks can't reorder changes.
+                let delivered = Promise.resolve();
+                feed.onmessage = ({ data: change }: MessageEvent<ContentChange>) => {
+                    delivered = delivered.then(async () => {
+                        if (change.type === 'upsert' && (await visibleRows(change.table, [change.row])).length === 0) return;
+                        onChange(change);
+                    }).catch(error => console.warn('Dropped a content change:', error));
+                };
+                return () => feed.close();
+            },
+        },
+
+        storage: {
+            download: async (url) => {
+                const file = await storedFile(url);
+                if (file) return file.blob;
+                // Content that links to the web (e.g. a YouTube URL) still needs the network.
+                const response = await fetch(url);
+                if (!response.ok) throw httpError(response);
+                return response.blob();
+            },
+            getDownloadSize: async (url) => {
+                const file = await storedFile(url);
+                if (file) return file.blob.size;
+                const response = await fetch(url, { method: 'HEAD' });
+                const length = response.ok ? Number(response.headers.get('content-length')) : NaN;
+                return Number.isNaN(length) || length === 0 ? null : length;
+            },
+            downloadRange: async (url, start, end, signal) => {
+                const file = await storedFile(url);
+                if (file) return { chunk: file.blob.slice(start, end, file.blob.type), total: file.blob.size };
+                return fetchRange(url, start, end, signal);
+            },
+            startVideoUpload: async (path, size, contentType) => {
+                await requireSession();
+                const id = crypto.randomUUID();
+                await server.uploads.add({ id, path, size, contentType, chunks: [], offset: 0 });
+                return id;
+            },
+            getUploadOffset: async (uploadId) => {
+                await requireSession();
+                return (await server.uploads.get(uploadId))?.offset ?? null;
+            },
+            uploadVideoChunk: async (uploadId, offset, chunk) => {
+                await requireSession();
+                return server.transaction('rw', server.uploads, server.videos, async () => {
+                    const upload = await server.uploads.get(uploadId);
+                    if (!upload) throw backendError('Upload not found.', '404');
+                    // Like a TUS server: a chunk must continue exactly where the upload stands.
+                    if (offset !== upload.offset) throw backendError('Upload offset mismatch.', '409');
+                    const chunks = [...upload.chunks, chunk];
+                    const newOffset = offset + chunk.size;
+                    await server.uploads.put({ ...upload, chunks, offset: newOffset });
+                    if (newOffset >= upload.size) {
+                        await server.videos.put({ path: upload.path, blob: new Blob(chunks, { type: upload.contentType }) });
+                    }
+                    return newOffset;
+                });
+            },
+            getVideoUrl: async (path) => {
+                await requireSession();
+                if (!await server.videos.get(path)) throw backendError('Object not found.', '404');
+                return `${VIDEO_URL_PREFIX}${path}`;
+            },
+            deleteVideos: async (folder, keep) => {
+                await requireSession();
+                await server.videos.where('path').startsWith(`${folder}/`).filter(video => video.path !== keep).delete();
+            },
+        },
+
+        integrity: {
+            reportVideoIntegrity: async (row) => {
+                // Like the row-level security policy: students report only on their own copies.
+                if (row.student_id !== await requireSession()) throw backendError('Permission denied.', '42501');
+                await server.video_integrity_reports.put({ ...row, detail: row.detail ?? null, reported_at: row.reported_at ?? nextStamp() });
+            },
+            fetchVideoIntegrityReports: async () => {
+                const profile = await server.profiles.get(await requireSession());
+                if (!profile) return [];
+                const scope = scopeFromProfile(profile);
+                const rows = await server.video_integrity_reports.toArray();
+                const students = await server.profiles.bulkGet(rows.map(row => row.student_id));
+                return rows
+                    .filter((row, i) => isProgressInScope(scope, row.student_id, students[i]?.class))
+                    .sort((a, b) => b.reported_at.localeCompare(a.reported_at));
+            },
+        },
+
+        accounts: {
+            // Checks what create_student_account in 010_student_accounts.sql checks.
+            createStudentAccount: async (account) => {
+                const teacher = await activeProfile();
+                if (teacher?.role !== 'Teacher') throw backendError('Only teachers can create student accounts', '42501');
+                if (account.class !== teacher.class) throw backendError('Teachers can only create accounts for their own class', '42501');
+                if (!/^[a-z0-9]+$/.test(account.username)) throw backendError('Usernames are lowercase letters and digits', '22023');
+                if (account.password.length < 6) throw backendError('Password must be at least 6 characters long', '22023');
+
+                const email = `${account.username}@vidyalehar.local`;
+                const salt = crypto.randomUUID();
+                const user: LocalUser = { id: crypto.randomUUID(), email, username: account.username, salt, passwordHash: await hashPassword(account.password, salt) };
+                const row: ProfileRow = {
+                    id: user.id,
+                    username: account.username,
+                    role: 'Student',
+                    class: account.class,
+                    full_name: account.fullName,
+                    roll_number: account.rollNumber || null,
+                    must_change_password: false,
+                    password_reset_at: null,
+                    status: 'active',
+                    updated_at: nextStamp(),
+                };
+                try {
+                    await server.transaction('rw', server.users, server.profiles, async () => {
+                        await server.users.add(user);
+                        await server.profiles.add(row);
+                    });
+                } catch (error: any) {
+                    if (error?.name === 'ConstraintError') throw backendError('duplicate key value violates unique constraint', UNIQUE_VIOLATION);
+                    throw error;
+                }
+                return row;
+            },
+            // Checks what reset_student_password in 011_password_resets.sql checks. Sessions
+            // saved on devices aren't tracked here, so only the password changes.
+            resetStudentPassword: async (studentId, newPassword) => {
+                const teacher = await activeProfile();
+                const student = await server.profiles.get(studentId);
+                if (teacher?.role !== 'Teacher' || student?.role !== 'Student' || student.class !== teacher.class) {
+                    throw backendError("Only the teachers of a student's class can reset their password", '42501');
+                }
+                if (newPassword.length < 6) throw backendError('Password must be at least 6 characters long', '22023');
+                const salt = crypto.randomUUID();
+                const passwordHash = await hashPassword(newPassword, salt);
+                const stamp = nextStamp();
+                await server.transaction('rw', [server.users, server.profiles, server.password_resets], async () => {
+                    await server.users.update(studentId, { salt, passwordHash });
+                    await server.profiles.update(studentId, { must_change_password: true, password_reset_at: stamp, updated_at: stamp });
+                    await server.password_resets.add({ student_id: studentId, reset_by: teacher.id, reset_at: stamp } as PasswordResetRow);
+                });
+            },
+            fetchPasswordResets: async () => {
+                const profile = await activeProfile();
+                if (profile?.role !== 'Teacher') return [];
+                const rows = await server.password_resets.toArray();
+                const students = await server.profiles.bulkGet(rows.map(row => row.student_id));
+                return rows
+                    .filter((_, i) => students[i]?.class === profile.class)
+                    .sort((a, b) => b.reset_at.localeCompare(a.reset_at));
+            },
+            // Check what set_account_status and assign_teacher_class in 012_school_admin.sql
+            // check. Sessions saved on devices aren't tracked here; signing in and resuming
+            // one check the status instead.
+            setAccountStatus: async (userId, status) => {
+                const admin = await activeProfile();
+                if (admin?.role !== 'Admin') throw backendError('Only an administrator can change accounts', '42501');
+                if (userId === admin.id) throw backendError("Administrators can't change their own account", '42501');
+                if (!(await server.profiles.get(userId))) throw backendError('No such account', 'P0002');
+                await server.profiles.update(userId, { status, updated_at: nextStamp() });
+                return (await server.profiles.get(userId))!;
+            },
+            assignTeacherClass: async (userId, classNumber) => {
+                const admin = await activeProfile();
+                if (admin?.role !== 'Admin') throw backendError('Only an administrator can assign classes', '42501');
+                if (!(classNumber >= 1 && classNumber <= 12)) throw backendError('Classes run from 1 to 12', '22023');
+                return server.transaction('rw', server.profiles, server.sync_tombstones, async () => {
+                    const teacher = await server.profiles.get(userId);
+                    if (teacher?.role !== 'Teacher') throw backendError('No such teacher', 'P0002');
+                    // Like the scope-change trigger: devices of the old class drop the teacher.
+                    if (teacher.class !== classNumber) {
+                        await server.sync_tombstones.add({ table_name: 'profiles', record_id: userId, deleted_at: nextStamp() } as TombstoneRow);
+                    }
+                    await server.profiles.update(userId, { class: classNumber, updated_at: nextStamp() });
+                    return (await server.profiles.get(userId))!;
+                });
+            },
+        },
+    };
+};
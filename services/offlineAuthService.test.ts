@@ -0,0 +1,131 @@
+import 'fake-indexeddb/auto';
+import Dexie from 'dexie';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getSyncBackend, setSyncBackend } from './backend';
+import { createLocalBackend } from './localBackend';
+import { login, register } from './authService';
+import {
+    OFFLINE_CREDENTIAL_MAX_AGE_MS, OFFLINE_LOGIN_INVALID, OFFLINE_LOGIN_UNAVAILABLE,
+    getSignedInUserId, isSignedInOffline, reconcileSession, signInOffline,
+} from './offlineAuthService';
+import { syncDown } from './syncService';
+import { DB_NAME, db } from './db';
+import { UserRole } from '../constants';
+
+// The Supabase client needs a WebSocket, which Node 20 doesn't have; these tests don't use it.
+vi.mock('./supabaseBackend', () => ({ supabaseBackend: {} }));
+
+let serverName: string;
+let serverCount = 0;
+
+beforeEach(async () => {
+    await db.open();
+    serverName = `test-server-${++serverCount}`;
+    setSyncBackend(createLocalBackend(serverName));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+    db.close();
+    await Dexie.delete(DB_NAME);
+    await Dexie.delete(serverName);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+// Their teacher, signed in and approved, resets the password on the server as from another device.
+const resetElsewhere = async (studentId: string, password: string) => {
+    const teacher = await register('teacher', 'secret1', UserRole.TEACHER, 6);
+    const server = new Dexie(serverName);
+    await server.open();
+    await server.table('profiles').update(teacher.id, { status: 'active' });
+    server.close();
+    await getSyncBackend().accounts.resetStudentPassword(studentId, password);
+};
+
+// A student who signed up on this device, which then lost the server's session.
+const signedUpEarlier = async () => {
+    const student = await register('asha', 'secret1', UserRole.STUDENT, 6);
+    await getSyncBackend().auth.signOut();
+    return student;
+};
+
+describe('signInOffline', () => {
+    it('checks the password against the verifier of the last online sign-in', async () => {
+        const student = await signedUpEarlier();
+
+        await expect(signInOffline('Asha', 'wrong-password')).rejects.toMatchObject({ code: OFFLINE_LOGIN_INVALID });
+        expect(await signInOffline('Asha', 'secret1')).toBe(student.id);
+        expect(await getSignedInUserId()).toBe(student.id);
+        expect(await isSignedInOffline()).toBe(true);
+    });
+
+    it('needs the network for users who never signed in here, or not lately', async () => {
+        await signedUpEarlier();
+        await expect(signInOffline('ravi', 'secret1')).rejects.toMatchObject({ code: OFFLINE_LOGIN_UNAVAILABLE });
+
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(Date.now() + OFFLINE_CREDENTIAL_MAX_AGE_MS + 1);
+        await expect(signInOffline('asha', 'secret1')).rejects.toMatchObject({ code: OFFLINE_LOGIN_UNAVAILABLE });
+    });
+});
+
+describe('reconcileSession', () => {
+    it("hands an offline sign-in over to the server's session once it can be reached", async () => {
+        const student = await signedUpEarlier();
+        const backend = getSyncBackend();
+        setSyncBackend({ ...backend, auth: { ...backend.auth, signIn: vi.fn().mockRejectedValue(new TypeError('Failed to fetch')) } });
+        await signInOffline('asha', 'secret1');
+
+        expect(await reconcileSession()).toBe('offline');
+        expect(await isSignedInOffline()).toBe(true);
+
+        setSyncBackend(backend);
+        expect(await reconcileSession()).toBe('reconciled');
+        expect(await backend.auth.getSessionUserId()).toBe(student.id);
+        expect(await isSignedInOffline()).toBe(false);
+    });
+
+    it('ends an offline sign-in the server turns down', async () => {
+        const student = await signedUpEarlier();
+        await signInOffline('asha', 'secret1');
+        // The password was changed elsewhere.
+        await getSyncBackend().auth.signIn('asha@vidyalehar.local', 'secret1');
+        await getSyncBackend().auth.changePassword('secret2');
+        await getSyncBackend().auth.signOut();
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        expect(await reconcileSession()).toBe('sign_in_again');
+        expect(await getSignedInUserId()).toBeNull();
+        expect(await db.offlineCredentials.get(student.id)).toBeUndefined();
+    });
+});
+
+describe('password resets', () => {
+    it('stop the old password working offline once the reset syncs down', async () => {
+        const student = await register('asha', 'secret1', UserRole.STUDENT, 6);
+        await db.deviceRoster.update(student.id, { savedSession: 'saved-session' });
+
+        await resetElsewhere(student.id, 'temporary1');
+        await syncDown();
+
+        await expect(signInOffline('asha', 'secret1')).rejects.toMatchObject({ code: OFFLINE_LOGIN_UNAVAILABLE });
+        expect((await db.deviceRoster.get(student.id))?.savedSession).toBeUndefined();
+    });
+
+    it('refuse a verifier kept before the reset the device knows of', async () => {
+        const student = await register('asha', 'secret1', UserRole.STUDENT, 6);
+        await db.profiles.update(student.id, { password_reset_at: '2030-01-01T00:00:00.000Z' });
+
+        await expect(signInOffline('asha', 'secret1')).rejects.toMatchObject({ code: OFFLINE_LOGIN_UNAVAILABLE });
+    });
+
+    it('keep the new password working offline', async () => {
+        const student = await register('asha', 'secret1', UserRole.STUDENT, 6);
+        await resetElsewhere(student.id, 'temporary1');
+        await login('asha', 'temporary1');
+        await syncDown();
+
+        expect(await signInOffline('asha', 'temporary1')).toBe(student.id);
+    });
+});
@@ -0,0 +1,197 @@
+import { db, type OfflineCredential } from './db';
+import { getSyncBackend } from './backend';
+import { isNetworkError } from './syncService';
+
+// Signing in again on a device without the network. Every sign-in that reaches the server
+// leaves a verifier on the device: a salted PBKDF2 hash of the password, never the password
+// itself. Without the network the password is checked against it, and the device issues its
+// own session in db.localSession. That session can't push or pull; once the device is back
+// online, reconcileSession signs in to the server with the same password and hands over to
+// the server's session, so the work done offline syncs as usual.
+//
+// A teacher resetting the password (see passwordResetService) makes the verifiers kept before
+// it useless: the time of the reset syncs down with the profile, and every device drops them.
+
+// Kept low enough for the cheap phones many students share to check in about a second.
+const PBKDF2_ITERATIONS = 150_000;
+
+// A verifier not refreshed by an online sign-in within this long stops working, so an
+// account removed or changed on the server can't be used offline forever.
+export const OFFLINE_CREDENTIAL_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Error codes, for messages in the sign-in form.
+export const OFFLINE_LOGIN_UNAVAILABLE = 'OFFLINE_LOGIN_UNAVAILABLE';
+export const OFFLINE_LOGIN_INVALID = 'OFFLINE_LOGIN_INVALID';
+
+const offlineLoginError = (code: string, message: string) => Object.assign(new Error(message), { code });
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+    Array.from(new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array(hex.match(/../g)!.map(pair => parseInt(pair, 16)));
+
+const deriveVerifier = async (password: string, salt: string, iterations: number): Promise<string> => {
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: fromHex(salt), iterations }, key, 256);
+    return toHex(bits);
+};
+
+// Compares every character, so how long it takes says nothing about where they differ.
+const isSameVerifier = (a: string, b: string) => {
+    let difference = a.length ^ b.length;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    return difference === 0;
+};
+
+export interface Verifier {
+    salt: string;
+    iterations: number;
+    verifier: string;
+}
+
+// A verifier for a password or PIN, with a new salt.
+export const createVerifier = async (secret: string): Promise<Verifier> => {
+    const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+    return { salt, iterations: PBKDF2_ITERATIONS, verifier: await deriveVerifier(secret, salt, PBKDF2_ITERATIONS) };
+};
+
+export const matchesVerifier = async (secret: string, stored: Verifier): Promise<boolean> =>
+    isSameVerifier(await deriveVerifier(secret, stored.salt, stored.iterations), stored.verifier);
+
+// Usernames are matched the way the server matches their email addresses.
+const normalizeUsername = (username: string) => username.toLowerCase();
+
+// The password of an offline sign-in, held in memory only until the server has checked it.
+// A page reloaded in the meantime loses it, and the user is asked to sign in again.
+let pendingPassword: { userId: string; password: string } | null = null;
+
+// After a sign-in the server accepted: keeps a fresh verifier with a new salt. Callers store
+// the profile the server sent first, so it holds the latest reset of the password.
+export const rememberCredential = async (userId: string, username: string, password: string): Promise<void> => {
+    const credential: OfflineCredential = {
+        userId,
+        username: normalizeUsername(username),
+        ...(await createVerifier(password)),
+        verifiedOnlineAt: Date.now(),
+        passwordResetAt: (await db.profiles.get(userId))?.password_reset_at ?? null,
+    };
+    await db.offlineCredentials.put(credential);
+};
+
+export const forgetCredential = (userId: string) => db.offlineCredentials.delete(userId);
+
+// Once the device learns the password was reset at passwordResetAt: the verifier of an older
+// password and the session the student saved here (which the server ended) stop working.
+export const forgetSignInsBefore = async (userId: string, passwordResetAt: string): Promise<void> => {
+    const credential = await db.offlineCredentials.get(userId);
+    if (credential && credential.passwordResetAt !== passwordResetAt) await forgetCredential(userId);
+    await db.deviceRoster.update(userId, { savedSession: undefined });
+};
+
+// Whether the password was reset after the credential was kept, e.g. on another device.
+const predatesPasswordReset = async (credential: OfflineCredential) => {
+    const passwordResetAt = (await db.profiles.get(credential.userId))?.password_reset_at;
+    return !!passwordResetAt && passwordResetAt !== credential.passwordResetAt;
+};
+
+// Checks the password against this device's verifier and issues a local session. Throws
+// OFFLINE_LOGIN_UNAVAILABLE when the user never signed in here (or not lately, or not since
+// their password was reset), and OFFLINE_LOGIN_INVALID for a wrong password.
+export const signInOffline = async (username: string, password: string): Promise<string> => {
+    const credentials = await db.offlineCredentials.where('username').equals(normalizeUsername(username)).toArray();
+    const credential = credentials.sort((a, b) => b.verifiedOnlineAt - a.verifiedOnlineAt)[0];
+    if (!credential || credential.verifiedOnlineAt < Date.now() - OFFLINE_CREDENTIAL_MAX_AGE_MS || await predatesPasswordReset(credential)) {
+        throw offlineLoginError(OFFLINE_LOGIN_UNAVAILABLE, 'This account has not signed in on this device recently, so it needs the internet to sign in.');
+    }
+    if (!(await matchesVerifier(password, credential))) {
+        throw offlineLoginError(OFFLINE_LOGIN_INVALID, 'Invalid login credentials');
+    }
+
+    await startLocalSession(credential.userId);
+    pendingPassword = { userId: credential.userId, password };
+    return credential.userId;
+};
+
+// For a user this device has already identified, e.g. by their PIN (see deviceRosterService).
+export const startLocalSession = async (userId: string): Promise<void> => {
+    pendingPassword = null;
+    await db.localSession.put({ key: 'current', userId, issuedAt: Date.now() });
+};
+
+export const endLocalSession = async (): Promise<void> => {
+    pendingPassword = null;
+    await db.localSession.delete('current');
+};
+
+// The signed-in user: the server's session if there is one, else this device's.
+export const getSignedInUserId = async (): Promise<string | null> =>
+    (await getSyncBackend().auth.getSessionUserId()) ?? (await db.localSession.get('current'))?.userId ?? null;
+
+export const isSignedInOffline = async (): Promise<boolean> =>
+    !(await getSyncBackend().auth.getSessionUserId()) && !!(await db.localSession.get('current'));
+
+// How handing an offline sign-in over to the server went:
+// - 'none': nobody is signed in offline; 'reconciled': the server's session took over;
+// - 'offline': the server can't be reached yet, so the local session stays;
+// - 'sign_in_again': neither the password (kept in memory) nor a session the student saved
+//   when handing the device on (see deviceRosterService) is there to sign in with, or the
+//   server turned it down, e.g. as it was changed elsewhere. The local session has ended.
+export type ReconcileResult = 'none' | 'reconciled' | 'offline' | 'sign_in_again';
+
+// Called after signing in and once the device is back online, before syncing.
+export const reconcileSession = async (): Promise<ReconcileResult> => {
+    const session = await db.localSession.get('current');
+    if (!session) return 'none';
+    const { auth } = getSyncBackend();
+    if (await auth.getSessionUserId() === session.userId) {
+        await endLocalSession();
+        return 'reconciled';
+    }
+
+    const savedSession = (await db.deviceRoster.get(session.userId))?.savedSession;
+    if (savedSession && pendingPassword?.userId !== session.userId) {
+        try {
+            const userId = await auth.resumeSession(savedSession);
+            if (userId !== session.userId) throw new Error('The server resumed a different account.');
+        } catch (error) {
+            if (isNetworkError(error)) return 'offline';
+            console.warn('The server turned down a saved session:', error);
+            await db.deviceRoster.update(session.userId, { savedSession: undefined });
+            await auth.signOut();
+            await endLocalSession();
+            return 'sign_in_again';
+        }
+        await db.deviceRoster.update(session.userId, { savedSession: undefined });
+        await endLocalSession();
+        return 'reconciled';
+    }
+
+    const credential = await db.offlineCredentials.get(session.userId);
+    if (!credential || pendingPassword?.userId !== session.userId) {
+        // Ends the session only once the server is reachable, so whoever is using the device
+        // offline can carry on until the work they did can actually be synced.
+        try {
+            await auth.getProfile(session.userId);
+        } catch (error) {
+            if (isNetworkError(error)) return 'offline';
+        }
+        await endLocalSession();
+        return 'sign_in_again';
+    }
+    const { password } = pendingPassword;
+    try {
+        // The same address authService signs in with.
+        const userId = await auth.signIn(`${credential.username}@vidyalehar.local`, password);
+        if (userId !== session.userId) throw new Error('The server signed in a different account.');
+    } catch (error) {
+        if (isNetworkError(error)) return 'offline';
+        console.warn('The server turned down an offline sign-in:', error);
+        await forgetCredential(session.userId);
+        await auth.signOut();
+        await endLocalSession();
+        return 'sign_in_again';
+    }
+    await endLocalSession();
+    await rememberCredential(session.userId, credential.username, password);
+    return 'reconciled';
+};
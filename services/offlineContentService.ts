@@ -1,11 +1,17 @@
 import type { Course, Lesson, StudentProgress, SearchResult } from '../types';
-import { db } from './db';
+import { db, type StoredCourse } from './db';
+import { getSyncBackend } from './backend';
+import { newVideoPath, downloadLessonVideo } from './videoSyncService';
+import { downloadVideo, type DownloadOutcome } from './resumableDownloadService';
+import { evictVideos, planVideoDownload, saveVideoCopy, hashBlob, deleteVideoCopy, isVideoDownloaded, type DownloadPlan } from './storageService';
+import { evictUnwantedVideos } from './coursePackageService';
+import { getLessonsOfCourse, getLesson, nextLessonOrder, toStoredLesson, withLessons, withLessonsOf, deleteLessonsOfCourses } from './lessonStore';
 // Fix: Removed incorrect import of video helper functions which are defined locally in this file.
 
 // --- IndexedDB Video Service Logic (now using Dexie) ---
 
-const saveVideo = async (lessonId: string, videoBlob: Blob): Promise<void> => {
-  await db.videos.put({ id: lessonId, blob: videoBlob });
+const saveVideo = async (lessonId: string, videoBlob: Blob, path: string, hash: string): Promise<void> => {
+  await saveVideoCopy({ id: lessonId, blob: videoBlob, path }, path, hash);
 };
 
 export const getVideo = async (lessonId: string): Promise<Blob | undefined> => {
@@ -14,42 +20,54 @@ export const getVideo = async (lessonId: string): Promise<Blob | undefined> => {
 };
 
 const deleteVideo = async (lessonId: string): Promise<void> => {
-  return await db.videos.delete(lessonId);
+  return await deleteVideoCopy(lessonId);
 };
 
 // --- Content Service Logic (reading from/writing to local DB) ---
 
 // --- Data Fetching Functions (from Dexie) ---
-export const getCourses = (): Promise<Course[]> => {
-  return db.courses.toArray();
+export const getCourses = async (): Promise<Course[]> => {
+  return withLessons(await db.courses.toArray());
 };
 
-export const getCoursesForClass = (classNumber: number): Promise<Course[]> => {
-  return db.courses.where({ forClass: classNumber }).toArray();
+export const getCourse = async (courseId: string): Promise<Course | undefined> => {
+  return withLessonsOf(await db.courses.get(courseId));
 };
 
-export const getCoursesByAuthor = (authorId: string): Promise<Course[]> => {
-  return db.courses.where({ authorId }).toArray();
+export const getCoursesForClass = async (classNumber: number): Promise<Course[]> => {
+  return withLessons(await db.courses.where({ forClass: classNumber }).toArray());
+};
+
+export const getCoursesByAuthor = async (authorId: string): Promise<Course[]> => {
+  return withLessons(await db.courses.where({ authorId }).toArray());
 };
 
 export const getStudentProgress = (): Promise<StudentProgress[]> => {
   return db.studentProgress.toArray();
 };
 
-// --- Download Management (Still uses localStorage for simplicity, but video is in IDB) ---
-const DOWNLOADED_LESSONS_KEY = 'vidyalehar_downloaded_lessons';
-export const getDownloadedLessons = (): string[] => {
-    const data = localStorage.getItem(DOWNLOADED_LESSONS_KEY);
-    return data ? JSON.parse(data) : [];
+// Helper to convert YouTube URL to an embeddable URL
+export const getYouTubeEmbedUrl = (url: string): string | null => {
+    if (!url) return null;
+    const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|\&v=)([^#\&\?]*).*/;
+    const match = url.match(regExp);
+    if (match && match[2].length === 11) {
+        return `https://www.youtube.com/embed/${match[2]}`;
+    }
+    return null;
 };
-export const isLessonDownloaded = (lessonId: string): boolean => {
-    return getDownloadedLessons().includes(lessonId);
+
+// --- Download Management (db.downloads has a record for every video kept on this device) ---
+export const getDownloadedLessons = async (lessonIds?: string[]): Promise<string[]> => {
+    const keys = lessonIds ? db.downloads.where('lessonId').anyOf(lessonIds) : db.downloads.toCollection();
+    return (await keys.primaryKeys()) as string[];
 };
+export const isLessonDownloaded = (lessonId: string): Promise<boolean> => isVideoDownloaded(lessonId);
 
 // --- Data Update Functions (writing to Dexie & queuing sync) ---
 
 export const saveCourse = async (courseData: Omit<Course, 'id' | 'lessons' | 'authorId'> & { id?: string }, authorId: string): Promise<Course> => {
-    let courseToSave: Course;
+    let courseToSave: StoredCourse;
     const isUpdate = !!courseData.id;
 
     if (isUpdate) {
@@ -60,15 +78,14 @@ export const saveCourse = async (courseData: Omit<Course, 'id' | 'lessons' | 'au
         courseToSave = {
             ...courseData,
             id: `course_${Date.now()}`,
-            lessons: [],
             authorId: authorId
         };
     }
     
     await db.courses.put(courseToSave);
-    await db.syncQueue.add({ type: 'SAVE_COURSE', payload: courseToSave, timestamp: Date.now() });
+    await db.syncQueue.add({ type: 'SAVE_COURSE', payload: courseToSave, timestamp: Date.now(), isNew: !isUpdate });
     
-    return courseToSave;
+    return { ...courseToSave, lessons: await getLessonsOfCourse(courseToSave.id) };
 };
 
 export const deleteCourse = async (courseId: string): Promise<void> => {
@@ -79,8 +96,11 @@ export const deleteCourse = async (courseId: string): Promise<void> => {
         // The processor will handle deleting the course, its lessons, and cleaning up student progress on the backend.
         await db.syncQueue.add({ type: 'DELETE_COURSE', payload: { id: courseId }, timestamp: Date.now() });
 
-        // Delete the course locally. Since lessons are embedded, they are removed too.
-        await db.courses.delete(courseId);
+        // Delete the course and its lessons locally.
+        await db.transaction('rw', db.courses, db.lessons, async () => {
+            await db.courses.delete(courseId);
+            await deleteLessonsOfCourses([courseId]);
+        });
 
         // We no longer need to manually clean up student progress here.
         // The next syncDown on any client (teacher or student) will fetch the corrected
@@ -98,10 +118,15 @@ export const saveLesson = async (
 
     const isUpdate = !!lessonData.id;
     const lessonId = lessonData.id || `lesson_${Date.now()}`;
-    const oldLesson = isUpdate ? course.lessons.find(l => l.id === lessonId) : undefined;
+    const oldLesson = isUpdate ? await getLesson(lessonId) : undefined;
 
+    // A new file goes to shared storage under a new path, so devices holding the old one notice.
+    let videoPath = videoFileAction === null || lessonData.videoUrl ? undefined : oldLesson?.videoPath;
+    let videoHash = videoPath ? oldLesson?.videoHash : undefined;
     if (videoFileAction instanceof File) {
-        await saveVideo(lessonId, videoFileAction);
+        videoPath = newVideoPath(courseId, lessonId);
+        videoHash = await hashBlob(videoFileAction);
+        await saveVideo(lessonId, videoFileAction, videoPath, videoHash);
     } else if (videoFileAction === null) {
         if (oldLesson?.hasOfflineVideo) await deleteVideo(lessonId);
     // FIX: Corrected typo 'oldLesso' to 'oldLesson'.
@@ -109,31 +134,40 @@ export const saveLesson = async (
         await deleteVideo(lessonId);
     }
 
+    // An edit keeps the lesson's place; a new lesson goes last.
+    const order = oldLesson?.order ?? await nextLessonOrder(courseId);
     const finalLessonData: Lesson = {
         ...lessonData,
         id: lessonId,
         quiz: lessonData.quiz || [],
+        videoPath,
+        videoHash,
+        // The upload is kept here, so the lesson plays offline and goes into content bundles.
+        hasOfflineVideo: videoFileAction instanceof File || (!!videoPath && !!oldLesson?.hasOfflineVideo),
+        order,
+        // Keep the server version the edit is based on so the push can detect concurrent edits.
+        version: oldLesson?.version,
     };
     
-    if (isUpdate) {
-        const lessonIndex = course.lessons.findIndex(l => l.id === lessonId);
-        if (lessonIndex > -1) course.lessons[lessonIndex] = finalLessonData;
-    } else {
-        course.lessons.push(finalLessonData);
+    if (!isUpdate || oldLesson) {
+        await db.lessons.put(toStoredLesson(finalLessonData, courseId, order));
+    }
+    // Queued first, so the lesson row isn't published while its video is still missing.
+    if (videoFileAction instanceof File) {
+        await db.syncQueue.add({ type: 'UPLOAD_VIDEO', payload: { lessonId, courseId, path: videoPath }, timestamp: Date.now() });
     }
-
-    await db.courses.put(course);
     // Queue lesson sync (flat structure for Supabase)
-    await db.syncQueue.add({ type: 'SAVE_LESSON', payload: { ...finalLessonData, course_id: courseId }, timestamp: Date.now() });
+    await db.syncQueue.add({ type: 'SAVE_LESSON', payload: { ...finalLessonData, course_id: courseId }, timestamp: Date.now(), isNew: !isUpdate });
     
     // --- Update totalLessons count for all students with progress in this course ---
     // This is especially important for newly added lessons.
     if (!isUpdate) { // Only run for new lessons to avoid unnecessary writes on edits
+        const lessonCount = await db.lessons.where({ courseId }).count();
         const allProgress = await db.studentProgress.toArray();
         for (const studentProgress of allProgress) {
             const courseProgress = studentProgress.courseProgress.find(cp => cp.courseId === courseId);
             if (courseProgress) {
-                courseProgress.totalLessons = course.lessons.length;
+                courseProgress.totalLessons = lessonCount;
                 await db.studentProgress.put(studentProgress);
                 await db.syncQueue.add({ type: 'UPDATE_PROGRESS', payload: studentProgress, timestamp: Date.now() });
             }
@@ -144,20 +178,15 @@ export const saveLesson = async (
 };
 
 export const deleteLesson = async (courseId: string, lessonId: string): Promise<void> => {
-    const course = await db.courses.get(courseId);
-    if (!course) return;
+    const lessonToDelete = await getLesson(lessonId);
+    if (lessonToDelete?.courseId !== courseId) return;
 
-    const lessonExists = course.lessons.some(l => l.id === lessonId);
-    if (!lessonExists) return;
-    
-    const lessonToDelete = course.lessons.find(l => l.id === lessonId);
-    if (lessonToDelete?.hasOfflineVideo) {
+    if (lessonToDelete.hasOfflineVideo) {
         await deleteVideo(lessonId).catch(err => console.error(`Failed to delete video for lesson ${lessonId}:`, err));
     }
     
-    // Update course object locally for immediate UI feedback
-    course.lessons = course.lessons.filter(l => l.id !== lessonId);
-    await db.courses.put(course);
+    // Remove the lesson locally for immediate UI feedback
+    await db.lessons.delete(lessonId);
 
     // Fix: Queue a single, authoritative DELETE_LESSON action. 
     // The sync service is now responsible for all server-side cleanup, including student progress.
@@ -165,31 +194,65 @@ export const deleteLesson = async (courseId: string, lessonId: string): Promise<
     await db.syncQueue.add({ type: 'DELETE_LESSON', payload: { id: lessonId, courseId: courseId }, timestamp: Date.now() });
 };
 
-export const downloadLesson = async (lesson: Lesson): Promise<void> => {
-    if (!lesson.videoUrl || isLessonDownloaded(lesson.id)) return;
+// Puts a course's lessons in the given order. Only lessons whose place changed are saved again.
+export const reorderLessons = async (courseId: string, lessonIds: string[]): Promise<void> => {
+    await db.transaction('rw', db.lessons, db.syncQueue, async () => {
+        const lessons = await getLessonsOfCourse(courseId);
+        // Lessons missing from `lessonIds` (e.g. added meanwhile on another device) go last.
+        const position = (lesson: Lesson) => {
+            const index = lessonIds.indexOf(lesson.id);
+            return index > -1 ? index : lessonIds.length + lesson.order;
+        };
+        const reordered = [...lessons].sort((a, b) => position(a) - position(b));
+        for (const [order, lesson] of reordered.entries()) {
+            if (lesson.order === order) continue;
+            await db.lessons.update(lesson.id, { order });
+            await db.syncQueue.add({ type: 'SAVE_LESSON', payload: { ...lesson, order, course_id: courseId }, timestamp: Date.now() });
+        }
+    });
+};
+
+// The size of the lesson's video, or null if the server doesn't say.
+const videoSizeOf = async (lesson: Lesson): Promise<number | null> => {
+    const storage = getSyncBackend().storage;
+    if (lesson.videoPath) return storage.getDownloadSize(await storage.getVideoUrl(lesson.videoPath, 60));
+    return lesson.videoUrl ? storage.getDownloadSize(lesson.videoUrl) : null;
+};
+
+// What downloading the lesson's video would evict, or null if its size isn't known up front.
+export const planLessonDownload = async (lesson: Lesson): Promise<DownloadPlan | null> => {
+    const size = await videoSizeOf(lesson).catch(() => null);
+    return size === null ? null : planVideoDownload(size, lesson.id);
+};
+
+// Keeps a lesson's video on this device: the file its URL links to, or a teacher's upload that
+// was left off for lack of space. Least recently watched videos make room if needed. Both
+// download resumably (see services/resumableDownloadService.ts), so this may end before the
+// video has arrived. `requestedBy` is the student who asked for it, if one did.
+export const downloadLesson = async (lesson: Lesson, requestedBy?: string): Promise<DownloadOutcome> => {
+    if (requestedBy) await db.downloadOwners.put({ userId: requestedBy, lessonId: lesson.id });
+    if (lesson.videoPath) return lesson.hasOfflineVideo ? 'done' : downloadLessonVideo(lesson.id, lesson.videoPath);
+    // A copy from a link the lesson no longer uses is replaced.
+    if (!lesson.videoUrl || (await db.downloads.get(lesson.id))?.url === lesson.videoUrl) return 'done';
 
     try {
-        const response = await fetch(lesson.videoUrl);
-        if (!response.ok) throw new Error(`Fetch failed: ${response.statusText}`);
-        const videoBlob = await response.blob();
-        await saveVideo(lesson.id, videoBlob);
-        
-        const downloaded = getDownloadedLessons();
-        downloaded.push(lesson.id);
-        localStorage.setItem(DOWNLOADED_LESSONS_KEY, JSON.stringify(downloaded));
+        return await downloadVideo(lesson.id, lesson.videoUrl);
     } catch (error) {
         console.error("Failed to download lesson:", error);
-        await deleteVideo(lesson.id).catch(e => console.error("Cleanup failed:", e));
         throw error;
     }
 };
 
-export const removeDownloadedLesson = async (lessonId: string): Promise<void> => {
+// Given a student, only drops their claim on the video; it stays while another student or a
+// course package still wants it.
+export const removeDownloadedLesson = async (lessonId: string, userId?: string): Promise<void> => {
     try {
-        await deleteVideo(lessonId);
-        let downloaded = getDownloadedLessons();
-        downloaded = downloaded.filter(id => id !== lessonId);
-        localStorage.setItem(DOWNLOADED_LESSONS_KEY, JSON.stringify(downloaded));
+        if (userId) {
+            await db.downloadOwners.delete([userId, lessonId]);
+            await evictUnwantedVideos([lessonId]);
+        } else {
+            await evictVideos([lessonId]);
+        }
     } catch (error) {
         console.error("Failed to remove downloaded lesson:", error);
         throw error;
@@ -203,13 +266,17 @@ export const updateQuizProgress = async (studentId: string, studentName: string,
     }
 
     let courseProgress = studentProgress.courseProgress.find(cp => cp.courseId === courseId);
-    const course = await db.courses.get(courseId);
-
     if (!courseProgress) {
-        courseProgress = { courseId, completedLessons: 0, totalLessons: course?.lessons.length || 0, score: 0, lessonStatus: [] };
+        const totalLessons = await db.lessons.where({ courseId }).count();
+        courseProgress = { courseId, completedLessons: 0, totalLessons, score: 0, lessonStatus: [] };
         studentProgress.courseProgress.push(courseProgress);
     }
 
+    // Track attempts the server hasn't seen, so a push that races another device can be merged.
+    const pendingAttempts = studentProgress.pendingAttempts || {};
+    pendingAttempts[lessonId] = (pendingAttempts[lessonId] || 0) + 1;
+    studentProgress.pendingAttempts = pendingAttempts;
+
     let lessonStatus = courseProgress.lessonStatus.find(ls => ls.lessonId === lessonId);
     if (!lessonStatus) {
         lessonStatus = { lessonId, attempts: 1, finalScore: score };
@@ -244,7 +311,7 @@ export const searchContent = async (query: string): Promise<SearchResult[]> => {
   if (!query || query.trim().length < 2) return [];
 
   const lowerCaseQuery = query.toLowerCase();
-  const courses = await db.courses.toArray();
+  const courses = await getCourses();
   const results: SearchResult[] = [];
 
   courses.forEach(course => {
@@ -0,0 +1,29 @@
+import { db } from './db';
+import { getSyncBackend } from './backend';
+import { forgetSignInsBefore } from './offlineAuthService';
+import { generatePassword } from './rosterImportService';
+import { passwordResetFromRow } from './rowMappers';
+import type { PasswordReset } from '../types';
+
+// Accounts have no real email address (see authService.register), so a student who forgot
+// their password asks their teacher, who gives them a temporary one. The student has to
+// pick a new password the next time they sign in (see ChangePasswordScreen). The server
+// logs every reset and ends the student's sessions (011_password_resets.sql). The time of the
+// reset syncs down with the profile, and every device then drops what it kept for signing
+// the student in with the old password (see offlineAuthService.forgetSignInsBefore).
+
+// For teachers: returns the temporary password, to hand to the student. Needs the network.
+export const resetStudentPassword = async (studentId: string): Promise<string> => {
+    const password = generatePassword();
+    await getSyncBackend().accounts.resetStudentPassword(studentId, password);
+    // This device needn't wait for the next sync. The server's time of the reset comes with
+    // it; until then, no verifier kept here matches this one.
+    const passwordResetAt = new Date().toISOString();
+    await db.profiles.update(studentId, { must_change_password: true, password_reset_at: passwordResetAt });
+    await forgetSignInsBefore(studentId, passwordResetAt);
+    return password;
+};
+
+// For teachers: the resets of their class's students, newest first. Needs the network.
+export const getPasswordResets = async (): Promise<PasswordReset[]> =>
+    (await getSyncBackend().accounts.fetchPasswordResets()).map(passwordResetFromRow);
@@ -0,0 +1,27 @@
+import { getSyncBackend } from './backend';
+import { applyContentChange } from './syncService';
+import { downloadLessonVideos } from './videoSyncService';
+import { updateCoursePackages } from './coursePackageService';
+
+// Keeps the local copy of courses and lessons current while the app is open, by applying
+// the server's change feed to IndexedDB as changes arrive. Screens read courses through
+// live queries, so they update without a reload. Anything missed while disconnected is
+// picked up by the sync that runs when the app comes back online.
+
+// Subscribes for the signed-in user. Returns a function that ends the subscription.
+export const startRealtimeSync = (): (() => void) => {
+    let applied = Promise.resolve();
+    return getSyncBackend().realtime.subscribeToContent(change => {
+        // One at a time, so changes land in the order the server made them.
+        applied = applied
+            .then(async () => {
+                await applyContentChange(change);
+                if (change.type === 'upsert' && change.table === 'lessons' && change.row.video_path) {
+                    downloadLessonVideos();
+                }
+                // Courses kept offline follow the change (see coursePackageService).
+                updateCoursePackages(change.type === 'upsert' && change.table === 'lessons' ? [change.row.course_id] : undefined);
+            })
+            .catch(error => console.error('Failed to apply a realtime change:', error));
+    });
+};
@@ -0,0 +1,175 @@
+import Dexie from 'dexie';
+import { db, type PartialDownload } from './db';
+import { getSyncBackend } from './backend';
+import { isNetworkError } from './syncService';
+import { makeRoomForVideo, downloadRecordFor, STORAGE_FULL } from './storageService';
+
+// Videos a student downloads from a lesson's link, and teachers' uploads fetched from shared
+// storage, arrive in range requests of DOWNLOAD_CHUNK_SIZE, each kept in db.downloadChunks
+// as it lands. A download cut off by a
+// dropped connection or a closed page carries on from the last chunk it kept:
+// - by itself, when the device is back online or the app starts (resumeVideoDownloads);
+// - when the student resumes it, after pausing it or after it failed.
+// Once every byte is in, the chunks become the lesson's offline copy in db.videos.
+
+// Small enough that a flaky connection loses little, large enough to keep requests few.
+export const DOWNLOAD_CHUNK_SIZE = 1024 * 1024;
+
+// How long a signed URL for an upload lasts. A download that takes longer asks for another.
+const SIGNED_URL_SECONDS = 60 * 60;
+
+// How a call to downloadVideo ended. 'offline' downloads continue once back online.
+export type DownloadOutcome = 'done' | 'paused' | 'offline';
+
+// Downloads running in this page, so a download never runs twice and pausing can cut off
+// the chunk in flight.
+const running = new Map<string, { promise: Promise<DownloadOutcome>; controller: AbortController }>();
+
+const chunksOf = (lessonId: string) =>
+    db.downloadChunks.where('[lessonId+offset]').between([lessonId, Dexie.minKey], [lessonId, Dexie.maxKey]);
+
+const discardPartialDownload = async (lessonId: string): Promise<void> => {
+    await db.transaction('rw', db.partialDownloads, db.downloadChunks, async () => {
+        await db.partialDownloads.delete(lessonId);
+        await chunksOf(lessonId).delete();
+    });
+};
+
+// Turns the chunks into the lesson's offline copy. Room for it was made when its size
+// became known; a file whose size the server never said gets it now.
+const finishDownload = async (partial: PartialDownload): Promise<void> => {
+    const chunks = await chunksOf(partial.lessonId).toArray();
+    const blob = new Blob(chunks.map(c => c.blob), { type: chunks[0]?.blob.type || 'video/mp4' });
+    if (partial.total === null) await makeRoomForVideo(blob.size, partial.lessonId);
+    // An upload's copy is current while its path matches the lesson's (see videoSyncService).
+    const video = partial.fromStorage ? { id: partial.lessonId, blob, path: partial.url } : { id: partial.lessonId, blob };
+    const record = await downloadRecordFor(video, partial.url);
+    await db.transaction('rw', [db.lessons, db.videos, db.downloads, db.partialDownloads, db.downloadChunks], async () => {
+        await db.partialDownloads.delete(partial.lessonId);
+        await chunksOf(partial.lessonId).delete();
+        if (partial.fromStorage) {
+            const lesson = await db.lessons.get(partial.lessonId);
+            if (lesson?.videoPath !== partial.url) return; // Replaced or removed while downloading.
+            await db.lessons.update(partial.lessonId, { hasOfflineVideo: true, videoEvicted: false });
+        }
+        await db.videos.put(video);
+        await db.downloads.put(record);
+    });
+};
+
+const fetchRemainingChunks = async (lessonId: string, signal: AbortSignal): Promise<DownloadOutcome> => {
+    const storage = getSyncBackend().storage;
+    let signed: { url: string; expiresAt: number } | undefined;
+    const sourceOf = async (partial: PartialDownload) => {
+        if (!partial.fromStorage) return partial.url;
+        // With a minute to spare, so a chunk never starts on a URL about to expire.
+        if (!signed || Date.now() > signed.expiresAt - 60 * 1000) {
+            const url = await storage.getVideoUrl(partial.url, SIGNED_URL_SECONDS);
+            signed = { url, expiresAt: Date.now() + SIGNED_URL_SECONDS * 1000 };
+        }
+        return signed.url;
+    };
+
+    while (true) {
+        const partial = await db.partialDownloads.get(lessonId);
+        if (!partial || partial.status !== 'downloading') return 'paused';
+        if (partial.total !== null && partial.received >= partial.total) {
+            await finishDownload(partial);
+            return 'done';
+        }
+
+        const { received } = partial;
+        let result;
+        try {
+            result = await storage.downloadRange(await sourceOf(partial), received, received + DOWNLOAD_CHUNK_SIZE, signal);
+        } catch (error: any) {
+            if (signal.aborted) return 'paused';
+            if (isNetworkError(error)) return 'offline';
+            throw error;
+        }
+
+        // The file changed on the server since the download started: start again.
+        if (partial.total !== null && result.total !== partial.total) {
+            await discardPartialDownload(lessonId);
+            await db.partialDownloads.put({ ...partial, received: 0, total: null, updatedAt: Date.now() });
+            continue;
+        }
+        if (partial.total === null && result.total !== null) await makeRoomForVideo(result.total, lessonId);
+
+        // A short chunk from a server that doesn't give the size means the file has ended.
+        const isShort = result.chunk.size < DOWNLOAD_CHUNK_SIZE;
+        const total = result.total ?? (isShort ? received + result.chunk.size : null);
+        await db.transaction('rw', db.partialDownloads, db.downloadChunks, async () => {
+            const current = await db.partialDownloads.get(lessonId);
+            if (current?.received !== received) return; // Cancelled or restarted meanwhile.
+            await db.downloadChunks.put({ lessonId, offset: received, blob: result.chunk });
+            await db.partialDownloads.update(lessonId, { received: received + result.chunk.size, total, updatedAt: Date.now() });
+        });
+    }
+};
+
+// Runs the download in this page, unless it already is.
+const runDownload = (lessonId: string): Promise<DownloadOutcome> => {
+    const existing = running.get(lessonId);
+    if (existing) return existing.promise;
+
+    const controller = new AbortController();
+    const promise = fetchRemainingChunks(lessonId, controller.signal)
+        .catch(async (error: any) => {
+            // A video that can't fit isn't worth keeping half of.
+            if (error?.code === STORAGE_FULL) {
+                await discardPartialDownload(lessonId);
+            } else {
+                await db.partialDownloads.update(lessonId, { status: 'failed', error: error?.message || String(error), updatedAt: Date.now() });
+            }
+            throw error;
+        })
+        .finally(() => running.delete(lessonId));
+    running.set(lessonId, { promise, controller });
+    return promise;
+};
+
+// Downloads the video at `url` as the lesson's offline copy, carrying on from any earlier
+// attempt at the same URL. With `fromStorage`, `url` is the path of a teacher's upload in
+// shared storage. Throws if the download failed other than by losing the connection.
+export const downloadVideo = async (lessonId: string, url: string, { fromStorage = false } = {}): Promise<DownloadOutcome> => {
+    const now = Date.now();
+    const partial = await db.partialDownloads.get(lessonId);
+    if (partial?.url === url) {
+        await db.partialDownloads.update(lessonId, { status: 'downloading', error: undefined, updatedAt: now });
+    } else {
+        // The lesson now links elsewhere; what came from the old link is no use.
+        if (partial) await discardPartialDownload(lessonId);
+        await db.partialDownloads.put({ lessonId, url, fromStorage, received: 0, total: null, status: 'downloading', startedAt: now, updatedAt: now });
+    }
+    return runDownload(lessonId);
+};
+
+// Stops the download after the chunks already kept, until it is resumed.
+export const pauseVideoDownload = async (lessonId: string): Promise<void> => {
+    await db.partialDownloads.update(lessonId, { status: 'paused', updatedAt: Date.now() });
+    running.get(lessonId)?.controller.abort();
+};
+
+export const resumeVideoDownload = async (lessonId: string): Promise<DownloadOutcome> => {
+    const partial = await db.partialDownloads.get(lessonId);
+    if (!partial) return 'done';
+    return downloadVideo(lessonId, partial.url, { fromStorage: partial.fromStorage });
+};
+
+export const cancelVideoDownload = async (lessonId: string): Promise<void> => {
+    running.get(lessonId)?.controller.abort();
+    await discardPartialDownload(lessonId);
+};
+
+// Continues downloads that were cut off, e.g. when the device comes back online. Paused and
+// failed ones stay as they are.
+export const resumeVideoDownloads = async (): Promise<void> => {
+    const interrupted = await db.partialDownloads.where('status').equals('downloading').primaryKeys();
+    for (const lessonId of interrupted) {
+        await runDownload(lessonId).catch(error => console.error(`Download of lesson ${lessonId} failed:`, error));
+    }
+};
+
+export const getPartialDownloads = (lessonIds: string[]): Promise<PartialDownload[]> =>
+    db.partialDownloads.where('lessonId').anyOf(lessonIds).toArray();
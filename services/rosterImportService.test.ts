@@ -0,0 +1,43 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ROSTER_EMPTY, ROSTER_MISSING_COLUMNS, parseRosterCsv } from './rosterImportService';
+
+// The Supabase client needs a WebSocket, which Node 20 doesn't have; these tests don't use it.
+vi.mock('./supabaseBackend', () => ({ supabaseBackend: {} }));
+
+describe('parseRosterCsv', () => {
+    it('reads the named columns in any order, numbering rows as the spreadsheet does', () => {
+        expect(parseRosterCsv('Roll No,Class,Student Name\n7,6,Asha Rani\n08,6th,Ravi  Kumar\n')).toEqual([
+            { rowNumber: 2, name: 'Asha Rani', class: '6', rollNumber: '7' },
+            { rowNumber: 3, name: 'Ravi Kumar', class: '6th', rollNumber: '08' },
+        ]);
+    });
+
+    it('reads Punjabi headers, semicolons and a byte order mark', () => {
+        expect(parseRosterCsv('\uFEFFਨਾਮ;ਜਮਾਤ\r\nਗੁਰਪ੍ਰੀਤ;7\r\n')).toEqual([
+            { rowNumber: 2, name: 'ਗੁਰਪ੍ਰੀਤ', class: '7', rollNumber: '' },
+        ]);
+    });
+
+    it('keeps delimiters, line breaks and quotes inside quoted fields', () => {
+        expect(parseRosterCsv('Name,Class\n"Singh, Harpreet",6\n"Kaur\nSimran",6\n"Preet ""Pinky"" Kaur",6')).toMatchObject([
+            { name: 'Singh, Harpreet' },
+            { name: 'Kaur Simran', rowNumber: 3 },
+            { name: 'Preet "Pinky" Kaur', rowNumber: 4 },
+        ]);
+    });
+
+    it('skips blank rows but keeps rows with only some cells', () => {
+        expect(parseRosterCsv('Name,Class\nAsha,6\n,\n\n,7\n')).toEqual([
+            { rowNumber: 2, name: 'Asha', class: '6', rollNumber: '' },
+            { rowNumber: 5, name: '', class: '7', rollNumber: '' },
+        ]);
+    });
+
+    it('needs a name and a class column', () => {
+        expect(() => parseRosterCsv('Name,Roll\nAsha,1')).toThrow(expect.objectContaining({ code: ROSTER_MISSING_COLUMNS }));
+    });
+
+    it('needs at least one student', () => {
+        expect(() => parseRosterCsv('Name,Class\n,\n')).toThrow(expect.objectContaining({ code: ROSTER_EMPTY }));
+    });
+});
@@ -0,0 +1,244 @@
+import { db } from './db';
+import { getSyncBackend } from './backend';
+import { UNIQUE_VIOLATION } from './syncBackend';
+import { isNetworkError } from './syncService';
+import type { User } from '../types';
+import { UserRole } from '../constants';
+
+// Accounts for a whole class at once, from the class list a teacher already keeps in a
+// spreadsheet, saved as CSV: a header row, then a row per student with their name, class
+// and (optionally) roll number. Every student gets a generated username and password, for
+// the teacher to hand out on printed login cards; the passwords are never stored here.
+// Students already in the class (matched by roll number, else by name) are left alone, so
+// the same list can be uploaded again after some rows failed.
+
+// Error codes, for messages in the upload panel.
+export const ROSTER_EMPTY = 'ROSTER_EMPTY';
+export const ROSTER_MISSING_COLUMNS = 'ROSTER_MISSING_COLUMNS';
+
+const rosterError = (code: string, message: string) => Object.assign(new Error(message), { code });
+
+export interface RosterRow {
+    rowNumber: number; // As the spreadsheet numbers it, the header being row 1
+    name: string;
+    class: string;
+    rollNumber: string;
+}
+
+// Why a row got no account. Rows that duplicate another (in the file or the class) are
+// skipped; the others failed.
+export type RosterRowProblem =
+    | 'missing_name' | 'invalid_class' | 'other_class'
+    | 'duplicate_in_file' | 'already_exists'
+    | 'offline' | 'failed';
+
+export interface CreatedAccount {
+    userId: string;
+    fullName: string;
+    class: number;
+    rollNumber: string | null;
+    username: string;
+    password: string;
+}
+
+export interface RosterRowResult {
+    row: RosterRow;
+    status: 'created' | 'skipped' | 'failed';
+    problem?: RosterRowProblem;
+    duplicateOf?: number; // Row number of the first of the duplicates in the file
+    detail?: string; // The server's message when creating the account failed
+    account?: CreatedAccount;
+}
+
+// Header names (compared without case, spaces or punctuation), in English and Punjabi.
+const COLUMN_ALIASES = {
+    name: ['name', 'fullname', 'studentname', 'ਨਾਮ', 'ਨਾਂ'],
+    class: ['class', 'grade', 'standard', 'ਜਮਾਤ', 'ਕਲਾਸ'],
+    rollNumber: ['roll', 'rollno', 'rollnumber', 'ਰੋਲ', 'ਰੋਲਨੰਬਰ'],
+};
+
+const normalizeHeader = (text: string) => text.normalize('NFC').toLowerCase().replace(/[^\p{L}\p{M}\p{N}]/gu, '');
+
+// Spreadsheets save CSV with commas, or with semicolons (or tabs) where the comma is the
+// decimal separator. The header row tells which.
+const detectDelimiter = (text: string) => {
+    const header = text.split(/\r?\n/, 1)[0];
+    const counts = [',', ';', '\t'].map(delimiter => ({ delimiter, count: header.split(delimiter).length }));
+    return counts.sort((a, b) => b.count - a.count)[0].delimiter;
+};
+
+// Quoted fields may hold delimiters, line breaks and doubled quotes.
+const parseRecords = (text: string, delimiter: string): string[][] => {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+    return records;
+};
+
+// Throws ROSTER_MISSING_COLUMNS without a name and a class column, and ROSTER_EMPTY
+// without any students.
+export const parseRosterCsv = (text: string): RosterRow[] => {
+    const content = text.replace(/^\uFEFF/, '');
+    const [header = [], ...records] = parseRecords(content, detectDelimiter(content));
+    const headers = header.map(normalizeHeader);
+    const columnOf = (aliases: string[]) => headers.findIndex(h => aliases.includes(h));
+    const columns = {
+        name: columnOf(COLUMN_ALIASES.name),
+        class: columnOf(COLUMN_ALIASES.class),
+        rollNumber: columnOf(COLUMN_ALIASES.rollNumber),
+    };
+    if (columns.name < 0 || columns.class < 0) {
+        throw rosterError(ROSTER_MISSING_COLUMNS, 'The first row must name the columns, with at least "Name" and "Class".');
+    }
+
+    const cell = (record: string[], column: number) => (column < 0 ? '' : (record[column] ?? '').trim());
+    const rows = records
+        .map((record, i) => ({
+            rowNumber: i + 2,
+            name: cell(record, columns.name).replace(/\s+/g, ' '),
+            class: cell(record, columns.class),
+            rollNumber: cell(record, columns.rollNumber),
+        }))
+        .filter(row => row.name || row.class || row.rollNumber);
+    if (rows.length === 0) throw rosterError(ROSTER_EMPTY, 'The file has no students in it.');
+    return rows;
+};
+
+// "6", "6th" and "Class 6" all mean class 6.
+const parseClass = (text: string): number | null => {
+    const match = text.match(/^\D*(\d{1,2})\D*$/);
+    const classNumber = match ? Number(match[1]) : NaN;
+    return classNumber >= 1 && classNumber <= 12 ? classNumber : null;
+};
+
+const normalizeName = (name: string) => name.normalize('NFC').toLowerCase();
+const normalizeRollNumber = (rollNumber: string) => rollNumber.toLowerCase().replace(/^0+(?=.)/, '');
+
+// Roll numbers tell students apart when both have one; otherwise their names do.
+const isSameStudent = (a: { name: string; rollNumber: string }, b: { name: string; rollNumber: string }) =>
+    a.rollNumber && b.rollNumber
+        ? normalizeRollNumber(a.rollNumber) === normalizeRollNumber(b.rollNumber)
+        : normalizeName(a.name) === normalizeName(b.name);
+
+const randomInt = (below: number) => crypto.getRandomValues(new Uint32Array(1))[0] % below;
+const randomDigits = (count: number) => Array.from({ length: count }, () => randomInt(10)).join('');
+
+// Short enough for a young student to type from a card: three syllables and two digits,
+// without letters that are easily mixed up.
+const CONSONANTS = 'bdfghkmnprstvz';
+const VOWELS = 'aeiou';
+export const generatePassword = () =>
+    Array.from({ length: 3 }, () => CONSONANTS[randomInt(CONSONANTS.length)] + VOWELS[randomInt(VOWELS.length)]).join('') + randomDigits(2);
+
+// The first name in plain Latin letters (names in Gurmukhi become "student"), then the
+// class and roll number, e.g. "asha612"; later attempts end in random digits instead.
+const MAX_USERNAME_ATTEMPTS = 5;
+const usernameCandidate = (fullName: string, classNumber: number, rollNumber: string, attempt: number) => {
+    const firstName = fullName.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().split(' ')[0].replace(/[^a-z]/g, '');
+    const base = (firstName || 'student').slice(0, 10);
+    const roll = rollNumber.toLowerCase().replace(/[^a-z0-9]/g, '');
+    return `${base}${classNumber}${attempt === 0 && roll ? roll : randomDigits(attempt === 0 ? 3 : 4)}`;
+};
+
+const createAccount = async (
+    fullName: string, classNumber: number, rollNumber: string, takenUsernames: Set<string>,
+): Promise<CreatedAccount> => {
+    const { accounts } = getSyncBackend();
+    const password = generatePassword();
+    for (let attempt = 0; attempt < MAX_USERNAME_ATTEMPTS; attempt++) {
+        const username = usernameCandidate(fullName, classNumber, rollNumber, attempt);
+        if (takenUsernames.has(username)) continue;
+        takenUsernames.add(username);
+        try {
+            const profile = await accounts.createStudentAccount({ username, password, fullName, class: classNumber, rollNumber: rollNumber || null });
+            await db.profiles.put(profile);
+            return { userId: profile.id, fullName, class: classNumber, rollNumber: rollNumber || null, username, password };
+        } catch (error: any) {
+            if (error?.code !== UNIQUE_VIOLATION) throw error;
+        }
+    }
+    throw new Error('No free username was found.');
+};
+
+// Creates the accounts one row at a time, so every row gets its own result. Needs the
+// network; once it is lost, the remaining rows fail as 'offline'.
+export const importRoster = async (
+    rows: RosterRow[],
+    teacher: User,
+    onProgress?: (done: number, total: number) => void,
+): Promise<RosterRowResult[]> => {
+    if (teacher.role !== UserRole.TEACHER) throw new Error('Only teachers can create student accounts.');
+    const profiles = await db.profiles.toArray();
+    const classmates = profiles
+        .filter(p => p.role === UserRole.STUDENT && p.class === teacher.class)
+        .map(p => ({ name: p.full_name || p.username, rollNumber: p.roll_number ?? '' }));
+    const takenUsernames = new Set(profiles.map(p => p.username.toLowerCase()));
+    const accepted: RosterRow[] = [];
+    const results: RosterRowResult[] = [];
+    let isOffline = false;
+
+    for (const row of rows) {
+        const classNumber = parseClass(row.class);
+        const duplicate = accepted.find(other => isSameStudent(row, other));
+        let result: RosterRowResult;
+        if (!row.name) {
+            result = { row, status: 'failed', problem: 'missing_name' };
+        } else if (classNumber === null) {
+            result = { row, status: 'failed', problem: 'invalid_class' };
+        } else if (classNumber !== teacher.class) {
+            result = { row, status: 'failed', problem: 'other_class' };
+        } else if (duplicate) {
+            result = { row, status: 'skipped', problem: 'duplicate_in_file', duplicateOf: duplicate.rowNumber };
+        } else if (classmates.some(student => isSameStudent(row, student))) {
+            accepted.push(row);
+            result = { row, status: 'skipped', problem: 'already_exists' };
+        } else if (isOffline) {
+            accepted.push(row);
+            result = { row, status: 'failed', problem: 'offline' };
+        } else {
+            accepted.push(row);
+            try {
+                result = { row, status: 'created', account: await createAccount(row.name, classNumber, row.rollNumber, takenUsernames) };
+            } catch (error: any) {
+                isOffline = isNetworkError(error);
+                result = isOffline
+                    ? { row, status: 'failed', problem: 'offline' }
+                    : { row, status: 'failed', problem: 'failed', detail: error?.message };
+            }
+        }
+        results.push(result);
+        onProgress?.(results.length, rows.length);
+    }
+    return results;
+};
@@ -0,0 +1,101 @@
+import type { Lesson, StudentProgress, QuizQuestion, TranscriptEntry, VideoIntegrityReport, PasswordReset } from '../types';
+import type { Database, Json } from './supabaseClient';
+import type { StoredCourse } from './db';
+
+type Tables = Database['public']['Tables'];
+export type CourseRow = Tables['courses']['Row'];
+export type LessonRow = Tables['lessons']['Row'];
+export type ProgressRow = Tables['student_progress']['Row'];
+
+// --- Supabase (snake_case) rows -> app models ---
+
+// Lessons live in their own table, on the server and on the device.
+export const courseFromRow = (row: CourseRow): StoredCourse => ({
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    icon: row.icon,
+    authorId: row.author_id,
+    forClass: row.for_class,
+    version: row.version,
+});
+
+export const lessonFromRow = (row: LessonRow): Lesson => ({
+    id: row.id,
+    title: row.title,
+    content: row.content,
+    summary: row.summary || undefined,
+    videoUrl: row.video_url || undefined,
+    videoPath: row.video_path || undefined,
+    videoHash: row.video_hash || undefined,
+    hasOfflineVideo: false, // Known only locally; see applyLessonRows in syncService
+    transcript: (row.transcript as unknown as TranscriptEntry[] | null) || undefined,
+    quiz: (row.quiz as unknown as QuizQuestion[]) || [],
+    difficulty: row.difficulty || undefined,
+    order: row.sort_order ?? 0,
+    version: row.version,
+});
+
+export const progressFromRow = (row: ProgressRow): StudentProgress => ({
+    studentId: row.student_id,
+    studentName: row.student_name,
+    courseProgress: (row.course_progress as any) || [],
+    scoreHistory: (row.score_history as any) || [],
+    version: row.version,
+});
+
+export const integrityReportFromRow = (row: Tables['video_integrity_reports']['Row']): VideoIntegrityReport => ({
+    studentId: row.student_id,
+    lessonId: row.lesson_id,
+    status: row.status,
+    detail: row.detail || undefined,
+    reportedAt: Date.parse(row.reported_at),
+});
+
+export const passwordResetFromRow = (row: Tables['password_resets']['Row']): PasswordReset => ({
+    id: row.id,
+    studentId: row.student_id,
+    resetBy: row.reset_by,
+    resetAt: Date.parse(row.reset_at),
+});
+
+// --- App models -> Supabase rows (versions are server-managed and never pushed) ---
+
+export const courseToRow = (course: StoredCourse): Tables['courses']['Insert'] => ({
+    id: course.id,
+    title: course.title,
+    description: course.description,
+    icon: course.icon,
+    author_id: course.authorId,
+    for_class: course.forClass,
+});
+
+export const lessonToRow = (lesson: Lesson, courseId: string): Tables['lessons']['Insert'] => ({
+    id: lesson.id,
+    course_id: courseId,
+    title: lesson.title,
+    content: lesson.content,
+    summary: lesson.summary,
+    video_url: lesson.videoUrl,
+    video_path: lesson.videoPath,
+    video_hash: lesson.videoHash,
+    difficulty: lesson.difficulty,
+    sort_order: lesson.order,
+    quiz: lesson.quiz as unknown as Json,
+    transcript: lesson.transcript as unknown as Json,
+});
+
+export const progressToRow = (progress: StudentProgress): Tables['student_progress']['Insert'] => ({
+    student_id: progress.studentId,
+    student_name: progress.studentName,
+    course_progress: progress.courseProgress as unknown as Json,
+    score_history: progress.scoreHistory as unknown as Json,
+});
+
+export const integrityReportToRow = (report: VideoIntegrityReport): Tables['video_integrity_reports']['Insert'] => ({
+    student_id: report.studentId,
+    lesson_id: report.lessonId,
+    status: report.status,
+    detail: report.detail ?? null,
+    reported_at: new Date(report.reportedAt).toISOString(),
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { createSha256 } from './sha256';
+
+const bytesOf = (length: number) => Uint8Array.from({ length }, (_, i) => (i * 31 + 7) % 256);
+
+const subtleHex = async (data: Uint8Array) =>
+    Array.from(new Uint8Array(await crypto.subtle.digest('SHA-256', data)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+describe('createSha256', () => {
+    it('hashes the empty input', () => {
+        expect(createSha256().digestHex()).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    });
+
+    // Around the padding boundaries (55/56 bytes) and the block size.
+    it.each([1, 55, 56, 63, 64, 65, 119, 120, 1_000, 100_000])('matches crypto.subtle for %i bytes in one piece', async length => {
+        const data = bytesOf(length);
+        const hash = createSha256();
+        hash.update(data);
+        expect(hash.digestHex()).toBe(await subtleHex(data));
+    });
+
+    it.each([1, 3, 63, 64, 65, 4_096])('matches crypto.subtle when fed %i bytes at a time', async size => {
+        const data = bytesOf(10_007);
+        const hash = createSha256();
+        for (let offset = 0; offset < data.length; offset += size) hash.update(data.subarray(offset, offset + size));
+        expect(hash.digestHex()).toBe(await subtleHex(data));
+    });
+});
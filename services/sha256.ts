@@ -0,0 +1,104 @@
+// SHA-256 that takes its input a piece at a time. crypto.subtle.digest only hashes a whole
+// buffer, which for a video means holding the entire file in memory at once.
+
+export interface Sha256 {
+    update(data: Uint8Array): void;
+    // The hash of everything passed to update, as hex. Ends the hash; don't update it again.
+    digestHex(): string;
+}
+
+const ROUND_CONSTANTS = new Uint32Array([
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+    0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+    0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+    0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+    0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+    0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const INITIAL_STATE = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+
+const BLOCK_BYTES = 64;
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+export const createSha256 = (): Sha256 => {
+    const state = new Uint32Array(INITIAL_STATE);
+    const schedule = new Uint32Array(64);
+    const pending = new Uint8Array(BLOCK_BYTES);
+    let pendingBytes = 0;
+    let totalBytes = 0;
+
+    const compress = (block: Uint8Array, at: number) => {
+        for (let i = 0; i < 16; i++) {
+            const j = at + i * 4;
+            schedule[i] = (block[j] << 24) | (block[j + 1] << 16) | (block[j + 2] << 8) | block[j + 3];
+        }
+        for (let i = 16; i < 64; i++) {
+            const w15 = schedule[i - 15];
+            const w2 = schedule[i - 2];
+            const s0 = rotr(w15, 7) ^ rotr(w15, 18) ^ (w15 >>> 3);
+            const s1 = rotr(w2, 17) ^ rotr(w2, 19) ^ (w2 >>> 10);
+            schedule[i] = schedule[i - 16] + s0 + schedule[i - 7] + s1;
+        }
+
+        let [a, b, c, d, e, f, g, h] = state;
+        for (let i = 0; i < 64; i++) {
+            const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+            const choice = (e & f) ^ (~e & g);
+            const t1 = (h + s1 + choice + ROUND_CONSTANTS[i] + schedule[i]) | 0;
+            const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+            const majority = (a & b) ^ (a & c) ^ (b & c);
+            const t2 = (s0 + majority) | 0;
+            h = g;
+            g = f;
+            f = e;
+            e = (d + t1) | 0;
+            d = c;
+            c = b;
+            b = a;
+            a = (t1 + t2) | 0;
+        }
+        state[0] += a;
+        state[1] += b;
+        state[2] += c;
+        state[3] += d;
+        state[4] += e;
+        state[5] += f;
+        state[6] += g;
+        state[7] += h;
+    };
+
+    const update = (data: Uint8Array) => {
+        totalBytes += data.length;
+        let at = 0;
+        if (pendingBytes > 0) {
+            const taken = Math.min(BLOCK_BYTES - pendingBytes, data.length);
+            pending.set(data.subarray(0, taken), pendingBytes);
+            pendingBytes += taken;
+            at = taken;
+            if (pendingBytes < BLOCK_BYTES) return;
+            compress(pending, 0);
+            pendingBytes = 0;
+        }
+        for (; at + BLOCK_BYTES <= data.length; at += BLOCK_BYTES) compress(data, at);
+        pending.set(data.subarray(at), 0);
+        pendingBytes = data.length - at;
+    };
+
+    const digestHex = () => {
+        const bits = totalBytes * 8;
+        // A 1 bit, zeros, then the message length in bits as a 64-bit big-endian number.
+        const padding = new Uint8Array((pendingBytes < 56 ? 56 : 120) - pendingBytes + 8);
+        padding[0] = 0x80;
+        const length = new DataView(padding.buffer, padding.length - 8);
+        length.setUint32(0, Math.floor(bits / 2 ** 32));
+        length.setUint32(4, bits >>> 0);
+        update(padding);
+        return Array.from(state, word => word.toString(16).padStart(8, '0')).join('');
+    };
+
+    return { update, digestHex };
+};
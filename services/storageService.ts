@@ -0,0 +1,231 @@
+import { db, type DownloadRecord, type OfflineVideo } from './db';
+import { createSha256 } from './sha256';
+
+// Offline videos are nearly all of what this app stores. Cheap phones have little space, and
+// a browser short of it may clear the whole site, unsynced work included. So:
+// - the app asks for persistent storage, which browsers don't clear on their own;
+// - videos are kept within a configurable limit, and leave some of the device free;
+// - when a download needs room, the least recently watched videos go first. Videos whose
+//   upload hasn't finished are the only copy anywhere and are never evicted.
+
+export interface StorageSettings {
+    maxVideoBytes: number; // All offline videos together
+    reserveBytes: number; // Left free on the device for everything else
+}
+
+const MB = 1024 * 1024;
+
+export const DEFAULT_STORAGE_SETTINGS: StorageSettings = {
+    maxVideoBytes: 2048 * MB,
+    reserveBytes: 200 * MB,
+};
+
+const SETTINGS_KEY = 'vidyalehar_storage_settings';
+
+export const getStorageSettings = (): StorageSettings => {
+    const stored = globalThis.localStorage?.getItem(SETTINGS_KEY);
+    return { ...DEFAULT_STORAGE_SETTINGS, ...(stored ? JSON.parse(stored) : {}) };
+};
+
+export const saveStorageSettings = (settings: StorageSettings): void => {
+    globalThis.localStorage?.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Returns whether the site's storage is persistent. Browsers may decide without asking the
+// user (e.g. Chrome grants it to installed or often used sites), so this can stay false.
+export const requestPersistentStorage = async (): Promise<boolean> => {
+    if (!navigator.storage?.persist) return false;
+    if (await navigator.storage.persisted()) return true;
+    return navigator.storage.persist();
+};
+
+export interface StorageEstimate {
+    usage: number | null; // Bytes this site uses, if the browser says
+    quota: number | null; // Bytes this site may use, if the browser says
+    persisted: boolean;
+}
+
+export const getStorageEstimate = async (): Promise<StorageEstimate> => {
+    const estimate = await navigator.storage?.estimate?.().catch(() => undefined);
+    const persisted = await navigator.storage?.persisted?.().catch(() => false);
+    return { usage: estimate?.usage ?? null, quota: estimate?.quota ?? null, persisted: !!persisted };
+};
+
+// --- Usage breakdown ---
+
+export interface LessonStorageUsage {
+    lessonId: string;
+    title: string;
+    bytes: number;
+    lastUsedAt: number; // Last played, or saved if never played
+    evictable: boolean;
+}
+
+export interface CourseStorageUsage {
+    courseId: string | null; // null for videos of lessons no longer on this device
+    title: string;
+    bytes: number;
+    lessons: LessonStorageUsage[];
+}
+
+const lastUsedAt = (record?: DownloadRecord) => record?.lastPlayedAt ?? record?.downloadedAt ?? 0;
+
+// Lessons whose video hasn't reached shared storage yet, counting uploads that gave up.
+export const getUnuploadedLessonIds = async (): Promise<Set<string>> => {
+    const queued = await db.syncQueue.where('type').equals('UPLOAD_VIDEO').toArray();
+    const failed = await db.deadLetters.where('type').equals('UPLOAD_VIDEO').toArray();
+    return new Set([...queued, ...failed].map(action => action.payload.lessonId));
+};
+
+const getVideoUsage = async (): Promise<LessonStorageUsage[]> => {
+    const videos = await db.videos.toArray();
+    const lessons = await db.lessons.bulkGet(videos.map(v => v.id));
+    const records = await db.downloads.bulkGet(videos.map(v => v.id));
+    const unuploaded = await getUnuploadedLessonIds();
+    return videos.map((video, i) => ({
+        lessonId: video.id,
+        title: lessons[i]?.title ?? video.id,
+        bytes: video.blob.size,
+        lastUsedAt: lastUsedAt(records[i]),
+        evictable: !unuploaded.has(video.id),
+    }));
+};
+
+// Offline videos by course, largest first.
+export const getStorageBreakdown = async (): Promise<CourseStorageUsage[]> => {
+    const usage = await getVideoUsage();
+    const lessons = await db.lessons.bulkGet(usage.map(u => u.lessonId));
+    const courses = new Map((await db.courses.toArray()).map(c => [c.id, c]));
+
+    const byCourse = new Map<string | null, CourseStorageUsage>();
+    usage.forEach((lessonUsage, i) => {
+        const courseId = lessons[i]?.courseId ?? null;
+        const course = courseId ? courses.get(courseId) : undefined;
+        const key = course ? courseId : null;
+        const entry = byCourse.get(key) ?? { courseId: key, title: course?.title ?? '', bytes: 0, lessons: [] };
+        entry.bytes += lessonUsage.bytes;
+        entry.lessons.push(lessonUsage);
+        byCourse.set(key, entry);
+    });
+    const breakdown = [...byCourse.values()];
+    breakdown.forEach(course => course.lessons.sort((a, b) => b.bytes - a.bytes));
+    return breakdown.sort((a, b) => b.bytes - a.bytes);
+};
+
+export const markVideoPlayed = async (lessonId: string): Promise<void> => {
+    await db.downloads.update(lessonId, { lastPlayedAt: Date.now() });
+};
+
+// --- Offline copies ---
+
+// Larger files are hashed a slice at a time, so a video is never read into memory whole.
+const HASH_CHUNK_SIZE = 4 * 1024 * 1024;
+
+// SHA-256 of a file, as hex.
+export const hashBlob = async (blob: Blob): Promise<string> => {
+    if (blob.size <= HASH_CHUNK_SIZE) {
+        const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+        return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+    }
+    const hash = createSha256();
+    for (let offset = 0; offset < blob.size; offset += HASH_CHUNK_SIZE) {
+        hash.update(new Uint8Array(await blob.slice(offset, offset + HASH_CHUNK_SIZE).arrayBuffer()));
+    }
+    return hash.digestHex();
+};
+
+// The record to store with `video`; `url` is where it came from. Build it before opening a
+// transaction to store both, as hashing can't be awaited inside one. `hash` saves hashing
+// a file again whose hash is already known.
+export const downloadRecordFor = async (video: OfflineVideo, url: string, hash?: string): Promise<DownloadRecord> => ({
+    lessonId: video.id,
+    url,
+    size: video.blob.size,
+    hash: hash ?? await hashBlob(video.blob),
+    downloadedAt: Date.now(),
+});
+
+// Keeps `video` as the lesson's offline copy, replacing any earlier one.
+export const saveVideoCopy = async (video: OfflineVideo, url: string, hash?: string): Promise<void> => {
+    const record = await downloadRecordFor(video, url, hash);
+    await db.transaction('rw', db.videos, db.downloads, async () => {
+        await db.videos.put(video);
+        await db.downloads.put(record);
+    });
+};
+
+export const deleteVideoCopy = async (lessonId: string): Promise<void> => {
+    await db.transaction('rw', db.videos, db.downloads, async () => {
+        await db.videos.delete(lessonId);
+        await db.downloads.delete(lessonId);
+    });
+};
+
+export const isVideoDownloaded = async (lessonId: string): Promise<boolean> =>
+    (await db.downloads.get(lessonId)) !== undefined;
+
+// --- Making room ---
+
+export interface DownloadPlan {
+    fits: boolean; // Whether the download fits once `evict` is removed
+    evict: LessonStorageUsage[]; // Least recently used first
+    evictBytes: number;
+    shortBy: number; // Bytes still missing after evicting everything allowed
+}
+
+// Works out what has to go for `bytes` more of video to fit. `replacing` is a lesson whose
+// current copy the download replaces. Nothing is removed yet.
+export const planVideoDownload = async (bytes: number, replacing?: string): Promise<DownloadPlan> => {
+    const settings = getStorageSettings();
+    const usage = (await getVideoUsage()).filter(u => u.lessonId !== replacing);
+    const videoBytes = usage.reduce((sum, u) => sum + u.bytes, 0);
+    const { usage: siteBytes, quota } = await getStorageEstimate();
+    const freeBytes = siteBytes !== null && quota !== null ? quota - siteBytes : Infinity;
+
+    const needed = Math.max(0, videoBytes + bytes - settings.maxVideoBytes, bytes + settings.reserveBytes - freeBytes);
+    const evict: LessonStorageUsage[] = [];
+    let evictBytes = 0;
+    for (const candidate of usage.filter(u => u.evictable).sort((a, b) => a.lastUsedAt - b.lastUsedAt)) {
+        if (evictBytes >= needed) break;
+        evict.push(candidate);
+        evictBytes += candidate.bytes;
+    }
+    const shortBy = Math.max(0, needed - evictBytes);
+    return { fits: shortBy === 0, evict, evictBytes, shortBy };
+};
+
+// Removes the given lessons' videos. Videos from shared storage aren't downloaded again
+// automatically after this, only when asked for.
+export const evictVideos = async (lessonIds: string[]): Promise<void> => {
+    await db.transaction('rw', [db.videos, db.downloads, db.downloadOwners, db.lessons], async () => {
+        await db.videos.bulkDelete(lessonIds);
+        await db.downloads.bulkDelete(lessonIds);
+        await db.downloadOwners.where('lessonId').anyOf(lessonIds).delete();
+        await db.lessons.where('id').anyOf(lessonIds).modify(lesson => {
+            lesson.hasOfflineVideo = false;
+            if (lesson.videoPath) lesson.videoEvicted = true;
+        });
+    });
+};
+
+// Code of the error thrown when a video can't fit even after evicting others.
+export const STORAGE_FULL = 'storage_full';
+
+// Evicts whatever the plan for `bytes` of video asks for, or throws if it can't fit at all.
+export const makeRoomForVideo = async (bytes: number, lessonId: string): Promise<void> => {
+    const plan = await planVideoDownload(bytes, lessonId);
+    if (!plan.fits) {
+        throw Object.assign(new Error(`Not enough storage for this video: ${formatBytes(plan.shortBy)} more is needed.`), { code: STORAGE_FULL });
+    }
+    if (plan.evict.length > 0) {
+        await evictVideos(plan.evict.map(u => u.lessonId));
+        console.log(`Evicted ${plan.evict.length} offline video(s) (${formatBytes(plan.evictBytes)}) to make room.`);
+    }
+};
+
+export const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < MB) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * MB) return `${(bytes / MB).toFixed(1)} MB`;
+    return `${(bytes / (1024 * MB)).toFixed(2)} GB`;
+};
@@ -0,0 +1,388 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase, supabaseUrl, supabaseAnonKey, clearStoredSession, type Database } from './supabaseClient';
+import {
+    KEY_COLUMNS, UNIQUE_VIOLATION, ACCOUNT_DEACTIVATED, fetchRange, httpError,
+    type SyncBackend, type SyncTable, type VersionedTable, type PushResult, type TombstoneRow,
+} from './syncBackend';
+
+const PAGE_SIZE = 500;
+
+type Tables = Database['public']['Tables'];
+type QueryResult<T> = { data: T | null; error: PostgrestError | null };
+
+// supabase-js can only type a query whose table it knows at compile time, so each table's
+// queries are written out below; the compare-and-swap and paging around them are shared.
+
+interface VersionedQueries<T extends VersionedTable> {
+    insert(row: Tables[T]['Insert']): PromiseLike<QueryResult<Tables[T]['Row']>>;
+    // Updates the row only while it is still at `baseVersion`. Keys, the owner, the version and
+    // stamp are left out: an update can't change them (the server's trigger sets the last two).
+    update(row: Tables[T]['Insert'], baseVersion: number): PromiseLike<QueryResult<Tables[T]['Row'][]>>;
+    current(row: Tables[T]['Insert']): PromiseLike<QueryResult<Tables[T]['Row'] | null>>;
+}
+
+const versionedQueries: { [T in VersionedTable]: VersionedQueries<T> } = {
+    courses: {
+        insert: (row) => supabase.from('courses').insert(row).select().single(),
+        update: ({ id, author_id, version, updated_at, ...changes }, baseVersion) => supabase.from('courses').update(changes).eq('id', id).eq('version', baseVersion).select(),
+        current: (row) => supabase.from('courses').select('*').eq('id', row.id).maybeSingle(),
+    },
+    lessons: {
+        insert: (row) => supabase.from('lessons').insert(row).select().single(),
+        update: ({ id, course_id, version, updated_at, ...changes }, baseVersion) => supabase.from('lessons').update(changes).eq('id', id).eq('version', baseVersion).select(),
+        current: (row) => supabase.from('lessons').select('*').eq('id', row.id).maybeSingle(),
+    },
+    student_progress: {
+        insert: (row) => supabase.from('student_progress').insert(row).select().single(),
+        update: ({ student_id, version, updated_at, ...changes }, baseVersion) => supabase.from('student_progress').update(changes).eq('student_id', student_id).eq('version', baseVersion).select(),
+        current: (row) => supabase.from('student_progress').select('*').eq('student_id', row.student_id).maybeSingle(),
+    },
+};
+
+const pushVersionedRow = async <T extends VersionedTable>(table: T, row: Tables[T]['Insert'], baseVersion?: number): Promise<PushResult<Tables[T]['Row']>> => {
+    const queries: VersionedQueries<T> = versionedQueries[table];
+
+    if (baseVersion === undefined) {
+        const { data, error } = await queries.insert(row);
+        if (!error) return { status: 'ok', version: data!.version };
+        if (error.code !== UNIQUE_VIOLATION) throw error;
+    } else {
+        const { data, error } = await queries.update(row, baseVersion);
+        if (error) throw error;
+        if (data!.length > 0) return { status: 'ok', version: data![0].version };
+    }
+
+    const { data: serverRow, error } = await queries.current(row);
+    if (error) throw error;
+    return { status: 'conflict', serverRow };
+};
+
+// The part of a select query that paging uses, which every table's query has.
+interface PagedQuery<Row> extends PromiseLike<QueryResult<Row[]>> {
+    order(column: string, options: { ascending: boolean }): PagedQuery<Row>;
+    gt(column: string, value: unknown): PagedQuery<Row>;
+    or(filters: string): PagedQuery<Row>;
+    limit(count: number): PagedQuery<Row>;
+}
+
+const selectAll: { [T in SyncTable]: () => PagedQuery<Tables[T]['Row']> } = {
+    courses: () => supabase.from('courses').select('*'),
+    lessons: () => supabase.from('lessons').select('*'),
+    student_progress: () => supabase.from('student_progress').select('*'),
+    profiles: () => supabase.from('profiles').select('*'),
+    sync_tombstones: () => supabase.from('sync_tombstones').select('*'),
+};
+
+// Paged so large first syncs aren't truncated by the API row limit. Each page starts after
+// the last row of the one before, not at an offset: a row updated while the pages are read
+// moves to the end, which would shift the rows behind it into pages already read.
+const fetchChangedRows = async <T extends SyncTable>(table: T, since?: string): Promise<Tables[T]['Row'][]> => {
+    const stampColumn = table === 'sync_tombstones' ? 'deleted_at' : 'updated_at';
+    const keyColumn = table === 'sync_tombstones' ? 'id' : KEY_COLUMNS[table as VersionedTable | 'profiles'];
+    // Quoted, as stamps contain characters that separate filters.
+    const value = (v: unknown) => `"${v}"`;
+    const select: () => PagedQuery<Tables[T]['Row']> = selectAll[table];
+    const rows: Tables[T]['Row'][] = [];
+    let last: Record<string, unknown> | undefined;
+    while (true) {
+        let query = select()
+            .order(stampColumn, { ascending: true })
+            .order(keyColumn, { ascending: true })
+            .limit(PAGE_SIZE);
+        if (last) {
+            const stamp = value(last[stampColumn]);
+            query = query.or(`${stampColumn}.gt.${stamp},and(${stampColumn}.eq.${stamp},${keyColumn}.gt.${value(last[keyColumn])})`);
+        } else if (since) {
+            query = query.gt(stampColumn, since);
+        }
+        const { data, error } = await query;
+        if (error) throw error;
+        rows.push(...data!);
+        if (data!.length < PAGE_SIZE) return rows;
+        last = data![data!.length - 1];
+    }
+};
+
+// Keeps `in (...)` filters well within URL length limits.
+const IN_FILTER_CHUNK = 100;
+
+const fetchInChunks = async <Row>(values: string[], fetchChunk: (chunk: string[]) => PromiseLike<QueryResult<Row[]>>): Promise<Row[]> => {
+    const rows: Row[] = [];
+    for (let i = 0; i < values.length; i += IN_FILTER_CHUNK) {
+        const { data, error } = await fetchChunk(values.slice(i, i + IN_FILTER_CHUNK));
+        if (error) throw error;
+        rows.push(...data!);
+    }
+    return rows;
+};
+
+const selectContentRow: { [T in 'courses' | 'lessons']: (id: string) => PromiseLike<QueryResult<Tables[T]['Row'] | null>> } = {
+    courses: (id) => supabase.from('courses').select('*').eq('id', id).maybeSingle(),
+    lessons: (id) => supabase.from('lessons').select('*').eq('id', id).maybeSingle(),
+};
+
+// --- Video storage ---
+
+// Private bucket; read and write access follows the lesson's course (see 007_lesson_videos.sql).
+const VIDEO_BUCKET = 'lesson-videos';
+// supabase-js has no resumable uploads, so this speaks the TUS protocol to Storage directly.
+const RESUMABLE_UPLOAD_URL = `${supabaseUrl}/storage/v1/upload/resumable`;
+
+const uploadHeaders = async (headers: Record<string, string> = {}) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw Object.assign(new Error('Not signed in.'), { code: '42501' });
+    return { authorization: `Bearer ${session.access_token}`, apikey: supabaseAnonKey, 'tus-resumable': '1.0.0', ...headers };
+};
+
+// Rejections carry the HTTP status as their code, so they count as failed attempts.
+const uploadRequest = async (url: string, init: RequestInit) => {
+    const response = await fetch(url, init);
+    if (!response.ok) throw Object.assign(new Error(`Upload failed: ${response.status} ${response.statusText}`), { code: String(response.status) });
+    return response;
+};
+
+const uploadOffsetOf = (response: Response) => {
+    const offset = Number(response.headers.get('upload-offset'));
+    if (Number.isNaN(offset)) throw new Error('Upload failed: the server sent no offset.');
+    return offset;
+};
+
+const contentLengthOf = (response: Response) => {
+    const length = response.ok ? Number(response.headers.get('content-length')) : NaN;
+    return Number.isNaN(length) || length === 0 ? null : length;
+};
+
+// Storage lists one folder level at a time; entries without an id are subfolders.
+const listVideoPaths = async (folder: string): Promise<string[]> => {
+    const paths: string[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+        const { data, error } = await supabase.storage.from(VIDEO_BUCKET).list(folder, { limit: PAGE_SIZE, offset });
+        if (error) throw error;
+        for (const entry of data) {
+            const path = `${folder}/${entry.name}`;
+            paths.push(...(entry.id ? [path] : await listVideoPaths(path)));
+        }
+        if (data.length < PAGE_SIZE) return paths;
+    }
+};
+
+export const supabaseBackend: SyncBackend = {
+    name: 'supabase',
+
+    auth: {
+        signUp: async (email, password, username) => {
+            const { data, error } = await supabase.auth.signUp({
+                email,
+                password,
+                options: { data: { username } },
+            });
+            if (error) throw new Error(error.message);
+            if (!data.user) throw new Error('Registration failed: no user returned.');
+            return data.user.id;
+        },
+        signIn: async (email, password) => {
+            const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+            if (error?.code === 'user_banned') throw Object.assign(new Error(error.message), { code: ACCOUNT_DEACTIVATED });
+            if (error) throw new Error(error.message);
+            if (!data.user) throw new Error('Login failed: no user returned.');
+            return data.user.id;
+        },
+        signOut: async () => {
+            const { error } = await supabase.auth.signOut();
+            // Offline, the server can't revoke the session, but it mustn't outlive the sign-out
+            // here: the next person to use the device may sign in offline.
+            if (error) await clearStoredSession();
+        },
+        getSessionUserId: async () => {
+            const { data: { session } } = await supabase.auth.getSession();
+            return session?.user.id ?? null;
+        },
+        suspendSession: async () => {
+            const { data: { session } } = await supabase.auth.getSession();
+            if (!session) return null;
+            await clearStoredSession();
+            return JSON.stringify({ access_token: session.access_token, refresh_token: session.refresh_token });
+        },
+        resumeSession: async (saved) => {
+            // Needs the network: the tokens are checked, and refreshed if they expired.
+            const { data, error } = await supabase.auth.setSession(JSON.parse(saved));
+            if (error) throw new Error(error.message);
+            if (!data.user) throw new Error('Invalid session');
+            return data.user.id;
+        },
+        getProfile: async (userId) => {
+            const { data, error } = await supabase.from('profiles').select('*').eq('id', userId).maybeSingle();
+            if (error) throw error;
+            return data;
+        },
+        createProfile: async (profile) => {
+            const { data, error } = await supabase.from('profiles').insert(profile).select().single();
+            if (error) throw error;
+            return data;
+        },
+        changePassword: async (newPassword) => {
+            const { data: { user }, error } = await supabase.auth.updateUser({ password: newPassword });
+            if (error) throw new Error(error.message);
+            if (!user) throw new Error('Not signed in.');
+            // Students can't clear the flag with an update (see 011_password_resets.sql).
+            const { data, error: profileError } = await supabase.rpc('clear_must_change_password');
+            if (profileError) throw profileError;
+            return data;
+        },
+    },
+
+    content: {
+        pushCourse: (row, baseVersion) => pushVersionedRow('courses', row, baseVersion),
+        pushLesson: (row, baseVersion) => pushVersionedRow('lessons', row, baseVersion),
+        deleteCourse: async (courseId) => {
+            const { error } = await supabase.rpc('delete_course', { target_course_id: courseId });
+            if (error) throw error;
+        },
+        deleteLesson: async (lessonId) => {
+            const { error } = await supabase.rpc('delete_lesson', { target_lesson_id: lessonId });
+            if (error) throw error;
+        },
+    },
+
+    progress: {
+        pushProgress: (row, baseVersion) => pushVersionedRow('student_progress', row, baseVersion),
+    },
+
+    changes: {
+        fetchChangedRows,
+        fetchLatestTombstone: async () => {
+            const { data, error } = await supabase.from('sync_tombstones').select('*').order('deleted_at', { ascending: false }).limit(1);
+            if (error) throw error;
+            return data[0] ?? null;
+        },
+        fetchLessonsOfCourses: (courseIds) => fetchInChunks(courseIds, chunk => supabase.from('lessons').select('*').in('course_id', chunk)),
+        fetchProgressOfStudents: (studentIds) => fetchInChunks(studentIds, chunk => supabase.from('student_progress').select('*').in('student_id', chunk)),
+        fetchContentRow: async (table, id) => {
+            const { data, error } = await selectContentRow[table](id);
+            if (error) throw error;
+            return data;
+        },
+    },
+
+    // Postgres change feeds (see 006_realtime_content.sql), filtered by the same row-level
+    // security as reads. Deletions come from tombstones rather than DELETE events, which
+    // aren't filtered and also miss courses that moved out of the user's class.
+    realtime: {
+        subscribeToContent: (onChange) => {
+            const channel = supabase.channel('content-changes')
+                .on('postgres_changes', { event: '*', schema: 'public', table: 'courses' }, (payload: any) => {
+                    if (payload.eventType !== 'DELETE') onChange({ type: 'upsert', table: 'courses', row: payload.new });
+                })
+                .on('postgres_changes', { event: '*', schema: 'public', table: 'lessons' }, (payload: any) => {
+                    if (payload.eventType !== 'DELETE') onChange({ type: 'upsert', table: 'lessons', row: payload.new });
+                })
+                .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'sync_tombstones' }, (payload: any) => {
+                    const tombstone = payload.new as TombstoneRow;
+                    if (tombstone.table_name === 'courses' || tombstone.table_name === 'lessons') {
+                        onChange({ type: 'delete', table: tombstone.table_name, id: tombstone.record_id });
+                    }
+                })
+                .subscribe();
+            return () => {
+                supabase.removeChannel(channel);
+            };
+        },
+    },
+
+    storage: {
+        download: async (url) => {
+            const response = await fetch(url);
+            if (!response.ok) throw httpError(response);
+            return response.blob();
+        },
+        getDownloadSize: async (url) => contentLengthOf(await fetch(url, { method: 'HEAD' })),
+        downloadRange: fetchRange,
+        startVideoUpload: async (path, size, contentType) => {
+            const metadata = { bucketName: VIDEO_BUCKET, objectName: path, contentType };
+            const response = await uploadRequest(RESUMABLE_UPLOAD_URL, {
+                method: 'POST',
+                headers: await uploadHeaders({
+                    'upload-length': String(size),
+                    'upload-metadata': Object.entries(metadata).map(([key, value]) => `${key} ${btoa(value)}`).join(','),
+                    'x-upsert': 'true',
+                }),
+            });
+            const location = response.headers.get('location');
+            if (!location) throw new Error('Upload failed: the server sent no upload URL.');
+            return new URL(location, RESUMABLE_UPLOAD_URL).href;
+        },
+        getUploadOffset: async (uploadId) => {
+            const response = await fetch(uploadId, { method: 'HEAD', headers: await uploadHeaders() });
+            if (response.status === 404 || response.status === 410) return null;
+            if (!response.ok) throw Object.assign(new Error(`Upload failed: ${response.status} ${response.statusText}`), { code: String(response.status) });
+            return uploadOffsetOf(response);
+        },
+        uploadVideoChunk: async (uploadId, offset, chunk) => {
+            const response = await uploadRequest(uploadId, {
+                method: 'PATCH',
+                headers: await uploadHeaders({ 'upload-offset': String(offset), 'content-type': 'application/offset+octet-stream' }),
+                body: chunk,
+            });
+            return uploadOffsetOf(response);
+        },
+        getVideoUrl: async (path, expiresIn) => {
+            const { data, error } = await supabase.storage.from(VIDEO_BUCKET).createSignedUrl(path, expiresIn);
+            if (error) throw error;
+            return data.signedUrl;
+        },
+        deleteVideos: async (folder, keep) => {
+            const paths = (await listVideoPaths(folder)).filter(path => path !== keep);
+            if (paths.length === 0) return;
+            const { error } = await supabase.storage.from(VIDEO_BUCKET).remove(paths);
+            if (error) throw error;
+        },
+    },
+
+    integrity: {
+        reportVideoIntegrity: async (row) => {
+            const { error } = await supabase.from('video_integrity_reports').upsert(row);
+            if (error) throw error;
+        },
+        fetchVideoIntegrityReports: async () => {
+            const { data, error } = await supabase.from('video_integrity_reports').select('*').order('reported_at', { ascending: false });
+            if (error) throw error;
+            return data;
+        },
+    },
+
+    accounts: {
+        // See 010_student_accounts.sql.
+        createStudentAccount: async (account) => {
+            const { data, error } = await supabase.rpc('create_student_account', {
+                student_username: account.username,
+                student_password: account.password,
+                student_full_name: account.fullName,
+                student_class: account.class,
+                student_roll_number: account.rollNumber,
+            });
+            if (error) throw error;
+            return data;
+        },
+        // See 011_password_resets.sql.
+        resetStudentPassword: async (studentId, newPassword) => {
+            const { error } = await supabase.rpc('reset_student_password', { target_student_id: studentId, new_password: newPassword });
+            if (error) throw error;
+        },
+        fetchPasswordResets: async () => {
+            const { data, error } = await supabase.from('password_resets').select('*').order('reset_at', { ascending: false });
+            if (error) throw error;
+            return data;
+        },
+        // See 012_school_admin.sql.
+        setAccountStatus: async (userId, status) => {
+            const { data, error } = await supabase.rpc('set_account_status', { target_user_id: userId, new_status: status });
+            if (error) throw error;
+            return data;
+        },
+        assignTeacherClass: async (userId, classNumber) => {
+            const { data, error } = await supabase.rpc('assign_teacher_class', { target_user_id: userId, new_class: classNumber });
+            if (error) throw error;
+            return data;
+        },
+    },
+};
@@ -0,0 +1,194 @@
+import type { Database } from './supabaseClient';
+
+// Everything the app needs from a server, so the services don't depend on Supabase directly.
+// Rows use the server's snake_case shape (see services/rowMappers.ts for the app models).
+// Adapters:
+// - supabaseBackend (services/supabaseBackend.ts): the hosted Supabase project;
+// - createLocalBackend() (services/localBackend.ts): a stand-in server kept in IndexedDB,
+//   for demos and automated tests with no network.
+// services/backend.ts picks the one in use.
+
+type Tables = Database['public']['Tables'];
+export type ProfileRow = Tables['profiles']['Row'];
+export type ProfileInsert = Tables['profiles']['Insert'];
+export type TombstoneRow = Tables['sync_tombstones']['Row'];
+export type IntegrityReportRow = Tables['video_integrity_reports']['Row'];
+export type PasswordResetRow = Tables['password_resets']['Row'];
+
+export type VersionedTable = 'courses' | 'lessons' | 'student_progress';
+export type SyncTable = VersionedTable | 'profiles' | 'sync_tombstones';
+
+// Key column of each table that can be pushed to.
+export const KEY_COLUMNS: Record<VersionedTable | 'profiles', string> = {
+    courses: 'id',
+    lessons: 'id',
+    student_progress: 'student_id',
+    profiles: 'id',
+};
+
+// A course or lesson change as it happens on the server. Deletions carry only the key.
+export type ContentChange =
+    | { type: 'upsert'; table: 'courses'; row: Tables['courses']['Row'] }
+    | { type: 'upsert'; table: 'lessons'; row: Tables['lessons']['Row'] }
+    | { type: 'delete'; table: 'courses' | 'lessons'; id: string };
+
+export type PushResult<Row> =
+    | { status: 'ok'; version: number }
+    | { status: 'conflict'; serverRow: Row | null };
+
+// Errors thrown by adapters carry a Postgres error code (or HTTP status) when the server
+// rejected the request. Requests that never reached the server reject as fetch does, with a
+// TypeError (see isNetworkError in syncService).
+export interface BackendError extends Error {
+    code?: string;
+}
+
+// Postgres error code for a primary key clash, i.e. the row was already created elsewhere.
+export const UNIQUE_VIOLATION = '23505';
+
+// Signing in to an account an administrator deactivated (Supabase Auth calls it banned).
+export const ACCOUNT_DEACTIVATED = 'ACCOUNT_DEACTIVATED';
+
+export interface AuthBackend {
+    // Both return the id of the signed-in user.
+    signUp(email: string, password: string, username: string): Promise<string>;
+    signIn(email: string, password: string): Promise<string>;
+    signOut(): Promise<void>;
+    getSessionUserId(): Promise<string | null>;
+    // For handing the device to someone else without signing out: forgets the session on
+    // this device, without revoking it, and returns it in a form resumeSession takes back.
+    // Null when nobody is signed in.
+    suspendSession(): Promise<string | null>;
+    // Makes a suspended session current again and returns its user id.
+    resumeSession(saved: string): Promise<string>;
+    getProfile(userId: string): Promise<ProfileRow | null>;
+    createProfile(profile: ProfileInsert): Promise<ProfileRow>;
+    // Sets the signed-in user's password and clears their must_change_password. Returns
+    // the updated profile.
+    changePassword(newPassword: string): Promise<ProfileRow>;
+}
+
+// Pushes write a row only if the server still holds `baseVersion` (or, without one, only if
+// the row doesn't exist yet). Otherwise they return the server's current row, or null if
+// it was deleted.
+export interface ContentBackend {
+    pushCourse(row: Tables['courses']['Insert'], baseVersion?: number): Promise<PushResult<Tables['courses']['Row']>>;
+    pushLesson(row: Tables['lessons']['Insert'], baseVersion?: number): Promise<PushResult<Tables['lessons']['Row']>>;
+    // Each removes the record (a course together with its lessons) and drops it from every
+    // student's course_progress, all in one server-side transaction.
+    deleteCourse(courseId: string): Promise<void>;
+    deleteLesson(lessonId: string): Promise<void>;
+}
+
+export interface ProgressBackend {
+    pushProgress(row: Tables['student_progress']['Insert'], baseVersion?: number): Promise<PushResult<Tables['student_progress']['Row']>>;
+}
+
+// Reads only return what the signed-in user may see (see services/syncScope.ts).
+export interface ChangesBackend {
+    // Rows changed after `since` (all rows without it), oldest first. Tombstones are
+    // ordered by `deleted_at`, everything else by `updated_at`.
+    fetchChangedRows<T extends SyncTable>(table: T, since?: string): Promise<Tables[T]['Row'][]>;
+    fetchLatestTombstone(): Promise<TombstoneRow | null>;
+    // All rows belonging to records that just came into scope, however old they are.
+    fetchLessonsOfCourses(courseIds: string[]): Promise<Tables['lessons']['Row'][]>;
+    fetchProgressOfStudents(studentIds: string[]): Promise<Tables['student_progress']['Row'][]>;
+    // The course or lesson as the user sees it now, or null if it's gone or out of scope.
+    fetchContentRow<T extends 'courses' | 'lessons'>(table: T, id: string): Promise<Tables[T]['Row'] | null>;
+}
+
+// Students' reports on the videos kept on their devices (see services/integrityService.ts).
+export interface IntegrityBackend {
+    // Replaces the student's earlier report on the same lesson.
+    reportVideoIntegrity(row: Tables['video_integrity_reports']['Insert']): Promise<void>;
+    // The signed-in user's own reports or, for teachers, those of their class's students.
+    fetchVideoIntegrityReports(): Promise<IntegrityReportRow[]>;
+}
+
+export interface NewStudentAccount {
+    username: string; // Lowercase letters and digits; the account signs in as <username>@vidyalehar.local
+    password: string;
+    fullName: string;
+    class: number;
+    rollNumber: string | null;
+}
+
+// Accounts a teacher makes for others, created on the server so the teacher stays signed in.
+export interface AccountsBackend {
+    // A student of the signed-in teacher's own class. Throws a UNIQUE_VIOLATION when the
+    // username is taken.
+    createStudentAccount(account: NewStudentAccount): Promise<ProfileRow>;
+    // Gives a student of the signed-in teacher's class a new password, which they must
+    // change at their next sign-in, and ends their sessions. Every reset is logged.
+    resetStudentPassword(studentId: string, newPassword: string): Promise<void>;
+    // The log of resets of the teacher's class's students, newest first.
+    fetchPasswordResets(): Promise<PasswordResetRow[]>;
+    // For administrators: approves a pending teacher ('active'), or deactivates or
+    // reactivates any account but their own. A deactivated account can't sign in.
+    setAccountStatus(userId: string, status: 'active' | 'deactivated'): Promise<ProfileRow>;
+    assignTeacherClass(userId: string, classNumber: number): Promise<ProfileRow>;
+}
+
+export interface RealtimeBackend {
+    // Calls `onChange` for each change the signed-in user may see, in the order they were
+    // made. Changes made while not subscribed are missed, so a sync down is still needed
+    // after (re)connecting. Returns a function that ends the subscription.
+    subscribeToContent(onChange: (change: ContentChange) => void): () => void;
+}
+
+// Teacher-uploaded videos go up in chunks of this size (only the last may be smaller), the
+// size Supabase's resumable upload endpoint requires.
+export const VIDEO_CHUNK_SIZE = 6 * 1024 * 1024;
+
+export interface RangeResult {
+    chunk: Blob;
+    total: number | null; // Size of the whole file, or null if the server doesn't say
+}
+
+// A range request for content on the web, for adapters to share. Servers that ignore the
+// Range header send the whole file, which is cut down to the range asked for.
+// A response the server refused, with its status as the code so it counts as a failed attempt.
+export const httpError = (response: Response): BackendError =>
+    Object.assign(new Error(`Fetch failed: ${response.statusText}`), { code: String(response.status) });
+
+export const fetchRange = async (url: string, start: number, end: number, signal?: AbortSignal): Promise<RangeResult> => {
+    const response = await fetch(url, { headers: { Range: `bytes=${start}-${end - 1}` }, signal });
+    // Asking from the end of a file whose size wasn't known.
+    if (response.status === 416) return { chunk: new Blob([]), total: start };
+    if (!response.ok) throw httpError(response);
+    const body = await response.blob();
+    if (response.status !== 206) return { chunk: body.slice(start, end, body.type), total: body.size };
+    const total = Number(response.headers.get('content-range')?.split('/')[1]);
+    return { chunk: body, total: Number.isNaN(total) ? null : total };
+};
+
+export interface StorageBackend {
+    // Fetches content the lesson links to on the web.
+    download(url: string): Promise<Blob>;
+    // The size download(url) would fetch, or null if the server doesn't say.
+    getDownloadSize(url: string): Promise<number | null>;
+    // Bytes [start, end) of what download(url) would fetch, fewer at the end of the file.
+    downloadRange(url: string, start: number, end: number, signal?: AbortSignal): Promise<RangeResult>;
+    // Resumable uploads to shared storage, at `path`. An upload outlives the page and can be
+    // continued from another device; getUploadOffset returns null once it has expired.
+    startVideoUpload(path: string, size: number, contentType: string): Promise<string>;
+    getUploadOffset(uploadId: string): Promise<number | null>;
+    // Returns the new offset.
+    uploadVideoChunk(uploadId: string, offset: number, chunk: Blob): Promise<number>;
+    // A URL the video at `path` can be downloaded from (in ranges) for `expiresIn` seconds.
+    getVideoUrl(path: string, expiresIn: number): Promise<string>;
+    // Deletes the videos stored under `folder` (at any depth), except the one at `keep`.
+    deleteVideos(folder: string, keep?: string): Promise<void>;
+}
+
+export interface SyncBackend {
+    name: string;
+    auth: AuthBackend;
+    content: ContentBackend;
+    progress: ProgressBackend;
+    changes: ChangesBackend;
+    realtime: RealtimeBackend;
+    storage: StorageBackend;
+    integrity: IntegrityBackend;
+    accounts: AccountsBackend;
+}
@@ -0,0 +1,136 @@
+import 'fake-indexeddb/auto';
+import Dexie from 'dexie';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setSyncBackend } from './backend';
+import { createLocalBackend } from './localBackend';
+import { register } from './authService';
+import { saveCourse, saveLesson, updateQuizProgress } from './offlineContentService';
+import { exportChangesBundle, exportContentBundle, importSyncBundle, readSyncBundle, type SyncBundle } from './syncBundleService';
+import { DB_NAME, db } from './db';
+import { UserRole } from '../constants';
+
+// The Supabase client needs a WebSocket, which Node 20 doesn't have; these tests don't use it.
+vi.mock('./supabaseBackend', () => ({ supabaseBackend: {} }));
+
+let serverName: string;
+let serverCount = 0;
+
+beforeEach(async () => {
+    await db.open();
+    serverName = `test-server-${++serverCount}`;
+    setSyncBackend(createLocalBackend(serverName));
+});
+
+afterEach(async () => {
+    db.close();
+    await Dexie.delete(DB_NAME);
+    await Dexie.delete(serverName);
+});
+
+// What another device knows: neither this device's signing key nor its bundles.
+const moveToAnotherDevice = () => Promise.all([db.deviceKeys.clear(), db.syncBundles.clear(), db.syncQueue.clear()]);
+
+// Replaces bytes of a file with others of the same length.
+const tamper = async (file: Blob, from: string, to: string) => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const text = new TextDecoder('latin1').decode(bytes);
+    const at = text.indexOf(from);
+    expect(at).toBeGreaterThan(0);
+    bytes.set(new TextEncoder().encode(to), at);
+    return new Blob([bytes]);
+};
+
+// A bundle another device signed with a key of its own, holding whatever it likes.
+const forgeBundle = async (parts: Pick<SyncBundle, 'signer' | 'actions' | 'progress'>) => {
+    const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+    const unsigned = {
+        format: 'vidyalehar-sync-bundle',
+        formatVersion: 1,
+        id: crypto.randomUUID(),
+        kind: 'changes',
+        createdAt: Date.now(),
+        signer: { ...parts.signer, publicKey: await crypto.subtle.exportKey('jwk', keyPair.publicKey) },
+        actions: parts.actions,
+        progress: parts.progress,
+        content: null,
+        videos: [],
+    };
+    const signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, keyPair.privateKey, new TextEncoder().encode(JSON.stringify(unsigned)));
+    const manifest = new TextEncoder().encode(JSON.stringify({ ...unsigned, signature: btoa(String.fromCharCode(...new Uint8Array(signature))) }));
+    const header = new Uint8Array(12);
+    header.set(new TextEncoder().encode('VLBUNDLE'));
+    new DataView(header.buffer).setUint32(8, manifest.length);
+    return new Blob([header, manifest]);
+};
+
+describe('changes bundles', () => {
+    it("hand a student's quiz attempts to another device, which trusts the signer from then on", async () => {
+        const student = await register('asha', 'secret1', UserRole.STUDENT, 6);
+        await updateQuizProgress(student.id, 'asha', 'course-1', 'lesson-1', 80);
+
+        const file = await exportChangesBundle(student);
+        expect(await db.syncQueue.count()).toBe(0);
+
+        await moveToAnotherDevice();
+        const read = await readSyncBundle(file!);
+        expect(read).toMatchObject({ isTrusted: false, alreadyImported: false, bundle: { signer: { userId: student.id } } });
+        expect(await importSyncBundle(read)).toEqual({ actions: 1, courses: 0, progress: 1, videos: 0 });
+        expect(await db.syncQueue.toArray()).toMatchObject([{ type: 'UPDATE_PROGRESS', payload: { studentId: student.id, pendingAttempts: { 'lesson-1': 1 } } }]);
+
+        expect(await readSyncBundle(file!)).toMatchObject({ isTrusted: true, alreadyImported: true, fingerprint: read.fingerprint });
+    });
+
+    it('are null without anything of the student to hand over', async () => {
+        const student = await register('asha', 'secret1', UserRole.STUDENT, 6);
+        await updateQuizProgress('ravi', 'ravi', 'course-1', 'lesson-1', 80);
+
+        expect(await exportChangesBundle(student)).toBeNull();
+        expect(await db.syncQueue.count()).toBe(1);
+    });
+
+    it('are refused once changed on the way', async () => {
+        const student = await register('asha', 'secret1', UserRole.STUDENT, 6);
+        await updateQuizProgress(student.id, 'asha', 'course-1', 'lesson-1', 80);
+        const file = await exportChangesBundle(student);
+
+        await expect(readSyncBundle(await tamper(file!, '"finalScore":80', '"finalScore":99'))).rejects.toThrow(/signature is invalid/);
+        await expect(readSyncBundle(new Blob(['Not a bundle at all']))).rejects.toThrow(/not a VidyaLehar sync bundle/);
+    });
+
+    it("bring in only the signer's own progress and reports", async () => {
+        const progress = (studentId: string) => ({ studentId, studentName: studentId, courseProgress: [], scoreHistory: [], pendingAttempts: { 'lesson-1': 1 } });
+        const file = await forgeBundle({
+            signer: { userId: 'asha', username: 'asha', publicKey: {} },
+            actions: [
+                { type: 'UPDATE_PROGRESS', payload: progress('asha'), timestamp: 1 },
+                { type: 'UPDATE_PROGRESS', payload: progress('ravi'), timestamp: 2 },
+                { type: 'DELETE_COURSE', payload: { id: 'course-1' }, timestamp: 3 },
+            ],
+            progress: [progress('asha'), progress('ravi')],
+        });
+
+        const summary = await importSyncBundle(await readSyncBundle(file));
+
+        expect(summary).toMatchObject({ actions: 1, progress: 1 });
+        expect(await db.syncQueue.toArray()).toMatchObject([{ type: 'UPDATE_PROGRESS', payload: { studentId: 'asha' } }]);
+        expect(await db.studentProgress.toCollection().primaryKeys()).toEqual(['asha']);
+    });
+});
+
+describe('content bundles', () => {
+    it('carry the videos, checked against the signed hashes', async () => {
+        const teacher = await register('teacher', 'secret1', UserRole.TEACHER, 6);
+        const course = await saveCourse({ title: 'Maths', description: 'Numbers', icon: 'Calculator', forClass: 6 }, teacher.id);
+        const video = new File([new TextEncoder().encode('the video of fractions')], 'fractions.mp4', { type: 'video/mp4' });
+        const lesson = await saveLesson(course.id, { title: 'Fractions', content: 'Halves', quiz: [] }, video);
+        const file = await exportContentBundle(teacher, [6]);
+
+        await expect(readSyncBundle(await tamper(file, 'the video of fractions', 'the video of decimals'))).rejects.toThrow(/signature is invalid/);
+
+        await Promise.all([db.courses.clear(), db.lessons.clear(), db.videos.clear(), db.downloads.clear()]);
+        await moveToAnotherDevice();
+        expect(await importSyncBundle(await readSyncBundle(file))).toEqual({ actions: 0, courses: 1, progress: 0, videos: 1 });
+        expect(await db.lessons.get(lesson.id)).toMatchObject({ title: 'Fractions', hasOfflineVideo: true });
+        expect(await (await db.videos.get(lesson.id))!.blob.text()).toBe('the video of fractions');
+    });
+});
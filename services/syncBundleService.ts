@@ -0,0 +1,384 @@
+import { db, type SyncQueueItem, type SyncBundleRecord } from './db';
+import { compactSyncQueue, subtractAttempts } from './syncService';
+import { mergeStudentProgress } from './conflictService';
+import { getLessonsOfCourse, toStoredLesson, withLessons, deleteLessonsOfCourses } from './lessonStore';
+import { downloadRecordFor, hashBlob } from './storageService';
+import type { Course, Lesson, StudentProgress, User } from '../types';
+
+// "Sneakernet" sync for places with no connectivity: changes are written to a signed file,
+// carried on a USB stick or sent over Bluetooth, and imported on another device.
+// - A changes bundle hands a student's queued quiz attempts and video reports to a connected
+//   device, which replays them through processSyncQueue as if they had been queued there.
+//   That device pushes them under its own user's session, so it only takes the signer's own
+//   progress and reports from a bundle: anything else would be done in that user's name.
+// - A content bundle carries a teacher's classes (courses, lessons and videos) the other
+//   way, into student devices that never get online.
+//
+// A bundle file is a short header, the signed manifest (a SyncBundle) and the videos as raw
+// bytes, so that neither writing nor reading one holds a whole video in memory as text:
+//   "VLBUNDLE" | manifest length (uint32, big-endian) | manifest JSON (UTF-8) | videos...
+// The videos follow in manifest order, each listed there with its size and SHA-256, which
+// the signature covers.
+
+const BUNDLE_FORMAT = 'vidyalehar-sync-bundle';
+const BUNDLE_FORMAT_VERSION = 1;
+const ARCHIVE_MAGIC = 'VLBUNDLE';
+const HEADER_BYTES = ARCHIVE_MAGIC.length + 4;
+export const BUNDLE_FILE_TYPE = 'application/vnd.vidyalehar.bundle';
+const SIGNING_KEY_ID = 'bundle-signing';
+const SIGNATURE_ALGORITHM = { name: 'ECDSA', hash: 'SHA-256' };
+
+export type SyncBundleKind = SyncBundleRecord['kind'];
+
+// The actions a bundle can carry: those a signer can only make for themselves.
+const BUNDLED_ACTION_TYPES: SyncQueueItem['type'][] = ['UPDATE_PROGRESS', 'REPORT_VIDEO_INTEGRITY'];
+
+const isOwnAction = (action: Pick<SyncQueueItem, 'type' | 'payload'>, userId: string) =>
+    BUNDLED_ACTION_TYPES.includes(action.type) && action.payload?.studentId === userId;
+
+// Retry state stays behind on the exporting device.
+export type BundledAction = Pick<SyncQueueItem, 'type' | 'payload' | 'timestamp'>;
+
+export interface BundledVideo {
+    lessonId: string;
+    type: string;
+    path?: string; // As in db.videos
+    size: number;
+    sha256: string;
+}
+
+export interface SyncBundle {
+    format: typeof BUNDLE_FORMAT;
+    formatVersion: number;
+    id: string;
+    kind: SyncBundleKind;
+    createdAt: number;
+    signer: { userId: string; username: string; publicKey: JsonWebKey };
+    actions: BundledAction[];
+    progress: StudentProgress[];
+    // Every course of these classes, so courses missing from it are known to be deleted.
+    content: { forClasses: number[]; courses: Course[] } | null;
+    videos: BundledVideo[];
+    // ECDSA P-256 signature over the JSON of all the fields above, in this order.
+    signature: string;
+}
+
+export interface ReadBundleResult {
+    bundle: SyncBundle;
+    fingerprint: string; // Of the signing key, for the user to compare
+    isTrusted: boolean; // Signed by this device or by a key accepted before
+    alreadyImported: boolean;
+    videoFiles: Blob[]; // The bytes of bundle.videos, in the same order
+}
+
+export interface BundleImportSummary {
+    actions: number;
+    courses: number;
+    progress: number;
+    videos: number;
+}
+
+// --- Encoding & signing ---
+
+const toBase64 = (bytes: Uint8Array) => {
+    let binary = '';
+    // Chunked, since spreading a large video into String.fromCharCode overflows the stack.
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const fromBase64 = (data: string) => Uint8Array.from(atob(data), c => c.charCodeAt(0));
+
+const getSigningKeyPair = async (): Promise<CryptoKeyPair> => {
+    const stored = await db.deviceKeys.get(SIGNING_KEY_ID);
+    if (stored) return stored.keyPair;
+    const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']);
+    await db.deviceKeys.put({ id: SIGNING_KEY_ID, keyPair });
+    return keyPair;
+};
+
+const getFingerprint = async (publicKey: JsonWebKey) => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${publicKey.crv}:${publicKey.x}:${publicKey.y}`));
+    const hex = [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+    return hex.slice(0, 16).match(/.{4}/g)!.join('-');
+};
+
+const signBundle = async (unsigned: Omit<SyncBundle, 'signature'>, privateKey: CryptoKey): Promise<string> => {
+    const signature = await crypto.subtle.sign(SIGNATURE_ALGORITHM, privateKey, new TextEncoder().encode(JSON.stringify(unsigned)));
+    return JSON.stringify({ ...unsigned, signature: toBase64(new Uint8Array(signature)) });
+};
+
+// JSON.parse keeps the key order of the file, so re-serialising without the signature
+// reproduces exactly the bytes that were signed.
+const verifyBundle = async (bundle: SyncBundle): Promise<boolean> => {
+    const { signature, ...unsigned } = bundle;
+    try {
+        const publicKey = await crypto.subtle.importKey('jwk', bundle.signer.publicKey, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+        return await crypto.subtle.verify(SIGNATURE_ALGORITHM, publicKey, fromBase64(signature), new TextEncoder().encode(JSON.stringify(unsigned)));
+    } catch {
+        return false;
+    }
+};
+
+const NOT_A_BUNDLE = 'This file is not a VidyaLehar sync bundle.';
+const DAMAGED_BUNDLE = 'The bundle\'s signature is invalid. It may have been changed or damaged on the way.';
+
+const writeArchive = (manifest: string, videos: Blob[]): Blob => {
+    const manifestBytes = new TextEncoder().encode(manifest);
+    const header = new Uint8Array(HEADER_BYTES);
+    header.set(new TextEncoder().encode(ARCHIVE_MAGIC));
+    new DataView(header.buffer).setUint32(ARCHIVE_MAGIC.length, manifestBytes.length);
+    return new Blob([header, manifestBytes, ...videos], { type: BUNDLE_FILE_TYPE });
+};
+
+// The manifest as parsed (not yet checked), and slices of the file for its videos.
+const readArchive = async (file: Blob): Promise<{ manifest: any; videoFiles: Blob[] }> => {
+    const header = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+    if (new TextDecoder().decode(header.subarray(0, ARCHIVE_MAGIC.length)) !== ARCHIVE_MAGIC) {
+        throw new Error(NOT_A_BUNDLE);
+    }
+    const manifestEnd = HEADER_BYTES + new DataView(header.buffer).getUint32(ARCHIVE_MAGIC.length);
+    const manifest = JSON.parse(await file.slice(HEADER_BYTES, manifestEnd).text());
+    let offset = manifestEnd;
+    const videoFiles = (manifest?.videos ?? []).map((video: BundledVideo) => file.slice(offset, offset += video.size, video.type));
+    if (offset !== file.size) throw new Error(DAMAGED_BUNDLE);
+    return { manifest, videoFiles };
+};
+
+// --- Export ---
+
+// The stored videos of the given lessons; with a path, only that file of the lesson.
+const collectVideos = async (wanted: { lessonId: string; path?: string }[]) => {
+    const manifest: BundledVideo[] = [];
+    const files: Blob[] = [];
+    for (const { lessonId, path } of wanted) {
+        if (manifest.some(video => video.lessonId === lessonId)) continue;
+        const video = await db.videos.get(lessonId);
+        if (!video || (path && video.path !== path)) continue;
+        manifest.push({ lessonId, type: video.blob.type, path: video.path, size: video.blob.size, sha256: await hashBlob(video.blob) });
+        files.push(video.blob);
+    }
+    return { manifest, files };
+};
+
+const createBundle = async (
+    user: User,
+    kind: SyncBundleKind,
+    parts: Pick<SyncBundle, 'actions' | 'progress' | 'content'>,
+    videos: Awaited<ReturnType<typeof collectVideos>>
+): Promise<{ bundle: Omit<SyncBundle, 'signature'>; file: Blob }> => {
+    const keyPair = await getSigningKeyPair();
+    const bundle: Omit<SyncBundle, 'signature'> = {
+        format: BUNDLE_FORMAT,
+        formatVersion: BUNDLE_FORMAT_VERSION,
+        id: crypto.randomUUID(),
+        kind,
+        createdAt: Date.now(),
+        signer: { userId: user.id, username: user.username, publicKey: await crypto.subtle.exportKey('jwk', keyPair.publicKey) },
+        ...parts,
+        videos: videos.manifest,
+    };
+    return { bundle, file: writeArchive(await signBundle(bundle, keyPair.privateKey), videos.files) };
+};
+
+const recordExport = async (bundle: Omit<SyncBundle, 'signature'>, file: Blob) => {
+    await db.syncBundles.put({
+        id: bundle.id,
+        direction: 'exported',
+        kind: bundle.kind,
+        signerName: bundle.signer.username,
+        createdAt: bundle.createdAt,
+        handledAt: Date.now(),
+        file,
+    });
+};
+
+// Hands the user's own waiting actions over to a bundle and returns the file, or null if
+// there are none. The actions leave the queue, so they aren't pushed a second time when this
+// device gets online itself; the bundle is kept locally in case the file has to be written
+// again. Other users' actions on a shared device stay queued.
+export const exportChangesBundle = async (user: User): Promise<Blob | null> => {
+    await compactSyncQueue();
+    const queued = (await db.syncQueue.orderBy('timestamp').toArray()).filter(a => isOwnAction(a, user.id));
+    if (queued.length === 0) return null;
+    const progress = await db.studentProgress.where('studentId').equals(user.id).toArray();
+
+    const { bundle, file } = await createBundle(user, 'changes', {
+        actions: queued.map(({ type, payload, timestamp }) => ({ type, payload, timestamp })),
+        // Attempts that haven't reached the server travel in the queued actions, not here.
+        progress: progress.map(({ pendingAttempts, ...snapshot }) => snapshot),
+        content: null,
+    }, { manifest: [], files: [] });
+
+    await db.transaction('rw', db.syncQueue, db.studentProgress, db.syncBundles, async () => {
+        await db.syncQueue.bulkDelete(queued.map(a => a.id!));
+        // The handed-off attempts are no longer this device's to push or merge.
+        for (const action of queued.filter(a => a.type === 'UPDATE_PROGRESS')) {
+            await db.studentProgress
+                .where('studentId').equals(action.payload.studentId)
+                .modify(p => { p.pendingAttempts = subtractAttempts(p.pendingAttempts, action.payload.pendingAttempts); });
+        }
+        await recordExport(bundle, file);
+    });
+    return file;
+};
+
+// The content this device has for the given classes, for student devices that can't sync.
+// No progress: the file can be copied to any device, and students' records stay on theirs.
+export const exportContentBundle = async (user: User, forClasses: number[]): Promise<Blob> => {
+    const courses = await withLessons(await db.courses.where('forClass').anyOf(forClasses).toArray());
+
+    const lessons = courses.flatMap(c => c.lessons).filter(l => l.hasOfflineVideo);
+    const { bundle, file } = await createBundle(user, 'content', {
+        actions: [],
+        progress: [],
+        content: { forClasses, courses },
+    }, await collectVideos(lessons.map(l => ({ lessonId: l.id }))));
+    await recordExport(bundle, file);
+    return file;
+};
+
+export const getExportedBundles = (): Promise<SyncBundleRecord[]> => {
+    return db.syncBundles.where('direction').equals('exported').reverse().sortBy('handledAt');
+};
+
+// --- Import ---
+
+// Validates a bundle file and checks its signature. Nothing is applied yet, so the caller
+// can ask the user before accepting a key this device hasn't seen.
+export const readSyncBundle = async (file: Blob): Promise<ReadBundleResult> => {
+    let archive: Awaited<ReturnType<typeof readArchive>>;
+    try {
+        archive = await readArchive(file);
+    } catch (error: any) {
+        throw new Error(error?.message === DAMAGED_BUNDLE ? DAMAGED_BUNDLE : NOT_A_BUNDLE);
+    }
+    const bundle: SyncBundle = archive.manifest;
+    if (bundle?.format !== BUNDLE_FORMAT) {
+        throw new Error(NOT_A_BUNDLE);
+    }
+    if (bundle.formatVersion > BUNDLE_FORMAT_VERSION) {
+        throw new Error('This bundle was made by a newer version of the app. Please update the app first.');
+    }
+    if (!await verifyBundle(bundle)) {
+        throw new Error(DAMAGED_BUNDLE);
+    }
+
+    const { videoFiles } = archive;
+    for (const [i, video] of bundle.videos.entries()) {
+        if (await hashBlob(videoFiles[i]) !== video.sha256) throw new Error(DAMAGED_BUNDLE);
+    }
+
+    const fingerprint = await getFingerprint(bundle.signer.publicKey);
+    const ownKeyPair = await getSigningKeyPair();
+    const isOwnKey = fingerprint === await getFingerprint(await crypto.subtle.exportKey('jwk', ownKeyPair.publicKey));
+    const isTrusted = isOwnKey || !!await db.bundleSigners.get(fingerprint);
+    const alreadyImported = !!await db.syncBundles.get(bundle.id);
+    return { bundle, fingerprint, isTrusted, alreadyImported, videoFiles };
+};
+
+const hasPendingAttempts = (progress?: StudentProgress) =>
+    !!progress?.pendingAttempts && Object.keys(progress.pendingAttempts).length > 0;
+
+// Keeps whichever copy of each record has the higher server version; ties go to the bundle.
+const newerOf = <T extends { version?: number }>(local: T | undefined, incoming: T) =>
+    !local || (incoming.version ?? 0) >= (local.version ?? 0) ? incoming : local;
+
+const applyProgressSnapshots = async (snapshots: StudentProgress[]) => {
+    for (const snapshot of snapshots) {
+        const local = await db.studentProgress.get(snapshot.studentId);
+        if (newerOf(local, snapshot) === local) continue;
+        // Quiz attempts made here that haven't been pushed yet are kept.
+        await db.studentProgress.put(hasPendingAttempts(local) ? mergeStudentProgress(snapshot, local!) : snapshot);
+    }
+};
+
+// Deletions can't be told from versions, so records missing from the bundle are only
+// removed when the bundle is newer than what this device last downloaded from the server.
+const applyContentSnapshot = async (content: NonNullable<SyncBundle['content']>, createdAt: number, videoLessonIds: Set<string>) => {
+    const checkpoints = await db.syncCheckpoints.bulkGet(['courses', 'lessons']);
+    const lastSyncedAt = Math.min(...checkpoints.map(c => c?.syncedAt ?? 0));
+    const bundleIsNewer = createdAt > lastSyncedAt;
+
+    const pending = await db.syncQueue.toArray();
+    const pendingCourseIds = new Set(pending.flatMap(a =>
+        a.type === 'SAVE_COURSE' ? [a.payload.id] : a.type === 'SAVE_LESSON' ? [a.payload.course_id] : []
+    ));
+
+    // Whether the sender evicted its copy of a video says nothing about this device.
+    const withVideoFlag = (lesson: Lesson) => ({ ...lesson, hasOfflineVideo: videoLessonIds.has(lesson.id) || lesson.hasOfflineVideo, videoEvicted: false });
+
+    for (const incoming of content.courses) {
+        // Local edits that haven't been pushed win; they'll conflict or merge on the server.
+        if (pendingCourseIds.has(incoming.id)) continue;
+        const { lessons: incomingLessons, ...incomingCourse } = incoming;
+        const local = await db.courses.get(incoming.id);
+        const localLessons = await getLessonsOfCourse(incoming.id);
+        // Bundles made before lessons had an explicit order list them in order.
+        await db.lessons.bulkPut(incomingLessons.flatMap((incomingLesson, index) => {
+            const localLesson = localLessons.find(l => l.id === incomingLesson.id);
+            if (newerOf(localLesson, incomingLesson) === localLesson) return [];
+            return [toStoredLesson(withVideoFlag(incomingLesson), incoming.id, incomingLesson.order ?? index)];
+        }));
+        if (bundleIsNewer) {
+            const incomingLessonIds = new Set(incomingLessons.map(l => l.id));
+            await db.lessons.bulkDelete(localLessons.filter(l => !incomingLessonIds.has(l.id)).map(l => l.id));
+        }
+        await db.courses.put(newerOf(local, incomingCourse));
+    }
+
+    if (bundleIsNewer) {
+        const incomingIds = new Set(content.courses.map(c => c.id));
+        const removed = await db.courses
+            .where('forClass').anyOf(content.forClasses)
+            .filter(c => !incomingIds.has(c.id) && !pendingCourseIds.has(c.id))
+            .primaryKeys();
+        await db.courses.bulkDelete(removed);
+        await deleteLessonsOfCourses(removed);
+    }
+};
+
+// Applies a bundle returned by readSyncBundle. Its actions join this device's sync queue
+// with their original timestamps, so the next sync pushes them in the order they were made.
+// Actions and progress that aren't the signer's own are skipped (see the top of this file).
+export const importSyncBundle = async ({ bundle, fingerprint, videoFiles }: ReadBundleResult): Promise<BundleImportSummary> => {
+    const actions = bundle.actions.filter(a => isOwnAction(a, bundle.signer.userId));
+    const progress = bundle.progress.filter(p => p.studentId === bundle.signer.userId);
+    const videos = bundle.videos.map((v, i) => ({ id: v.lessonId, blob: videoFiles[i], path: v.path }));
+    // Videos without a path came from the lesson's link.
+    const bundledLessons = new Map(bundle.content?.courses.flatMap(c => c.lessons).map(l => [l.id, l]));
+    const localLessons = await db.lessons.bulkGet(videos.map(v => v.id));
+    const records = await Promise.all(videos.map((video, i) => downloadRecordFor(video,
+        video.path ?? bundledLessons.get(video.id)?.videoUrl ?? localLessons[i]?.videoUrl ?? '', bundle.videos[i].sha256)));
+    const videoLessonIds = new Set(videos.map(v => v.id));
+
+    await db.transaction('rw', [db.syncQueue, db.courses, db.lessons, db.studentProgress, db.videos, db.downloads, db.syncCheckpoints, db.syncBundles, db.bundleSigners], async () => {
+        if (await db.syncBundles.get(bundle.id)) {
+            throw new Error('This bundle has already been imported on this device.');
+        }
+        await db.syncQueue.bulkAdd(actions.map(({ type, payload, timestamp }) => ({ type, payload, timestamp })));
+        if (bundle.content) await applyContentSnapshot(bundle.content, bundle.createdAt, videoLessonIds);
+        await applyProgressSnapshots(progress);
+        await db.videos.bulkPut(videos);
+        await db.downloads.bulkPut(records);
+
+        await db.syncBundles.put({
+            id: bundle.id,
+            direction: 'imported',
+            kind: bundle.kind,
+            signerName: bundle.signer.username,
+            createdAt: bundle.createdAt,
+            handledAt: Date.now(),
+        });
+        await db.bundleSigners.put({ fingerprint, userId: bundle.signer.userId, username: bundle.signer.username, trustedAt: Date.now() });
+    });
+
+    return {
+        actions: actions.length,
+        courses: bundle.content?.courses.length ?? 0,
+        progress: progress.length,
+        videos: videos.length,
+    };
+};
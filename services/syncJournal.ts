@@ -0,0 +1,51 @@
+import { db, type SyncJournalEntry } from './db';
+
+// A record of what each sync did on this device: every queued action pushed (or not), every
+// sync down and video download, with its outcome and size. It answers support questions
+// like "where did this quiz score go?", which the console can't once the page is closed.
+
+// The oldest entries are dropped beyond this, which covers weeks of normal use.
+const MAX_JOURNAL_ENTRIES = 5000;
+
+// Size of a row or payload as sent over the wire, near enough.
+export const jsonBytes = (value: unknown): number => new TextEncoder().encode(JSON.stringify(value) ?? '').length;
+
+// Journaling must never make a sync fail, so errors are only logged.
+export const recordSyncEvent = async (entry: Omit<SyncJournalEntry, 'id'>): Promise<void> => {
+    try {
+        await db.transaction('rw', db.syncJournal, async () => {
+            await db.syncJournal.add(entry);
+            const excess = await db.syncJournal.count() - MAX_JOURNAL_ENTRIES;
+            if (excess > 0) {
+                await db.syncJournal.orderBy('at').limit(excess).delete();
+            }
+        });
+    } catch (error) {
+        console.error('Failed to record a sync journal entry:', error);
+    }
+};
+
+// Newest first.
+export const getSyncJournal = (limit = 200): Promise<SyncJournalEntry[]> => {
+    return db.syncJournal.orderBy('at').reverse().limit(limit).toArray();
+};
+
+// The whole journal, plus what is still waiting to sync, as a JSON file for support.
+export const exportSyncJournal = async (): Promise<string> => {
+    const [entries, queue, deadLetters] = await Promise.all([
+        db.syncJournal.orderBy('at').toArray(),
+        db.syncQueue.orderBy('timestamp').toArray(),
+        db.deadLetters.toArray(),
+    ]);
+    const summarize = ({ type, timestamp, attempts, lastError, payload }: typeof queue[number]) =>
+        ({ type, timestamp, attempts, lastError, bytes: jsonBytes(payload) });
+
+    return JSON.stringify({
+        format: 'vidyalehar-sync-journal',
+        exportedAt: new Date().toISOString(),
+        userAgent: globalThis.navigator?.userAgent,
+        pendingActions: queue.map(summarize),
+        failedActions: deadLetters.map(summarize),
+        entries,
+    }, null, 2);
+};
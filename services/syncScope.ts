@@ -0,0 +1,40 @@
+import type { Database } from './supabaseClient';
+
+// What a user's device keeps a copy of. Mirrors the row-level security policies in
+// supabase/migrations/004_scoped_sync.sql and 012_school_admin.sql; keep them in step.
+// - Students: their own profile and progress, and the courses of their class.
+// - Teachers: their own profile, the profiles and progress of their class's students,
+//   the courses of their class and every course they wrote.
+// - Administrators: everything.
+// A teacher waiting for approval, or a deactivated account, has no role here (like
+// current_profile_role on the server), so it keeps only what is its own.
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+export interface SyncScope {
+    userId: string;
+    role: Profile['role'] | null;
+    class: number;
+}
+
+// Profiles cached before accounts had a status are active.
+export const scopeFromProfile = (profile: Profile): SyncScope => ({
+    userId: profile.id,
+    role: (profile.status ?? 'active') === 'active' ? profile.role : null,
+    class: profile.class,
+});
+
+// Identifies a scope, so a device notices when it has to download everything again
+// (a different user signed in, the user moved to another class, or their role changed,
+// e.g. a teacher was approved).
+export const scopeKey = (scope: SyncScope): string => `${scope.userId}:${scope.role}:${scope.class}`;
+
+export const isCourseInScope = (scope: SyncScope, course: { forClass: number; authorId: string }): boolean =>
+    scope.role === 'Admin' || course.forClass === scope.class || course.authorId === scope.userId;
+
+export const isProfileInScope = (scope: SyncScope, profile: { id: string; class: number }): boolean =>
+    scope.role === 'Admin' || profile.id === scope.userId || (scope.role === 'Teacher' && profile.class === scope.class);
+
+// `studentClass` is undefined when the student's profile isn't known.
+export const isProgressInScope = (scope: SyncScope, studentId: string, studentClass?: number): boolean =>
+    scope.role === 'Admin' || studentId === scope.userId || (scope.role === 'Teacher' && studentClass === scope.class);
@@ -0,0 +1,314 @@
+import 'fake-indexeddb/auto';
+import Dexie from 'dexie';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setSyncBackend } from './backend';
+import { createLocalBackend } from './localBackend';
+import type { SyncBackend } from './syncBackend';
+import { login, register } from './authService';
+import { getCourse, saveCourse, saveLesson, updateQuizProgress } from './offlineContentService';
+import { compactSyncQueue, getDeadLetters, processSyncQueue, retryDeadLetter, syncDown } from './syncService';
+import { getSyncConflicts, resolveConflict } from './conflictService';
+import { courseToRow, progressToRow } from './rowMappers';
+import { DB_NAME, db, type SyncQueueItem } from './db';
+import { UserRole } from '../constants';
+
+// The Supabase client needs a WebSocket, which Node 20 doesn't have; these tests don't use it.
+vi.mock('./supabaseBackend', () => ({ supabaseBackend: {} }));
+
+// Each test gets a device database and a stand-in server of its own.
+let serverName: string;
+let serverCount = 0;
+let backend: SyncBackend;
+
+beforeEach(async () => {
+    await db.open();
+    serverName = `test-server-${++serverCount}`;
+    backend = createLocalBackend(serverName);
+    setSyncBackend(backend);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+    db.close();
+    await Dexie.delete(DB_NAME);
+    await Dexie.delete(serverName);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+// Edits a profile on the server directly, as an administrator would.
+const updateOnServer = async (userId: string, changes: Record<string, unknown>) => {
+    const server = new Dexie(serverName);
+    await server.open();
+    await server.table('profiles').update(userId, changes);
+    server.close();
+};
+
+// New teacher accounts wait for an administrator; this approves one.
+const signUpTeacher = async (classNumber: number, username = 'teacher') => {
+    const teacher = await register(username, 'secret1', UserRole.TEACHER, classNumber);
+    await updateOnServer(teacher.id, { status: 'active' });
+    return teacher;
+};
+
+const sync = async () => {
+    await processSyncQueue({ ignoreBackoff: true });
+    await syncDown();
+};
+
+describe('syncDown', () => {
+    it('keeps the lessons of a course the user still sees after it moved to another class', async () => {
+        const teacher = await signUpTeacher(6);
+        const course = await saveCourse({ title: 'Maths', description: 'Numbers', icon: 'Calculator', forClass: 6 }, teacher.id);
+        await saveLesson(course.id, { title: 'Fractions', content: 'Halves', quiz: [] });
+        await sync();
+        // Later than the overlap between syncs, so the next delta lists only this lesson.
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(Date.now() + 60 * 60 * 1000);
+        await saveLesson(course.id, { title: 'Decimals', content: 'Tenths', quiz: [] });
+        await sync();
+
+        // The move leaves a tombstone for class 6, in the same delta as the updated course.
+        await saveCourse({ ...course, forClass: 7 }, teacher.id);
+        await sync();
+
+        const moved = await getCourse(course.id);
+        expect(moved?.forClass).toBe(7);
+        expect(moved?.lessons.map(l => l.title)).toEqual(['Fractions', 'Decimals']);
+    });
+
+    it('marks the lessons whose video copies a rebuilt database kept', async () => {
+        const teacher = await signUpTeacher(6);
+        const course = await saveCourse({ title: 'Maths', description: 'Numbers', icon: 'Calculator', forClass: 6 }, teacher.id);
+        const video = new File([new Uint8Array(1_000)], 'fractions.mp4', { type: 'video/mp4' });
+        const lesson = await saveLesson(course.id, { title: 'Fractions', content: 'Halves', quiz: [] }, video);
+        await sync();
+
+        // What openLocalDatabase leaves after a rebuild: the copy and its record, no content.
+        await Promise.all([db.courses.clear(), db.lessons.clear(), db.syncCheckpoints.clear()]);
+        await syncDown();
+
+        expect(await db.lessons.get(lesson.id)).toMatchObject({ videoPath: lesson.videoPath, hasOfflineVideo: true });
+    });
+
+    it('drops a teacher who moved to another class', async () => {
+        const moving = await signUpTeacher(6, 'meena');
+        const teacher = await signUpTeacher(6);
+        await sync();
+        expect(await db.profiles.get(moving.id)).toBeDefined();
+
+        const admin = await signUpTeacher(1, 'principal');
+        await updateOnServer(admin.id, { role: 'Admin' });
+        await backend.accounts.assignTeacherClass(moving.id, 7);
+        await login(teacher.username, 'secret1');
+        await sync();
+
+        expect(await db.profiles.get(moving.id)).toBeUndefined();
+    });
+
+    it('applies the deletions made elsewhere since the last sync and moves the checkpoints on', async () => {
+        const teacher = await signUpTeacher(6);
+        const course = await saveCourse({ title: 'Maths', description: 'Numbers', icon: 'Calculator', forClass: 6 }, teacher.id);
+        const fractions = await saveLesson(course.id, { title: 'Fractions', content: 'Halves', quiz: [] });
+        // New lessons are named after the clock; two saved within a millisecond would be one.
+        await new Promise(resolve => setTimeout(resolve, 2));
+        await saveLesson(course.id, { title: 'Decimals', content: 'Tenths', quiz: [] });
+        await sync();
+        const lessonsCheckpoint = await db.syncCheckpoints.get('lessons');
+
+        await backend.content.deleteLesson(fractions.id);
+        await syncDown();
+
+        expect((await getCourse(course.id))?.lessons.map(l => l.title)).toEqual(['Decimals']);
+        const [tombstone] = await backend.changes.fetchChangedRows('sync_tombstones');
+        expect(await db.syncCheckpoints.get('sync_tombstones')).toMatchObject({ lastChangeAt: tombstone.deleted_at, scopeKey: lessonsCheckpoint!.scopeKey });
+        // Nothing newer to read, so the lessons' checkpoint stays.
+        expect((await db.syncCheckpoints.get('lessons'))?.lastChangeAt).toBe(lessonsCheckpoint!.lastChangeAt);
+    });
+
+    it("keeps only the new scope after another user signs in, and the roster students' own records", async () => {
+        const teacher = await signUpTeacher(6);
+        const course = await saveCourse({ title: 'Maths', description: 'Numbers', icon: 'Calculator', forClass: 6 }, teacher.id);
+        await saveLesson(course.id, { title: 'Fractions', content: 'Halves', quiz: [] });
+        await sync();
+        const asha = await register('asha', 'secret1', UserRole.STUDENT, 6);
+        await updateQuizProgress(asha.id, 'asha', course.id, 'lesson-1', 60);
+        await sync();
+
+        // A student of another class on the same device.
+        const ravi = await register('ravi', 'secret1', UserRole.STUDENT, 7);
+        await sync();
+
+        expect(await db.courses.count()).toBe(0);
+        expect(await db.lessons.count()).toBe(0);
+        expect(await db.profiles.toCollection().primaryKeys()).toEqual(expect.arrayContaining([asha.id, ravi.id]));
+        expect(await db.profiles.get(teacher.id)).toBeUndefined();
+        expect(await db.studentProgress.get(asha.id)).toBeDefined();
+    });
+});
+
+describe('processSyncQueue', () => {
+    it('records a conflict for an edit based on a version another device replaced', async () => {
+        const teacher = await signUpTeacher(6);
+        const course = await saveCourse({ title: 'Maths', description: 'Numbers', icon: 'Calculator', forClass: 6 }, teacher.id);
+        await sync();
+        // Another device's edit, on top of the same version.
+        await backend.content.pushCourse(courseToRow({ ...course, description: 'Their numbers' }), 1);
+
+        await saveCourse({ ...course, description: 'My numbers' }, teacher.id);
+        await processSyncQueue({ ignoreBackoff: true });
+
+        const [conflict] = await getSyncConflicts();
+        expect(conflict).toMatchObject({ entityId: course.id, localData: { description: 'My numbers' }, serverData: { description: 'Their numbers', version: 2 } });
+        expect(await db.syncQueue.count()).toBe(0);
+
+        await resolveConflict(conflict.id!, 'keep_local');
+        await sync();
+        expect(await backend.changes.fetchContentRow('courses', course.id)).toMatchObject({ description: 'My numbers', version: 3 });
+        expect(await getCourse(course.id)).toMatchObject({ description: 'My numbers', version: 3 });
+    });
+
+    it('merges progress another device pushed meanwhile', async () => {
+        const teacher = await signUpTeacher(6);
+        const course = await saveCourse({ title: 'Maths', description: 'Numbers', icon: 'Calculator', forClass: 6 }, teacher.id);
+        await sync();
+        const student = await register('asha', 'secret1', UserRole.STUDENT, 6);
+        await updateQuizProgress(student.id, 'asha', course.id, 'lesson-1', 60);
+        await sync();
+        const synced = (await db.studentProgress.get(student.id))!;
+        // Another device: a second attempt at lesson-1 and one at lesson-2.
+        await backend.progress.pushProgress(progressToRow({
+            ...synced,
+            courseProgress: [{
+                ...synced.courseProgress[0],
+                lessonStatus: [{ lessonId: 'lesson-1', attempts: 2, finalScore: 70 }, { lessonId: 'lesson-2', attempts: 1, finalScore: 90 }],
+            }],
+        }), synced.version);
+
+        await updateQuizProgress(student.id, 'asha', course.id, 'lesson-1', 80);
+        await sync();
+
+        const merged = await db.studentProgress.get(student.id);
+        expect(merged?.courseProgress[0].lessonStatus).toEqual([
+            { lessonId: 'lesson-1', attempts: 3, finalScore: 80 },
+            { lessonId: 'lesson-2', attempts: 1, finalScore: 90 },
+        ]);
+        expect(merged?.version).toBe(3);
+        expect(await db.syncQueue.count()).toBe(0);
+    });
+
+    describe('when the server turns an action down', () => {
+        const failingPushCourse = (error: Error) => {
+            const pushCourse = vi.fn().mockRejectedValue(error);
+            setSyncBackend({ ...backend, content: { ...backend.content, pushCourse } });
+            return pushCourse;
+        };
+        const serverError = () => Object.assign(new Error('Server error'), { code: 'XX000' });
+
+        beforeEach(() => {
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+        });
+
+        it('backs off before trying it again', async () => {
+            const teacher = await signUpTeacher(6);
+            const pushCourse = failingPushCourse(serverError());
+            await saveCourse({ title: 'Maths', description: 'Numbers', icon: 'Calculator', forClass: 6 }, teacher.id);
+
+            await processSyncQueue();
+            const [waiting] = await db.syncQueue.toArray();
+            expect(waiting).toMatchObject({ attempts: 1, lastError: 'Server error' });
+            expect(waiting.nextAttemptAt).toBeGreaterThan(Date.now());
+
+            await processSyncQueue();
+            expect(pushCourse).toHaveBeenCalledTimes(1);
+            await processSyncQueue({ ignoreBackoff: true });
+            expect(pushCourse).toHaveBeenCalledTimes(2);
+            expect(await db.syncQueue.toArray()).toMatchObject([{ attempts: 2 }]);
+        });
+
+        it("doesn't count failures to reach the server", async () => {
+            const teacher = await signUpTeacher(6);
+            failingPushCourse(new TypeError('Failed to fetch'));
+            await saveCourse({ title: 'Maths', description: 'Numbers', icon: 'Calculator', forClass: 6 }, teacher.id);
+
+            await processSyncQueue();
+
+            const [waiting] = await db.syncQueue.toArray();
+            expect(waiting).toMatchObject({ attempts: 0, lastError: 'Failed to fetch' });
+            expect(waiting.nextAttemptAt).toBeGreaterThan(Date.now());
+        });
+
+        it('gives up after the last attempt, holding back what depends on it until retried', async () => {
+            const teacher = await signUpTeacher(6);
+            failingPushCourse(serverError());
+            const course = await saveCourse({ title: 'Maths', description: 'Numbers', icon: 'Calculator', forClass: 6 }, teacher.id);
+            await saveLesson(course.id, { title: 'Fractions', content: 'Halves', quiz: [] });
+
+            for (let i = 0; i < 8; i++) await processSyncQueue({ ignoreBackoff: true });
+
+            expect(await getDeadLetters()).toMatchObject([{ type: 'SAVE_COURSE', attempts: 8, lastError: 'Server error' }]);
+            expect(await db.syncQueue.toArray()).toMatchObject([{ type: 'SAVE_LESSON' }]);
+
+            setSyncBackend(backend);
+            await processSyncQueue({ ignoreBackoff: true });
+            expect(await db.syncQueue.count()).toBe(1);
+
+            const [deadLetter] = await getDeadLetters();
+            await retryDeadLetter(deadLetter.id!);
+            await processSyncQueue({ ignoreBackoff: true });
+            expect(await db.syncQueue.count()).toBe(0);
+            expect(await backend.changes.fetchLessonsOfCourses([course.id])).toHaveLength(1);
+        });
+    });
+});
+
+describe('compactSyncQueue', () => {
+    let timestamp = 1_700_000_000_000;
+    const queue = (...actions: Omit<SyncQueueItem, 'timestamp'>[]) =>
+        db.syncQueue.bulkAdd(actions.map(action => ({ ...action, timestamp: timestamp++ })));
+    const queued = async () => (await db.syncQueue.orderBy('timestamp').toArray()).map(({ type, payload, isNew }) => ({ type, payload, isNew }));
+
+    it('collapses repeated saves into the first, with the newest payload', async () => {
+        await queue(
+            { type: 'SAVE_COURSE', payload: { id: 'course-1', title: 'Math' }, isNew: true },
+            { type: 'SAVE_LESSON', payload: { id: 'lesson-1', course_id: 'course-1', title: 'Fractions' }, isNew: true },
+            { type: 'SAVE_COURSE', payload: { id: 'course-1', title: 'Maths' }, isNew: false },
+        );
+
+        await compactSyncQueue();
+
+        expect(await queued()).toEqual([
+            { type: 'SAVE_COURSE', payload: { id: 'course-1', title: 'Maths' }, isNew: true },
+            { type: 'SAVE_LESSON', payload: { id: 'lesson-1', course_id: 'course-1', title: 'Fractions' }, isNew: true },
+        ]);
+    });
+
+    it('drops what a delete makes pointless, and the delete of a record never pushed', async () => {
+        await queue(
+            { type: 'SAVE_COURSE', payload: { id: 'course-1', title: 'Maths' }, isNew: true },
+            { type: 'SAVE_LESSON', payload: { id: 'lesson-1', course_id: 'course-1' }, isNew: true },
+            { type: 'SAVE_LESSON', payload: { id: 'lesson-2', course_id: 'course-2' }, isNew: false },
+            { type: 'DELETE_COURSE', payload: { id: 'course-1' } },
+            { type: 'DELETE_LESSON', payload: { id: 'lesson-2', courseId: 'course-2' } },
+        );
+
+        await compactSyncQueue();
+
+        expect(await queued()).toEqual([{ type: 'DELETE_LESSON', payload: { id: 'lesson-2', courseId: 'course-2' }, isNew: undefined }]);
+    });
+
+    it('keeps a lesson save behind the upload of its video', async () => {
+        await queue(
+            { type: 'SAVE_LESSON', payload: { id: 'lesson-1', course_id: 'course-1', title: 'Fractions' }, isNew: true },
+            { type: 'UPLOAD_VIDEO', payload: { lessonId: 'lesson-1', courseId: 'course-1' } },
+            { type: 'SAVE_LESSON', payload: { id: 'lesson-1', course_id: 'course-1', title: 'Fractions', videoPath: 'course-1/lesson-1/1' }, isNew: false },
+        );
+
+        await compactSyncQueue();
+
+        expect(await queued()).toEqual([
+            { type: 'UPLOAD_VIDEO', payload: { lessonId: 'lesson-1', courseId: 'course-1' }, isNew: undefined },
+            { type: 'SAVE_LESSON', payload: { id: 'lesson-1', course_id: 'course-1', title: 'Fractions', videoPath: 'course-1/lesson-1/1' }, isNew: true },
+        ]);
+    });
+});
@@ -1,93 +1,632 @@
-import { supabase } from './supabaseClient';
-import { db } from './db';
-import type { Course, Lesson, StudentProgress, QuizQuestion, TranscriptEntry, CourseProgress } from '../types';
+import { liveQuery } from 'dexie';
+import { getSyncBackend } from './backend';
+import type { ContentChange, ProfileRow, TombstoneRow } from './syncBackend';
+import {
+  scopeFromProfile, scopeKey, isCourseInScope, isProfileInScope, isProgressInScope, type SyncScope,
+} from './syncScope';
+import { db, type SyncQueueItem, type SyncCheckpoint, type DeadLetterItem, type SyncJournalEntry, type StoredCourse } from './db';
+import type { Lesson, StudentProgress } from '../types';
+import {
+  courseFromRow, lessonFromRow, progressFromRow, courseToRow, lessonToRow, progressToRow, integrityReportToRow,
+  type CourseRow, type LessonRow, type ProgressRow,
+} from './rowMappers';
+import { mergeStudentProgress, recordConflict } from './conflictService';
+import { uploadQueuedVideo, downloadLessonVideos, deleteReplacedVideos, videoFolder } from './videoSyncService';
+import { updateCoursePackages } from './coursePackageService';
+import { recordSyncEvent, jsonBytes } from './syncJournal';
+import { deleteLessonsOfCourses, toStoredLesson } from './lessonStore';
+import { forgetSignInsBefore } from './offlineAuthService';
 
-// Fetches all data from Supabase and populates the local IndexedDB.
+// Later queued saves of the same record were based on the version we just replaced.
+// Point them at the new one so they don't get rejected as stale by our own push.
+const rebaseQueuedItems = async (
+  type: SyncQueueItem['type'],
+  matches: (payload: any) => boolean,
+  rebase: (payload: any) => any
+) => {
+  await db.syncQueue.where('type').equals(type)
+    .filter(item => matches(item.payload))
+    .modify(item => { item.payload = rebase(item.payload); });
+};
+
+export const subtractAttempts = (pending: Record<string, number> = {}, pushed: Record<string, number> = {}) => {
+  const remaining: Record<string, number> = {};
+  Object.entries(pending).forEach(([lessonId, count]) => {
+    const left = count - (pushed[lessonId] || 0);
+    if (left > 0) remaining[lessonId] = left;
+  });
+  return remaining;
+};
+
+const pushProgress = async (progress: StudentProgress) => {
+  let toPush = progress;
+  const { progress: backend } = getSyncBackend();
+  let result = await backend.pushProgress(progressToRow(toPush), toPush.version);
+  if (result.status === 'conflict') {
+    // Another device updated this student's progress. Progress can always be merged,
+    // so fold our snapshot into the server's and push the result on top of it.
+    toPush = result.serverRow ? mergeStudentProgress(progressFromRow(result.serverRow), progress) : { ...progress, version: undefined };
+    console.log(`Merging progress for student ${progress.studentId} with a newer server copy.`);
+    result = await backend.pushProgress(progressToRow(toPush), toPush.version);
+    if (result.status === 'conflict') {
+      throw new Error('Progress changed on the server again while merging; will retry on next sync.');
+    }
+  }
+  const outcome = toPush === progress ? 'ok' : 'merged';
+
+  const newVersion = result.version;
+  const pushed = progress.pendingAttempts;
+  const local = await db.studentProgress.get(progress.studentId);
+  if (local) {
+    // Attempts made after this snapshot was queued are still pending; everything else is now on the server.
+    const remaining = subtractAttempts(local.pendingAttempts, pushed);
+    await db.studentProgress.put(mergeStudentProgress({ ...toPush, version: newVersion }, { ...local, pendingAttempts: remaining }));
+  }
+  await rebaseQueuedItems('UPDATE_PROGRESS', p => p.studentId === progress.studentId, p => ({
+    ...p,
+    version: newVersion,
+    pendingAttempts: subtractAttempts(p.pendingAttempts, pushed),
+  }));
+  return outcome;
+};
+
+// The version a save is based on. Saves queued before versions existed carry none; they
+// were meant to overwrite, so they go on top of whatever the server holds now.
+const baseVersionOf = async (table: 'courses' | 'lessons', record: { id: string; version?: number }, isNew?: boolean) => {
+  if (record.version !== undefined || isNew) return record.version;
+  return (await getSyncBackend().changes.fetchContentRow(table, record.id))?.version;
+};
+
+const pushCourse = async (course: StoredCourse, isNew?: boolean) => {
+  const baseVersion = await baseVersionOf('courses', course, isNew);
+  const result = await getSyncBackend().content.pushCourse(courseToRow(course), baseVersion);
+  if (result.status === 'conflict') {
+    await recordConflict({
+      entityType: 'course',
+      entityId: course.id,
+      localData: course,
+      serverData: result.serverRow ? courseFromRow(result.serverRow) : null,
+    });
+    console.warn(`Course ${course.id} was changed on another device; conflict recorded for review.`);
+    return 'conflict';
+  }
+  await db.courses.update(course.id, { version: result.version });
+  await rebaseQueuedItems('SAVE_COURSE', c => c.id === course.id, c => ({ ...c, version: result.version }));
+  return 'ok';
+};
+
+const pushLesson = async (lesson: Lesson & { course_id: string }, isNew?: boolean) => {
+  const baseVersion = await baseVersionOf('lessons', lesson, isNew);
+  const result = await getSyncBackend().content.pushLesson(lessonToRow(lesson, lesson.course_id), baseVersion);
+  if (result.status === 'conflict') {
+    await recordConflict({
+      entityType: 'lesson',
+      entityId: lesson.id,
+      localData: lesson,
+      serverData: result.serverRow ? lessonFromRow(result.serverRow) : null,
+    });
+    console.warn(`Lesson ${lesson.id} was changed on another device; conflict recorded for review.`);
+    return 'conflict';
+  }
+  await db.lessons.update(lesson.id, { version: result.version });
+  await rebaseQueuedItems('SAVE_LESSON', l => l.id === lesson.id, l => ({ ...l, version: result.version }));
+  return 'ok';
+};
+
+// --- Sync down (delta) ---
+
+// Must not exceed the retention passed to prune_sync_tombstones on the server (see 003_sync_tombstones.sql).
+// A device that has been away longer may have missed deletions and downloads everything again.
+const TOMBSTONE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const TOMBSTONES = 'sync_tombstones';
+
+// Server stamps are taken when a row is written but become visible when its transaction
+// commits, so a row can show up with a stamp older than a checkpoint taken in between.
+// Every delta re-reads this much before its checkpoint; applying a row twice is harmless.
+// Must exceed the longest write transaction on the server (see 002_record_versions.sql).
+const SYNC_OVERLAP_MS = 5 * 60 * 1000;
+
+const withOverlap = (checkpoint?: string) =>
+  checkpoint && new Date(Date.parse(checkpoint) - SYNC_OVERLAP_MS).toISOString();
+
+// Re-read rows are older than the checkpoint, which must never move back.
+const laterStamp = (a: string | undefined, b: string | undefined) =>
+  !a || (b && Date.parse(b) > Date.parse(a)) ? b : a;
+
+const hasPendingAttempts = (progress?: StudentProgress) =>
+  !!progress?.pendingAttempts && Object.keys(progress.pendingAttempts).length > 0;
+
+const getPendingCourseIds = async () => {
+  const pendingCourseSaves = await db.syncQueue.where('type').equals('SAVE_COURSE').toArray();
+  return new Set(pendingCourseSaves.map(item => item.payload.id));
+};
+
+// Without a usable checkpoint the download is a full snapshot, so anything local that
+// isn't in it is stale. Unpushed local work is kept: new courses waiting in the queue,
+// and progress with attempts that still have to be merged into the server copy. So are the
+// profiles and progress of the other students on the device roster (`rosterIds`), who may
+// switch back to this device offline.
+const clearForFullSync = async (rosterIds: Set<string>) => {
+  const pendingCourseIds = await getPendingCourseIds();
+  await db.courses.filter(c => !pendingCourseIds.has(c.id)).delete();
+  await db.lessons.filter(l => !pendingCourseIds.has(l.courseId)).delete();
+  await db.studentProgress.filter(p => !hasPendingAttempts(p) && !rosterIds.has(p.studentId)).delete();
+  await db.profiles.filter(p => !rosterIds.has(p.id)).delete();
+};
+
+const applyTombstones = async (tombstones: TombstoneRow[]) => {
+  for (const tombstone of tombstones) {
+    switch (tombstone.table_name) {
+      case 'courses':
+        await db.courses.delete(tombstone.record_id);
+        await deleteLessonsOfCourses([tombstone.record_id]);
+        break;
+      case 'lessons':
+        await db.lessons.delete(tombstone.record_id);
+        break;
+      case 'student_progress':
+        await db.studentProgress.delete(tombstone.record_id);
+        break;
+      case 'profiles':
+        await db.profiles.delete(tombstone.record_id);
+        break;
+    }
+  }
+};
+
+const applyCourseRows = async (rows: CourseRow[]) => {
+  await db.courses.bulkPut(rows.map(courseFromRow));
+};
+
+const applyLessonRows = async (rows: LessonRow[]) => {
+  const knownCourseIds = new Set(await db.courses.where('id').anyOf(rows.map(r => r.course_id)).primaryKeys());
+  const skipped = rows.filter(row => !knownCourseIds.has(row.course_id));
+  if (skipped.length > 0) console.warn(`Skipping ${skipped.length} lesson(s) for unknown courses.`);
+
+  const applied = rows.filter(row => knownCourseIds.has(row.course_id));
+  const existing = await db.lessons.bulkGet(applied.map(r => r.id));
+  const downloads = await db.downloads.bulkGet(applied.map(r => r.id));
+  await db.lessons.bulkPut(applied.map((row, i) => {
+    const lesson = lessonFromRow(row);
+    // The video copy on this device is still good if the lesson kept the same file, and a
+    // file that was evicted stays evicted. A lesson this device doesn't have yet (it came
+    // back into scope, or the database was rebuilt) may still find a copy of its file here.
+    const local = existing[i];
+    const sameVideo = local?.videoPath === lesson.videoPath;
+    const keptCopy = !local && !!lesson.videoPath && downloads[i]?.url === lesson.videoPath;
+    lesson.hasOfflineVideo = keptCopy || (sameVideo && !!local?.hasOfflineVideo);
+    lesson.videoEvicted = sameVideo && !!local?.videoEvicted;
+    return toStoredLesson(lesson, row.course_id, lesson.order!);
+  }));
+};
+
+const applyProgressRows = async (rows: ProgressRow[]) => {
+  const courseIds = new Set(await db.courses.toCollection().primaryKeys());
+  const localProgress = await db.studentProgress.bulkGet(rows.map(r => r.student_id));
+  const merged = rows.map((row, i) => {
+    const progress = progressFromRow(row);
+    // As a failsafe, filter out any progress for courses that no longer exist.
+    // This makes the client resilient to inconsistent data during the sync process.
+    progress.courseProgress = progress.courseProgress.filter(cp => courseIds.has(cp.courseId));
+    // Progress that still has unpushed quiz attempts is merged rather than overwritten,
+    // so attempts made on this device survive a sync down that runs before the push succeeds.
+    const local = localProgress[i];
+    return hasPendingAttempts(local) ? mergeStudentProgress(progress, local!) : progress;
+  });
+  await db.studentProgress.bulkPut(merged);
+};
+
+// Removes whatever the server would no longer return to this user, e.g. records left over
+// from a wider scope or from another user of the device. Unpushed local work is kept, and
+// so are the profiles and progress of students on the device roster.
+const pruneOutOfScope = async (scope: SyncScope, rosterIds: Set<string>) => {
+  const pendingCourseIds = await getPendingCourseIds();
+  const outOfScope = await db.courses.filter(c => !isCourseInScope(scope, c) && !pendingCourseIds.has(c.id)).primaryKeys();
+  await db.courses.bulkDelete(outOfScope);
+  await deleteLessonsOfCourses(outOfScope);
+  await db.profiles.filter(p => !isProfileInScope(scope, p) && !rosterIds.has(p.id)).delete();
+  const classByStudent = new Map((await db.profiles.toArray()).map(p => [p.id, p.class]));
+  await db.studentProgress
+    .filter(p => !isProgressInScope(scope, p.studentId, classByStudent.get(p.studentId)) && !hasPendingAttempts(p) && !rosterIds.has(p.studentId))
+    .delete();
+};
+
+// A record that left some devices' scope without leaving this user's (a teacher's own course
+// moved to another class) comes with a tombstone and its row in the same delta. The row
+// says the user still sees it, so the tombstone is skipped: applying it would also drop the
+// course's lessons, which the delta doesn't bring back.
+const tombstonesOfGoneRecords = (tombstones: TombstoneRow[], returnedKeys: string[]) => {
+  const returned = new Set(returnedKeys);
+  return tombstones.filter(t => !returned.has(`${t.table_name}:${t.record_id}`));
+};
+
+// A password reset, wherever the teacher did it, ends the ways this device kept of signing
+// the student in with the old password. Compared with the profiles held before the sync.
+const applyPasswordResets = async (profileRows: ProfileRow[]) => {
+  const known = await db.profiles.bulkGet(profileRows.map(r => r.id));
+  const resets = profileRows.filter((r, i) => r.password_reset_at && r.password_reset_at !== known[i]?.password_reset_at);
+  for (const { id, password_reset_at } of resets) await forgetSignInsBefore(id, password_reset_at!);
+};
+
+// Records that came into scope since the last sync (a course moved to this class, a student
+// joined it) bring older rows along that a delta wouldn't include.
+const fetchNewlyVisibleRows = async (courseRows: CourseRow[], profileRows: ProfileRow[]) => {
+  const backend = getSyncBackend();
+  const knownCourses = await db.courses.bulkGet(courseRows.map(r => r.id));
+  const knownProfiles = await db.profiles.bulkGet(profileRows.map(r => r.id));
+  const newCourseIds = courseRows.filter((_, i) => !knownCourses[i]).map(r => r.id);
+  const newStudentIds = profileRows.filter((r, i) => !knownProfiles[i] && r.role === 'Student').map(r => r.id);
+  const [lessonRows, progressRows] = await Promise.all([
+    newCourseIds.length > 0 ? backend.changes.fetchLessonsOfCourses(newCourseIds) : [],
+    newStudentIds.length > 0 ? backend.changes.fetchProgressOfStudents(newStudentIds) : [],
+  ]);
+  return { lessonRows, progressRows };
+};
+
+// Pulls only what changed on the server since the last sync and applies it to IndexedDB.
+// The server returns only the signed-in user's scope (see services/syncScope.ts); a
+// different scope than last time (another user, or a class change) means a full download.
 export const syncDown = async () => {
-  console.log('Syncing data down from Supabase...');
+  const backend = getSyncBackend();
+  console.log(`Syncing data down from ${backend.name}...`);
+  const startedAt = Date.now();
+  let mode = 'delta';
   try {
-    const [coursesRes, lessonsRes, studentProgressRes, profilesRes] = await Promise.all([
-      supabase.from('courses').select('*'),
-      supabase.from('lessons').select('*'),
-      supabase.from('student_progress').select('*'),
-      supabase.from('profiles').select('*')
+    const userId = await backend.auth.getSessionUserId();
+    const profile = userId ? await backend.auth.getProfile(userId) : null;
+    if (!profile) {
+      console.warn('Skipping sync down: no signed-in user with a profile.');
+      await recordSyncEvent({ at: startedAt, type: 'SYNC_DOWN', entityId: mode, result: 'skipped', bytes: 0, detail: 'No signed-in user with a profile' });
+      return;
+    }
+    const scope = scopeFromProfile(profile);
+
+    const checkpoints = new Map((await db.syncCheckpoints.toArray()).map(c => [c.table, c]));
+    const tombstoneCheckpoint = checkpoints.get(TOMBSTONES);
+    const isFullSync = !tombstoneCheckpoint
+      || tombstoneCheckpoint.scopeKey !== scopeKey(scope)
+      || Date.now() - tombstoneCheckpoint.syncedAt > TOMBSTONE_RETENTION_MS;
+    const checkpointOf = (table: string) => isFullSync ? undefined : checkpoints.get(table)?.lastChangeAt;
+    const since = (table: string) => withOverlap(checkpointOf(table));
+    if (isFullSync) mode = 'full';
+
+    const [tombstones, courseRows, lessonRows, progressRows, profileRows] = await Promise.all([
+      isFullSync
+        ? backend.changes.fetchLatestTombstone().then(latest => latest ? [latest] : [])
+        : backend.changes.fetchChangedRows(TOMBSTONES, since(TOMBSTONES)),
+      backend.changes.fetchChangedRows('courses', since('courses')),
+      backend.changes.fetchChangedRows('lessons', since('lessons')),
+      backend.changes.fetchChangedRows('student_progress', since('student_progress')),
+      backend.changes.fetchChangedRows('profiles', since('profiles')),
+    ]);
+
+    const newlyVisible = isFullSync
+      ? { lessonRows: [], progressRows: [] }
+      : await fetchNewlyVisibleRows(courseRows, profileRows);
+
+    const deletions = tombstonesOfGoneRecords(tombstones, [
+      ...courseRows.map(r => `courses:${r.id}`),
+      ...lessonRows.map(r => `lessons:${r.id}`),
+      ...progressRows.map(r => `student_progress:${r.student_id}`),
+      ...profileRows.map(r => `profiles:${r.id}`),
     ]);
 
-    if (coursesRes.error) throw coursesRes.error;
-    if (lessonsRes.error) throw lessonsRes.error;
-    if (studentProgressRes.error) throw studentProgressRes.error;
-    if (profilesRes.error) throw profilesRes.error;
-
-    const allCoursesSnake = coursesRes.data || [];
-    const allLessonsSnake = lessonsRes.data || [];
-    const allRawProgressSnake = studentProgressRes.data || [];
-    const allProfiles = profilesRes.data || [];
-
-    const serverCourseIds = new Set(allCoursesSnake.map(c => c.id));
-
-    const allProgress: StudentProgress[] = allRawProgressSnake.map(p => ({
-        studentId: p.student_id,
-        studentName: p.student_name,
-        // As a failsafe, filter out any progress for courses that no longer exist on the server.
-        // This makes the client resilient to inconsistent data during the sync process.
-        courseProgress: ((p.course_progress as any) || []).filter((cp: any) => serverCourseIds.has(cp.courseId)),
-        scoreHistory: (p.score_history as any) || [],
-    }));
-
-    const localCourseIds = await db.courses.toCollection().keys() as string[];
-    const localProgressIds = await db.studentProgress.toCollection().keys() as string[];
-    const localProfileIds = await db.profiles.toCollection().keys() as string[];
-    
-    const serverProgressIds = new Set(allProgress.map(p => p.studentId));
-    const serverProfileIds = new Set(allProfiles.map(p => p.id));
-
-    const pendingCreations = await db.syncQueue.where('type').equals('SAVE_COURSE').toArray();
-    const pendingCreationIds = new Set(pendingCreations.map(item => item.payload.id));
-    
-    const coursesToDelete = localCourseIds.filter(id => !serverCourseIds.has(id) && !pendingCreationIds.has(id));
-    const progressToDelete = localProgressIds.filter(id => !serverProgressIds.has(id));
-    const profilesToDelete = localProfileIds.filter(id => !serverProfileIds.has(id));
-
-    const coursesWithLessons: Course[] = allCoursesSnake.map(course => ({
-      id: course.id,
-      title: course.title,
-      description: course.description,
-      icon: course.icon as 'Book' | 'Computer' | 'Calculator',
-      authorId: course.author_id,
-      forClass: course.for_class,
-      lessons: allLessonsSnake
-        .filter(lesson => lesson.course_id === course.id)
-        .map(lesson => ({
-          id: lesson.id,
-          title: lesson.title,
-          content: lesson.content,
-          summary: lesson.summary || undefined,
-          videoUrl: lesson.video_url || undefined,
-          hasOfflineVideo: false,
-          transcript: lesson.transcript as TranscriptEntry[] | undefined,
-          quiz: lesson.quiz as QuizQuestion[],
-          difficulty: (lesson.difficulty as 'Easy' | 'Medium' | 'Hard') || undefined,
-        } as Lesson))
-    }));
-
-    await db.transaction('rw', db.courses, db.studentProgress, db.profiles, async () => {
-      if (coursesToDelete.length > 0) await db.courses.bulkDelete(coursesToDelete);
-      if (progressToDelete.length > 0) await db.studentProgress.bulkDelete(progressToDelete);
-      if (profilesToDelete.length > 0) await db.profiles.bulkDelete(profilesToDelete);
-
-      await db.courses.bulkPut(coursesWithLessons);
-      await db.studentProgress.bulkPut(allProgress);
-      await db.profiles.bulkPut(allProfiles);
+    const rosterIds = new Set(await db.deviceRoster.toCollection().primaryKeys());
+    const syncedAt = Date.now();
+    const nextCheckpoint = (table: string, rows: any[], stampColumn = 'updated_at'): SyncCheckpoint => ({
+      table,
+      lastChangeAt: laterStamp(checkpointOf(table), rows[rows.length - 1]?.[stampColumn]),
+      syncedAt,
+      scopeKey: scopeKey(scope),
     });
 
-    console.log('Sync down completed successfully.');
-  } catch (error) {
+    await db.transaction('rw', [db.courses, db.lessons, db.studentProgress, db.profiles, db.downloads, db.offlineCredentials, db.deviceRoster, db.syncQueue, db.syncCheckpoints], async () => {
+      await applyPasswordResets(profileRows);
+      // Tombstones go first: a record deleted and later re-created must end up present.
+      if (isFullSync) await clearForFullSync(rosterIds);
+      else await applyTombstones(deletions);
+      await applyCourseRows(courseRows);
+      await applyLessonRows([...newlyVisible.lessonRows, ...lessonRows]);
+      await applyProgressRows([...newlyVisible.progressRows, ...progressRows]);
+      await db.profiles.bulkPut(profileRows);
+      await pruneOutOfScope(scope, rosterIds);
+
+      await db.syncCheckpoints.bulkPut([
+        nextCheckpoint(TOMBSTONES, tombstones, 'deleted_at'),
+        nextCheckpoint('courses', courseRows),
+        nextCheckpoint('lessons', lessonRows),
+        nextCheckpoint('student_progress', progressRows),
+        nextCheckpoint('profiles', profileRows),
+      ]);
+    });
+
+    const changeCount = courseRows.length + lessonRows.length + progressRows.length + profileRows.length;
+    const deletionCount = isFullSync ? 0 : deletions.length;
+    const detail = `${changeCount} changed rows, ${deletionCount} deletions`;
+    console.log(`Sync down completed successfully (${mode}: ${detail}).`);
+    const bytes = jsonBytes([tombstones, courseRows, lessonRows, progressRows, profileRows, newlyVisible]);
+    await recordSyncEvent({ at: startedAt, type: 'SYNC_DOWN', entityId: mode, result: 'ok', bytes, detail });
+  } catch (error: any) {
     console.error('Error during sync down:', error);
+    updateSyncStatus({ lastError: error?.message || String(error) });
+    await recordSyncEvent({ at: startedAt, type: 'SYNC_DOWN', entityId: mode, result: 'failed', error: error?.message || String(error), bytes: 0 });
   }
 };
 
-// Processes the sync queue to push offline changes to Supabase.
-export const processSyncQueue = async () => {
+// Applies a single change from the server's realtime feed (see services/realtimeService.ts).
+// Records with queued local actions are left alone; the next sync settles those. Changes
+// this device already has, such as the echo of its own push, are skipped by version.
+export const applyContentChange = async (change: ContentChange): Promise<void> => {
+  const id = change.type === 'delete' ? change.id : change.row.id;
+  const key = `${change.table === 'courses' ? 'course' : 'lesson'}:${id}`;
+  if ((await db.syncQueue.toArray()).some(action => entityKey(action) === key)) return;
+
+  // A tombstone doesn't always mean the record is gone for this device: a course moved to
+  // another class leaves one for its old class, and the update and the tombstone arrive as
+  // separate events, in either order. The server says whether the user still sees it.
+  if (change.type === 'delete') {
+    const current = await getSyncBackend().changes.fetchContentRow(change.table, id);
+    if (current) return applyContentChange({ type: 'upsert', table: change.table, row: current } as ContentChange);
+  }
+
+  // A course that just came into scope brings its lessons, which are older than the change.
+  const isNewCourse = change.type === 'upsert' && change.table === 'courses' && !(await db.courses.get(id));
+  const newCourseLessons = isNewCourse ? await getSyncBackend().changes.fetchLessonsOfCourses([id]) : [];
+
+  await db.transaction('rw', db.courses, db.lessons, db.downloads, async () => {
+    if (change.type === 'delete') {
+      await applyTombstones([{ table_name: change.table, record_id: id } as TombstoneRow]);
+    } else if (change.table === 'courses') {
+      const local = await db.courses.get(id);
+      if (local && (local.version ?? 0) >= change.row.version) return;
+      await applyCourseRows([change.row]);
+      await applyLessonRows(newCourseLessons);
+    } else {
+      const local = await db.lessons.get(id);
+      if (local && (local.version ?? 0) >= change.row.version) return;
+      await applyLessonRows([change.row]);
+    }
+  });
+};
+
+// --- Retry policy ---
+
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 5 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// The record an action writes to. Actions on the same record must reach the server in order.
+const entityKey = (action: SyncQueueItem): string => {
+    switch (action.type) {
+        case 'UPDATE_PROGRESS': return `progress:${action.payload.studentId}`;
+        case 'SAVE_COURSE':
+        case 'DELETE_COURSE': return `course:${action.payload.id}`;
+        case 'SAVE_LESSON':
+        case 'DELETE_LESSON': return `lesson:${action.payload.id}`;
+        case 'UPLOAD_VIDEO': return `video:${action.payload.lessonId}`;
+        case 'REPORT_VIDEO_INTEGRITY': return `integrity:${action.payload.studentId}:${action.payload.lessonId}`;
+    }
+};
+
+// The student an action belongs to. Actions of another student on the device roster wait in
+// the queue until that student is signed in again (see deviceRosterService); those imported
+// from a student's sync bundle are pushed by the teacher as before.
+export const queuedActionOwner = (action: SyncQueueItem): string | undefined => {
+    switch (action.type) {
+        case 'UPDATE_PROGRESS':
+        case 'REPORT_VIDEO_INTEGRITY': return action.payload.studentId;
+        default: return undefined;
+    }
+};
+
+// Records that must exist on the server (or be gone from it) before this action can succeed.
+const dependencyKeys = (action: SyncQueueItem): string[] => {
+    switch (action.type) {
+        // A lesson isn't published with a video that failed to upload.
+        case 'SAVE_LESSON': return [`course:${action.payload.course_id}`, `video:${action.payload.id}`];
+        case 'DELETE_LESSON': return [`course:${action.payload.courseId}`];
+        case 'UPLOAD_VIDEO': return [`course:${action.payload.courseId}`];
+        default: return [];
+    }
+};
+
+// Requests that never reached the server say nothing about the action itself, so they
+// back off like any failure but don't count towards the dead-letter cutoff. fetch rejects
+// them with a TypeError, which supabase-js hands back inside its own errors: postgrest-js
+// as a plain error named after it, auth-js as a retryable fetch error without a status,
+// storage-js with the original attached.
+export const isNetworkError = (error: any): boolean =>
+    error instanceof TypeError
+    || (error?.name === 'AuthRetryableFetchError' && !error.status)
+    || (!!error?.originalError && isNetworkError(error.originalError))
+    || (!error?.code && typeof error?.message === 'string' && error.message.startsWith('TypeError: '));
+
+const retryDelay = (attempts: number) => {
+    const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+    // Jitter keeps a classroom of devices that reconnect together from retrying in lockstep.
+    return delay * (0.75 + Math.random() * 0.5);
+};
+
+const recordFailure = async (action: SyncQueueItem, error: any) => {
+    const lastError = error?.message || String(error);
+    const attempts = (action.attempts || 0) + (isNetworkError(error) ? 0 : 1);
+
+    if (attempts >= MAX_ATTEMPTS) {
+        const { id, nextAttemptAt, ...item } = action;
+        await db.transaction('rw', db.syncQueue, db.deadLetters, async () => {
+            await db.deadLetters.add({ ...item, attempts, lastError, failedAt: Date.now() });
+            await db.syncQueue.delete(id!);
+        });
+        updateSyncStatus({ lastError });
+        console.error(`Giving up on sync action ID: ${id}, type: ${action.type} after ${attempts} attempts: ${lastError}`);
+        return 'gave_up';
+    }
+
+    updateSyncStatus({ lastError });
+    await db.syncQueue.update(action.id!, { attempts, lastError, nextAttemptAt: Date.now() + retryDelay(attempts) });
+    console.error(`Failed to process sync action ID: ${action.id}, type: ${action.type} (attempt ${attempts}/${MAX_ATTEMPTS}).`);
+    console.error(`Error: ${lastError}`);
+    return 'failed';
+};
+
+// --- Queue compaction ---
+
+const isSave = (action: SyncQueueItem) =>
+    action.type === 'UPDATE_PROGRESS' || action.type === 'SAVE_COURSE' || action.type === 'SAVE_LESSON' ||
+    action.type === 'UPLOAD_VIDEO' || action.type === 'REPORT_VIDEO_INTEGRITY';
+
+const belongsToCourse = (action: SyncQueueItem, courseId: string) => {
+    switch (action.type) {
+        case 'SAVE_COURSE': return action.payload.id === courseId;
+        case 'SAVE_LESSON': return action.payload.course_id === courseId;
+        case 'DELETE_LESSON':
+        case 'UPLOAD_VIDEO': return action.payload.courseId === courseId;
+        default: return false;
+    }
+};
+
+// Earlier queued actions that a delete makes pointless to push.
+const cancelledByDelete = (action: SyncQueueItem, earlier: SyncQueueItem[]) => {
+    if (action.type === 'DELETE_COURSE') {
+        // Deleting a course takes its lessons with it on the server.
+        return earlier.filter(a => belongsToCourse(a, action.payload.id));
+    }
+    if (action.type === 'DELETE_LESSON') {
+        return earlier.filter(a =>
+            (a.type === 'SAVE_LESSON' && a.payload.id === action.payload.id) ||
+            (a.type === 'UPLOAD_VIDEO' && a.payload.lessonId === action.payload.id)
+        );
+    }
+    return [];
+};
+
+// Shrinks the queue before a push, so a device that was offline for a long time doesn't
+// replay every intermediate save:
+// - saves followed by a delete of the same record (or of its course) are dropped;
+// - the delete itself is dropped too if the record was created offline and never pushed,
+//   i.e. one of the dropped saves is the one that created it;
+// - repeated saves of a record collapse into one carrying the newest payload. It keeps
+//   the position of the first save so it still runs before anything that depends on it,
+//   except that a lesson save never moves ahead of an upload of the lesson's video: the
+//   newer payload may name the uploaded file, so the lesson can't be published before it.
+export const compactSyncQueue = async () => {
+    await db.transaction('rw', db.syncQueue, async () => {
+        const actions = await db.syncQueue.orderBy('timestamp').toArray();
+        const dropped = new Set<number>();
+        const updated = new Map<number, SyncQueueItem>();
+
+        const live = (list: SyncQueueItem[]) => list.filter(a => !dropped.has(a.id!));
+
+        actions.forEach((action, index) => {
+            const cancelled = cancelledByDelete(action, live(actions.slice(0, index)));
+            cancelled.forEach(a => dropped.add(a.id!));
+            const neverReachedServer = cancelled.some(a => a.isNew && entityKey(a) === entityKey(action));
+            if (neverReachedServer) dropped.add(action.id!);
+        });
+
+        // The surviving save of each record since its last delete.
+        const openSaves = new Map<string, SyncQueueItem>();
+        const uploadBetween = (earlier: SyncQueueItem, later: SyncQueueItem) =>
+            live(actions.slice(actions.indexOf(earlier) + 1, actions.indexOf(later)))
+                .some(a => a.type === 'UPLOAD_VIDEO' && a.payload.lessonId === later.payload.id);
+        live(actions).forEach(action => {
+            const key = entityKey(action);
+            if (!isSave(action)) {
+                openSaves.delete(key);
+                return;
+            }
+            const first = openSaves.get(key);
+            if (!first) {
+                openSaves.set(key, action);
+                return;
+            }
+            if (action.type === 'SAVE_LESSON' && uploadBetween(first, action)) {
+                // This save takes the place of the earlier one, after the upload.
+                const replaced = updated.get(first.id!) || first;
+                dropped.add(first.id!);
+                updated.delete(first.id!);
+                if (replaced.isNew) updated.set(action.id!, { ...action, isNew: true });
+                openSaves.set(key, action);
+                return;
+            }
+            updated.set(first.id!, { ...(updated.get(first.id!) || first), payload: action.payload });
+            dropped.add(action.id!);
+        });
+
+        if (dropped.size === 0) return;
+        await db.syncQueue.bulkDelete([...dropped]);
+        await db.syncQueue.bulkPut([...updated.values()].filter(a => !dropped.has(a.id!)));
+        console.log(`Compacted sync queue from ${actions.length} to ${actions.length - dropped.size} items.`);
+    });
+};
+
+// --- Dead letters ---
+
+export const getDeadLetters = (): Promise<DeadLetterItem[]> => {
+    return db.deadLetters.orderBy('failedAt').reverse().toArray();
+};
+
+// Puts a failed action back in the queue with a fresh set of attempts. It keeps its original
+// timestamp so it still runs before anything that was queued after it.
+export const retryDeadLetter = async (deadLetterId: number): Promise<void> => {
+    const deadLetter = await db.deadLetters.get(deadLetterId);
+    if (!deadLetter) return;
+    const { id, failedAt, lastError, attempts, ...item } = deadLetter;
+    await db.transaction('rw', db.syncQueue, db.deadLetters, async () => {
+        await db.syncQueue.add(item);
+        await db.deadLetters.delete(deadLetterId);
+    });
+};
+
+export const discardDeadLetter = async (deadLetterId: number): Promise<void> => {
+    await db.deadLetters.delete(deadLetterId);
+};
+
+type PushOutcome = Pick<SyncJournalEntry, 'result' | 'bytes'>;
+
+// Pushes a single queued action to the backend, throwing if it didn't go through.
+const pushAction = async (action: SyncQueueItem): Promise<PushOutcome> => {
+    const backend = getSyncBackend();
+    const bytes = jsonBytes(action.payload);
+    switch (action.type) {
+        case 'UPDATE_PROGRESS':
+            return { result: await pushProgress(action.payload), bytes };
+        case 'SAVE_COURSE':
+            return { result: await pushCourse(action.payload, action.isNew), bytes };
+        case 'SAVE_LESSON': {
+            const result = await pushLesson(action.payload, action.isNew);
+            if (result === 'ok') await deleteReplacedVideos(action.payload);
+            return { result, bytes };
+        }
+        case 'DELETE_COURSE':
+            // The server also drops the course's lessons and its entries in student progress.
+            // Both deletes can be repeated, so a failure to delete the videos retries them together.
+            await backend.content.deleteCourse(action.payload.id);
+            await backend.storage.deleteVideos(videoFolder(action.payload.id));
+            return { result: 'ok', bytes };
+        case 'DELETE_LESSON':
+            // The server also drops the lesson from student progress and rescores its course.
+            await backend.content.deleteLesson(action.payload.id);
+            await backend.storage.deleteVideos(videoFolder(action.payload.courseId, action.payload.id));
+            return { result: 'ok', bytes };
+        case 'UPLOAD_VIDEO': {
+            const sent = await uploadQueuedVideo(action);
+            return sent === null ? { result: 'skipped', bytes: 0 } : { result: 'ok', bytes: sent };
+        }
+        case 'REPORT_VIDEO_INTEGRITY':
+            await backend.integrity.reportVideoIntegrity(integrityReportToRow(action.payload));
+            return { result: 'ok', bytes };
+    }
+};
+
+// Processes the sync queue to push offline changes to the backend.
+// Actions run oldest first. A failed action is retried with exponential backoff and, after
+// MAX_ATTEMPTS, moved to the dead-letter table. While an action is failing or waiting,
+// later actions on the same record or on records that depend on it (a course's lessons) wait too.
+// `ignoreBackoff` is for user-initiated syncs, which retry waiting actions straight away.
+export const processSyncQueue = async ({ ignoreBackoff = false } = {}) => {
+    await compactSyncQueue();
     const offlineActions = await db.syncQueue.orderBy('timestamp').toArray();
     if (offlineActions.length === 0) {
         console.log('Sync queue is empty.');
@@ -96,171 +635,127 @@ export const processSyncQueue = async () => {
 
     console.log(`Processing ${offlineActions.length} items from sync queue.`);
 
-    for (const action of offlineActions) {
-        try {
-            let error = null;
-            switch (action.type) {
-                case 'UPDATE_PROGRESS':
-                    const { studentId, studentName, courseProgress, scoreHistory } = action.payload;
-                    const { error: progressError } = await supabase.from('student_progress').upsert({
-                        student_id: studentId,
-                        student_name: studentName,
-                        course_progress: courseProgress,
-                        score_history: scoreHistory,
-                    });
-                    error = progressError;
-                    break;
-                case 'SAVE_COURSE':
-                    const course = action.payload;
-                    const { error: courseError } = await supabase.from('courses').upsert({
-                        id: course.id,
-                        title: course.title,
-                        description: course.description,
-                        icon: course.icon,
-                        author_id: course.authorId,
-                        for_class: course.forClass,
-                    });
-                    error = courseError;
-                    break;
-                case 'SAVE_LESSON':
-                    const lesson = action.payload;
-                    const { error: lessonError } = await supabase.from('lessons').upsert({
-                        id: lesson.id,
-                        course_id: lesson.course_id,
-                        title: lesson.title,
-                        content: lesson.content,
-                        summary: lesson.summary,
-                        video_url: lesson.videoUrl,
-                        difficulty: lesson.difficulty,
-                        quiz: lesson.quiz,
-                        transcript: lesson.transcript,
-                    });
-                    error = lessonError;
-                    break;
-                 case 'DELETE_COURSE':
-                    const courseIdToDelete = action.payload.id;
-                    // This is now the source of truth for handling a course deletion and its side effects.
-                    // 1. Delete associated lessons.
-                    const { error: lessonsError } = await supabase.from('lessons').delete().match({ course_id: courseIdToDelete });
-                    if (lessonsError) {
-                        error = lessonsError;
-                        break;
-                    }
-
-                    // 2. Delete the course itself.
-                    const { error: deleteCourseError } = await supabase.from('courses').delete().match({ id: courseIdToDelete });
-                    if (deleteCourseError) {
-                        error = deleteCourseError;
-                        break;
-                    }
-
-                    // 3. Atomically clean up all student progress records on the backend.
-                    const { data: allProgress, error: fetchProgressError } = await supabase
-                        .from('student_progress')
-                        .select('student_id, course_progress');
-                        
-                    if(fetchProgressError) {
-                        error = fetchProgressError;
-                        break;
-                    }
-
-                    if (allProgress) {
-                        const progressUpdates = allProgress.map(p => {
-                            const courseProgress = (p.course_progress as any[] || []);
-                            const updatedCourseProgress = courseProgress.filter(cp => cp.courseId !== courseIdToDelete);
-                            
-                            if (updatedCourseProgress.length < courseProgress.length) {
-                                return {
-                                    student_id: p.student_id,
-                                    course_progress: updatedCourseProgress,
-                                };
-                            }
-                            return null;
-                        }).filter((p): p is { student_id: string; course_progress: any[]; } => p !== null);
-
-                        if (progressUpdates.length > 0) {
-                            const { error: updateProgressError } = await supabase.from('student_progress').upsert(progressUpdates);
-                            if (updateProgressError) {
-                                error = updateProgressError;
-                                break;
-                            }
-                        }
-                    }
-                    break;
-                 case 'DELETE_LESSON':
-                    const { id: lessonIdToDelete, courseId: parentCourseId } = action.payload;
-                    
-                    // 1. Delete the lesson itself.
-                    const { error: deleteLessonError } = await supabase.from('lessons').delete().match({ id: lessonIdToDelete });
-                    if (deleteLessonError) {
-                        error = deleteLessonError;
-                        break;
-                    }
-                    
-                    // 2. Atomically clean up all student progress records on the backend.
-                    const { data: allProgressForLesson, error: fetchProgressErr } = await supabase
-                        .from('student_progress')
-                        .select('student_id, course_progress');
-
-                    if (fetchProgressErr) {
-                        error = fetchProgressErr;
-                        break;
-                    }
-
-                    if (allProgressForLesson) {
-                        const progressUpdates = allProgressForLesson.map(p => {
-                            const courseProgressList = (p.course_progress as any[] || []) as CourseProgress[];
-                            let hasChanged = false;
-
-                            const updatedCourseProgressList = courseProgressList.map(cp => {
-                                // Find the course that contained the deleted lesson
-                                if (cp.courseId === parentCourseId) {
-                                    const originalLessonStatusCount = cp.lessonStatus.length;
-                                    const updatedLessonStatus = cp.lessonStatus.filter(ls => ls.lessonId !== lessonIdToDelete);
-                                    
-                                    // If a lesson status was removed, we need to update this student's progress
-                                    if (updatedLessonStatus.length < originalLessonStatusCount) {
-                                        hasChanged = true;
-                                        // Recalculate scores for this course
-                                        const completedLessonsWithScore = updatedLessonStatus.filter(ls => ls.finalScore > 0);
-                                        cp.completedLessons = completedLessonsWithScore.length;
-                                        const totalScore = completedLessonsWithScore.reduce((sum, ls) => sum + ls.finalScore, 0);
-                                        cp.score = completedLessonsWithScore.length > 0 ? totalScore / completedLessonsWithScore.length : 0;
-                                        cp.lessonStatus = updatedLessonStatus;
-                                        // Also update total lessons count
-                                        cp.totalLessons = Math.max(0, cp.totalLessons -1);
-                                    }
-                                }
-                                return cp;
-                            });
-
-                            if (hasChanged) {
-                                return {
-                                    student_id: p.student_id,
-                                    course_progress: updatedCourseProgressList,
-                                };
-                            }
-                            return null;
-                        }).filter((p): p is { student_id: string; course_progress: any[]; } => p !== null);
-
-                        if (progressUpdates.length > 0) {
-                            const { error: updateProgressError } = await supabase.from('student_progress').upsert(progressUpdates);
-                             if (updateProgressError) {
-                                error = updateProgressError;
-                            }
-                        }
-                    }
-                    break;
-            }
+    const now = Date.now();
+    const deadLetters = await db.deadLetters.toArray();
+    const blockedKeys = new Set(deadLetters.map(entityKey));
+    const sessionUserId = await getSyncBackend().auth.getSessionUserId();
+    const rosterIds = new Set(await db.deviceRoster.toCollection().primaryKeys());
 
-            if (error) {
-                throw error;
-            }
+    for (const queued of offlineActions) {
+        // Earlier pushes in this run may have rebased the payload, so work from the stored copy.
+        const action = await db.syncQueue.get(queued.id!);
+        if (!action) continue;
+
+        const key = entityKey(action);
+        const isBlocked = blockedKeys.has(key) || dependencyKeys(action).some(k => blockedKeys.has(k));
+        const isBackingOff = !ignoreBackoff && !!action.nextAttemptAt && action.nextAttemptAt > now;
+        const owner = queuedActionOwner(action);
+        const isOtherStudents = !!owner && owner !== sessionUserId && rosterIds.has(owner);
+        if (isBlocked || isBackingOff || isOtherStudents) {
+            blockedKeys.add(key);
+            continue;
+        }
+
+        const startedAt = Date.now();
+        try {
+            const { result, bytes } = await pushAction(action);
             await db.syncQueue.delete(action.id!);
             console.log(`Successfully processed action ID: ${action.id}, type: ${action.type}.`);
+            await recordSyncEvent({ at: startedAt, type: action.type, entityId: key, result, bytes });
         } catch (error: any) {
-            console.error(`Failed to process sync action ID: ${action.id}, type: ${action.type}.`);
-            console.error(`Error: ${error.message}`);
+            blockedKeys.add(key);
+            const result = await recordFailure(action, error);
+            await recordSyncEvent({ at: startedAt, type: action.type, entityId: key, result, error: error?.message || String(error), bytes: 0 });
+        }
+    }
+};
+
+// --- Sync status ---
+
+export interface SyncStatus {
+    pendingCount: number; // Actions waiting in the queue
+    failedCount: number; // Actions moved to the dead-letter table
+    isSyncing: boolean;
+    lastSyncedAt: number | null; // End of the last sync that finished without errors
+    lastError: string | null; // From the current or most recent sync
+}
+
+const LAST_SYNCED_AT_KEY = 'vidyalehar_last_synced_at';
+// Absent in the service worker, which also runs syncs (see services/backgroundSync.ts).
+const pageStorage: Storage | undefined = globalThis.localStorage;
+
+let syncStatus: SyncStatus = {
+    pendingCount: 0,
+    failedCount: 0,
+    isSyncing: false,
+    lastSyncedAt: Number(pageStorage?.getItem(LAST_SYNCED_AT_KEY)) || null,
+    lastError: null,
+};
+
+const statusListeners = new Set<(status: SyncStatus) => void>();
+let queueCountSubscription: { unsubscribe: () => void } | null = null;
+
+const updateSyncStatus = (changes: Partial<SyncStatus>) => {
+    syncStatus = { ...syncStatus, ...changes };
+    statusListeners.forEach(listener => listener(syncStatus));
+};
+
+export const getSyncStatus = (): SyncStatus => syncStatus;
+
+// Calls `listener` with the current status right away and again on every change.
+// Returns a function that stops the updates.
+export const subscribeToSyncStatus = (listener: (status: SyncStatus) => void): (() => void) => {
+    statusListeners.add(listener);
+    if (!queueCountSubscription) {
+        // Queue counts change from many places (content edits, quiz attempts, the sync itself),
+        // so they're observed straight from IndexedDB rather than reported by each writer.
+        queueCountSubscription = liveQuery(async () => ({
+            pendingCount: await db.syncQueue.count(),
+            failedCount: await db.deadLetters.count(),
+        })).subscribe({
+            next: counts => updateSyncStatus(counts),
+            error: error => console.error('Failed to observe sync queue:', error),
+        });
+    }
+    listener(syncStatus);
+
+    return () => {
+        statusListeners.delete(listener);
+        if (statusListeners.size === 0) {
+            queueCountSubscription?.unsubscribe();
+            queueCountSubscription = null;
         }
+    };
+};
+
+let inFlightSync: Promise<void> | null = null;
+
+// Pushes local changes first, so nothing is lost, then pulls remote ones. Callers that
+// arrive while a sync is running share it instead of starting a second one.
+// `manual` marks a sync the user asked for, which doesn't wait out retry backoff.
+export const syncNow = ({ manual = false } = {}): Promise<void> => {
+    if (!inFlightSync) {
+        inFlightSync = (async () => {
+            const userId = await getSyncBackend().auth.getSessionUserId();
+            if (!userId) return; // Nothing can be pushed or pulled without a signed-in user.
+
+            updateSyncStatus({ isSyncing: true, lastError: null });
+            try {
+                await processSyncQueue({ ignoreBackoff: manual });
+                await syncDown();
+                await downloadLessonVideos();
+                await updateCoursePackages();
+                if (!syncStatus.lastError) {
+                    const now = Date.now();
+                    pageStorage?.setItem(LAST_SYNCED_AT_KEY, String(now));
+                    updateSyncStatus({ lastSyncedAt: now });
+                }
+            } finally {
+                updateSyncStatus({ isSyncing: false });
+            }
+        })().finally(() => {
+            inFlightSync = null;
+        });
     }
-};
\ No newline at end of file
+    return inFlightSync;
+};
@@ -0,0 +1,113 @@
+import { db, type SyncQueueItem } from './db';
+import { getSyncBackend } from './backend';
+import { VIDEO_CHUNK_SIZE } from './syncBackend';
+import { recordSyncEvent } from './syncJournal';
+import { STORAGE_FULL } from './storageService';
+import { downloadVideo, type DownloadOutcome } from './resumableDownloadService';
+
+// Teacher-uploaded videos travel through shared storage:
+// - saveLesson keeps the file in db.videos and queues an UPLOAD_VIDEO action, which the sync
+//   queue pushes in chunks. The upload id is kept on the action, so an upload cut off by a
+//   disconnect (or a closed tab) carries on from the last chunk the server received.
+// - Every device fetches the videos of the lessons it holds after a sync down, as far as its
+//   storage limits allow (see services/storageService.ts).
+// A lesson names its video by storage path, and each new file gets a new path, so a copy
+// in db.videos is current exactly when its path matches the lesson's.
+// Files a lesson no longer names are deleted from shared storage once the lesson (or its
+// deletion) has been pushed; see pushAction in services/syncService.ts.
+
+export const videoFolder = (courseId: string, lessonId?: string) => lessonId ? `${courseId}/${lessonId}` : courseId;
+
+export const newVideoPath = (courseId: string, lessonId: string) => `${videoFolder(courseId, lessonId)}/${Date.now()}`;
+
+// Deletes the earlier files of a lesson that has just been saved on the server. Pushing the
+// save can't be undone, so a failure here only leaves the files for the lesson's next save
+// (or deletion) to clear up.
+export const deleteReplacedVideos = async (lesson: { id: string; course_id: string; videoPath?: string }): Promise<void> => {
+    try {
+        await getSyncBackend().storage.deleteVideos(videoFolder(lesson.course_id, lesson.id), lesson.videoPath);
+    } catch (error) {
+        console.warn(`Failed to delete replaced videos of lesson ${lesson.id}:`, error);
+    }
+};
+
+// Pushes the video of a queued UPLOAD_VIDEO action, throwing if it didn't get all the way.
+// Returns the bytes sent, or null if there was nothing to upload.
+export const uploadQueuedVideo = async (action: SyncQueueItem): Promise<number | null> => {
+    const { lessonId, path } = action.payload;
+    const video = await db.videos.get(lessonId);
+    const lesson = await db.lessons.get(lessonId);
+    // Replaced by another file or removed since it was queued; the newer action (if any) wins.
+    if (!video || video.path !== path || (lesson && lesson.videoPath !== path)) {
+        console.log(`Skipping upload of ${path}: the lesson no longer uses it.`);
+        return null;
+    }
+
+    const storage = getSyncBackend().storage;
+    let uploadId: string | undefined = action.payload.uploadId;
+    let offset = uploadId ? await storage.getUploadOffset(uploadId) : null;
+    if (!uploadId || offset === null) {
+        uploadId = await storage.startVideoUpload(path, video.blob.size, video.blob.type || 'video/mp4');
+        offset = 0;
+        await db.syncQueue.update(action.id!, { payload: { ...action.payload, uploadId } });
+    }
+
+    const resumedAt = offset;
+    while (offset < video.blob.size) {
+        offset = await storage.uploadVideoChunk(uploadId, offset, video.blob.slice(offset, offset + VIDEO_CHUNK_SIZE));
+    }
+    return offset - resumedAt;
+};
+
+// Fetches a lesson's video from shared storage, making room for it. Like a student's download
+// from a link, it comes in resumable chunks (see services/resumableDownloadService.ts), so this
+// may end before the video has arrived. Throws if it didn't work out; a video that doesn't fit
+// is left off this device until asked for (see LessonView).
+export const downloadLessonVideo = async (lessonId: string, path: string): Promise<DownloadOutcome> => {
+    const startedAt = Date.now();
+    try {
+        if ((await db.videos.get(lessonId))?.path === path) {
+            await db.lessons.where('id').equals(lessonId).filter(l => l.videoPath === path).modify({ hasOfflineVideo: true, videoEvicted: false });
+            return 'done';
+        }
+        const outcome = await downloadVideo(lessonId, path, { fromStorage: true });
+        const record = await db.downloads.get(lessonId);
+        if (outcome === 'done' && record?.url === path) {
+            await recordSyncEvent({ at: startedAt, type: 'DOWNLOAD_VIDEO', entityId: `video:${lessonId}`, result: 'ok', bytes: record.size });
+        }
+        return outcome;
+    } catch (error: any) {
+        const message = error?.message || String(error);
+        if (error?.code === STORAGE_FULL) {
+            await db.lessons.where('id').equals(lessonId).filter(l => l.videoPath === path).modify({ videoEvicted: true });
+            await recordSyncEvent({ at: startedAt, type: 'DOWNLOAD_VIDEO', entityId: `video:${lessonId}`, result: 'skipped', bytes: 0, detail: message });
+        } else {
+            await recordSyncEvent({ at: startedAt, type: 'DOWNLOAD_VIDEO', entityId: `video:${lessonId}`, result: 'failed', error: message, bytes: 0 });
+        }
+        throw error;
+    }
+};
+
+let inFlightDownloads: Promise<void> | null = null;
+
+// Fetches the videos of local lessons that don't have a current copy on this device yet.
+// Failures are left for the next run: the upload may simply not have finished. Downloads
+// someone paused stay paused.
+export const downloadLessonVideos = (): Promise<void> => {
+    if (!inFlightDownloads) {
+        inFlightDownloads = (async () => {
+            const paused = new Set(await db.partialDownloads.where('status').equals('paused').primaryKeys());
+            const missing = await db.lessons
+                .filter(lesson => !!lesson.videoPath && !lesson.hasOfflineVideo && !lesson.videoEvicted && !paused.has(lesson.id))
+                .toArray();
+            for (const lesson of missing) {
+                await downloadLessonVideo(lesson.id, lesson.videoPath!).catch(error => {
+                    console.warn(`Couldn't download the video of lesson ${lesson.id}: ${error?.message || error}`);
+                });
+            }
+        })().finally(() => {
+            inFlightDownloads = null;
+        });
+    }
+    return inFlightDownloads;
+};
@@ -0,0 +1,49 @@
+-- Per-record versions for conflict-aware sync.
+--
+-- Every synced table gets a `version` counter and an `updated_at` stamp. Both are
+-- maintained by a trigger, so clients never set them directly. A client pushes a
+-- change with `UPDATE ... WHERE version = <version it last saw>`; if no row matches,
+-- another device got there first and the client merges or reports a conflict.
+--
+-- `updated_at` is the clock time of the write itself (`clock_timestamp()`), not the start
+-- of its transaction (`now()`). Stamps still don't arrive in commit order, so clients
+-- re-read a short window before their checkpoint (SYNC_OVERLAP_MS in
+-- services/syncService.ts); no transaction may stay open longer than that window.
+
+alter table public.courses
+    add column if not exists version integer not null default 1,
+    add column if not exists updated_at timestamptz not null default clock_timestamp();
+
+alter table public.lessons
+    add column if not exists version integer not null default 1,
+    add column if not exists updated_at timestamptz not null default clock_timestamp();
+
+alter table public.student_progress
+    add column if not exists version integer not null default 1,
+    add column if not exists updated_at timestamptz not null default clock_timestamp();
+
+create or replace function public.bump_record_version()
+returns trigger
+language plpgsql
+as $$
+begin
+    new.version := old.version + 1;
+    new.updated_at := clock_timestamp();
+    return new;
+end;
+$$;
+
+drop trigger if exists courses_bump_version on public.courses;
+create trigger courses_bump_version
+    before update on public.courses
+    for each row execute function public.bump_record_version();
+
+drop trigger if exists lessons_bump_version on public.lessons;
+create trigger lessons_bump_version
+    before update on public.lessons
+    for each row execute function public.bump_record_version();
+
+drop trigger if exists student_progress_bump_version on public.student_progress;
+create trigger student_progress_bump_version
+    before update on public.student_progress
+    for each row execute function public.bump_record_version();
@@ -0,0 +1,105 @@
+-- Delta sync support.
+--
+-- Clients keep a checkpoint per table (the newest `updated_at` they have applied) and
+-- only ask for rows changed after it, less the overlap window described in 002. Deleted
+-- rows can't be found that way, so every delete on a synced table leaves a tombstone
+-- behind for clients to replay.
+
+-- Profiles had no change stamp yet; the other synced tables got one in 002.
+alter table public.profiles
+    add column if not exists updated_at timestamptz not null default clock_timestamp();
+
+create or replace function public.touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+    new.updated_at := clock_timestamp();
+    return new;
+end;
+$$;
+
+drop trigger if exists profiles_touch_updated_at on public.profiles;
+create trigger profiles_touch_updated_at
+    before update on public.profiles
+    for each row execute function public.touch_updated_at();
+
+create index if not exists courses_updated_at_idx on public.courses (updated_at);
+create index if not exists lessons_updated_at_idx on public.lessons (updated_at);
+create index if not exists student_progress_updated_at_idx on public.student_progress (updated_at);
+create index if not exists profiles_updated_at_idx on public.profiles (updated_at);
+
+-- --- Tombstones ---
+
+create table if not exists public.sync_tombstones (
+    id bigserial primary key,
+    table_name text not null,
+    record_id text not null,
+    deleted_at timestamptz not null default clock_timestamp()
+);
+
+create index if not exists sync_tombstones_deleted_at_idx on public.sync_tombstones (deleted_at);
+
+alter table public.sync_tombstones enable row level security;
+
+drop policy if exists "Authenticated users can read tombstones" on public.sync_tombstones;
+create policy "Authenticated users can read tombstones"
+    on public.sync_tombstones for select
+    to authenticated
+    using (true);
+
+-- Runs as the owner so the deleting user doesn't need insert rights on the tombstone table.
+-- TG_ARGV[0] names the table's key column.
+create or replace function public.record_tombstone()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    insert into public.sync_tombstones (table_name, record_id)
+    values (TG_TABLE_NAME, to_jsonb(old) ->> TG_ARGV[0]);
+    return old;
+end;
+$$;
+
+drop trigger if exists courses_tombstone on public.courses;
+create trigger courses_tombstone
+    after delete on public.courses
+    for each row execute function public.record_tombstone('id');
+
+drop trigger if exists lessons_tombstone on public.lessons;
+create trigger lessons_tombstone
+    after delete on public.lessons
+    for each row execute function public.record_tombstone('id');
+
+drop trigger if exists student_progress_tombstone on public.student_progress;
+create trigger student_progress_tombstone
+    after delete on public.student_progress
+    for each row execute function public.record_tombstone('student_id');
+
+drop trigger if exists profiles_tombstone on public.profiles;
+create trigger profiles_tombstone
+    after delete on public.profiles
+    for each row execute function public.record_tombstone('id');
+
+-- Tombstones only need to outlive the longest gap between two syncs of a device.
+-- Clients that haven't synced within the retention window (30 days, matching
+-- TOMBSTONE_RETENTION_MS in services/syncService.ts) fall back to a full download.
+-- Pruning early would let devices keep rows deleted since their last sync, so only the
+-- nightly job below may run it, never a signed-in user.
+create or replace function public.prune_sync_tombstones(retention interval default interval '30 days')
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+    delete from public.sync_tombstones where deleted_at < now() - retention;
+$$;
+
+revoke all on function public.prune_sync_tombstones(interval) from public, anon, authenticated;
+
+create extension if not exists pg_cron;
+
+-- Re-running the migration replaces the job of the same name.
+select cron.schedule('prune-sync-tombstones', '30 2 * * *', 'select public.prune_sync_tombstones()');
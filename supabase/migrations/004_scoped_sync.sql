@@ -0,0 +1,192 @@
+-- Role- and class-scoped access.
+--
+-- Students see their own profile and progress, and the courses (with lessons) of their
+-- class. Teachers see the profiles and progress of the students in their class, the
+-- courses of their class and every course they wrote. Clients rely on these policies
+-- for what a sync down returns, and mirror them when pruning their local copy
+-- (pruneOutOfScope in services/syncService.ts).
+
+create or replace function public.current_profile_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select role::text from public.profiles where id = auth.uid();
+$$;
+
+create or replace function public.current_profile_class()
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select class from public.profiles where id = auth.uid();
+$$;
+
+-- Whether the signed-in user is a teacher of the given student's class.
+create or replace function public.teaches_student(student text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1
+        from public.profiles teacher
+        join public.profiles pupil on pupil.class = teacher.class
+        where teacher.id = auth.uid()
+          and teacher.role::text = 'Teacher'
+          and pupil.id::text = student
+    );
+$$;
+
+-- Replace whatever policies these tables had, so nothing wider is left behind
+-- (permissive policies are OR-ed together).
+do $$
+declare
+    policy record;
+begin
+    for policy in
+        select policyname, tablename from pg_policies
+        where schemaname = 'public' and tablename in ('profiles', 'courses', 'lessons', 'student_progress')
+    loop
+        execute format('drop policy %I on public.%I', policy.policyname, policy.tablename);
+    end loop;
+end;
+$$;
+
+alter table public.profiles enable row level security;
+alter table public.courses enable row level security;
+alter table public.lessons enable row level security;
+alter table public.student_progress enable row level security;
+
+-- --- Profiles ---
+
+create policy "Own profile and, for teachers, their class"
+    on public.profiles for select
+    to authenticated
+    using (id = auth.uid() or (public.current_profile_role() = 'Teacher' and class = public.current_profile_class()));
+
+create policy "Users create their own profile"
+    on public.profiles for insert
+    to authenticated
+    with check (id = auth.uid());
+
+create policy "Users update their own profile"
+    on public.profiles for update
+    to authenticated
+    using (id = auth.uid());
+
+-- The role and class decide everything a user can see above, so users can't change theirs.
+-- Policies can't compare a row with its old version; a trigger can.
+create or replace function public.guard_profile_update()
+returns trigger
+language plpgsql
+as $$
+begin
+    -- Security definer functions run as their owner, not as the signed-in user.
+    if current_user = 'authenticated' and (
+        new.role is distinct from old.role
+        or new.class is distinct from old.class
+    ) then
+        raise exception 'Users can''t change their own role or class' using errcode = '42501';
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists profiles_guard_update on public.profiles;
+create trigger profiles_guard_update
+    before update on public.profiles
+    for each row execute function public.guard_profile_update();
+
+-- --- Courses & lessons ---
+
+create policy "Courses of the user's class and own courses"
+    on public.courses for select
+    to authenticated
+    using (for_class = public.current_profile_class() or author_id = auth.uid());
+
+create policy "Teachers create their own courses"
+    on public.courses for insert
+    to authenticated
+    with check (author_id = auth.uid() and public.current_profile_role() = 'Teacher');
+
+create policy "Authors update their courses"
+    on public.courses for update
+    to authenticated
+    using (author_id = auth.uid());
+
+create policy "Authors delete their courses"
+    on public.courses for delete
+    to authenticated
+    using (author_id = auth.uid());
+
+-- The subquery runs with the courses policy applied, so lessons follow their course.
+create policy "Lessons of visible courses"
+    on public.lessons for select
+    to authenticated
+    using (exists (select 1 from public.courses c where c.id = course_id));
+
+create policy "Authors manage the lessons of their courses"
+    on public.lessons for all
+    to authenticated
+    using (exists (select 1 from public.courses c where c.id = course_id and c.author_id = auth.uid()))
+    with check (exists (select 1 from public.courses c where c.id = course_id and c.author_id = auth.uid()));
+
+-- --- Progress ---
+
+create policy "Own progress and, for teachers, their class's"
+    on public.student_progress for select
+    to authenticated
+    using (student_id::text = auth.uid()::text or public.teaches_student(student_id::text));
+
+create policy "Students and their teachers record progress"
+    on public.student_progress for insert
+    to authenticated
+    with check (student_id::text = auth.uid()::text or public.teaches_student(student_id::text));
+
+create policy "Students and their teachers update progress"
+    on public.student_progress for update
+    to authenticated
+    using (student_id::text = auth.uid()::text or public.teaches_student(student_id::text));
+
+create policy "Teachers delete their class's progress"
+    on public.student_progress for delete
+    to authenticated
+    using (public.teaches_student(student_id::text));
+
+-- --- Scope changes ---
+
+-- A course moved to another class, or a student moved to another class, disappears from
+-- some devices' scope without being deleted. A tombstone makes those devices drop it;
+-- devices that can still see the record get the updated row in the same sync, which is
+-- applied after the tombstones. TG_ARGV: key column, scope column.
+create or replace function public.record_scope_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if (to_jsonb(new) ->> TG_ARGV[1]) is distinct from (to_jsonb(old) ->> TG_ARGV[1]) then
+        insert into public.sync_tombstones (table_name, record_id)
+        values (TG_TABLE_NAME, to_jsonb(old) ->> TG_ARGV[0]);
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists courses_scope_change on public.courses;
+create trigger courses_scope_change
+    after update on public.courses
+    for each row execute function public.record_scope_change('id', 'for_class');
+
+drop trigger if exists profiles_scope_change on public.profiles;
+create trigger profiles_scope_change
+    after update on public.profiles
+    for each row execute function public.record_scope_change('id', 'class');
@@ -0,0 +1,117 @@
+-- Server-side delete cascades.
+--
+-- Deleting a course or a lesson also has to drop it from every student's
+-- `course_progress`. Doing that from the client took a round trip per student, wasn't
+-- atomic and raced with progress pushed from other devices. These functions do the whole
+-- cascade in one transaction; clients call them through `rpc` (see services/supabaseBackend.ts).
+--
+-- They run as the owner, because the author's own policies don't reach the progress of
+-- students outside their class, so authorship is checked here instead. Deleting something
+-- that is already gone is a no-op, so a retried call is harmless.
+
+-- A course_progress entry without the given lesson, with its totals worked out again the
+-- same way the app does: the score averages the lessons that have a final score.
+create or replace function public.remove_lesson_from_course_progress(entry jsonb, target_lesson_id text)
+returns jsonb
+language sql
+immutable
+as $$
+    with remaining as (
+        select coalesce(jsonb_agg(status order by ord), '[]'::jsonb) as statuses
+        from jsonb_array_elements(coalesce(entry -> 'lessonStatus', '[]'::jsonb)) with ordinality as s(status, ord)
+        where status ->> 'lessonId' is distinct from target_lesson_id
+    ),
+    scored as (
+        select count(*) as completed, coalesce(avg((status ->> 'finalScore')::numeric), 0) as score
+        from remaining, jsonb_array_elements(remaining.statuses) as s(status)
+        where (status ->> 'finalScore')::numeric > 0
+    )
+    select entry || jsonb_build_object(
+        'lessonStatus', remaining.statuses,
+        'completedLessons', scored.completed,
+        'score', scored.score,
+        'totalLessons', greatest(coalesce((entry ->> 'totalLessons')::integer, 0) - 1, 0)
+    )
+    from remaining, scored;
+$$;
+
+create or replace function public.delete_course(target_course_id text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    course_author text;
+begin
+    select author_id::text into course_author
+    from public.courses where id::text = target_course_id
+    for update;
+    if not found then
+        return;
+    end if;
+    if course_author is distinct from auth.uid()::text then
+        raise exception 'Only the author can delete this course' using errcode = '42501';
+    end if;
+
+    delete from public.lessons where course_id::text = target_course_id;
+    delete from public.courses where id::text = target_course_id;
+
+    update public.student_progress
+    set course_progress = (
+        select coalesce(jsonb_agg(entry order by ord), '[]'::jsonb)
+        from jsonb_array_elements(course_progress) with ordinality as e(entry, ord)
+        where entry ->> 'courseId' is distinct from target_course_id
+    )
+    where course_progress @> jsonb_build_array(jsonb_build_object('courseId', target_course_id));
+end;
+$$;
+
+create or replace function public.delete_lesson(target_lesson_id text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    parent_course_id text;
+    course_author text;
+begin
+    select l.course_id::text, c.author_id::text into parent_course_id, course_author
+    from public.lessons l
+    join public.courses c on c.id = l.course_id
+    where l.id::text = target_lesson_id
+    for update of l;
+    if not found then
+        return;
+    end if;
+    if course_author is distinct from auth.uid()::text then
+        raise exception 'Only the author can delete this lesson' using errcode = '42501';
+    end if;
+
+    delete from public.lessons where id::text = target_lesson_id;
+
+    -- Only students who have a status for the lesson change, as on the client before.
+    update public.student_progress
+    set course_progress = (
+        select jsonb_agg(
+            case
+                when entry ->> 'courseId' = parent_course_id
+                    then public.remove_lesson_from_course_progress(entry, target_lesson_id)
+                else entry
+            end
+            order by ord
+        )
+        from jsonb_array_elements(course_progress) with ordinality as e(entry, ord)
+    )
+    where course_progress @> jsonb_build_array(jsonb_build_object(
+        'courseId', parent_course_id,
+        'lessonStatus', jsonb_build_array(jsonb_build_object('lessonId', target_lesson_id))
+    ));
+end;
+$$;
+
+revoke execute on function public.delete_course(text) from public, anon;
+revoke execute on function public.delete_lesson(text) from public, anon;
+grant execute on function public.delete_course(text) to authenticated;
+grant execute on function public.delete_lesson(text) to authenticated;
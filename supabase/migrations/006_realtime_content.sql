@@ -0,0 +1,21 @@
+-- Realtime feed of content changes.
+--
+-- Connected devices subscribe to course and lesson changes (services/realtimeService.ts)
+-- so students see a teacher's edits without waiting for their next sync. Deletions,
+-- including courses that moved to another class, reach them through tombstone inserts.
+
+do $$
+declare
+    synced_table text;
+begin
+    foreach synced_table in array array['courses', 'lessons', 'sync_tombstones']
+    loop
+        if not exists (
+            select 1 from pg_publication_tables
+            where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = synced_table
+        ) then
+            execute format('alter publication supabase_realtime add table public.%I', synced_table);
+        end if;
+    end loop;
+end;
+$$;
@@ -0,0 +1,55 @@
+-- Teacher-uploaded lesson videos in shared storage.
+--
+-- A lesson points at its video by object path (`<course id>/<lesson id>/<upload time>`);
+-- a new file gets a new path, so devices can tell whether their copy is current. Files
+-- are uploaded in resumable chunks (services/videoSyncService.ts).
+
+alter table public.lessons
+    add column if not exists video_path text;
+
+insert into storage.buckets (id, name, public)
+values ('lesson-videos', 'lesson-videos', false)
+on conflict (id) do nothing;
+
+-- Access follows the course named by the path's first folder. The subqueries run with
+-- the courses policies applied, as for lessons in 004_scoped_sync.sql.
+
+drop policy if exists "Lesson videos of visible courses" on storage.objects;
+create policy "Lesson videos of visible courses"
+    on storage.objects for select
+    to authenticated
+    using (
+        bucket_id = 'lesson-videos'
+        and exists (select 1 from public.courses c where c.id::text = (storage.foldername(name))[1])
+    );
+
+-- Updates are needed as well, since resumable uploads overwrite (x-upsert) when retried.
+drop policy if exists "Authors upload lesson videos" on storage.objects;
+create policy "Authors upload lesson videos"
+    on storage.objects for insert
+    to authenticated
+    with check (
+        bucket_id = 'lesson-videos'
+        and exists (select 1 from public.courses c where c.id::text = (storage.foldername(name))[1] and c.author_id = auth.uid())
+    );
+
+drop policy if exists "Authors replace lesson videos" on storage.objects;
+create policy "Authors replace lesson videos"
+    on storage.objects for update
+    to authenticated
+    using (
+        bucket_id = 'lesson-videos'
+        and exists (select 1 from public.courses c where c.id::text = (storage.foldername(name))[1] and c.author_id = auth.uid())
+    );
+
+-- Files a lesson no longer names are deleted by the device that pushed the change (see
+-- services/videoSyncService.ts), which may be after the course itself is gone, so this
+-- follows who uploaded the file rather than the course.
+drop policy if exists "Authors delete lesson videos" on storage.objects;
+create policy "Authors delete lesson videos"
+    on storage.objects for delete
+    to authenticated
+    using (
+        bucket_id = 'lesson-videos'
+        and owner_id = auth.uid()::text
+    );
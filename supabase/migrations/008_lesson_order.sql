@@ -0,0 +1,21 @@
+-- Explicit lesson order within a course.
+--
+-- Devices list a course's lessons by `sort_order` (`order` locally, see
+-- services/lessonStore.ts). New lessons go after the others; a teacher can reorder them.
+
+alter table public.lessons
+    add column if not exists sort_order integer not null default 0;
+
+-- Existing lessons keep the order they were created in. Lesson ids start with their creation
+-- time, so they sort that way. The version trigger bumps every row, so devices download the
+-- new column with their next sync.
+update public.lessons l
+set sort_order = numbered.position
+from (
+    select id, row_number() over (partition by course_id order by id) - 1 as position
+    from public.lessons
+) numbered
+where numbered.id = l.id
+  and l.sort_order <> numbered.position;
+
+create index if not exists lessons_course_order_idx on public.lessons (course_id, sort_order);
@@ -0,0 +1,40 @@
+-- Integrity of the lesson videos kept on devices.
+--
+-- A lesson carries the SHA-256 of its uploaded video, so every device can check the copy
+-- it downloaded against the file the teacher uploaded. Devices that find a broken copy
+-- report it here and fetch it again (services/integrityService.ts); the course's teacher
+-- sees which students are affected.
+
+alter table public.lessons
+    add column if not exists video_hash text;
+
+create table if not exists public.video_integrity_reports (
+    student_id uuid not null references public.profiles (id) on delete cascade,
+    lesson_id text not null references public.lessons (id) on delete cascade,
+    status text not null check (status in ('broken', 'repaired')),
+    detail text,
+    reported_at timestamptz not null default now(),
+    primary key (student_id, lesson_id)
+);
+
+alter table public.video_integrity_reports enable row level security;
+
+-- Like student progress (004_scoped_sync.sql): students write their own reports, and the
+-- teachers of their class read them.
+drop policy if exists "Own reports and, for teachers, their class's" on public.video_integrity_reports;
+create policy "Own reports and, for teachers, their class's"
+    on public.video_integrity_reports for select
+    to authenticated
+    using (student_id = auth.uid() or public.teaches_student(student_id::text));
+
+drop policy if exists "Students report on their own copies" on public.video_integrity_reports;
+create policy "Students report on their own copies"
+    on public.video_integrity_reports for insert
+    to authenticated
+    with check (student_id = auth.uid());
+
+drop policy if exists "Students update their own reports" on public.video_integrity_reports;
+create policy "Students update their own reports"
+    on public.video_integrity_reports for update
+    to authenticated
+    using (student_id = auth.uid());
@@ -0,0 +1,75 @@
+-- Student accounts created by their teacher.
+--
+-- A teacher can upload their class list and get an account for every student on it
+-- (services/rosterImportService.ts). Signing up from the app would sign the teacher out
+-- and in as each new student, so the accounts are made here instead, the way Supabase Auth
+-- makes them for an email sign-up with confirmation turned off.
+--
+-- The function runs as the owner, as it writes to the auth schema; it checks itself that
+-- the caller is a teacher adding a student to their own class. A username that is already
+-- taken fails with a unique violation (23505), so the client can try another one.
+
+create extension if not exists pgcrypto with schema extensions;
+
+alter table public.profiles
+    add column if not exists full_name text,
+    add column if not exists roll_number text;
+
+create or replace function public.create_student_account(
+    student_username text,
+    student_password text,
+    student_full_name text,
+    student_class integer,
+    student_roll_number text
+)
+returns public.profiles
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+    new_user_id uuid := gen_random_uuid();
+    new_email text := lower(student_username) || '@vidyalehar.local';
+    created public.profiles;
+begin
+    if public.current_profile_role() is distinct from 'Teacher' then
+        raise exception 'Only teachers can create student accounts' using errcode = '42501';
+    end if;
+    if student_class is distinct from public.current_profile_class() then
+        raise exception 'Teachers can only create accounts for their own class' using errcode = '42501';
+    end if;
+    if student_username !~ '^[a-z0-9]+$' then
+        raise exception 'Usernames are lowercase letters and digits' using errcode = '22023';
+    end if;
+    if length(student_password) < 6 then
+        raise exception 'Password must be at least 6 characters long' using errcode = '22023';
+    end if;
+
+    -- GoTrue reads the token columns as strings, so they must not be null.
+    insert into auth.users (
+        instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+        confirmation_token, recovery_token, email_change_token_new, email_change,
+        raw_app_meta_data, raw_user_meta_data, created_at, updated_at
+    ) values (
+        '00000000-0000-0000-0000-000000000000', new_user_id, 'authenticated', 'authenticated',
+        new_email, crypt(student_password, gen_salt('bf')), now(),
+        '', '', '', '',
+        '{"provider": "email", "providers": ["email"]}'::jsonb,
+        jsonb_build_object('username', student_username), now(), now()
+    );
+    insert into auth.identities (id, user_id, provider_id, provider, identity_data, last_sign_in_at, created_at, updated_at)
+    values (
+        gen_random_uuid(), new_user_id, new_user_id::text, 'email',
+        jsonb_build_object('sub', new_user_id::text, 'email', new_email, 'email_verified', true),
+        now(), now(), now()
+    );
+
+    insert into public.profiles (id, username, role, class, full_name, roll_number)
+    values (new_user_id, student_username, 'Student', student_class, student_full_name, nullif(student_roll_number, ''))
+    returning * into created;
+    return created;
+end;
+$$;
+
+revoke all on function public.create_student_account(text, text, text, integer, text) from public, anon;
+grant execute on function public.create_student_account(text, text, text, integer, text) to authenticated;
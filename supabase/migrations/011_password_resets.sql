@@ -0,0 +1,138 @@
+-- Passwords reset by a teacher.
+--
+-- Accounts sign in with made-up @vidyalehar.local addresses, so a reset email can't reach
+-- anyone. Instead the teacher of a student's class sets a temporary password
+-- (services/passwordResetService.ts), which the student has to replace the next time they
+-- sign in. Every reset is logged, for the teachers of the class to see who reset what.
+--
+-- Like create_student_account (010_student_accounts.sql), the reset runs as the owner, as
+-- it writes to the auth schema, and checks itself that the caller teaches the student. It
+-- also ends the student's sessions, so a device someone else is signed in on loses access.
+-- The time of the last reset syncs with the profile, so every device that holds the old
+-- password's offline verifier or a saved session drops them (services/offlineAuthService.ts).
+--
+-- Students can't clear must_change_password themselves; clear_must_change_password does,
+-- once the password is no longer the one the teacher set.
+
+alter table public.profiles
+    add column if not exists must_change_password boolean not null default false,
+    add column if not exists password_reset_at timestamptz;
+
+-- The hash of each temporary password still in use. No policies: only the functions below
+-- read or write it.
+create table if not exists public.temporary_passwords (
+    user_id uuid primary key references public.profiles (id) on delete cascade,
+    password_hash text not null
+);
+
+alter table public.temporary_passwords enable row level security;
+revoke all on public.temporary_passwords from anon, authenticated;
+
+-- Replaces the guard of 004_scoped_sync.sql: users may set their own must_change_password,
+-- but not clear it, and only a reset sets password_reset_at.
+create or replace function public.guard_profile_update()
+returns trigger
+language plpgsql
+as $$
+begin
+    -- Security definer functions run as their owner, not as the signed-in user.
+    if current_user = 'authenticated' and (
+        new.role is distinct from old.role
+        or new.class is distinct from old.class
+    ) then
+        raise exception 'Users can''t change their own role or class' using errcode = '42501';
+    end if;
+    if current_user = 'authenticated' and old.must_change_password and not new.must_change_password then
+        raise exception 'Only changing the password clears must_change_password' using errcode = '42501';
+    end if;
+    if current_user = 'authenticated' and new.password_reset_at is distinct from old.password_reset_at then
+        raise exception 'Only a password reset sets password_reset_at' using errcode = '42501';
+    end if;
+    return new;
+end;
+$$;
+
+create table if not exists public.password_resets (
+    id bigint generated always as identity primary key,
+    student_id uuid not null references public.profiles (id) on delete cascade,
+    reset_by uuid references public.profiles (id) on delete set null,
+    reset_at timestamptz not null default now()
+);
+
+create index if not exists password_resets_student_id_idx on public.password_resets (student_id);
+
+alter table public.password_resets enable row level security;
+
+-- Written only by reset_student_password.
+drop policy if exists "Teachers read the resets of their class" on public.password_resets;
+create policy "Teachers read the resets of their class"
+    on public.password_resets for select
+    to authenticated
+    using (public.teaches_student(student_id::text));
+
+create or replace function public.reset_student_password(target_student_id uuid, new_password text)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+    password_hash text := crypt(new_password, gen_salt('bf'));
+begin
+    if not exists (
+        select 1 from public.profiles
+        where id = target_student_id and role::text = 'Student'
+    ) or not public.teaches_student(target_student_id::text) then
+        raise exception 'Only the teachers of a student''s class can reset their password' using errcode = '42501';
+    end if;
+    if length(new_password) < 6 then
+        raise exception 'Password must be at least 6 characters long' using errcode = '22023';
+    end if;
+
+    update auth.users
+    set encrypted_password = password_hash, updated_at = now()
+    where id = target_student_id;
+    delete from auth.sessions where user_id = target_student_id;
+
+    update public.profiles set must_change_password = true, password_reset_at = now() where id = target_student_id;
+    insert into public.temporary_passwords (user_id, password_hash) values (target_student_id, password_hash)
+    on conflict (user_id) do update set password_hash = excluded.password_hash;
+    insert into public.password_resets (student_id, reset_by) values (target_student_id, auth.uid());
+end;
+$$;
+
+revoke all on function public.reset_student_password(uuid, text) from public, anon;
+grant execute on function public.reset_student_password(uuid, text) to authenticated;
+
+-- Called by the student once their new password is set (services/supabaseBackend.ts).
+-- Refuses while the temporary password is still the one in use.
+create or replace function public.clear_must_change_password()
+returns public.profiles
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    updated public.profiles;
+begin
+    if exists (
+        select 1
+        from public.temporary_passwords temporary
+        join auth.users u on u.id = temporary.user_id
+        where temporary.user_id = auth.uid() and u.encrypted_password = temporary.password_hash
+    ) then
+        raise exception 'The temporary password hasn''t been changed' using errcode = '42501';
+    end if;
+
+    delete from public.temporary_passwords where user_id = auth.uid();
+    update public.profiles set must_change_password = false where id = auth.uid()
+    returning * into updated;
+    if not found then
+        raise exception 'No such account' using errcode = 'P0002';
+    end if;
+    return updated;
+end;
+$$;
+
+revoke all on function public.clear_must_change_password() from public, anon;
+grant execute on function public.clear_must_change_password() to authenticated;
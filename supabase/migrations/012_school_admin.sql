@@ -0,0 +1,195 @@
+-- The school administrator (headmaster).
+--
+-- Anyone could sign up as a teacher and see the students of the class they picked. Now a
+-- teacher's account waits for an administrator's approval, and until then (or once it is
+-- deactivated) carries no more rights than a signed-in stranger. Administrators approve
+-- teachers, move them to another class, deactivate and reactivate accounts, and read
+-- every class's courses and progress for the school's analytics.
+--
+-- Nobody can sign up as an administrator. Make the headmaster one from the SQL editor:
+--     update public.profiles set role = 'Admin', status = 'active' where username = '...';
+
+-- The role column may be an enum; text roles take the new value as they are.
+do $$
+declare
+    role_type regtype;
+begin
+    select atttypid::regtype into role_type
+    from pg_attribute where attrelid = 'public.profiles'::regclass and attname = 'role';
+    if exists (select 1 from pg_type where oid = role_type and typtype = 'e') then
+        execute format('alter type %s add value if not exists %L', role_type, 'Admin');
+    end if;
+end;
+$$;
+
+-- Accounts that exist already stay usable.
+alter table public.profiles
+    add column if not exists status text not null default 'active'
+        check (status in ('pending', 'active', 'deactivated'));
+
+-- Only an active account has the rights of its role, in every policy that asks.
+create or replace function public.current_profile_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select role::text from public.profiles where id = auth.uid() and status = 'active';
+$$;
+
+create or replace function public.teaches_student(student text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1
+        from public.profiles teacher
+        join public.profiles pupil on pupil.class = teacher.class
+        where teacher.id = auth.uid()
+          and teacher.role::text = 'Teacher'
+          and teacher.status = 'active'
+          and pupil.id::text = student
+    );
+$$;
+
+-- --- Profiles ---
+
+-- Students start out active, teachers pending; the rest is up to an administrator.
+drop policy if exists "Users create their own profile" on public.profiles;
+create policy "Users create their own profile"
+    on public.profiles for insert
+    to authenticated
+    with check (
+        id = auth.uid()
+        and ((role::text = 'Student' and status = 'active') or (role::text = 'Teacher' and status = 'pending'))
+    );
+
+-- Users may still update their own profile, but not their role or class (see 004), nor now
+-- their status. They still can't clear must_change_password either (see 011).
+create or replace function public.guard_profile_update()
+returns trigger
+language plpgsql
+as $$
+begin
+    -- The functions below run as the owner, not as the signed-in user.
+    if current_user = 'authenticated' and (
+        new.role is distinct from old.role
+        or new.class is distinct from old.class
+        or new.status is distinct from old.status
+    ) then
+        raise exception 'Only an administrator can change a role, class or status' using errcode = '42501';
+    end if;
+    if current_user = 'authenticated' and old.must_change_password and not new.must_change_password then
+        raise exception 'Only changing the password clears must_change_password' using errcode = '42501';
+    end if;
+    if current_user = 'authenticated' and new.password_reset_at is distinct from old.password_reset_at then
+        raise exception 'Only a password reset sets password_reset_at' using errcode = '42501';
+    end if;
+    return new;
+end;
+$$;
+
+-- --- School-wide reads for administrators (next to those of 004 and 009) ---
+
+drop policy if exists "Administrators read all profiles" on public.profiles;
+create policy "Administrators read all profiles"
+    on public.profiles for select
+    to authenticated
+    using (public.current_profile_role() = 'Admin');
+
+drop policy if exists "Administrators read all courses" on public.courses;
+create policy "Administrators read all courses"
+    on public.courses for select
+    to authenticated
+    using (public.current_profile_role() = 'Admin');
+
+drop policy if exists "Administrators read all lessons" on public.lessons;
+create policy "Administrators read all lessons"
+    on public.lessons for select
+    to authenticated
+    using (public.current_profile_role() = 'Admin');
+
+drop policy if exists "Administrators read all progress" on public.student_progress;
+create policy "Administrators read all progress"
+    on public.student_progress for select
+    to authenticated
+    using (public.current_profile_role() = 'Admin');
+
+drop policy if exists "Administrators read all video reports" on public.video_integrity_reports;
+create policy "Administrators read all video reports"
+    on public.video_integrity_reports for select
+    to authenticated
+    using (public.current_profile_role() = 'Admin');
+
+-- --- Account management ---
+
+-- Approves a pending teacher ('active'), or deactivates or reactivates any account but the
+-- administrator's own. A deactivated account can't sign in, and its sessions end.
+create or replace function public.set_account_status(target_user_id uuid, new_status text)
+returns public.profiles
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    updated public.profiles;
+begin
+    if public.current_profile_role() is distinct from 'Admin' then
+        raise exception 'Only an administrator can change accounts' using errcode = '42501';
+    end if;
+    if target_user_id = auth.uid() then
+        raise exception 'Administrators can''t change their own account' using errcode = '42501';
+    end if;
+    if new_status not in ('active', 'deactivated') then
+        raise exception 'Unknown account status' using errcode = '22023';
+    end if;
+
+    update public.profiles set status = new_status where id = target_user_id
+    returning * into updated;
+    if not found then
+        raise exception 'No such account' using errcode = 'P0002';
+    end if;
+    update auth.users
+    set banned_until = case when new_status = 'deactivated' then 'infinity'::timestamptz end
+    where id = target_user_id;
+    if new_status = 'deactivated' then
+        delete from auth.sessions where user_id = target_user_id;
+    end if;
+    return updated;
+end;
+$$;
+
+create or replace function public.assign_teacher_class(target_user_id uuid, new_class integer)
+returns public.profiles
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    updated public.profiles;
+begin
+    if public.current_profile_role() is distinct from 'Admin' then
+        raise exception 'Only an administrator can assign classes' using errcode = '42501';
+    end if;
+    if new_class not between 1 and 12 then
+        raise exception 'Classes run from 1 to 12' using errcode = '22023';
+    end if;
+
+    update public.profiles set class = new_class
+    where id = target_user_id and role::text = 'Teacher'
+    returning * into updated;
+    if not found then
+        raise exception 'No such teacher' using errcode = 'P0002';
+    end if;
+    return updated;
+end;
+$$;
+
+revoke all on function public.set_account_status(uuid, text) from public, anon;
+grant execute on function public.set_account_status(uuid, text) to authenticated;
+revoke all on function public.assign_teacher_class(uuid, integer) from public, anon;
+grant execute on function public.assign_teacher_class(uuid, integer) to authenticated;
@@ -7,11 +7,17 @@ export interface User {
   username: string; // From our 'profiles' table
   role: UserRole;   // From our 'profiles' table
   class: number;    // From our 'profiles' table
+  mustChangePassword?: boolean; // A teacher reset the password; the user picks a new one before going on
+  status?: AccountStatus; // From our 'profiles' table; undefined means active
 }
 
+// Teachers are 'pending' until an administrator approves them; administrators can
+// deactivate any account (see services/adminService.ts).
+export type AccountStatus = 'pending' | 'active' | 'deactivated';
+
 export interface Student extends User {
   role: UserRole.STUDENT;
-  name: string; // Same as username
+  name: string; // The full name from the teacher's class list, else the username
 }
 
 export interface Teacher extends User {
@@ -39,9 +45,14 @@ export interface Lesson {
   summary?: string;
   videoUrl?: string;
   hasOfflineVideo?: boolean; // Flag for teacher-uploaded videos stored in IndexedDB
+  videoPath?: string; // Teacher-uploaded video's object in shared storage
+  videoHash?: string; // SHA-256 of the uploaded video, hex; devices check their copies against it
+  videoEvicted?: boolean; // Known only locally: the video was removed (or never kept) for lack of space, and is downloaded again only on request
   transcript?: TranscriptEntry[];
   quiz: QuizQuestion[];
   difficulty?: 'Easy' | 'Medium' | 'Hard';
+  order?: number; // Position in its course; lessons are listed in ascending order
+  version?: number; // Server version this copy is based on; undefined until first synced
 }
 
 export interface Course {
@@ -52,6 +63,7 @@ export interface Course {
   lessons: Lesson[];
   authorId: string; // Link course to the teacher who created it
   forClass: number;
+  version?: number; // Server version this copy is based on; undefined until first synced
 }
 
 // --- Progress Tracking ---
@@ -79,6 +91,27 @@ export interface StudentProgress {
   studentName: string;
   courseProgress: CourseProgress[];
   scoreHistory: ScoreHistory[];
+  version?: number; // Server version this copy is based on; undefined until first synced
+  // Quiz attempts made on this device that the server hasn't seen yet, keyed by lessonId.
+  // Lets a stale push be merged by adding our attempts on top of the server's count.
+  pendingAttempts?: Record<string, number>;
+}
+
+// A student's device found its copy of a lesson's video broken, or has since fetched it again.
+export interface VideoIntegrityReport {
+  studentId: string;
+  lessonId: string;
+  status: 'broken' | 'repaired';
+  detail?: string;
+  reportedAt: number;
+}
+
+// A teacher gave a student a new password (see services/passwordResetService.ts).
+export interface PasswordReset {
+  id: number;
+  studentId: string;
+  resetBy: string | null; // Null once the teacher's account is gone
+  resetAt: number;
 }
 
 // Fix: Add and export SearchResult type to be used across the application.
@@ -1,15 +1,44 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { build, defineConfig, loadEnv, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+// The service worker imports the sync code (see services/backgroundSync.ts), so it is built
+// on its own after the app, as one classic script: browsers without module workers (Firefox
+// before 114, older Android WebViews) couldn't register it otherwise. It keeps a fixed name
+// at the root, as registered in index.tsx, so its scope is the whole app.
+const serviceWorkerBuild = (define: Record<string, string>): Plugin => ({
+  name: 'vidyalehar-service-worker',
+  apply: 'build',
+  async closeBundle() {
+    await build({
+      configFile: false,
+      logLevel: 'warn',
+      define: { ...define, 'process.env.NODE_ENV': JSON.stringify('production') },
+      build: {
+        emptyOutDir: false,
+        copyPublicDir: false,
+        lib: {
+          entry: path.resolve(__dirname, 'service-worker.js'),
+          formats: ['iife'],
+          name: 'vidyaleharServiceWorker',
+          fileName: () => 'service-worker.js',
+        },
+      },
+    });
+  },
+});
+
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    const define = {
+      'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+      'process.env.SYNC_BACKEND': JSON.stringify(env.SYNC_BACKEND || 'supabase'),
+      'process.env.SERVICE_WORKER_TYPE': JSON.stringify(command === 'serve' ? 'module' : 'classic'),
+    };
     return {
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), serviceWorkerBuild(define)],
+      define,
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),